@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Plus, X } from "lucide-react";
+
+export interface AliasItem {
+  id: string;
+  alias: string;
+  source: string;
+}
+
+interface AliasEditorProps {
+  aliases: AliasItem[];
+  onAdd: (alias: string) => Promise<boolean>;
+  onRemove: (alias: AliasItem) => void;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Alternative names as removable badges plus an input to add new ones
+ */
+export const AliasEditor = ({ aliases, onAdd, onRemove, placeholder, disabled }: AliasEditorProps) => {
+  const [value, setValue] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  const handleAdd = async () => {
+    const alias = value.trim();
+    if (!alias) return;
+
+    setAdding(true);
+    const added = await onAdd(alias);
+    setAdding(false);
+    if (added) setValue('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {aliases.length === 0 ? (
+          <span className="text-sm text-muted-foreground">Sin alias</span>
+        ) : (
+          aliases.map(alias => (
+            <Badge
+              key={alias.id}
+              variant={alias.source === 'manual' ? 'secondary' : 'outline'}
+              className="gap-1"
+              title={alias.source === 'manual' ? 'Añadido manualmente' : 'Aprendido al confirmar una importación'}
+            >
+              {alias.alias}
+              {!disabled && (
+                <button type="button" onClick={() => onRemove(alias)} aria-label={`Eliminar ${alias.alias}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </Badge>
+          ))
+        )}
+      </div>
+      {!disabled && (
+        <div className="flex gap-2">
+          <Input
+            value={value}
+            placeholder={placeholder}
+            onChange={(e) => setValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          />
+          <Button variant="outline" size="icon" onClick={handleAdd} disabled={adding || !value.trim()}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
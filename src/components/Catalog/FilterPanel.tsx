@@ -17,6 +17,7 @@ import {
   ShoppingCart
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ALLERGENS } from '@shared/allergens';
 
 interface FilterPanelProps {
   searchTerm: string;
@@ -39,10 +40,7 @@ interface FilterPanelProps {
   className?: string;
 }
 
-const commonAllergens = [
-  'Gluten', 'Lactosa', 'Huevos', 'Frutos secos', 'Cacahuetes', 
-  'Soja', 'Pescado', 'Mariscos', 'Apio', 'Mostaza', 'Sésamo', 'Sulfitos'
-];
+const commonAllergens = ALLERGENS.map(allergen => allergen.label);
 
 export const FilterPanel = ({
   searchTerm,
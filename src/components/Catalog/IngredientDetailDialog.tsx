@@ -0,0 +1,371 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useTaxProfiles } from '@/hooks/useTaxProfiles';
+import { useTaxonomy } from '@/hooks/useTaxonomy';
+import { useAuth } from '@/contexts/AuthContext';
+import { AliasService, type IngredientAlias } from '@/services/AliasService';
+import { AliasEditor } from '@/components/Aliases/AliasEditor';
+import { convertQuantity } from '@shared/units';
+import { resolveTaxRate, TAX_CATEGORIES, TAX_CATEGORY_LABELS, type TaxCategory } from '@shared/tax';
+import { ALLERGENS, type AllergenCode, type AllergenEntry, type AllergenStatus } from '@shared/allergens';
+import { flattenTree, nodePath, type ClassificationStatus } from '@shared/taxonomy';
+import { Badge } from '@/components/ui/badge';
+import { Scale, Save, Receipt, Tags, ShieldAlert, FolderTree } from 'lucide-react';
+
+export interface IngredientDetail {
+  id: string;
+  name: string;
+  category: string;
+  family: string;
+  unit_base: string;
+  density_kg_per_l: number | null;
+  piece_weight_kg: number | null;
+  tax_category: TaxCategory;
+  allergens: AllergenEntry[];
+  taxonomy_node_id: string | null;
+  classification_status: ClassificationStatus;
+  unmatched_category: string | null;
+}
+
+const UNCLASSIFIED = 'none';
+
+interface IngredientDetailDialogProps {
+  ingredient: IngredientDetail | null;
+  onClose: () => void;
+  onUpdated: (ingredient: IngredientDetail) => void;
+}
+
+const parseOptionalNumber = (value: string): number | null => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return isNaN(parsed) || parsed <= 0 ? null : parsed;
+};
+
+export const IngredientDetailDialog = ({ ingredient, onClose, onUpdated }: IngredientDetailDialogProps) => {
+  const [density, setDensity] = useState('');
+  const [pieceWeight, setPieceWeight] = useState('');
+  const [taxCategory, setTaxCategory] = useState<TaxCategory>('general');
+  const [saving, setSaving] = useState(false);
+  const [aliases, setAliases] = useState<IngredientAlias[]>([]);
+  const [allergens, setAllergens] = useState<AllergenEntry[]>([]);
+  const [taxonomyNodeId, setTaxonomyNodeId] = useState<string>(UNCLASSIFIED);
+  const { defaultProfile } = useTaxProfiles();
+  const { tree } = useTaxonomy();
+  const { currentOrganization } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setDensity(ingredient?.density_kg_per_l?.toString() || '');
+    setPieceWeight(ingredient?.piece_weight_kg ? (ingredient.piece_weight_kg * 1000).toString() : '');
+    setTaxCategory(ingredient?.tax_category || 'general');
+    setAllergens(ingredient?.allergens || []);
+    setTaxonomyNodeId(ingredient?.taxonomy_node_id || UNCLASSIFIED);
+  }, [ingredient]);
+
+  useEffect(() => {
+    setAliases([]);
+    if (!ingredient) return;
+
+    AliasService.getIngredientAliases(ingredient.id)
+      .then(setAliases)
+      .catch(error => console.error('Error loading aliases:', error));
+  }, [ingredient]);
+
+  if (!ingredient) return null;
+
+  const densityValue = parseOptionalNumber(density);
+  const pieceWeightGrams = parseOptionalNumber(pieceWeight);
+  const profile = {
+    densityKgPerL: densityValue,
+    pieceWeightKg: pieceWeightGrams ? pieceWeightGrams / 1000 : null
+  };
+
+  // Quick sanity preview of what the current values mean for recipe costing
+  const previews = [
+    { label: '1 L', value: convertQuantity(1, 'L', 'kg', profile), unit: 'kg' },
+    { label: '1 ud', value: convertQuantity(1, 'ud', 'g', profile), unit: 'g' }
+  ].filter(p => p.value !== null);
+
+  const allergenEntry = (code: AllergenCode) => allergens.find(entry => entry.code === code);
+  const pendingAllergens = allergens.filter(entry => entry.status === 'suggested');
+
+  // Clicking the active decision again clears it back to "not reviewed"
+  const setAllergenStatus = (code: AllergenCode, status: Exclude<AllergenStatus, 'suggested'>) => {
+    setAllergens(prev => {
+      const current = prev.find(entry => entry.code === code);
+      const rest = prev.filter(entry => entry.code !== code);
+      if (current?.status === status) return rest;
+      const next: AllergenEntry = current ? { ...current, status } : { code, status, source: 'manual' };
+      return ALLERGENS.map(a => a.code === code ? next : rest.find(entry => entry.code === a.code))
+        .filter((entry): entry is AllergenEntry => !!entry);
+    });
+  };
+
+  const confirmSuggestedAllergens = () => {
+    setAllergens(prev => prev.map(entry => entry.status === 'suggested' ? { ...entry, status: 'confirmed' } : entry));
+  };
+
+  const handleAddAlias = async (alias: string): Promise<boolean> => {
+    if (!currentOrganization) return false;
+
+    const result = await AliasService.addIngredientAlias(currentOrganization.organization_id, ingredient.id, alias);
+    if (!result.success) {
+      toast({
+        title: "No se pudo añadir el alias",
+        description: result.error,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    setAliases(await AliasService.getIngredientAliases(ingredient.id));
+    return true;
+  };
+
+  const handleRemoveAlias = async (alias: { id: string }) => {
+    const result = await AliasService.removeIngredientAlias(alias.id);
+    if (!result.success) {
+      toast({
+        title: "No se pudo eliminar el alias",
+        description: result.error,
+        variant: "destructive",
+      });
+      return;
+    }
+    setAliases(prev => prev.filter(a => a.id !== alias.id));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const nodeId = taxonomyNodeId === UNCLASSIFIED ? null : taxonomyNodeId;
+      // Saving is the review: whatever is selected becomes a manual classification
+      const classification = nodeId
+        ? {
+            taxonomy_node_id: nodeId,
+            ...nodePath(tree, nodeId),
+            classification_status: 'manual' as ClassificationStatus,
+            unmatched_category: null
+          }
+        : {};
+
+      const updates = {
+        density_kg_per_l: profile.densityKgPerL,
+        piece_weight_kg: profile.pieceWeightKg,
+        tax_category: taxCategory,
+        allergens,
+        ...classification
+      };
+
+      const { error } = await supabase
+        .from('ingredients')
+        .update(updates)
+        .eq('id', ingredient.id);
+
+      if (error) throw error;
+
+      onUpdated({ ...ingredient, ...updates });
+      toast({
+        title: "Ingrediente actualizado",
+        description: "Cambios guardados",
+      });
+    } catch (error) {
+      console.error('Error updating ingredient:', error);
+      toast({
+        title: "Error",
+        description: "No se pudieron guardar los cambios",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!ingredient} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{ingredient.name}</DialogTitle>
+          <DialogDescription>
+            {ingredient.category || 'Sin categoría'} • {ingredient.family || 'Sin familia'} • Unidad base: {ingredient.unit_base}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <FolderTree className="h-4 w-4" />
+            Clasificación
+            {ingredient.classification_status === 'pending' && (
+              <Badge variant="outline" className="text-warning border-warning">Pendiente de revisar</Badge>
+            )}
+            {ingredient.classification_status === 'auto' && (
+              <Badge variant="secondary">Automática</Badge>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Select value={taxonomyNodeId} onValueChange={setTaxonomyNodeId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNCLASSIFIED}>Sin clasificar</SelectItem>
+                {flattenTree(tree).map(({ node, depth }) => (
+                  <SelectItem key={node.id} value={node.id}>
+                    <span style={{ paddingLeft: depth * 12 }}>{node.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {ingredient.unmatched_category && (
+              <p className="text-xs text-muted-foreground">
+                El archivo importado indicaba "{ingredient.unmatched_category}", que no existe en la taxonomía
+              </p>
+            )}
+            {tree.nodes.size === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Define las categorías en Configuración › Categorías
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2 text-sm font-medium pt-2">
+            <Scale className="h-4 w-4" />
+            Conversión de unidades
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="density">Densidad (kg/L)</Label>
+              <Input
+                id="density"
+                inputMode="decimal"
+                placeholder="Ej: 0,92"
+                value={density}
+                onChange={(e) => setDensity(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="piece_weight">Peso por unidad (g)</Label>
+              <Input
+                id="piece_weight"
+                inputMode="decimal"
+                placeholder="Ej: 60"
+                value={pieceWeight}
+                onChange={(e) => setPieceWeight(e.target.value)}
+              />
+            </div>
+          </div>
+          {previews.length > 0 && (
+            <div className="text-xs text-muted-foreground">
+              {previews.map(p => `${p.label} = ${p.value!.toFixed(3)} ${p.unit}`).join(' • ')}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 text-sm font-medium pt-2">
+            <Receipt className="h-4 w-4" />
+            Fiscalidad
+          </div>
+          <div className="space-y-2">
+            <Label>Categoría fiscal</Label>
+            <Select value={taxCategory} onValueChange={(value) => setTaxCategory(value as TaxCategory)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TAX_CATEGORIES.map(category => (
+                  <SelectItem key={category} value={category}>
+                    {TAX_CATEGORY_LABELS[category]}
+                    {defaultProfile && ` — ${resolveTaxRate(defaultProfile, category)}% ${defaultProfile.regime}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between pt-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <ShieldAlert className="h-4 w-4" />
+              Alérgenos
+              {pendingAllergens.length > 0 && (
+                <Badge variant="outline" className="text-warning border-warning">
+                  {pendingAllergens.length} por revisar
+                </Badge>
+              )}
+            </div>
+            {pendingAllergens.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={confirmSuggestedAllergens}>
+                Confirmar sugeridos
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Las sugerencias automáticas no cuentan como declaradas hasta que las confirmes
+          </p>
+          <div className="space-y-1">
+            {ALLERGENS.map(({ code, label }) => {
+              const entry = allergenEntry(code);
+              return (
+                <div key={code} className="flex items-center justify-between gap-2 text-sm">
+                  <div className="min-w-0">
+                    <span className={entry?.status === 'absent' ? 'text-muted-foreground line-through' : ''}>{label}</span>
+                    {entry?.status === 'suggested' && (
+                      <span className="ml-2 text-xs text-warning">
+                        Sugerido{entry.evidence && ` por "${entry.evidence}"`}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button
+                      variant={entry?.status === 'confirmed' ? 'default' : 'outline'}
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => setAllergenStatus(code, 'confirmed')}
+                    >
+                      Contiene
+                    </Button>
+                    <Button
+                      variant={entry?.status === 'absent' ? 'secondary' : 'outline'}
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => setAllergenStatus(code, 'absent')}
+                    >
+                      No contiene
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center gap-2 text-sm font-medium pt-2">
+            <Tags className="h-4 w-4" />
+            Alias
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Nombres con los que aparece en albaranes y tarifas; las importaciones los asocian a este ingrediente
+          </p>
+          <AliasEditor
+            aliases={aliases}
+            onAdd={handleAddAlias}
+            onRemove={handleRemoveAlias}
+            placeholder="Ej: Aceite Oliva V.E. 5L"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cerrar
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
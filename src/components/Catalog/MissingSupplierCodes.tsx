@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { SupplierCodeService, type MissingSupplierCode } from '@/services/SupplierCodeService';
+import { PackageX } from 'lucide-react';
+
+interface MissingSupplierCodesProps {
+  organizationId: string;
+  className?: string;
+}
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString('es-ES') : '—');
+
+/**
+ * Coded supplier products that the supplier's latest price list no longer includes:
+ * discontinued articles or codes the supplier changed
+ */
+export const MissingSupplierCodes = ({ organizationId, className }: MissingSupplierCodesProps) => {
+  const [missing, setMissing] = useState<MissingSupplierCode[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    SupplierCodeService.getMissingCodes(organizationId)
+      .then(setMissing)
+      .catch(error => {
+        console.error('Error loading missing supplier codes:', error);
+        toast({
+          title: 'Error',
+          description: 'No se pudieron cargar los códigos desaparecidos',
+          variant: 'destructive'
+        });
+      });
+  }, [organizationId, toast]);
+
+  if (missing.length === 0) return null;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PackageX className="h-5 w-5 text-orange-500" />
+          Códigos desaparecidos
+          <Badge variant="secondary">{missing.length}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Productos que no aparecen en la última lista de precios de su proveedor
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Proveedor</TableHead>
+              <TableHead>Ingrediente</TableHead>
+              <TableHead>Código</TableHead>
+              <TableHead>Última lista con el código</TableHead>
+              <TableHead>Última lista del proveedor</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {missing.map(item => (
+              <TableRow key={item.supplier_product_id}>
+                <TableCell>{item.supplier_name}</TableCell>
+                <TableCell className="font-medium">{item.ingredient_name}</TableCell>
+                <TableCell className="font-mono text-xs">
+                  {[item.supplier_sku, item.ean].filter(Boolean).join(' · ')}
+                </TableCell>
+                <TableCell>
+                  {item.last_price_list_name ?? '—'}
+                  <div className="text-xs text-muted-foreground">{formatDate(item.last_seen_from)}</div>
+                </TableCell>
+                <TableCell>
+                  {item.latest_price_list_name}
+                  <div className="text-xs text-muted-foreground">{formatDate(item.latest_effective_from)}</div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
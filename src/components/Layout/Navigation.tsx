@@ -12,7 +12,8 @@ import {
   ChefHat,
   Utensils,
   Filter,
-  Users
+  Users,
+  Settings
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -103,6 +104,15 @@ const navigationItems = [
     badge: "Horarios",
     color: "bg-primary text-primary-foreground",
     roles: ['owner', 'admin', 'hr_manager', 'manager']
+  },
+  {
+    id: "settings",
+    label: "Configuración",
+    description: "Organización",
+    icon: Settings,
+    badge: "Impuestos",
+    color: "bg-secondary text-secondary-foreground",
+    roles: ['owner', 'admin', 'manager']
   }
 ];
 
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -10,6 +10,11 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
+import { useTaxProfiles } from "@/hooks/useTaxProfiles";
+import { COMMON_UNITS, convertQuantity, profileFromIngredient } from "@shared/units";
+import { resolveTaxRate, taxModeLabel, type TaxCategory, type TaxDisplayMode } from "@shared/tax";
+import { endOfDay, todayIso } from "@shared/priceVersions";
+import { PriceHistoryService, type DatedIngredientPrice } from "@/services/PriceHistoryService";
 import { 
   Plus, 
   Trash2, 
@@ -58,6 +63,9 @@ interface Ingredient {
   unit_base: string;
   avg_price: number;
   category: string;
+  density_kg_per_l: number | null;
+  piece_weight_kg: number | null;
+  tax_category: TaxCategory;
 }
 
 interface RecipeOption {
@@ -94,31 +102,24 @@ export const RecipeEditor = ({ recipeId, onSave, onCancel }: RecipeEditorProps)
   const [recipes, setRecipes] = useState<RecipeOption[]>([]);
   const [loading, setLoading] = useState(false);
   const [calculatedCost, setCalculatedCost] = useState<number>(0);
+  const [costTax, setCostTax] = useState<number>(0);
+  const [taxMode, setTaxMode] = useState<TaxDisplayMode>('net');
   const [foodCostPercentage, setFoodCostPercentage] = useState<number>(0);
+  const [unconvertibleLines, setUnconvertibleLines] = useState<number[]>([]);
+  const [unpricedLines, setUnpricedLines] = useState<number[]>([]);
+  const [priceDate, setPriceDate] = useState(todayIso());
+  const [datedPrices, setDatedPrices] = useState<Record<string, DatedIngredientPrice>>({});
 
   const { currentOrganization } = useAuth();
+  const { defaultProfile } = useTaxProfiles();
   const { toast } = useToast();
 
-  useEffect(() => {
-    if (currentOrganization) {
-      fetchIngredients();
-      fetchRecipes();
-      if (recipeId) {
-        fetchRecipe();
-      }
-    }
-  }, [currentOrganization, recipeId]);
-
-  useEffect(() => {
-    calculateCosts();
-  }, [recipeLines, formData.target_price]);
-
-  const fetchIngredients = async () => {
+  const fetchIngredients = useCallback(async () => {
     if (!currentOrganization) return;
 
     const { data, error } = await supabase
       .from('ingredients')
-      .select('id, name, unit_base, avg_price, category')
+      .select('id, name, unit_base, avg_price, category, density_kg_per_l, piece_weight_kg, tax_category')
       .eq('organization_id', currentOrganization.organization_id)
       .order('name');
 
@@ -128,9 +129,21 @@ export const RecipeEditor = ({ recipeId, onSave, onCancel }: RecipeEditorProps)
     }
 
     setIngredients(data || []);
-  };
+  }, [currentOrganization]);
+
+  // Supplier prices in force on the costing date; only today's costing falls back to avg_price
+  const fetchDatedPrices = useCallback(async () => {
+    if (!currentOrganization) return;
+
+    try {
+      setDatedPrices(await PriceHistoryService.loadIngredientPricesAt(currentOrganization.organization_id, endOfDay(priceDate)));
+    } catch (error) {
+      console.error('Error fetching prices for date:', error);
+      setDatedPrices({});
+    }
+  }, [currentOrganization, priceDate]);
 
-  const fetchRecipes = async () => {
+  const fetchRecipes = useCallback(async () => {
     if (!currentOrganization) return;
 
     const { data, error } = await supabase
@@ -147,9 +160,9 @@ export const RecipeEditor = ({ recipeId, onSave, onCancel }: RecipeEditorProps)
     }
 
     setRecipes(data || []);
-  };
+  }, [currentOrganization, recipeId]);
 
-  const fetchRecipe = async () => {
+  const fetchRecipe = useCallback(async () => {
     if (!recipeId || !currentOrganization) return;
 
     setLoading(true);
@@ -200,31 +213,81 @@ export const RecipeEditor = ({ recipeId, onSave, onCancel }: RecipeEditorProps)
     } finally {
       setLoading(false);
     }
-  };
+  }, [currentOrganization, recipeId, toast]);
 
-  const calculateCosts = async () => {
+  const calculateCosts = useCallback(() => {
     let totalCost = 0;
+    let totalTax = 0;
+    const unconvertible: number[] = [];
+    const unpriced: number[] = [];
+    const historical = priceDate !== todayIso();
 
-    for (const line of recipeLines) {
+    recipeLines.forEach((line, index) => {
       if (line.component_type === 'ingredient' && line.ingredient_id) {
         const ingredient = ingredients.find(i => i.id === line.ingredient_id);
-        if (ingredient && ingredient.avg_price) {
-          const lineCost = line.quantity * ingredient.avg_price * (1 - line.loss_pct / 100);
+        const dated = ingredient ? datedPrices[ingredient.id] : undefined;
+        // Today's average cost says nothing about another date
+        if (ingredient && !dated && historical) {
+          unpriced.push(index);
+          return;
+        }
+        const unitPrice = dated?.unitPrice ?? ingredient?.avg_price;
+        if (ingredient && unitPrice) {
+          // Both prices are per base unit (the pack's or unit_base), so express the line quantity in it first
+          const quantityInBase = convertQuantity(
+            line.quantity,
+            line.unit,
+            dated?.unit || ingredient.unit_base || 'kg',
+            profileFromIngredient(ingredient)
+          );
+
+          if (quantityInBase === null) {
+            unconvertible.push(index);
+            return;
+          }
+
+          // Prices are net; the tax depends on the product's category in the organization's regime
+          const lineCost = quantityInBase * unitPrice * (1 - line.loss_pct / 100);
           totalCost += lineCost;
+          totalTax += lineCost * resolveTaxRate(defaultProfile, ingredient.tax_category) / 100;
         }
       }
       // TODO: Handle recipe components
-    }
+    });
 
-    setCalculatedCost(totalCost);
+    const displayedCost = taxMode === 'gross' ? totalCost + totalTax : totalCost;
+    setCalculatedCost(displayedCost);
+    setCostTax(totalTax);
+    setUnconvertibleLines(unconvertible);
+    setUnpricedLines(unpriced);
 
     if (formData.target_price && formData.target_price > 0) {
-      const foodCost = (totalCost / formData.target_price) * 100;
+      const foodCost = (displayedCost / formData.target_price) * 100;
       setFoodCostPercentage(foodCost);
     } else {
       setFoodCostPercentage(0);
     }
-  };
+  }, [recipeLines, ingredients, datedPrices, priceDate, formData.target_price, taxMode, defaultProfile]);
+
+  useEffect(() => {
+    if (currentOrganization) {
+      fetchIngredients();
+      fetchRecipes();
+      if (recipeId) {
+        fetchRecipe();
+      }
+    }
+  }, [currentOrganization, recipeId, fetchIngredients, fetchRecipes, fetchRecipe]);
+
+  useEffect(() => {
+    if (currentOrganization && priceDate) {
+      fetchDatedPrices();
+    }
+  }, [currentOrganization, priceDate, fetchDatedPrices]);
+
+  useEffect(() => {
+    calculateCosts();
+  }, [calculateCosts]);
 
   const addRecipeLine = () => {
     const newLine: RecipeLine = {
@@ -568,11 +631,34 @@ export const RecipeEditor = ({ recipeId, onSave, onCancel }: RecipeEditorProps)
                           />
                         </TableCell>
                         <TableCell>
-                          <Input
+                          <Select
                             value={line.unit}
-                            onChange={(e) => updateRecipeLine(index, { unit: e.target.value })}
-                            className="w-16"
-                          />
+                            onValueChange={(value) => updateRecipeLine(index, { unit: value })}
+                          >
+                            <SelectTrigger className="w-20">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {!COMMON_UNITS.includes(line.unit) && (
+                                <SelectItem value={line.unit}>{line.unit}</SelectItem>
+                              )}
+                              {COMMON_UNITS.map(unit => (
+                                <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {unconvertibleLines.includes(index) && (
+                            <div className="flex items-center gap-1 text-xs text-destructive mt-1">
+                              <AlertTriangle className="h-3 w-3" />
+                              Sin conversión
+                            </div>
+                          )}
+                          {unpricedLines.includes(index) && (
+                            <div className="flex items-center gap-1 text-xs text-destructive mt-1">
+                              <AlertTriangle className="h-3 w-3" />
+                              Sin precio en esta fecha
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell>
                           <Input
@@ -609,6 +695,25 @@ export const RecipeEditor = ({ recipeId, onSave, onCancel }: RecipeEditorProps)
                 <Calculator className="h-5 w-5" />
                 Análisis de Costes
               </CardTitle>
+              <Select value={taxMode} onValueChange={(value) => setTaxMode(value as TaxDisplayMode)}>
+                <SelectTrigger className="h-8 w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="net">Costes {taxModeLabel('net', defaultProfile?.regime)}</SelectItem>
+                  <SelectItem value="gross">Costes {taxModeLabel('gross', defaultProfile?.regime)}</SelectItem>
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="price_date" className="text-sm text-muted-foreground">Precios a fecha</Label>
+                <Input
+                  id="price_date"
+                  type="date"
+                  value={priceDate}
+                  onChange={(e) => setPriceDate(e.target.value)}
+                  className="h-8 w-40"
+                />
+              </div>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
@@ -616,6 +721,24 @@ export const RecipeEditor = ({ recipeId, onSave, onCancel }: RecipeEditorProps)
                   <span className="text-sm text-muted-foreground">Coste ingredientes:</span>
                   <span className="font-medium">€{calculatedCost.toFixed(2)}</span>
                 </div>
+                {taxMode === 'gross' && costTax > 0 && (
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>de los cuales {defaultProfile?.regime || 'impuestos'}:</span>
+                    <span>€{costTax.toFixed(2)}</span>
+                  </div>
+                )}
+                {unconvertibleLines.length > 0 && (
+                  <div className="text-xs text-destructive">
+                    {unconvertibleLines.length} línea(s) sin coste: la unidad no se puede convertir a la del ingrediente.
+                    Indica densidad o peso por unidad en el catálogo.
+                  </div>
+                )}
+                {unpricedLines.length > 0 && (
+                  <div className="text-xs text-destructive">
+                    {unpricedLines.length} línea(s) sin coste: ningún proveedor tenía precio vigente el{' '}
+                    {endOfDay(priceDate).toLocaleDateString()}.
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-sm text-muted-foreground">Coste por unidad:</span>
                   <span className="font-medium">
@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTaxProfiles } from "@/hooks/useTaxProfiles";
+import { supabase } from "@/integrations/supabase/client";
+import { TAX_REGIME_PRESETS, type TaxProfile, type TaxRegime } from "@shared/tax";
+import { Plus, Save, Star, Trash2, Receipt } from "lucide-react";
+
+type EditableProfile = Omit<TaxProfile, 'created_at' | 'updated_at'>;
+
+const RATE_FIELDS: { key: 'zero_rate' | 'super_reduced_rate' | 'reduced_rate' | 'general_rate'; label: string }[] = [
+  { key: 'zero_rate', label: 'Tipo cero (%)' },
+  { key: 'super_reduced_rate', label: 'Superreducido (%)' },
+  { key: 'reduced_rate', label: 'Reducido (%)' },
+  { key: 'general_rate', label: 'General (%)' }
+];
+
+const parseRate = (value: string): number | null => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return isNaN(parsed) || parsed < 0 ? null : parsed;
+};
+
+export const TaxProfilesSettings = () => {
+  const { profiles, loading, refresh } = useTaxProfiles();
+  const [drafts, setDrafts] = useState<Record<string, Partial<EditableProfile>>>({});
+  const [newRegime, setNewRegime] = useState<TaxRegime>('IVA');
+  const [saving, setSaving] = useState<string | null>(null);
+  const { currentOrganization } = useAuth();
+  const { toast } = useToast();
+
+  const valueOf = <K extends keyof EditableProfile>(profile: TaxProfile, key: K): EditableProfile[K] => {
+    const draft = drafts[profile.id];
+    return draft && key in draft ? (draft[key] as EditableProfile[K]) : profile[key];
+  };
+
+  const updateDraft = (id: string, changes: Partial<EditableProfile>) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const notifyError = (description: string, error: unknown) => {
+    console.error(description, error);
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const createProfile = async () => {
+    if (!currentOrganization) return;
+
+    const { label, ...rates } = TAX_REGIME_PRESETS[newRegime];
+    const { error } = await supabase
+      .from('tax_profiles')
+      .insert({
+        organization_id: currentOrganization.organization_id,
+        name: label,
+        regime: newRegime,
+        ...rates,
+        is_default: profiles.length === 0
+      });
+
+    if (error) {
+      notifyError("No se pudo crear el perfil fiscal", error);
+      return;
+    }
+
+    await refresh();
+  };
+
+  const saveProfile = async (profile: TaxProfile) => {
+    const draft = drafts[profile.id];
+    if (!draft) return;
+
+    setSaving(profile.id);
+    const { error } = await supabase
+      .from('tax_profiles')
+      .update(draft)
+      .eq('id', profile.id);
+    setSaving(null);
+
+    if (error) {
+      notifyError("No se pudieron guardar los tipos", error);
+      return;
+    }
+
+    setDrafts(prev => {
+      const { [profile.id]: _saved, ...rest } = prev;
+      return rest;
+    });
+    await refresh();
+    toast({
+      title: "Perfil actualizado",
+      description: `${valueOf(profile, 'name')} guardado`,
+    });
+  };
+
+  const makeDefault = async (profile: TaxProfile) => {
+    // Clear the current default first: the unique index allows only one per organization
+    const { error: clearError } = await supabase
+      .from('tax_profiles')
+      .update({ is_default: false })
+      .eq('organization_id', profile.organization_id)
+      .eq('is_default', true);
+
+    const { error } = clearError
+      ? { error: clearError }
+      : await supabase.from('tax_profiles').update({ is_default: true }).eq('id', profile.id);
+
+    if (error) {
+      notifyError("No se pudo cambiar el perfil por defecto", error);
+    }
+    await refresh();
+  };
+
+  const deleteProfile = async (profile: TaxProfile) => {
+    const { error } = await supabase
+      .from('tax_profiles')
+      .delete()
+      .eq('id', profile.id);
+
+    if (error) {
+      notifyError("No se pudo eliminar el perfil", error);
+      return;
+    }
+    await refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="h-5 w-5" />
+          Perfiles fiscales
+        </CardTitle>
+        <CardDescription>
+          El perfil por defecto resuelve el tipo de cada producto según su categoría fiscal (cero, superreducido, reducido o general)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Cargando perfiles...</p>
+        ) : profiles.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No hay perfiles fiscales. Crea uno para empezar.</p>
+        ) : (
+          profiles.map(profile => (
+            <div key={profile.id} className="border rounded-lg p-4 space-y-4">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 flex-1">
+                  <Input
+                    value={valueOf(profile, 'name')}
+                    onChange={(e) => updateDraft(profile.id, { name: e.target.value })}
+                    className="max-w-xs"
+                  />
+                  <Badge variant="outline">{profile.regime}</Badge>
+                  {profile.is_default && <Badge>Por defecto</Badge>}
+                </div>
+                <div className="flex items-center gap-2">
+                  {!profile.is_default && (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={() => makeDefault(profile)}>
+                        <Star className="h-4 w-4 mr-1" />
+                        Usar por defecto
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => deleteProfile(profile)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    size="sm"
+                    onClick={() => saveProfile(profile)}
+                    disabled={!drafts[profile.id] || saving === profile.id}
+                  >
+                    <Save className="h-4 w-4 mr-1" />
+                    Guardar
+                  </Button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {RATE_FIELDS.map(field => {
+                  const value = valueOf(profile, field.key);
+                  return (
+                    <div key={field.key} className="space-y-1">
+                      <Label className="text-xs">{field.label}</Label>
+                      <Input
+                        inputMode="decimal"
+                        value={value === null || value === undefined ? '' : String(value)}
+                        placeholder={field.key === 'super_reduced_rate' ? 'Usa el reducido' : ''}
+                        onChange={(e) => {
+                          const rate = parseRate(e.target.value);
+                          if (field.key === 'super_reduced_rate') {
+                            updateDraft(profile.id, { super_reduced_rate: rate });
+                          } else if (rate !== null) {
+                            updateDraft(profile.id, { [field.key]: rate });
+                          }
+                        }}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`included-${profile.id}`}
+                  checked={valueOf(profile, 'prices_include_tax')}
+                  onCheckedChange={(checked) => updateDraft(profile.id, { prices_include_tax: checked })}
+                />
+                <Label htmlFor={`included-${profile.id}`} className="text-sm">
+                  Las tarifas de proveedores se importan con impuesto incluido
+                </Label>
+              </div>
+            </div>
+          ))
+        )}
+
+        <div className="flex items-center gap-2 pt-2">
+          <Select value={newRegime} onValueChange={(value) => setNewRegime(value as TaxRegime)}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TAX_REGIME_PRESETS) as TaxRegime[]).map(regime => (
+                <SelectItem key={regime} value={regime}>
+                  {TAX_REGIME_PRESETS[regime].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={createProfile}>
+            <Plus className="h-4 w-4 mr-2" />
+            Añadir perfil
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
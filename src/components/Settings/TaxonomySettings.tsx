@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTaxonomy } from "@/hooks/useTaxonomy";
+import { TaxonomyService, type TaxonomyResult } from "@/services/TaxonomyService";
+import { DEFAULT_TAXONOMY, TAXONOMY_LEVELS, childLevel, type TaxonomyNode } from "@shared/taxonomy";
+import { ChevronDown, ChevronRight, FolderTree, Pencil, Plus, Save, Sparkles, Trash2, X } from "lucide-react";
+
+interface NodeDraft {
+  id: string;
+  name: string;
+  keywords: string;
+}
+
+const levelLabel = (level: string | null) => TAXONOMY_LEVELS.find(l => l.level === level)?.label || '';
+
+const parseKeywords = (value: string) => value.split(',').map(keyword => keyword.trim()).filter(Boolean);
+
+export const TaxonomySettings = () => {
+  const { tree, nodes, loading, refresh } = useTaxonomy();
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<NodeDraft | null>(null);
+  const [addingTo, setAddingTo] = useState<string | null>(null); // parent id, '' for a new category
+  const [newName, setNewName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const { currentOrganization } = useAuth();
+  const { toast } = useToast();
+
+  const organizationId = currentOrganization?.organization_id;
+
+  const run = async (action: () => Promise<TaxonomyResult>, errorTitle: string) => {
+    setBusy(true);
+    const result = await action();
+    setBusy(false);
+
+    if (!result.success) {
+      toast({
+        title: errorTitle,
+        description: result.error,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    await refresh();
+    return true;
+  };
+
+  const toggle = (nodeId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(nodeId)) next.delete(nodeId); else next.add(nodeId);
+      return next;
+    });
+  };
+
+  const startAdding = (parent: TaxonomyNode | null) => {
+    setAddingTo(parent?.id ?? '');
+    setNewName('');
+    if (parent) setExpanded(prev => new Set(prev).add(parent.id));
+  };
+
+  const addNode = async () => {
+    if (!organizationId || addingTo === null) return;
+
+    const parent = addingTo ? tree.nodes.get(addingTo) ?? null : null;
+    const added = await run(
+      () => TaxonomyService.createNode(organizationId, parent, newName),
+      "No se pudo añadir"
+    );
+    if (added) {
+      setAddingTo(null);
+      setNewName('');
+    }
+  };
+
+  const saveNode = async () => {
+    if (!organizationId || !editing) return;
+
+    const saved = await run(
+      () => TaxonomyService.updateNode(organizationId, editing.id, {
+        name: editing.name,
+        keywords: parseKeywords(editing.keywords)
+      }),
+      "No se pudo guardar"
+    );
+    if (saved) setEditing(null);
+  };
+
+  const deleteNode = async (node: TaxonomyNode) => {
+    if (!organizationId) return;
+    await run(() => TaxonomyService.deleteNode(organizationId, node.id), "No se pudo eliminar");
+  };
+
+  const loadDefaults = async () => {
+    if (!organizationId) return;
+    await run(() => TaxonomyService.seedTemplate(organizationId, DEFAULT_TAXONOMY), "No se pudo cargar la taxonomía base");
+  };
+
+  const classifyPending = async () => {
+    if (!organizationId) return;
+
+    setBusy(true);
+    try {
+      const count = await TaxonomyService.classifyPending(organizationId);
+      toast({
+        title: "Clasificación completada",
+        description: `${count} ingredientes pendientes clasificados automáticamente`,
+      });
+    } catch (error) {
+      console.error('Error classifying ingredients:', error);
+      toast({
+        title: "Error",
+        description: "No se pudieron clasificar los ingredientes pendientes",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderAddRow = (parentId: string, depth: number) => addingTo === parentId && (
+    <div className="flex items-center gap-2 py-1" style={{ paddingLeft: depth * 24 + 24 }}>
+      <Input
+        autoFocus
+        value={newName}
+        placeholder={`Nueva ${levelLabel(childLevel(parentId ? tree.nodes.get(parentId)?.level ?? null : null)).toLowerCase()}`}
+        onChange={(e) => setNewName(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && addNode()}
+        className="h-8 max-w-xs"
+      />
+      <Button size="sm" onClick={addNode} disabled={busy || !newName.trim()}>
+        <Save className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => setAddingTo(null)}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  const renderNode = (node: TaxonomyNode, depth: number): JSX.Element => {
+    const children = tree.children.get(node.id) || [];
+    const isOpen = expanded.has(node.id);
+    const canHaveChildren = childLevel(node.level) !== null;
+
+    return (
+      <div key={node.id}>
+        {editing?.id === node.id ? (
+          <div className="space-y-2 py-2 border rounded-md px-3 my-1" style={{ marginLeft: depth * 24 }}>
+            <Input
+              value={editing.name}
+              onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+              className="h-8 max-w-xs"
+            />
+            <Input
+              value={editing.keywords}
+              placeholder="Palabras clave separadas por comas (ej: merluza, lubina)"
+              onChange={(e) => setEditing({ ...editing, keywords: e.target.value })}
+              className="h-8"
+            />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={saveNode} disabled={busy}>
+                <Save className="h-4 w-4 mr-1" />
+                Guardar
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>
+                Cancelar
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="group flex items-center gap-2 py-1 rounded-md hover:bg-muted/50" style={{ paddingLeft: depth * 24 }}>
+            <button
+              type="button"
+              className="h-6 w-6 flex items-center justify-center text-muted-foreground disabled:opacity-0"
+              onClick={() => toggle(node.id)}
+              disabled={children.length === 0}
+            >
+              {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </button>
+            <span className="font-medium text-sm">{node.name}</span>
+            <Badge variant="outline" className="text-xs">{levelLabel(node.level)}</Badge>
+            {node.keywords.length > 0 && (
+              <span className="text-xs text-muted-foreground truncate max-w-md" title={node.keywords.join(', ')}>
+                {node.keywords.join(', ')}
+              </span>
+            )}
+            <div className="ml-auto flex gap-1 opacity-0 group-hover:opacity-100">
+              {canHaveChildren && (
+                <Button variant="ghost" size="sm" onClick={() => startAdding(node)} title={`Añadir ${levelLabel(childLevel(node.level)).toLowerCase()}`}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setEditing({ id: node.id, name: node.name, keywords: node.keywords.join(', ') })}
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => deleteNode(node)} disabled={busy}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+        {isOpen && children.map(child => renderNode(child, depth + 1))}
+        {renderAddRow(node.id, depth + 1)}
+      </div>
+    );
+  };
+
+  const categories = tree.children.get(null) || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FolderTree className="h-5 w-5" />
+          Categorías de producto
+        </CardTitle>
+        <CardDescription>
+          Categoría › familia › subfamilia. Las importaciones solo aceptan valores de este árbol; el resto se
+          clasifica por el nombre del producto (palabras clave y asignaciones anteriores) o queda pendiente de revisión.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Cargando categorías...</p>
+        ) : nodes.length === 0 ? (
+          <div className="flex items-center justify-between gap-4 border rounded-lg p-4">
+            <p className="text-sm text-muted-foreground">
+              No hay categorías definidas. Empieza con la taxonomía base de hostelería o crea la tuya.
+            </p>
+            <Button variant="outline" onClick={loadDefaults} disabled={busy}>
+              <FolderTree className="h-4 w-4 mr-2" />
+              Cargar taxonomía base
+            </Button>
+          </div>
+        ) : (
+          <div className="border rounded-lg p-2">
+            {categories.map(category => renderNode(category, 0))}
+          </div>
+        )}
+        {renderAddRow('', 0)}
+
+        <div className="flex items-center gap-2 pt-2">
+          <Button variant="outline" onClick={() => startAdding(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Añadir categoría
+          </Button>
+          {nodes.length > 0 && (
+            <Button variant="outline" onClick={classifyPending} disabled={busy}>
+              <Sparkles className="h-4 w-4 mr-2" />
+              Clasificar pendientes
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,323 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { ValidationRuleService } from "@/services/ValidationRuleService";
+import {
+  RULE_FIELDS,
+  RULE_FIELD_LABELS,
+  ruleProblem,
+  type RuleField,
+  type RuleKind,
+  type ValidationRule
+} from "@shared/validationRules";
+import { ListChecks, Plus, Save, Trash2 } from "lucide-react";
+
+const RULE_KINDS: { kind: RuleKind; label: string; description: string }[] = [
+  { kind: 'required', label: 'Campo obligatorio', description: 'El campo debe venir relleno' },
+  { kind: 'maxUnitPrice', label: 'Precio unitario máximo', description: 'Tope de €/kg, €/L o €/ud, por familia' },
+  { kind: 'allowedUnits', label: 'Unidades permitidas', description: 'Unidades base admitidas, por categoría' },
+  { kind: 'pattern', label: 'Formato de valor', description: 'El valor completo debe cumplir una expresión regular' },
+  { kind: 'rewrite', label: 'Reescritura', description: 'Sustituye valores antes de interpretarlos, p. ej. "IGIC 7%" → 7' }
+];
+
+const BASE_UNITS = ['kg', 'L', 'ud'];
+
+const parseDecimal = (value: string): number => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+function newRule(kind: RuleKind): ValidationRule {
+  const base = { id: crypto.randomUUID(), enabled: true, suppliers: [] };
+  switch (kind) {
+    case 'required': return { ...base, kind, field: 'categoria' };
+    case 'maxUnitPrice': return { ...base, kind, family: '', max: 0 };
+    case 'allowedUnits': return { ...base, kind, category: '', units: [] };
+    case 'pattern': return { ...base, kind, field: 'referencia', pattern: '' };
+    case 'rewrite': return { ...base, kind, field: 'impuesto', match: '', replacement: '' };
+  }
+}
+
+export const ValidationRulesSettings = () => {
+  const [rules, setRules] = useState<ValidationRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [newKind, setNewKind] = useState<RuleKind>('required');
+  const { currentOrganization } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!currentOrganization) return;
+
+    setLoading(true);
+    ValidationRuleService.getRules(currentOrganization.organization_id)
+      .then(loaded => {
+        setRules(loaded);
+        setDirty(false);
+      })
+      .catch(error => {
+        console.error('Error loading validation rules:', error);
+        toast({
+          title: "Error",
+          description: "No se pudieron cargar las reglas de validación",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [currentOrganization, toast]);
+
+  const updateRule = (id: string, changes: Partial<ValidationRule>) => {
+    setRules(prev => prev.map(rule => (rule.id === id ? { ...rule, ...changes } as ValidationRule : rule)));
+    setDirty(true);
+  };
+
+  const addRule = () => {
+    setRules(prev => [...prev, newRule(newKind)]);
+    setDirty(true);
+  };
+
+  const removeRule = (id: string) => {
+    setRules(prev => prev.filter(rule => rule.id !== id));
+    setDirty(true);
+  };
+
+  const saveRules = async () => {
+    if (!currentOrganization) return;
+
+    setSaving(true);
+    // Supplier lists are edited as raw comma-separated text
+    const cleaned = rules.map(rule => ({
+      ...rule,
+      suppliers: rule.suppliers.map(name => name.trim()).filter(Boolean)
+    }));
+    const result = await ValidationRuleService.saveRules(currentOrganization.organization_id, cleaned);
+    setSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: "No se pudieron guardar las reglas",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRules(cleaned);
+    setDirty(false);
+    toast({
+      title: "Reglas guardadas",
+      description: "Se aplicarán en la validación de las próximas importaciones",
+    });
+  };
+
+  const renderFieldSelect = (rule: ValidationRule & { field: RuleField }) => (
+    <div className="space-y-1">
+      <Label className="text-xs">Campo</Label>
+      <Select value={rule.field} onValueChange={(value) => updateRule(rule.id, { field: value as RuleField })}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {RULE_FIELDS.map(field => (
+            <SelectItem key={field} value={field}>{RULE_FIELD_LABELS[field]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const renderRuleFields = (rule: ValidationRule) => {
+    switch (rule.kind) {
+      case 'required':
+        return renderFieldSelect(rule);
+      case 'maxUnitPrice':
+        return (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs">Familia</Label>
+              <Input
+                value={rule.family}
+                placeholder="Todas"
+                onChange={(e) => updateRule(rule.id, { family: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Máximo (€ por kg, L o ud)</Label>
+              <Input
+                inputMode="decimal"
+                defaultValue={rule.max > 0 ? String(rule.max) : ''}
+                onChange={(e) => updateRule(rule.id, { max: parseDecimal(e.target.value) })}
+              />
+            </div>
+          </>
+        );
+      case 'allowedUnits':
+        return (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs">Categoría</Label>
+              <Input
+                value={rule.category}
+                placeholder="Todas"
+                onChange={(e) => updateRule(rule.id, { category: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Unidades</Label>
+              <div className="flex items-center gap-4 h-10">
+                {BASE_UNITS.map(unit => (
+                  <div key={unit} className="flex items-center gap-1">
+                    <Checkbox
+                      id={`${rule.id}-${unit}`}
+                      checked={rule.units.includes(unit)}
+                      onCheckedChange={(checked) => updateRule(rule.id, {
+                        units: checked === true ? [...rule.units, unit] : rule.units.filter(u => u !== unit)
+                      })}
+                    />
+                    <Label htmlFor={`${rule.id}-${unit}`} className="text-sm">{unit}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        );
+      case 'pattern':
+        return (
+          <>
+            {renderFieldSelect(rule)}
+            <div className="space-y-1">
+              <Label className="text-xs">Expresión regular</Label>
+              <Input
+                value={rule.pattern}
+                placeholder="[A-Z]{2}\d{4}"
+                className="font-mono"
+                onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+              />
+            </div>
+          </>
+        );
+      case 'rewrite':
+        return (
+          <>
+            {renderFieldSelect(rule)}
+            <div className="space-y-1">
+              <Label className="text-xs">Buscar (expresión regular)</Label>
+              <Input
+                value={rule.match}
+                placeholder="IGIC\s*(\d+)\s*%"
+                className="font-mono"
+                onChange={(e) => updateRule(rule.id, { match: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Reemplazar por</Label>
+              <Input
+                value={rule.replacement}
+                placeholder="$1"
+                className="font-mono"
+                onChange={(e) => updateRule(rule.id, { replacement: e.target.value })}
+              />
+            </div>
+          </>
+        );
+    }
+  };
+
+  const hasProblems = rules.some(rule => rule.enabled && ruleProblem(rule) !== null);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Reglas de validación
+        </CardTitle>
+        <CardDescription>
+          Comprobaciones propias de la organización que se suman a las del asistente de importación y
+          se vuelven a aplicar en el servidor. Las filas que no las cumplen se marcan con error y no se importan.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Cargando reglas...</p>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No hay reglas. Añade una para empezar.</p>
+        ) : (
+          rules.map(rule => {
+            const kind = RULE_KINDS.find(k => k.kind === rule.kind)!;
+            const problem = ruleProblem(rule);
+            return (
+              <div key={rule.id} className="border rounded-lg p-4 space-y-4">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{kind.label}</Badge>
+                    <span className="text-sm text-muted-foreground">{kind.description}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`enabled-${rule.id}`}
+                      checked={rule.enabled}
+                      onCheckedChange={(checked) => updateRule(rule.id, { enabled: checked })}
+                    />
+                    <Label htmlFor={`enabled-${rule.id}`} className="text-sm">Activa</Label>
+                    <Button variant="ghost" size="sm" onClick={() => removeRule(rule.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  {renderRuleFields(rule)}
+                  <div className="space-y-1">
+                    <Label className="text-xs">Proveedores (separados por comas)</Label>
+                    <Input
+                      value={rule.suppliers.join(',')}
+                      placeholder="Todos"
+                      onChange={(e) => updateRule(rule.id, {
+                        suppliers: e.target.value ? e.target.value.split(',') : []
+                      })}
+                    />
+                  </div>
+                </div>
+
+                {problem && <p className="text-sm text-red-600">{problem}</p>}
+              </div>
+            );
+          })
+        )}
+
+        <div className="flex items-center justify-between gap-2 pt-2">
+          <div className="flex items-center gap-2">
+            <Select value={newKind} onValueChange={(value) => setNewKind(value as RuleKind)}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RULE_KINDS.map(({ kind, label }) => (
+                  <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={addRule}>
+              <Plus className="h-4 w-4 mr-2" />
+              Añadir regla
+            </Button>
+          </div>
+          <Button onClick={saveRules} disabled={!dirty || saving || hasProblems}>
+            <Save className="h-4 w-4 mr-1" />
+            Guardar reglas
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
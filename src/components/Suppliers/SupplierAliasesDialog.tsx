@@ -0,0 +1,76 @@
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { AliasService, type SupplierAlias } from '@/services/AliasService';
+import { AliasEditor } from '@/components/Aliases/AliasEditor';
+
+interface SupplierAliasesDialogProps {
+  supplier: { id: string; name: string } | null;
+  organizationId: string | undefined;
+  aliases: SupplierAlias[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export const SupplierAliasesDialog = ({ supplier, organizationId, aliases, onClose, onChanged }: SupplierAliasesDialogProps) => {
+  const { toast } = useToast();
+
+  if (!supplier) return null;
+
+  const handleAdd = async (alias: string): Promise<boolean> => {
+    if (!organizationId) return false;
+
+    const result = await AliasService.addSupplierAlias(organizationId, supplier.id, alias);
+    if (!result.success) {
+      toast({
+        title: "No se pudo añadir el alias",
+        description: result.error,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    onChanged();
+    return true;
+  };
+
+  const handleRemove = async (alias: { id: string }) => {
+    const result = await AliasService.removeSupplierAlias(alias.id);
+    if (!result.success) {
+      toast({
+        title: "No se pudo eliminar el alias",
+        description: result.error,
+        variant: "destructive",
+      });
+      return;
+    }
+    onChanged();
+  };
+
+  return (
+    <Dialog open={!!supplier} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Alias de {supplier.name}</DialogTitle>
+          <DialogDescription>
+            Otros nombres con los que aparece en facturas y tarifas. Formas jurídicas (S.L., S.A.) y
+            descriptores como "Cash&Carry" ya se ignoran al comparar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <AliasEditor
+          aliases={aliases}
+          onAdd={handleAdd}
+          onRemove={handleRemove}
+          placeholder="Ej: MAKRO AUTOSERVICIO MAYORISTA"
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cerrar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { ImportBatchService, type ImportBatchWithFile } from "@/services/ImportBatchService";
+import type { Json } from "@/integrations/supabase/types";
+import { History, Undo2 } from "lucide-react";
+
+interface ImportHistoryProps {
+  refreshKey?: number;  // bumped by the wizard after each import
+}
+
+const STATUS_LABELS: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  running: { label: 'En curso', variant: 'secondary' },
+  completed: { label: 'Completada', variant: 'outline' },
+  failed: { label: 'Fallida, deshecha', variant: 'destructive' },
+  reverted: { label: 'Revertida', variant: 'secondary' }
+};
+
+const SUMMARY_LABELS: Record<string, string> = {
+  ingredient_created: 'ingredientes nuevos',
+  supplier_created: 'proveedores nuevos',
+  supplier_product_created: 'productos de proveedor nuevos',
+  supplier_product_updated: 'productos con códigos nuevos',
+  supplier_price_list_created: 'listas de precios',
+  supplier_price_created: 'precios',
+  supplier_price_updated: 'precios cerrados'
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('es-ES', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const describeSummary = (summary: Json): string => {
+  if (typeof summary !== 'object' || summary === null || Array.isArray(summary)) return '';
+  return Object.entries(SUMMARY_LABELS)
+    .filter(([key]) => typeof summary[key] === 'number' && summary[key] > 0)
+    .map(([key, label]) => `${summary[key]} ${label}`)
+    .join(' · ');
+};
+
+export const ImportHistory = ({ refreshKey }: ImportHistoryProps) => {
+  const { currentOrganization } = useAuth();
+  const { toast } = useToast();
+  const [batches, setBatches] = useState<ImportBatchWithFile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reverting, setReverting] = useState<string | null>(null);
+
+  const loadBatches = useCallback(async () => {
+    if (!currentOrganization) return;
+
+    try {
+      setBatches(await ImportBatchService.getBatches(currentOrganization.organization_id));
+    } catch (error) {
+      console.error('Error loading import history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentOrganization]);
+
+  useEffect(() => {
+    loadBatches();
+  }, [loadBatches, refreshKey]);
+
+  const revertBatch = async (batch: ImportBatchWithFile) => {
+    setReverting(batch.id);
+    const result = await ImportBatchService.revertBatch(batch.id);
+    setReverting(null);
+
+    if (result.success) {
+      toast({
+        title: "Importación revertida",
+        description: "Se han restaurado los precios anteriores y eliminado lo que creó la importación",
+      });
+      await loadBatches();
+    } else {
+      toast({
+        title: "No se pudo revertir la importación",
+        description: result.error,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading || batches.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Historial de importaciones
+        </CardTitle>
+        <CardDescription>
+          Cada importación se aplica entera o no se aplica. Puedes revertir una importación completada
+          mientras no haya otra posterior con precios de los mismos productos.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {batches.map(batch => {
+          const status = STATUS_LABELS[batch.status] || STATUS_LABELS.completed;
+          const summary = describeSummary(batch.summary);
+          return (
+            <div key={batch.id} className="flex items-start justify-between gap-4 border rounded-lg p-4">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">{batch.file_uploads?.file_name || 'Importación manual'}</span>
+                  <Badge variant={status.variant} className="text-xs">{status.label}</Badge>
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {formatDate(batch.started_at)} · {batch.processed_count} de {batch.row_count} filas
+                  {summary && ` · ${summary}`}
+                </div>
+                {batch.error_message && (
+                  <div className="text-sm text-destructive">{batch.error_message}</div>
+                )}
+              </div>
+
+              {batch.status === 'completed' && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm" disabled={reverting === batch.id}>
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      {reverting === batch.id ? 'Revirtiendo...' : 'Revertir'}
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>¿Revertir esta importación?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Se restaurarán los precios anteriores y se eliminarán los ingredientes, proveedores y
+                        productos que creó. Si alguno ya se usa en recetas u otros precios, no se revertirá nada.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => revertBatch(batch)}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Revertir
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
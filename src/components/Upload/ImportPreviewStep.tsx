@@ -0,0 +1,145 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  IMPORT_GROUPS,
+  type ImportGroup,
+  type ImportPreview,
+  type ImportSelection,
+  type PreviewEntry
+} from "@/utils/importPreview";
+import { TrendingDown, TrendingUp } from "lucide-react";
+
+interface ImportPreviewStepProps {
+  preview: ImportPreview;
+  selection: ImportSelection;
+  selectedRows: Set<number>;
+  onSelectionChange: (selection: ImportSelection) => void;
+}
+
+const formatPrice = (value: number | null, unit: string) => value === null ? '-' : `${value.toFixed(4)} €/${unit}`;
+
+const DeltaBadge = ({ deltaPct }: { deltaPct: number | null }) => {
+  if (deltaPct === null) return <span className="text-muted-foreground">-</span>;
+
+  const rising = deltaPct > 0;
+  const Icon = rising ? TrendingUp : TrendingDown;
+  return (
+    <Badge variant={rising ? "destructive" : "secondary"} className="flex w-fit items-center gap-1">
+      <Icon className="h-3 w-3" />
+      {rising ? '+' : ''}{deltaPct.toFixed(1)}%
+    </Badge>
+  );
+};
+
+export const ImportPreviewStep = ({ preview, selection, selectedRows, onSelectionChange }: ImportPreviewStepProps) => {
+  const entriesOf = (group: ImportGroup): PreviewEntry[] =>
+    group === 'newSuppliers'
+      ? preview.entries.filter(entry => entry.newSupplier)
+      : preview.entries.filter(entry => entry.group === group);
+
+  const visibleGroups = IMPORT_GROUPS.filter(group => preview.counts[group.key] > 0);
+
+  const renderEntries = (group: ImportGroup) => (
+    <div className="max-h-96 overflow-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Fila</TableHead>
+            <TableHead>Producto</TableHead>
+            <TableHead>Proveedor</TableHead>
+            {group === 'ignored' ? (
+              <TableHead>Motivo</TableHead>
+            ) : (
+              <>
+                <TableHead>Precio actual</TableHead>
+                <TableHead>Precio nuevo</TableHead>
+                <TableHead>Variación</TableHead>
+              </>
+            )}
+            <TableHead>Se importa</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entriesOf(group).map(entry => (
+            <TableRow key={entry.rowIndex}>
+              <TableCell>{entry.rowIndex}</TableCell>
+              <TableCell className="font-medium">{entry.product}</TableCell>
+              <TableCell>
+                {entry.supplier}
+                {entry.newSupplier && <Badge variant="outline" className="ml-2">Nuevo</Badge>}
+              </TableCell>
+              {group === 'ignored' ? (
+                <TableCell className="text-sm text-red-600">{entry.reason}</TableCell>
+              ) : (
+                <>
+                  <TableCell>{formatPrice(entry.oldUnitPrice, entry.unit)}</TableCell>
+                  <TableCell>{formatPrice(entry.newUnitPrice, entry.unit)}</TableCell>
+                  <TableCell><DeltaBadge deltaPct={entry.deltaPct} /></TableCell>
+                </>
+              )}
+              <TableCell>{selectedRows.has(entry.rowIndex) ? 'Sí' : 'No'}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cambios que se van a aplicar</CardTitle>
+        <CardDescription>
+          Marca los grupos que quieres importar. Los precios unitarios se comparan sin impuestos.
+          Las filas de proveedores nuevos solo se importan si también se crean sus proveedores.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {visibleGroups.map(group => (
+            <div key={group.key} className="flex items-start gap-3 rounded-lg border p-4">
+              {group.key !== 'ignored' && (
+                <Checkbox
+                  id={`group-${group.key}`}
+                  checked={selection[group.key]}
+                  onCheckedChange={(checked) => onSelectionChange({ ...selection, [group.key]: checked === true })}
+                />
+              )}
+              <label htmlFor={`group-${group.key}`} className="space-y-1 cursor-pointer">
+                <div className="text-2xl font-bold">{preview.counts[group.key]}</div>
+                <div className="text-sm font-medium">{group.label}</div>
+                <div className="text-xs text-muted-foreground">{group.description}</div>
+              </label>
+            </div>
+          ))}
+        </div>
+
+        {preview.newSuppliers.length > 0 && (
+          <div className="text-sm text-muted-foreground">
+            <strong>Proveedores nuevos:</strong> {preview.newSuppliers.join(', ')}
+          </div>
+        )}
+
+        {visibleGroups.length > 0 && (
+          <Tabs defaultValue={visibleGroups[0].key}>
+            <TabsList className="flex-wrap h-auto">
+              {visibleGroups.map(group => (
+                <TabsTrigger key={group.key} value={group.key}>
+                  {group.label} ({preview.counts[group.key]})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {visibleGroups.map(group => (
+              <TabsContent key={group.key} value={group.key}>
+                {renderEntries(group.key)}
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -9,6 +9,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
 import { 
   Upload, 
@@ -20,14 +22,78 @@ import {
   Download,
   Eye,
   MapPin,
-  ArrowUpDown
+  ArrowUpDown,
+  Link2,
+  FolderTree,
+  AlertTriangle,
+  LayoutTemplate,
+  Copy
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTaxProfiles } from '@/hooks/useTaxProfiles';
 import { PdfService } from '@/services/PdfService';
-import { OcrService } from '@/services/OcrService';
-import { parsePack, normalizeIngredientRow, parseSpanishNumber, type NormalizationResult } from '@/utils/normalization';
-import * as XLSX from 'xlsx';
+import { DEFAULT_OCR_PROFILE, OCR_PROFILES, OcrService, type OcrProfileId, type OcrResult } from '@/services/OcrService';
+import { DEFAULT_PREPROCESS, type PreprocessOptions, type PreprocessStep } from '@/utils/imagePreprocess';
+import { SpreadsheetService } from '@/services/SpreadsheetService';
+import { combineSheetTables, type SheetTable } from '@shared/sheetLayout';
+import {
+  CSV_DELIMITERS,
+  CSV_ENCODINGS,
+  CSV_QUOTES,
+  parseCsv,
+  type CsvDialect,
+  type CsvDialectDetection
+} from '@shared/csvDialect';
+import { normalizeTable, suggestColumnMappings, type NormalizedRow } from '@shared/normalization';
+import { describePackBreakdown } from '@shared/packParser';
+import type { NumberFormatDetection } from '@shared/numberParser';
+import { AUTO_MATCH_THRESHOLD, findMatches, type MatchProposal } from '@shared/ingredientMatcher';
+import { findSupplier } from '@shared/supplierMatcher';
+import type { OcrTable } from '@shared/ocrTable';
+import { startOfDay, todayIso } from '@shared/priceVersions';
+import { findProductByCode, productCodes } from '@shared/productCodes';
+import { AliasService } from '@/services/AliasService';
+import { TaxonomyService } from '@/services/TaxonomyService';
+import { PriceHistoryService } from '@/services/PriceHistoryService';
+import { MappingTemplateService } from '@/services/MappingTemplateService';
+import { InvoiceService } from '@/services/InvoiceService';
+import { BACKGROUND_EXTENSIONS, UploadJobService, type UploadJob } from '@/services/UploadJobService';
+import { SupplierCodeService, type CodedSupplierProduct } from '@/services/SupplierCodeService';
+import { ValidationRuleService } from '@/services/ValidationRuleService';
+import { DuplicateUploadService, type DuplicateMatch } from '@/services/DuplicateUploadService';
+import type { ValidationRule } from '@shared/validationRules';
+import { InvoiceReview } from './InvoiceReview';
+import { ImportPreviewStep } from './ImportPreviewStep';
+import {
+  applyTemplate,
+  findTemplate,
+  headerSimilarity,
+  isConfidentMatch,
+  type ColumnMappingRule,
+  type MappingTemplate,
+  type TemplateMatch
+} from '@shared/mappingTemplates';
+import { checkUnitPrice, selectReferencePrices, type PriceCheck, type ReferencePrice } from '@/utils/priceOutliers';
+import { resolveTaxRate, splitTax } from '@shared/tax';
+import { classifyProduct, nodeLabel, type Classification, type TaxonomyTree } from '@shared/taxonomy';
+import {
+  checkInvoiceTotals,
+  computeLineTotal,
+  extractInvoiceHeader,
+  looksLikeInvoice,
+  type InvoiceHeader,
+  type InvoiceLine
+} from '@shared/invoice';
+import { describeEInvoice, eInvoiceToTable, parseEInvoice } from '@/utils/eInvoice';
+import {
+  DEFAULT_IMPORT_SELECTION,
+  buildImportPreview,
+  selectImportRows,
+  type ImportPreview,
+  type ImportSelection
+} from '@/utils/importPreview';
 
 interface WizardStep {
   id: number;
@@ -42,8 +108,17 @@ interface ExtractedData {
     fileType: string;
     pages?: number;
     ocrUsed?: boolean;
+    ocrConfidence?: number;
+    ocrProcessingId?: string;
     hasText?: boolean;
+    sheets?: string[];
+    familyColumn?: string;
+    csvDialect?: string;
+    eInvoiceFormat?: string;
   };
+  text?: string;  // whole document text, where invoice header fields are looked for
+  invoice?: InvoiceHeader;           // structured header of an e-invoice
+  mappings?: ColumnMappingRule[];    // columns whose meaning the source format defines
 }
 
 interface ColumnMapping {
@@ -60,22 +135,26 @@ interface ValidationError {
   suggestion?: string;
 }
 
-interface NormalizedRow {
-  producto: string;
-  proveedor: string;
-  formato: string;
-  contenido: number;
-  unidad: string;
-  precio: number;
-  precioUnitario: number;
-  igic: number;
-  area: string;
-  referencia?: string;
-  categoria?: string;
-  isValid: boolean;
-  errors: string[];
-  rowIndex: number;
-}
+const DUPLICATE_REASONS: Record<DuplicateMatch['reason'], string> = {
+  content: 'mismo archivo',
+  invoice_number: 'mismo proveedor y número de factura',
+  date_total: 'mismo proveedor, fecha e importe'
+};
+
+const PREPROCESS_STEPS: { key: keyof PreprocessOptions; label: string }[] = [
+  { key: 'crop', label: 'Recortar el documento' },
+  { key: 'deskew', label: 'Enderezar' },
+  { key: 'upscale', label: 'Ampliar texto pequeño' },
+  { key: 'threshold', label: 'Umbral adaptativo' }
+];
+
+const PREPROCESS_STEP_LABELS: Record<PreprocessStep, string> = {
+  grayscale: 'Escala de grises',
+  crop: 'Recorte y perspectiva',
+  deskew: 'Enderezado',
+  upscale: 'Ampliación',
+  threshold: 'Umbral adaptativo'
+};
 
 const WIZARD_STEPS: WizardStep[] = [
   {
@@ -92,6 +171,11 @@ const WIZARD_STEPS: WizardStep[] = [
     id: 3,
     title: 'Validación y Normalización',
     description: 'Revisa y corrige los datos antes de importar'
+  },
+  {
+    id: 4,
+    title: 'Vista Previa',
+    description: 'Elige qué cambios aplicar al catálogo'
   }
 ];
 
@@ -102,29 +186,146 @@ const TARGET_FIELDS = [
   { key: 'contenido', label: 'Contenido/Peso', required: false, description: 'Cantidad o peso del producto (alternativo a formato)' },
   { key: 'unidad', label: 'Unidad', required: false, description: 'Unidad de medida (kg, L, ud, etc.)' },
   { key: 'precio', label: 'Precio', required: true, description: 'Precio del producto' },
-  { key: 'igic', label: 'IGIC/IVA (%)', required: false, description: 'Porcentaje de impuesto (por defecto 7%)' },
+  { key: 'impuesto', label: 'Impuesto (%)', required: false, description: 'IGIC, IVA o IPSI. Si falta, se aplica el perfil fiscal según la categoría del producto' },
   { key: 'area', label: 'Área', required: false, description: 'Cocina, Sala o Ambas' },
-  { key: 'referencia', label: 'Referencia', required: false, description: 'Código o referencia del producto' },
-  { key: 'categoria', label: 'Categoría', required: false, description: 'Categoría del producto' }
+  { key: 'referencia', label: 'Referencia', required: false, description: 'Código de artículo del proveedor; identifica el producto aunque cambie de nombre' },
+  { key: 'ean', label: 'EAN', required: false, description: 'Código de barras EAN/GTIN del producto' },
+  { key: 'categoria', label: 'Categoría', required: false, description: 'Categoría del producto (debe existir en la taxonomía de la organización)' },
+  { key: 'familia', label: 'Familia', required: false, description: 'Familia dentro de la categoría' },
+  { key: 'subfamilia', label: 'Subfamilia', required: false, description: 'Subfamilia dentro de la familia' },
+  { key: 'cantidad', label: 'Cantidad', required: false, description: 'Unidades compradas, en facturas y albaranes' },
+  { key: 'importe', label: 'Importe de línea', required: false, description: 'Total de la línea de factura sin impuestos' }
 ];
 
-export const IngestionWizard: React.FC = () => {
+// Match choice meaning "do not reuse a catalog ingredient or supplier"
+const CREATE_NEW = 'new';
+
+// Template choice meaning "map the columns by hand"
+const NO_TEMPLATE = 'none';
+
+const toColumnMappings = (rules: ColumnMappingRule[]): ColumnMapping[] => rules.map(rule => ({
+  ...rule,
+  required: TARGET_FIELDS.find(f => f.key === rule.target)?.required || false
+}));
+
+// A rolled-back import comes back with an error status; its body says which row failed
+async function importFailureMessage(error: unknown, data: { error?: string } | null): Promise<string> {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (body?.error) return body.error;
+  }
+  if (data?.error) return data.error;
+  return error instanceof Error ? error.message : 'Error desconocido';
+}
+
+interface IngestionWizardProps {
+  onImported?: () => void;
+  reviewJob?: UploadJob | null;     // background job whose table the user opens for review
+  onReviewOpened?: () => void;
+}
+
+export const IngestionWizard: React.FC<IngestionWizardProps> = ({ onImported, reviewJob, onReviewOpened }) => {
   const [currentStep, setCurrentStep] = useState(1);
   const [file, setFile] = useState<File | null>(null);
   const [extractedData, setExtractedData] = useState<ExtractedData | null>(null);
   const [columnMappings, setColumnMappings] = useState<ColumnMapping[]>([]);
   const [normalizedData, setNormalizedData] = useState<NormalizedRow[]>([]);
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  const [numberFormats, setNumberFormats] = useState<Record<string, NumberFormatDetection>>({});
+  const [validationRules, setValidationRules] = useState<ValidationRule[]>([]);
+  const [rewrittenCells, setRewrittenCells] = useState(0);
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(false);
+  // Date the imported price lists come into force; a future date schedules them
+  const [effectiveDate, setEffectiveDate] = useState(todayIso());
+  const [matchProposals, setMatchProposals] = useState<Record<number, MatchProposal[]>>({});
+  const [matchChoices, setMatchChoices] = useState<Record<number, string>>({});
+  // Choices the user made by hand; only those teach the catalog a new alias
+  const [confirmedMatches, setConfirmedMatches] = useState<Record<number, boolean>>({});
+  const [supplierOptions, setSupplierOptions] = useState<{ id: string; name: string }[]>([]);
+  const [supplierChoices, setSupplierChoices] = useState<Record<string, string>>({});
+  const [confirmedSuppliers, setConfirmedSuppliers] = useState<Record<string, boolean>>({});
+  const [classifications, setClassifications] = useState<Record<number, Classification>>({});
+  const [taxonomyTree, setTaxonomyTree] = useState<TaxonomyTree | null>(null);
+  const [priceReferences, setPriceReferences] = useState<Record<string, ReferencePrice[]>>({});
+  const [acknowledgedPrices, setAcknowledgedPrices] = useState<Record<number, boolean>>({});
+  const [fileUploadId, setFileUploadId] = useState<string | null>(null);
+  const [workbookSheets, setWorkbookSheets] = useState<SheetTable[]>([]);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [csvBytes, setCsvBytes] = useState<Uint8Array | null>(null);
+  const [csvDialect, setCsvDialect] = useState<CsvDialectDetection | null>(null);
+  const [mappingTemplates, setMappingTemplates] = useState<MappingTemplate[]>([]);
+  const [templateMatch, setTemplateMatch] = useState<TemplateMatch | null>(null);
+  const [invoiceHeader, setInvoiceHeader] = useState<InvoiceHeader | null>(null);
+  const [recordInvoice, setRecordInvoice] = useState(false);
+  // A file already uploaded waits for confirmation before it is processed
+  const [pendingDuplicate, setPendingDuplicate] = useState<{ file: File; matches: DuplicateMatch[] } | null>(null);
+  const [invoiceDuplicates, setInvoiceDuplicates] = useState<DuplicateMatch[]>([]);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importSelection, setImportSelection] = useState<ImportSelection>(DEFAULT_IMPORT_SELECTION);
+  const [isMatching, setIsMatching] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [processInBackground, setProcessInBackground] = useState(false);
+  // OCR of photos and scanned PDFs: character whitelist and image cleanup
+  const [ocrProfile, setOcrProfile] = useState<OcrProfileId>(DEFAULT_OCR_PROFILE);
+  const [preprocessImages, setPreprocessImages] = useState(true);
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(DEFAULT_PREPROCESS);
+  const [ocrPreview, setOcrPreview] = useState<OcrResult['preprocessing'] | null>(null);
   const { currentOrganization } = useAuth();
+  const { defaultProfile } = useTaxProfiles();
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (defaultProfile) setPricesIncludeTax(defaultProfile.prices_include_tax);
+  }, [defaultProfile]);
+
+  useEffect(() => {
+    if (!currentOrganization) return;
+    ValidationRuleService.getRules(currentOrganization.organization_id)
+      .then(setValidationRules)
+      .catch(error => console.error('Error loading validation rules:', error));
+  }, [currentOrganization]);
+
+  // Always the latest opener, so the effect below only runs when a job is handed over
+  const openBackgroundJobRef = useRef<(job: UploadJob) => Promise<void>>();
+
+  useEffect(() => {
+    if (!reviewJob) return;
+    openBackgroundJobRef.current?.(reviewJob);
+    onReviewOpened?.();
+  }, [reviewJob, onReviewOpened]);
+
   // Step 1: File Upload and Processing
-  const handleFileUpload = async (uploadedFile: File) => {
-    if (!uploadedFile) return;
+  const handleFileUpload = async (uploadedFile: File, confirmedDuplicate = false) => {
+    if (!uploadedFile || !currentOrganization) return;
+
+    // Same bytes as an earlier upload: warn before processing it again
+    let contentHash: string | null = null;
+    try {
+      contentHash = await DuplicateUploadService.hashFile(uploadedFile);
+      if (!confirmedDuplicate) {
+        const matches = await DuplicateUploadService.findSameContent(currentOrganization.organization_id, contentHash);
+        if (matches.length > 0) {
+          setPendingDuplicate({ file: uploadedFile, matches });
+          return;
+        }
+      }
+    } catch (error) {
+      console.error('Error checking for duplicate uploads:', error);
+    }
+    setPendingDuplicate(null);
+    
+    const extension = uploadedFile.name.split('.').pop()?.toLowerCase() || '';
+    if ((processInBackground && BACKGROUND_EXTENSIONS.includes(extension)) || UploadJobService.runsInBackground(uploadedFile)) {
+      await queueBackgroundJob(uploadedFile, contentHash);
+      return;
+    }
     
     setFile(uploadedFile);
+    setOcrPreview(null);
+    setWorkbookSheets([]);
+    setCsvBytes(null);
+    setCsvDialect(null);
     setIsProcessing(true);
     setProgress(0);
     
@@ -134,7 +335,7 @@ export const IngestionWizard: React.FC = () => {
       // Save file to Supabase Storage
       const fileExt = uploadedFile.name.split('.').pop();
       const fileName = `${Date.now()}.${fileExt}`;
-      const filePath = `${currentOrganization?.id}/${fileName}`;
+      const filePath = `${currentOrganization.organization_id}/${fileName}`;
       
       const { data: uploadData, error: uploadError } = await supabase.storage
         .from('file-uploads')
@@ -152,13 +353,15 @@ export const IngestionWizard: React.FC = () => {
           file_path: filePath,
           file_type: fileExt || 'unknown',
           file_size: uploadedFile.size,
-          organization_id: currentOrganization?.id,
+          content_hash: contentHash,
+          organization_id: currentOrganization.organization_id,
           processing_status: 'processing'
         })
         .select()
         .single();
         
       if (recordError) throw recordError;
+      setFileUploadId(fileRecord.id);
       
       setProgress(60);
       
@@ -176,6 +379,7 @@ export const IngestionWizard: React.FC = () => {
           .update({
             processing_status: 'completed',
             extracted_records: result.data.rows.length,
+            ocr_processing_id: result.data.metadata?.ocrProcessingId ?? null,
             extraction_data: {
               columns: result.data.columns,
               rows: result.data.rows.slice(0, 5), // Store sample
@@ -185,12 +389,17 @@ export const IngestionWizard: React.FC = () => {
           .eq('id', fileRecord.id);
           
         setProgress(100);
-        setCurrentStep(2);
         
         toast({
           title: "Archivo procesado",
           description: `Se extrajeron ${result.data.rows.length} filas de datos`,
         });
+
+        // Workbooks with several sheets wait for the user to choose which ones to import
+        if ((result.data.metadata?.sheets?.length ?? 0) <= 1) {
+          setCurrentStep(2);
+          await applyMappingTemplate(result.data);
+        }
       } else {
         throw new Error(result.error || 'Error al procesar archivo');
       }
@@ -208,6 +417,55 @@ export const IngestionWizard: React.FC = () => {
     }
   };
 
+  // Large files are read on the server: the tab can be closed and the job reviewed later
+  const queueBackgroundJob = async (uploadedFile: File, contentHash: string | null) => {
+    if (!currentOrganization) return;
+
+    setIsProcessing(true);
+    const result = await UploadJobService.enqueue(uploadedFile, currentOrganization.organization_id, contentHash);
+    setIsProcessing(false);
+
+    if (result.success) {
+      toast({
+        title: "Archivo en cola",
+        description: `${uploadedFile.name} se procesa en segundo plano. Puedes cerrar esta página y revisarlo cuando termine.`,
+      });
+    } else {
+      toast({
+        title: "No se pudo encolar el archivo",
+        description: result.error,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // The server already extracted the table: continue from the column mapping
+  const openBackgroundJob = async (job: UploadJob) => {
+    const extraction = job.extraction_data as {
+      columns?: string[];
+      rows?: string[][];
+      text?: string;
+      metadata?: ExtractedData['metadata'];
+    } | null;
+    if (!extraction?.columns || !extraction.rows) return;
+
+    const data: ExtractedData = {
+      columns: extraction.columns,
+      rows: extraction.rows,
+      metadata: extraction.metadata,
+      text: extraction.text
+    };
+    setFile(null);
+    setWorkbookSheets([]);
+    setCsvBytes(null);
+    setCsvDialect(null);
+    setFileUploadId(job.id);
+    setExtractedData(data);
+    setCurrentStep(2);
+    await applyMappingTemplate(data);
+  };
+  openBackgroundJobRef.current = openBackgroundJob;
+
   const extractDataFromFile = async (file: File): Promise<{success: boolean, data?: ExtractedData, error?: string}> => {
     const fileType = file.name.split('.').pop()?.toLowerCase();
     
@@ -220,6 +478,12 @@ export const IngestionWizard: React.FC = () => {
         case 'xlsx':
         case 'xls':
           return await extractFromExcel(file);
+        case 'jpg':
+        case 'jpeg':
+        case 'png':
+          return await extractFromImage(file);
+        case 'xml':
+          return await extractFromXml(file);
         default:
           return { success: false, error: 'Tipo de archivo no soportado' };
       }
@@ -247,44 +511,79 @@ export const IngestionWizard: React.FC = () => {
               pages: pdfResult.metadata.pages,
               ocrUsed: false,
               hasText: pdfResult.metadata.hasText
-            }
+            },
+            text: pdfResult.text
           }
         };
       }
       
       // If text extraction failed, try OCR
       console.log('Text extraction failed, trying OCR...');
-      const ocrResult = await OcrService.processPDF(file);
+      const ocrResult = await OcrService.processPDF(file, {
+        organizationId: currentOrganization?.organization_id,
+        // OCR takes the 60-80% slice of the progress bar
+        onProgress: (page, pageCount) => setProgress(60 + Math.round((page / pageCount) * 20)),
+        profile: ocrProfile,
+        preprocess: preprocessImages ? preprocessOptions : undefined
+      });
+      setOcrPreview(ocrResult.preprocessing ?? null);
+      
+      if (ocrResult.success && ocrResult.table) {
+        // Columns rebuilt from the word positions go through the mapping like any other table
+        return {
+          success: true,
+          data: {
+            ...ocrTableToData(ocrResult.table, true),
+            metadata: {
+              fileType: 'pdf',
+              pages: ocrResult.pages,
+              ocrUsed: true,
+              ocrConfidence: ocrResult.confidence,
+              ocrProcessingId: ocrResult.ocrProcessingId,
+              hasText: false
+            },
+            text: ocrResult.text
+          }
+        };
+      }
       
       if (ocrResult.success && ocrResult.extractedData.length > 0) {
-        // Convert OCR results to tabular format
+        // No table layout found: fall back to the price lines; page and confidence let the user spot misread lines
         const rows = ocrResult.extractedData.map(item => [
           item.ingredient || '',
           '', // proveedor (empty)
           '', // formato
           item.price?.toString() || '',
           item.unit || '',
-          '', // igic
-          'both' // area
+          '', // impuesto
+          'both', // area
+          item.page?.toString() || '',
+          `${Math.round(item.confidence * 100)}%`
         ]);
         
         return {
           success: true,
           data: {
-            columns: ['Producto', 'Proveedor', 'Formato', 'Precio', 'Unidad', 'IGIC', 'Área'],
+            columns: ['Producto', 'Proveedor', 'Formato', 'Precio', 'Unidad', 'Impuesto', 'Área', 'Página', 'Confianza OCR'],
             rows,
             metadata: {
               fileType: 'pdf',
+              pages: ocrResult.pages,
               ocrUsed: true,
+              ocrConfidence: ocrResult.confidence,
+              ocrProcessingId: ocrResult.ocrProcessingId,
               hasText: false
-            }
+            },
+            text: ocrResult.text
           }
         };
       }
       
       return { 
         success: false, 
-        error: 'No se pudo extraer datos del PDF. El archivo puede estar escaneado y requerir OCR manual.' 
+        error: ocrResult.error
+          ? `No se pudo aplicar OCR al PDF: ${ocrResult.error}`
+          : 'El OCR no encontró precios en el PDF escaneado. Comprueba la calidad del escaneo.'
       };
       
     } catch (error) {
@@ -298,88 +597,156 @@ export const IngestionWizard: React.FC = () => {
 
   const extractFromCSV = async (file: File): Promise<{success: boolean, data?: ExtractedData, error?: string}> => {
     try {
-      const text = await file.text();
-      const lines = text.split('\n').filter(line => line.trim().length > 0);
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const { dialect, rows } = parseCsv(bytes);
       
-      if (lines.length === 0) {
+      if (rows.length === 0) {
         return { success: false, error: 'El archivo CSV está vacío' };
       }
       
-      // Parse CSV manually to handle Spanish format
-      const rows = lines.map(line => parseCSVLine(line));
-      const columns = rows[0] || [];
-      const dataRows = rows.slice(1);
-      
+      setCsvBytes(bytes);
+      setCsvDialect(dialect);
+      return { success: true, data: csvToExtractedData(rows, dialect) };
+    } catch (error) {
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Error al procesar CSV' 
+      };
+    }
+  };
+
+  const csvToExtractedData = (rows: string[][], dialect: CsvDialectDetection): ExtractedData => ({
+    columns: rows[0] || [],
+    rows: rows.slice(1),
+    metadata: {
+      fileType: 'csv',
+      csvDialect: dialect.description
+    },
+    text: rows.map(row => row.filter(Boolean).join(' ')).join('\n')
+  });
+
+  // The user corrects a sniffed delimiter, quote or encoding: parse again and redo the mapping
+  const changeCsvDialect = async (change: Partial<CsvDialect>) => {
+    if (!csvBytes || !csvDialect) return;
+
+    const { dialect, rows } = parseCsv(csvBytes, {
+      delimiter: csvDialect.delimiter,
+      quote: csvDialect.quote,
+      encoding: csvDialect.encoding,
+      ...change
+    });
+    const data = csvToExtractedData(rows, dialect);
+    setCsvDialect(dialect);
+    setExtractedData(data);
+    await applyMappingTemplate(data);
+  };
+
+  // Rows of a rebuilt OCR table, with the confidence of each row (and its page) appended
+  const ocrTableToData = (table: OcrTable, withPage: boolean): Pick<ExtractedData, 'columns' | 'rows'> => ({
+    columns: [...table.columns, ...(withPage ? ['Página'] : []), 'Confianza OCR'],
+    rows: table.rows.map((row, index) => [
+      ...row,
+      ...(withPage ? [table.rowPages[index].toString()] : []),
+      `${Math.round(table.rowConfidence[index] * 100)}%`
+    ])
+  });
+
+  // Photographed invoices and delivery notes
+  const extractFromImage = async (file: File): Promise<{success: boolean, data?: ExtractedData, error?: string}> => {
+    const ocrResult = await OcrService.processImage(file, {
+      profile: ocrProfile,
+      preprocess: preprocessImages ? preprocessOptions : undefined
+    });
+    setOcrPreview(ocrResult.preprocessing ?? null);
+
+    if (ocrResult.success && ocrResult.table) {
       return {
         success: true,
         data: {
-          columns,
-          rows: dataRows,
+          ...ocrTableToData(ocrResult.table, false),
           metadata: {
-            fileType: 'csv'
-          }
+            fileType: 'image',
+            pages: 1,
+            ocrUsed: true,
+            ocrConfidence: ocrResult.confidence,
+            hasText: false
+          },
+          text: ocrResult.text
         }
       };
-    } catch (error) {
-      return { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Error al procesar CSV' 
+    }
+
+    if (!ocrResult.success || ocrResult.extractedData.length === 0) {
+      return {
+        success: false,
+        error: ocrResult.error
+          ? `No se pudo aplicar OCR a la imagen: ${ocrResult.error}`
+          : 'El OCR no encontró precios en la imagen. Comprueba que la foto esté enfocada y bien iluminada.'
       };
     }
-  };
 
-  const parseCSVLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
+    return {
+      success: true,
+      data: {
+        columns: ['Producto', 'Proveedor', 'Formato', 'Precio', 'Unidad', 'Impuesto', 'Área', 'Confianza OCR'],
+        rows: ocrResult.extractedData.map(item => [
+          item.ingredient || '',
+          '',
+          '',
+          item.price?.toString() || '',
+          item.unit || '',
+          '',
+          'both',
+          `${Math.round(item.confidence * 100)}%`
+        ]),
+        metadata: {
+          fileType: 'image',
+          pages: 1,
+          ocrUsed: true,
+          ocrConfidence: ocrResult.confidence,
+          hasText: false
+        },
+        text: ocrResult.text
       }
+    };
+  };
+
+  // Facturae and UBL e-invoices carry exact structured data: no OCR and no column guessing
+  const extractFromXml = async (file: File): Promise<{success: boolean, data?: ExtractedData, error?: string}> => {
+    const result = parseEInvoice(await file.text());
+    if (!result.success || !result.invoice) {
+      return { success: false, error: result.error || 'Error al procesar XML' };
     }
-    
-    result.push(current.trim());
-    return result;
+
+    const { columns, rows, mappings } = eInvoiceToTable(result.invoice);
+    return {
+      success: true,
+      data: {
+        columns,
+        rows,
+        metadata: {
+          fileType: 'xml',
+          eInvoiceFormat: describeEInvoice(result.invoice)
+        },
+        invoice: result.invoice.header,
+        mappings
+      }
+    };
   };
 
   const extractFromExcel = async (file: File): Promise<{success: boolean, data?: ExtractedData, error?: string}> => {
     try {
-      const arrayBuffer = await file.arrayBuffer();
-      const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-      
-      // Get first sheet
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
+      // Every sheet with data, each with its own header row; all selected until the user says otherwise
+      const sheets = await SpreadsheetService.readWorkbook(file);
       
-      // Convert to array of arrays
-      const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as string[][];
-      
-      if (jsonData.length === 0) {
+      if (sheets.length === 0) {
         return { success: false, error: 'El archivo Excel está vacío' };
       }
       
-      const columns = jsonData[0] || [];
-      const rows = jsonData.slice(1).filter(row => row.some(cell => cell && cell.toString().trim()));
+      setWorkbookSheets(sheets);
+      setSelectedSheets(sheets.map(sheet => sheet.name));
       
-      return {
-        success: true,
-        data: {
-          columns,
-          rows,
-          metadata: {
-            fileType: 'excel',
-            pages: workbook.SheetNames.length
-          }
-        }
-      };
+      return { success: true, data: combineSheets(sheets) };
     } catch (error) {
       return { 
         success: false, 
@@ -388,8 +755,104 @@ export const IngestionWizard: React.FC = () => {
     }
   };
 
+  const combineSheets = (sheets: SheetTable[]): ExtractedData => {
+    const { columns, rows, familyColumn, text } = combineSheetTables(sheets);
+    return {
+      columns,
+      rows,
+      metadata: {
+        fileType: 'excel',
+        sheets: sheets.map(sheet => sheet.name),
+        familyColumn
+      },
+      text
+    };
+  };
+
+  const toggleSheet = (sheetName: string, selected: boolean) => {
+    setSelectedSheets(prev => selected ? [...prev, sheetName] : prev.filter(name => name !== sheetName));
+  };
+
+  const confirmSheets = async () => {
+    const sheets = workbookSheets.filter(sheet => selectedSheets.includes(sheet.name));
+    if (sheets.length === 0) return;
+
+    const data = combineSheets(sheets);
+    setExtractedData(data);
+    setCurrentStep(2);
+    await applyMappingTemplate(data);
+  };
+
   // Step 2: Column Mapping
+  // Reuse the mapping learned from an earlier file with the same layout
+  const applyMappingTemplate = async (data: ExtractedData) => {
+    if (!currentOrganization) return;
+
+    let templates: MappingTemplate[] = [];
+    try {
+      templates = await MappingTemplateService.getTemplates(currentOrganization.organization_id);
+    } catch (error) {
+      console.error('Error loading mapping templates:', error);
+    }
+    setMappingTemplates(templates);
+
+    if (data.mappings) {
+      // E-invoice prices are always stated net of tax
+      const mappings = toColumnMappings(data.mappings);
+      setTemplateMatch(null);
+      setColumnMappings(mappings);
+      setPricesIncludeTax(false);
+      proceedToValidation(data, mappings);
+      return;
+    }
+
+    const match = findTemplate(templates, data.columns);
+    setTemplateMatch(match);
+    if (!match) {
+      // Columns named like a target field are proposed, as process-file maps them; families
+      // carried down from sub-header rows or sheet names are mapped for the user
+      setColumnMappings(toColumnMappings(suggestColumnMappings(data.columns, data.metadata?.familyColumn)));
+      return;
+    }
+
+    const mappings = toColumnMappings(applyTemplate(match.template, data.columns));
+    setColumnMappings(mappings);
+    if (match.template.pricesIncludeTax !== undefined) setPricesIncludeTax(match.template.pricesIncludeTax);
+
+    const requiredTargets = TARGET_FIELDS.filter(f => f.required).map(f => f.key);
+    if (isConfidentMatch(match, mappings, requiredTargets)) {
+      proceedToValidation(data, mappings);
+    }
+  };
+
+  const chooseTemplate = (templateId: string) => {
+    if (!extractedData) return;
+
+    const template = mappingTemplates.find(t => t.id === templateId);
+    if (!template) {
+      setTemplateMatch(null);
+      setColumnMappings([]);
+      return;
+    }
+
+    setTemplateMatch({
+      template,
+      similarity: headerSimilarity(template.sourceColumns, extractedData.columns),
+      exact: false
+    });
+    setColumnMappings(toColumnMappings(applyTemplate(template, extractedData.columns)));
+    if (template.pricesIncludeTax !== undefined) setPricesIncludeTax(template.pricesIncludeTax);
+  };
+
+  const templateLabel = (template: MappingTemplate) =>
+    `${template.supplierName || 'Varios proveedores'} · ${template.sourceColumns.length} columnas · usada ${template.useCount} ${template.useCount === 1 ? 'vez' : 'veces'}`;
+
   const handleColumnMapping = (sourceColumn: string, targetField: string) => {
+    if (targetField === 'none') {
+      setColumnMappings(prev => prev.filter(m => m.source !== sourceColumn));
+      return;
+    }
+
     setColumnMappings(prev => {
       const existing = prev.find(m => m.source === sourceColumn);
       const targetField_obj = TARGET_FIELDS.find(f => f.key === targetField);
@@ -408,12 +871,12 @@ export const IngestionWizard: React.FC = () => {
     });
   };
 
-  const proceedToValidation = () => {
-    if (!extractedData) return;
+  const proceedToValidation = (data: ExtractedData | null = extractedData, mappings: ColumnMapping[] = columnMappings) => {
+    if (!data) return;
     
     // Check required mappings
     const requiredFields = TARGET_FIELDS.filter(f => f.required);
-    const mappedTargets = columnMappings.map(m => m.target);
+    const mappedTargets = mappings.map(m => m.target);
     const missingRequired = requiredFields.filter(f => !mappedTargets.includes(f.key));
     
     if (missingRequired.length > 0) {
@@ -426,117 +889,352 @@ export const IngestionWizard: React.FC = () => {
     }
     
     // Normalize and validate data
-    const normalized = normalizeData();
+    const normalized = normalizeData(data, mappings);
     setNormalizedData(normalized);
+    setAcknowledgedPrices({});
+
+    // Invoice header fields live outside the table: number, dates, tax ID and totals
+    const header = data.invoice ?? extractInvoiceHeader(data.text || '');
+    setInvoiceHeader(header);
+    setRecordInvoice(looksLikeInvoice(header));
+    setInvoiceDuplicates([]);
+    if (looksLikeInvoice(header)) checkInvoiceDuplicates(header);
     setCurrentStep(3);
+    loadMatchProposals(normalized);
   };
 
-  const normalizeData = (): NormalizedRow[] => {
-    if (!extractedData) return [];
-    
-    const errors: ValidationError[] = [];
-    const normalized: NormalizedRow[] = [];
-    
-    extractedData.rows.forEach((row, rowIndex) => {
-      // Create mapped row object
-      const mappedRow: Record<string, any> = {};
-      
-      columnMappings.forEach(mapping => {
-        const columnIndex = extractedData.columns.indexOf(mapping.source);
-        if (columnIndex >= 0 && columnIndex < row.length) {
-          mappedRow[mapping.target] = row[columnIndex];
+  // The same invoice scanned again or exported to another format doubles the purchase history
+  const checkInvoiceDuplicates = async (header: InvoiceHeader) => {
+    if (!currentOrganization) return;
+
+    try {
+      const matches = await DuplicateUploadService.findSameInvoice(currentOrganization.organization_id, header);
+      setInvoiceDuplicates(matches);
+      if (matches.length > 0) setRecordInvoice(false);
+    } catch (error) {
+      console.error('Error checking for duplicate invoices:', error);
+    }
+  };
+
+  const loadMatchProposals = async (rows: NormalizedRow[]) => {
+    if (!currentOrganization) return;
+
+    setIsMatching(true);
+    try {
+      const [index, supplierIndex, classifier, codedProducts] = await Promise.all([
+        AliasService.loadIngredientIndex(currentOrganization.organization_id),
+        AliasService.loadSupplierIndex(currentOrganization.organization_id),
+        TaxonomyService.loadClassifier(currentOrganization.organization_id),
+        SupplierCodeService.loadCodedProducts(currentOrganization.organization_id)
+      ]);
+      const proposals: Record<number, MatchProposal[]> = {};
+      const choices: Record<number, string> = {};
+      const suppliers: Record<string, string> = {};
+      const classified: Record<number, Classification> = {};
+
+      rows.filter(row => row.isValid).forEach(row => {
+        classified[row.rowIndex] = classifyProduct(classifier, {
+          name: row.producto,
+          category: row.categoria,
+          family: row.familia,
+          subfamily: row.subfamilia
+        });
+
+        if (row.proveedor && !(row.proveedor in suppliers)) {
+          suppliers[row.proveedor] = findSupplier(supplierIndex, row.proveedor)?.supplierId || CREATE_NEW;
         }
+
+        // The supplier's article code or barcode wins over the name, which suppliers reword
+        const codes = productCodes(row.referencia, row.ean);
+        const coded = suppliers[row.proveedor] && suppliers[row.proveedor] !== CREATE_NEW
+          ? findProductByCode(codedProducts, suppliers[row.proveedor], codes) as CodedSupplierProduct | null
+          : null;
+        const nameMatches = findMatches(index, row.producto);
+        const matches: MatchProposal[] = coded
+          ? [
+              {
+                ingredientId: coded.ingredient_id,
+                ingredientName: coded.ingredient_name,
+                score: 1,
+                kind: 'code',
+                matchedName: codes.sku ?? codes.ean ?? ''
+              },
+              ...nameMatches.filter(match => match.ingredientId !== coded.ingredient_id)
+            ]
+          : nameMatches;
+        proposals[row.rowIndex] = matches;
+        // Weaker proposals, cross-grade ones included, are only applied if the user picks them
+        const [top] = matches;
+        choices[row.rowIndex] = top && top.score >= AUTO_MATCH_THRESHOLD ? top.ingredientId : CREATE_NEW;
       });
-      
-      // Add defaults for missing optional fields
-      if (!mappedRow.igic) mappedRow.igic = '7';
-      if (!mappedRow.area) mappedRow.area = 'both';
-      if (!mappedRow.formato && mappedRow.contenido && mappedRow.unidad) {
-        mappedRow.formato = `${mappedRow.contenido} ${mappedRow.unidad}`;
-      }
-      
-      // Normalize the row
-      const result = normalizeIngredientRow(mappedRow);
-      
-      if (result.isValid && result.normalized) {
-        normalized.push({
-          ...result.normalized,
-          isValid: true,
-          errors: [],
-          rowIndex: rowIndex + 1
-        });
-      } else {
-        // Add to errors for display
-        result.errors.forEach(error => {
-          errors.push({
-            row: rowIndex + 1,
-            column: 'general',
-            value: '',
-            error,
-            suggestion: 'Revisa los datos de esta fila'
-          });
-        });
-        
-        // Still add the row but mark as invalid
-        normalized.push({
-          producto: mappedRow.producto || '',
-          proveedor: mappedRow.proveedor || '',
-          formato: mappedRow.formato || '',
-          contenido: 0,
-          unidad: 'ud',
-          precio: 0,
-          precioUnitario: 0,
-          igic: 7,
-          area: 'both',
-          referencia: mappedRow.referencia,
-          categoria: mappedRow.categoria,
-          isValid: false,
-          errors: result.errors,
-          rowIndex: rowIndex + 1
-        });
-      }
+
+      setMatchProposals(proposals);
+      setMatchChoices(choices);
+      setConfirmedMatches({});
+      setClassifications(classified);
+      setTaxonomyTree(classifier.tree);
+      setSupplierChoices(suppliers);
+      setConfirmedSuppliers({});
+      setSupplierOptions(
+        Array.from(supplierIndex.supplierNames, ([id, name]) => ({ id, name }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+
+      await loadPriceReferences(Object.values(proposals));
+    } catch (error) {
+      console.error('Error matching ingredients:', error);
+      toast({
+        title: "No se pudo comparar con el catálogo",
+        description: "Los productos se emparejarán automáticamente al importar",
+        variant: "destructive",
+      });
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  // Every proposed ingredient is loaded: the user may switch a row to another match
+  const loadPriceReferences = async (proposals: MatchProposal[][]) => {
+    const ingredientIds = Array.from(new Set(proposals.flat().map(match => match.ingredientId)));
+    try {
+      setPriceReferences(await PriceHistoryService.loadReferencePrices(ingredientIds));
+    } catch (error) {
+      console.error('Error loading price history:', error);
+      setPriceReferences({});
+      toast({
+        title: "No se pudieron comprobar los precios",
+        description: "No se ha cargado el histórico de precios; revisa los importes antes de importar",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Unit prices are compared net of tax against the matched ingredient's references
+  const priceChecks = useMemo(() => {
+    const checks: Record<number, PriceCheck> = {};
+    normalizedData.filter(row => row.isValid).forEach(row => {
+      const ingredientId = matchChoices[row.rowIndex];
+      if (!ingredientId || ingredientId === CREATE_NEW) return;
+
+      const supplierChoice = supplierChoices[row.proveedor];
+      const references = selectReferencePrices(
+        priceReferences[ingredientId] || [],
+        supplierChoice && supplierChoice !== CREATE_NEW ? supplierChoice : null
+      );
+      // Without a rate in the file the general one is assumed; the tolerated band is far wider than any rate
+      const taxPct = row.impuesto ?? resolveTaxRate(defaultProfile, 'general');
+      const netUnitPrice = splitTax(row.precioUnitario, taxPct, pricesIncludeTax).net;
+      checks[row.rowIndex] = checkUnitPrice(netUnitPrice, row.unidad, references);
+    });
+    return checks;
+  }, [normalizedData, matchChoices, supplierChoices, priceReferences, defaultProfile, pricesIncludeTax]);
+
+  // Valid rows as invoice lines, net of tax like the invoice's taxable base
+  const invoiceLines = useMemo((): InvoiceLine[] => normalizedData.filter(row => row.isValid).map((row, index) => {
+    const taxPct = row.impuesto ?? resolveTaxRate(defaultProfile, 'general');
+    const unitPrice = splitTax(row.precio, taxPct, pricesIncludeTax).net;
+    const quantity = row.cantidad ?? 1;
+    const choice = matchChoices[row.rowIndex];
+    return {
+      lineNumber: index + 1,
+      description: row.producto,
+      reference: row.referencia || null,
+      quantity,
+      unit: row.unidad || null,
+      unitPrice,
+      discountPct: 0,
+      taxRate: taxPct,
+      lineTotal: row.importe ?? computeLineTotal(quantity, unitPrice),
+      ingredientId: choice && choice !== CREATE_NEW ? choice : null
+    };
+  }), [normalizedData, matchChoices, defaultProfile, pricesIncludeTax]);
+
+  const invoiceCheck = useMemo(
+    () => invoiceHeader ? checkInvoiceTotals(invoiceHeader, invoiceLines) : null,
+    [invoiceHeader, invoiceLines]
+  );
+
+  const importRows = useMemo(
+    () => importPreview ? selectImportRows(importPreview, importSelection) : new Set<number>(),
+    [importPreview, importSelection]
+  );
+
+  const outlierRows = normalizedData.filter(row => row.isValid && priceChecks[row.rowIndex]?.status === 'outlier');
+  // Only rows left selected in the preview have to be confirmed
+  const importedOutliers = outlierRows.filter(row => importRows.has(row.rowIndex));
+  const unacknowledgedOutliers = importedOutliers.filter(row => !acknowledgedPrices[row.rowIndex]);
+
+  const normalizeData = (data: ExtractedData, mappings: ColumnMapping[]): NormalizedRow[] => {
+    // Same rules process-file applies to files imported without the wizard
+    const { rows, numberFormats: formats, rewrittenCells: rewritten } = normalizeTable(
+      data.columns,
+      data.rows,
+      mappings,
+      { rules: validationRules }
+    );
+    
+    // Organization rules point at a field: report them on the file column mapped to it
+    const errors: ValidationError[] = rows.flatMap(row => {
+      const violations = row.violations || [];
+      const general = row.errors
+        .filter(error => !violations.some(violation => violation.error === error))
+        .map(error => ({
+          row: row.rowIndex,
+          column: 'general',
+          value: '',
+          error,
+          suggestion: 'Revisa los datos de esta fila'
+        }));
+      const cells = violations.map(violation => ({
+        row: row.rowIndex,
+        column: mappings.find(mapping => mapping.target === violation.field)?.source || violation.field,
+        value: violation.value,
+        error: violation.error,
+        suggestion: violation.suggestion
+      }));
+      return [...general, ...cells];
     });
     
     setValidationErrors(errors);
-    return normalized;
+    setNumberFormats(formats);
+    setRewrittenCells(rewritten);
+    return rows;
+  };
+
+  // Step 4: Preview what the import changes, compared with the current supplier prices
+  const preparePreview = async () => {
+    if (!currentOrganization) return;
+
+    setIsProcessing(true);
+    try {
+      const rows = normalizedData.map(row => {
+        const choice = matchChoices[row.rowIndex];
+        const supplierChoice = supplierChoices[row.proveedor];
+        const taxPct = row.impuesto ?? resolveTaxRate(defaultProfile, 'general');
+        return {
+          rowIndex: row.rowIndex,
+          product: row.producto,
+          supplier: row.proveedor,
+          ingredientId: choice && choice !== CREATE_NEW ? choice : null,
+          supplierId: supplierChoice && supplierChoice !== CREATE_NEW ? supplierChoice : null,
+          unitPrice: splitTax(row.precioUnitario, taxPct, pricesIncludeTax).net,
+          unit: row.unidad,
+          isValid: row.isValid,
+          errors: row.errors
+        };
+      });
+      const ingredientIds = Array.from(new Set(rows.flatMap(row => row.ingredientId ? [row.ingredientId] : [])));
+      // Compared with what will be replaced: the prices in force on the lists' date
+      const currentPrices = await PriceHistoryService.loadCurrentPrices(ingredientIds, priceListStart() ?? new Date());
+
+      setImportPreview(buildImportPreview(rows, currentPrices));
+      setImportSelection(DEFAULT_IMPORT_SELECTION);
+      setCurrentStep(4);
+    } catch (error) {
+      console.error('Error preparing import preview:', error);
+      toast({
+        title: "No se pudo preparar la vista previa",
+        description: error instanceof Error ? error.message : "Error desconocido",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
-  // Step 3: Import Data
+  // Today's lists apply from the moment of the import, as before; other dates from the start of that day
+  const priceListStart = () => effectiveDate && effectiveDate !== todayIso() ? startOfDay(effectiveDate) : undefined;
+
   const executeImport = async () => {
-    if (!currentOrganization || normalizedData.length === 0) return;
+    if (!currentOrganization || normalizedData.length === 0 || unacknowledgedOutliers.length > 0) return;
     
     setIsProcessing(true);
     
     try {
-      // Filter only valid rows
       const validRows = normalizedData.filter(row => row.isValid);
+      // Only the groups chosen in the preview reach the catalog
+      const selectedRows = validRows.filter(row => importRows.has(row.rowIndex));
       
-      if (validRows.length === 0) {
-        throw new Error('No hay filas válidas para importar');
+      if (selectedRows.length === 0) {
+        throw new Error('No hay filas seleccionadas para importar');
       }
       
       // Call Edge Function to import data
       const { data, error } = await supabase.functions.invoke('import-normalized-data', {
         body: {
-          organizationId: currentOrganization.id,
-          data: validRows
+          organizationId: currentOrganization.organization_id,
+          fileUploadId,
+          effectiveFrom: priceListStart()?.toISOString(),
+          priceListName: file?.name,
+          data: selectedRows.map(row => {
+            const choice = matchChoices[row.rowIndex];
+            const supplierChoice = supplierChoices[row.proveedor];
+            return {
+              ...row,
+              impuestoIncluido: pricesIncludeTax,
+              ingredienteId: choice && choice !== CREATE_NEW ? choice : undefined,
+              ingredienteConfirmado: !!confirmedMatches[row.rowIndex],
+              crearIngrediente: choice === CREATE_NEW,
+              proveedorId: supplierChoice && supplierChoice !== CREATE_NEW ? supplierChoice : undefined,
+              proveedorConfirmado: !!confirmedSuppliers[row.proveedor]
+            };
+          })
         }
       });
       
-      if (error) throw error;
+      // A failed row undoes the whole batch on the server, which answers with an error status
+      if (error || !data.success) {
+        onImported?.();
+        throw new Error(await importFailureMessage(error, data));
+      }
       
       toast({
         title: "Importación completada",
         description: `Se importaron ${data.processedCount} productos correctamente`,
       });
+
+      // A reviewed background job stops offering itself for review
+      if (fileUploadId) {
+        await supabase
+          .from('file_uploads')
+          .update({ processed_records: data.processedCount, processing_step: 'done' })
+          .eq('id', fileUploadId);
+      }
+
+      await saveMappingTemplate(validRows);
+      if (recordInvoice) await savePurchaseInvoice(validRows);
+      onImported?.();
       
       // Reset wizard
       setCurrentStep(1);
       setFile(null);
+      setOcrPreview(null);
       setExtractedData(null);
       setColumnMappings([]);
       setNormalizedData([]);
       setValidationErrors([]);
+      setNumberFormats({});
+      setRewrittenCells(0);
+      setMatchProposals({});
+      setMatchChoices({});
+      setConfirmedMatches({});
+      setSupplierChoices({});
+      setConfirmedSuppliers({});
+      setClassifications({});
+      setPriceReferences({});
+      setAcknowledgedPrices({});
+      setFileUploadId(null);
+      setTemplateMatch(null);
+      setInvoiceHeader(null);
+      setRecordInvoice(false);
+      setInvoiceDuplicates([]);
+      setEffectiveDate(todayIso());
+      setImportPreview(null);
+      setImportSelection(DEFAULT_IMPORT_SELECTION);
+      setWorkbookSheets([]);
+      setSelectedSheets([]);
+      setCsvBytes(null);
+      setCsvDialect(null);
       
     } catch (error) {
       console.error('Import error:', error);
@@ -550,21 +1248,56 @@ export const IngestionWizard: React.FC = () => {
     }
   };
 
+  const renderDuplicateMatches = (matches: DuplicateMatch[]) => (
+    <ul className="text-sm space-y-1 mt-2">
+      {matches.map((match, index) => (
+        <li key={match.uploadId ?? index}>
+          {match.invoiceNumber && `Factura ${match.invoiceNumber}${match.invoiceDate ? ` del ${new Date(match.invoiceDate).toLocaleDateString('es-ES')}` : ''} · `}
+          {match.fileName || 'registrada sin archivo'} · subido el {new Date(match.uploadedAt).toLocaleDateString('es-ES')}
+          {' '}({DUPLICATE_REASONS[match.reason]})
+          {match.url && (
+            <a href={match.url} target="_blank" rel="noopener noreferrer" className="ml-2 underline">
+              Ver archivo anterior
+            </a>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+
   const renderUploadStep = () => (
     <div className="space-y-6">
+      {pendingDuplicate && (
+        <Alert variant="destructive">
+          <Copy className="h-4 w-4" />
+          <AlertDescription>
+            <div className="font-medium">{pendingDuplicate.file.name} ya se subió antes</div>
+            {renderDuplicateMatches(pendingDuplicate.matches)}
+            <div className="flex gap-2 mt-3">
+              <Button size="sm" variant="outline" onClick={() => handleFileUpload(pendingDuplicate.file, true)}>
+                Procesar de todos modos
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setPendingDuplicate(null)}>
+                Cancelar
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8">
         <div className="text-center">
           <Upload className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
           <div className="space-y-2">
             <h3 className="text-lg font-semibold">Sube tu archivo</h3>
             <p className="text-muted-foreground">
-              Soportamos archivos PDF, CSV y Excel (.xlsx, .xls)
+              Soportamos archivos PDF, CSV, Excel (.xlsx, .xls), imágenes (.jpg, .png) y facturas electrónicas Facturae o UBL (.xml)
             </p>
           </div>
           <div className="mt-4">
             <input
               type="file"
-              accept=".pdf,.csv,.xlsx,.xls"
+              accept=".pdf,.csv,.xlsx,.xls,.jpg,.jpeg,.png,.xml"
               onChange={(e) => e.target.files?.[0] && handleFileUpload(e.target.files[0])}
               className="hidden"
               id="file-upload"
@@ -575,6 +1308,60 @@ export const IngestionWizard: React.FC = () => {
               </Button>
             </label>
           </div>
+          <div className="mt-4 flex items-center justify-center gap-2">
+            <Switch
+              id="process-in-background"
+              checked={processInBackground}
+              onCheckedChange={setProcessInBackground}
+            />
+            <Label htmlFor="process-in-background" className="text-sm text-muted-foreground">
+              Procesar en segundo plano (PDF, CSV y Excel; siempre para archivos de más de 5 MB)
+            </Label>
+          </div>
+          <div className="mt-4 flex flex-wrap items-center justify-center gap-4">
+            <div className="flex items-center gap-2">
+              <Label className="text-sm text-muted-foreground">Documento para OCR</Label>
+              <Select value={ocrProfile} onValueChange={(value) => setOcrProfile(value as OcrProfileId)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(OCR_PROFILES) as OcrProfileId[]).map(profile => (
+                    <SelectItem key={profile} value={profile}>
+                      {OCR_PROFILES[profile].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-xs text-muted-foreground">{OCR_PROFILES[ocrProfile].description}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="preprocess-images"
+                checked={preprocessImages}
+                onCheckedChange={setPreprocessImages}
+              />
+              <Label htmlFor="preprocess-images" className="text-sm text-muted-foreground">
+                Limpiar fotos y escaneos antes del OCR
+              </Label>
+            </div>
+          </div>
+          {preprocessImages && (
+            <div className="mt-2 flex flex-wrap items-center justify-center gap-4">
+              {PREPROCESS_STEPS.map(step => (
+                <div key={step.key} className="flex items-center gap-1">
+                  <Checkbox
+                    id={`preprocess-${step.key}`}
+                    checked={preprocessOptions[step.key]}
+                    onCheckedChange={(checked) => setPreprocessOptions(prev => ({ ...prev, [step.key]: checked === true }))}
+                  />
+                  <Label htmlFor={`preprocess-${step.key}`} className="text-xs text-muted-foreground">
+                    {step.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
       
@@ -592,6 +1379,33 @@ export const IngestionWizard: React.FC = () => {
         </Card>
       )}
       
+      {ocrPreview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Imagen enviada al OCR</CardTitle>
+            <CardDescription className="flex flex-wrap items-center gap-1">
+              {ocrPreview.report.steps.map(step => (
+                <Badge key={step} variant="outline">{PREPROCESS_STEP_LABELS[step]}</Badge>
+              ))}
+              {ocrPreview.report.skewAngle !== 0 && ` · enderezada ${ocrPreview.report.skewAngle.toFixed(1)}°`}
+              {ocrPreview.report.scale > 1 && ` · ampliada ×${ocrPreview.report.scale.toFixed(1)}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <div className="text-sm font-medium">Original</div>
+                <img src={ocrPreview.before} alt="Imagen original" className="w-full rounded border" />
+              </div>
+              <div className="space-y-1">
+                <div className="text-sm font-medium">Procesada</div>
+                <img src={ocrPreview.after} alt="Imagen procesada para OCR" className="w-full rounded border" />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {file && extractedData && (
         <Card>
           <CardHeader>
@@ -611,16 +1425,77 @@ export const IngestionWizard: React.FC = () => {
               <div className="text-sm text-muted-foreground">
                 <strong>Tipo:</strong> {extractedData.metadata?.fileType?.toUpperCase()}
                 {extractedData.metadata?.ocrUsed && " (OCR utilizado)"}
+                {extractedData.metadata?.pages !== undefined && ` · ${extractedData.metadata.pages} páginas`}
+                {extractedData.metadata?.ocrConfidence !== undefined &&
+                  ` · confianza media ${Math.round(extractedData.metadata.ocrConfidence * 100)}%`}
+                {extractedData.metadata?.csvDialect && ` · ${extractedData.metadata.csvDialect}`}
+                {extractedData.metadata?.eInvoiceFormat && ` · factura electrónica ${extractedData.metadata.eInvoiceFormat}`}
               </div>
               <div className="text-sm text-muted-foreground">
                 <strong>Columnas detectadas:</strong> {extractedData.columns.join(', ')}
               </div>
             </div>
-            <div className="flex justify-end mt-4">
-              <Button onClick={() => setCurrentStep(2)} className="flex items-center gap-2">
-                Continuar <ChevronRight className="h-4 w-4" />
-              </Button>
-            </div>
+            {workbookSheets.length > 1 ? (
+              <>
+                <Separator className="my-4" />
+                <div className="space-y-4">
+                  <div className="text-sm font-medium">
+                    El libro tiene {workbookSheets.length} hojas con datos. Elige cuáles importar:
+                  </div>
+                  {workbookSheets.map(sheet => (
+                    <div key={sheet.name} className="border rounded-lg p-3 space-y-2">
+                      <div className="flex items-center gap-3">
+                        <Checkbox
+                          id={`sheet-${sheet.name}`}
+                          checked={selectedSheets.includes(sheet.name)}
+                          onCheckedChange={(checked) => toggleSheet(sheet.name, checked === true)}
+                        />
+                        <Label htmlFor={`sheet-${sheet.name}`} className="font-medium">{sheet.name}</Label>
+                        <span className="text-xs text-muted-foreground">
+                          {sheet.rows.length} filas · cabecera en la fila {sheet.headerRow + 1}
+                        </span>
+                        {sheet.hasFamilies && (
+                          <Badge variant="outline" className="text-xs">
+                            {new Set(sheet.families.filter(Boolean)).size} familias por subtítulos
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="overflow-x-auto">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              {sheet.columns.map(column => (
+                                <TableHead key={column} className="text-xs">{column}</TableHead>
+                              ))}
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {sheet.rows.slice(0, 3).map((row, index) => (
+                              <TableRow key={index}>
+                                {row.map((cell, cellIndex) => (
+                                  <TableCell key={cellIndex} className="text-xs">{cell}</TableCell>
+                                ))}
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-end mt-4">
+                  <Button onClick={confirmSheets} disabled={selectedSheets.length === 0} className="flex items-center gap-2">
+                    Continuar con {selectedSheets.length} {selectedSheets.length === 1 ? 'hoja' : 'hojas'} <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <div className="flex justify-end mt-4">
+                <Button onClick={() => setCurrentStep(2)} className="flex items-center gap-2">
+                  Continuar <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -629,14 +1504,107 @@ export const IngestionWizard: React.FC = () => {
 
   const renderMappingStep = () => (
     <div className="space-y-6">
+      {csvDialect && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Formato CSV</CardTitle>
+            <CardDescription>
+              Detectado: {csvDialect.description}
+              {csvDialect.confidence < 0.9 && ` (solo ${Math.round(csvDialect.confidence * 100)}% de filas coherentes, revisa el separador)`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Separador</Label>
+                <Select
+                  value={csvDialect.delimiter}
+                  onValueChange={(value) => changeCsvDialect({ delimiter: value as CsvDialect['delimiter'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_DELIMITERS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Comillas</Label>
+                <Select
+                  value={csvDialect.quote}
+                  onValueChange={(value) => changeCsvDialect({ quote: value as CsvDialect['quote'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_QUOTES.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Codificación</Label>
+                <Select
+                  value={csvDialect.encoding}
+                  onValueChange={(value) => changeCsvDialect({ encoding: value as CsvDialect['encoding'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_ENCODINGS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Mapeo de Columnas</CardTitle>
           <CardDescription>
-            Asigna cada columna del archivo a un campo destino
+            Asigna cada columna del archivo a un campo destino. Al importar, el mapeo se guarda como plantilla
+            del proveedor y se aplicará solo a los próximos archivos con las mismas columnas.
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {mappingTemplates.length > 0 && (
+            <div className="flex items-center gap-4 mb-6 p-3 border rounded-lg">
+              <LayoutTemplate className="h-4 w-4 text-muted-foreground" />
+              <div className="flex-1">
+                <Label className="text-sm font-medium">Plantilla de mapeo</Label>
+                <div className="text-xs text-muted-foreground">
+                  {templateMatch
+                    ? `${Math.round(templateMatch.similarity * 100)}% de columnas en común con este archivo`
+                    : 'Ninguna plantilla coincide con las columnas de este archivo'}
+                </div>
+              </div>
+              <div className="flex-1">
+                <Select value={templateMatch?.template.id || NO_TEMPLATE} onValueChange={chooseTemplate}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Seleccionar plantilla" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TEMPLATE}>Mapeo manual</SelectItem>
+                    {mappingTemplates.map(template => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {templateLabel(template)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
           <div className="grid gap-4">
             {extractedData?.columns.map((column, index) => (
               <div key={index} className="flex items-center gap-4">
@@ -649,7 +1617,7 @@ export const IngestionWizard: React.FC = () => {
                 <div className="flex-1">
                   <Select
                     value={columnMappings.find(m => m.source === column)?.target || 'none'}
-                    onValueChange={(value) => value !== 'none' && handleColumnMapping(column, value)}
+                    onValueChange={(value) => handleColumnMapping(column, value)}
                   >
                     <SelectTrigger>
                       <SelectValue placeholder="Seleccionar campo" />
@@ -717,15 +1685,379 @@ export const IngestionWizard: React.FC = () => {
         <Button variant="outline" onClick={() => setCurrentStep(1)} className="flex items-center gap-2">
           <ChevronLeft className="h-4 w-4" /> Atrás
         </Button>
-        <Button onClick={proceedToValidation} className="flex items-center gap-2">
+        <Button onClick={() => proceedToValidation()} className="flex items-center gap-2">
           Validar datos <ChevronRight className="h-4 w-4" />
         </Button>
       </div>
     </div>
   );
 
+  const renderMatchReview = () => {
+    const validRows = normalizedData.filter(row => row.isValid);
+    // Exact and alias hits need no review; fuzzy ones are shown for confirmation
+    const reviewRows = validRows.filter(row => matchProposals[row.rowIndex]?.[0]?.kind === 'fuzzy');
+    const settledCount = validRows.filter(row => {
+      const top = matchProposals[row.rowIndex]?.[0];
+      return top && top.kind !== 'fuzzy';
+    }).length;
+    const newCount = validRows.filter(row => matchChoices[row.rowIndex] === CREATE_NEW).length;
+    const flaggedRows = validRows.filter(row => classifications[row.rowIndex]?.unmatchedValue);
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Coincidencias con el catálogo
+          </CardTitle>
+          <CardDescription>
+            {isMatching
+              ? 'Buscando ingredientes existentes...'
+              : `${settledCount} productos coinciden con el catálogo, ${reviewRows.length} parecidos por confirmar y ${newCount} se crearán como ingredientes nuevos`}
+          </CardDescription>
+        </CardHeader>
+        {!isMatching && Object.keys(supplierChoices).length > 0 && (
+          <CardContent className="space-y-2">
+            <div className="text-sm font-medium">Proveedores</div>
+            {Object.entries(supplierChoices).map(([name, choice]) => (
+              <div key={name} className="flex items-center gap-2 text-sm">
+                <span className="w-64 truncate" title={name}>{name}</span>
+                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                <Select
+                  value={choice}
+                  onValueChange={(value) => {
+                    setSupplierChoices(prev => ({ ...prev, [name]: value }));
+                    setConfirmedSuppliers(prev => ({ ...prev, [name]: true }));
+                  }}
+                >
+                  <SelectTrigger className="w-80">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {supplierOptions.map(supplier => (
+                      <SelectItem key={supplier.id} value={supplier.id}>
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={CREATE_NEW}>Crear proveedor nuevo</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </CardContent>
+        )}
+        {!isMatching && reviewRows.length > 0 && (
+          <CardContent>
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fila</TableHead>
+                    <TableHead>Producto del archivo</TableHead>
+                    <TableHead>Ingrediente del catálogo</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reviewRows.map(row => {
+                    const proposals = matchProposals[row.rowIndex] || [];
+                    const choice = matchChoices[row.rowIndex] || CREATE_NEW;
+                    const [top] = proposals;
+
+                    return (
+                      <TableRow key={row.rowIndex}>
+                        <TableCell>{row.rowIndex}</TableCell>
+                        <TableCell>
+                          <div>{row.producto}</div>
+                          {top && top.score < AUTO_MATCH_THRESHOLD && choice === CREATE_NEW && (
+                            <Badge
+                              variant="outline"
+                              className="text-orange-600 border-orange-300"
+                              title="Hay un ingrediente parecido: se creará uno nuevo salvo que lo elijas"
+                            >
+                              Revisar
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={choice}
+                            onValueChange={(value) => {
+                              setMatchChoices(prev => ({ ...prev, [row.rowIndex]: value }));
+                              setConfirmedMatches(prev => ({ ...prev, [row.rowIndex]: true }));
+                            }}
+                          >
+                            <SelectTrigger className="w-80">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {proposals.map(match => (
+                                <SelectItem key={match.ingredientId} value={match.ingredientId}>
+                                  {match.ingredientName} ({Math.round(match.score * 100)}%)
+                                </SelectItem>
+                              ))}
+                              <SelectItem value={CREATE_NEW}>Crear ingrediente nuevo</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        )}
+        {!isMatching && flaggedRows.length > 0 && (
+          <CardContent className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <FolderTree className="h-4 w-4" />
+              {flaggedRows.length} categorías fuera de la taxonomía
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Estos valores no existen en Configuración › Categorías: no se guardarán como texto libre. Los productos
+              quedarán pendientes de clasificar con la propuesta indicada.
+            </p>
+            <div className="max-h-64 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fila</TableHead>
+                    <TableHead>Producto</TableHead>
+                    <TableHead>Valor del archivo</TableHead>
+                    <TableHead>Propuesta</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {flaggedRows.map(row => {
+                    const classification = classifications[row.rowIndex];
+                    return (
+                      <TableRow key={row.rowIndex}>
+                        <TableCell>{row.rowIndex}</TableCell>
+                        <TableCell>{row.producto}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="text-orange-600 border-orange-300">
+                            {classification.unmatchedValue}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {taxonomyTree && classification.nodeId ? nodeLabel(taxonomyTree, classification.nodeId) : 'Sin clasificar'}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+    );
+  };
+
+  // The file's supplier, when the whole file comes from one; read after the import created it if new
+  const resolveFileSupplier = async (organizationId: string, rows: NormalizedRow[]) => {
+    const supplierNames = Array.from(new Set(rows.map(row => row.proveedor)));
+    if (supplierNames.length !== 1) return { supplierId: null, supplierName: null };
+
+    const supplierName = supplierNames[0];
+    const choice = supplierChoices[supplierName];
+    if (choice && choice !== CREATE_NEW) return { supplierId: choice, supplierName };
+
+    const supplierIndex = await AliasService.loadSupplierIndex(organizationId);
+    return { supplierId: findSupplier(supplierIndex, supplierName)?.supplierId ?? null, supplierName };
+  };
+
+  // The confirmed import teaches the template for this supplier and layout
+  const saveMappingTemplate = async (rows: NormalizedRow[]) => {
+    if (!currentOrganization || !extractedData) return;
+
+    const organizationId = currentOrganization.organization_id;
+    try {
+      // A template belongs to a supplier only when the whole file comes from one
+      const { supplierId } = await resolveFileSupplier(organizationId, rows);
+
+      await MappingTemplateService.saveTemplate(organizationId, {
+        fileUploadId,
+        supplierId,
+        columns: extractedData.columns,
+        mappings: columnMappings,
+        pricesIncludeTax
+      });
+    } catch (error) {
+      console.error('Error saving mapping template:', error);
+    }
+  };
+
+  // Lines keep the ingredient they were imported into; new ingredients are looked up once created
+  const savePurchaseInvoice = async (rows: NormalizedRow[]) => {
+    if (!currentOrganization || !invoiceHeader) return;
+
+    const organizationId = currentOrganization.organization_id;
+    try {
+      const { supplierId, supplierName } = await resolveFileSupplier(organizationId, rows);
+
+      let lines = invoiceLines;
+      if (lines.some(line => !line.ingredientId)) {
+        const index = await AliasService.loadIngredientIndex(organizationId);
+        lines = lines.map(line => {
+          if (line.ingredientId) return line;
+          const match = findMatches(index, line.description)[0];
+          return { ...line, ingredientId: match && match.score >= AUTO_MATCH_THRESHOLD ? match.ingredientId : null };
+        });
+      }
+
+      const result = await InvoiceService.createInvoice(organizationId, {
+        header: { ...invoiceHeader, supplierName: invoiceHeader.supplierName ?? supplierName },
+        lines,
+        supplierId,
+        fileUploadId
+      });
+      if (!result.success) throw new Error(result.error);
+    } catch (error) {
+      console.error('Error saving purchase invoice:', error);
+      toast({
+        title: "No se pudo guardar la factura",
+        description: "Los precios se importaron, pero la factura de compra no quedó registrada",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderPriceReview = (rows: NormalizedRow[]) => rows.length > 0 && (
+    <Card className="border-orange-300">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-orange-600" />
+          Precios fuera de rango
+        </CardTitle>
+        <CardDescription>
+          {rows.length} precios unitarios (sin impuestos) se alejan del histórico del ingrediente y de los precios
+          actuales de otros proveedores. Corrige el archivo, confirma que son correctos o déjalos fuera de la importación.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={rows.every(row => acknowledgedPrices[row.rowIndex])}
+            onClick={() => setAcknowledgedPrices(prev => ({
+              ...prev,
+              ...Object.fromEntries(rows.map(row => [row.rowIndex, true]))
+            }))}
+          >
+            Confirmar todos
+          </Button>
+        </div>
+        <div className="max-h-64 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fila</TableHead>
+                <TableHead>Producto</TableHead>
+                <TableHead>Precio unitario</TableHead>
+                <TableHead>Rango esperado</TableHead>
+                <TableHead>Precio correcto</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => {
+                const check = priceChecks[row.rowIndex];
+                const taxPct = row.impuesto ?? resolveTaxRate(defaultProfile, 'general');
+                const netUnitPrice = splitTax(row.precioUnitario, taxPct, pricesIncludeTax).net;
+                return (
+                  <TableRow key={row.rowIndex}>
+                    <TableCell>{row.rowIndex}</TableCell>
+                    <TableCell>{row.producto}</TableCell>
+                    <TableCell>
+                      <div className="font-medium text-orange-600">{netUnitPrice.toFixed(4)} €/{row.unidad}</div>
+                      {check.hint && <div className="text-xs text-muted-foreground">{check.hint}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {check.expectedMin.toFixed(4)} – {check.expectedMax.toFixed(4)} €/{row.unidad}
+                      <div className="text-xs">Mediana {check.median.toFixed(4)} € ({check.sampleSize} precios)</div>
+                    </TableCell>
+                    <TableCell>
+                      <Checkbox
+                        checked={!!acknowledgedPrices[row.rowIndex]}
+                        onCheckedChange={(checked) => setAcknowledgedPrices(prev => ({ ...prev, [row.rowIndex]: checked === true }))}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  // Cells that break the organization's validation rules, with the suggested fix
+  const renderRuleErrors = () => {
+    const cellErrors = validationErrors.filter(error => error.column !== 'general');
+    if (cellErrors.length === 0 && rewrittenCells === 0) return null;
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Reglas de validación</CardTitle>
+          <CardDescription>
+            {cellErrors.length > 0
+              ? `${cellErrors.length} celdas no cumplen las reglas de la organización. `
+              : 'Todas las filas cumplen las reglas de la organización. '}
+            {rewrittenCells > 0 && `${rewrittenCells} valores reescritos antes de interpretarlos.`}
+          </CardDescription>
+        </CardHeader>
+        {cellErrors.length > 0 && (
+          <CardContent>
+            <div className="max-h-64 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fila</TableHead>
+                    <TableHead>Columna</TableHead>
+                    <TableHead>Valor</TableHead>
+                    <TableHead>Error</TableHead>
+                    <TableHead>Sugerencia</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {cellErrors.map((error, index) => (
+                    <TableRow key={`${error.row}-${index}`}>
+                      <TableCell>{error.row}</TableCell>
+                      <TableCell>{error.column}</TableCell>
+                      <TableCell className="font-mono text-xs">{error.value || '—'}</TableCell>
+                      <TableCell className="text-sm text-red-600">{error.error}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{error.suggestion}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+    );
+  };
+
   const renderValidationStep = () => (
     <div className="space-y-6">
+      {templateMatch && (
+        <Alert>
+          <LayoutTemplate className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-4">
+            <span>
+              Columnas mapeadas con la plantilla de {templateMatch.template.supplierName || 'varios proveedores'}
+              {templateMatch.exact && ' (mismo formato de archivo)'}.
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setCurrentStep(2)}>
+              Revisar mapeo
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {validationErrors.length > 0 && (
         <Alert>
           <AlertCircle className="h-4 w-4" />
@@ -736,6 +2068,51 @@ export const IngestionWizard: React.FC = () => {
         </Alert>
       )}
 
+      {Object.keys(numberFormats).length > 0 && (
+        <Alert>
+          <AlertDescription>
+            <div className="font-medium mb-1">Formato numérico detectado</div>
+            <ul className="text-sm space-y-1">
+              {Object.entries(numberFormats).map(([field, format]) => (
+                <li key={field}>
+                  {TARGET_FIELDS.find(f => f.key === field)?.label || field}: {format.description}
+                  {format.ambiguous
+                    ? ' — supuesto, los valores no permiten distinguirlo'
+                    : ` — ${Math.round(format.confidence * 100)}% de ${format.samples} valores`}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="prices-include-tax"
+          checked={pricesIncludeTax}
+          onCheckedChange={setPricesIncludeTax}
+        />
+        <Label htmlFor="prices-include-tax">
+          Los precios del archivo incluyen {defaultProfile?.regime || 'impuestos'}
+        </Label>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Label htmlFor="effective-date">Precios vigentes desde</Label>
+        <Input
+          id="effective-date"
+          type="date"
+          value={effectiveDate}
+          onChange={(e) => setEffectiveDate(e.target.value)}
+          className="w-44"
+        />
+        {effectiveDate > todayIso() && (
+          <span className="text-sm text-muted-foreground">
+            Lista programada: los precios actuales se mantienen hasta esa fecha
+          </span>
+        )}
+      </div>
+
       <div className="grid gap-4 md:grid-cols-3">
         <Card>
           <CardContent className="p-6">
@@ -780,6 +2157,35 @@ export const IngestionWizard: React.FC = () => {
         </Card>
       </div>
 
+      {renderRuleErrors()}
+
+      {renderMatchReview()}
+
+      {renderPriceReview(outlierRows)}
+
+      {invoiceDuplicates.length > 0 && (
+        <Alert variant="destructive">
+          <Copy className="h-4 w-4" />
+          <AlertDescription>
+            <div className="font-medium">
+              Esta factura parece ya registrada: no se guardará otra vez salvo que lo actives abajo
+            </div>
+            {renderDuplicateMatches(invoiceDuplicates)}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {invoiceHeader && invoiceCheck && (looksLikeInvoice(invoiceHeader) || recordInvoice) && (
+        <InvoiceReview
+          header={invoiceHeader}
+          check={invoiceCheck}
+          lineCount={invoiceLines.length}
+          enabled={recordInvoice}
+          onEnabledChange={setRecordInvoice}
+          onChange={setInvoiceHeader}
+        />
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Datos normalizados</CardTitle>
@@ -818,10 +2224,27 @@ export const IngestionWizard: React.FC = () => {
                           Error
                         </Badge>
                       )}
+                      {priceChecks[row.rowIndex]?.status === 'outlier' && (
+                        <Badge variant="outline" className="text-orange-600 border-orange-300 mt-1">
+                          Fuera de rango
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>{row.producto}</TableCell>
                     <TableCell>{row.proveedor}</TableCell>
-                    <TableCell>{row.formato}</TableCell>
+                    <TableCell>
+                      <div>{row.formato}</div>
+                      {row.pack && (
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                          {describePackBreakdown(row.pack)}
+                          {row.pack.confidence < 0.7 && (
+                            <Badge variant="outline" className="text-orange-600 border-orange-300" title={row.pack.warnings.join('. ')}>
+                              Revisar
+                            </Badge>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
                     <TableCell>{row.precio.toFixed(2)} €</TableCell>
                     <TableCell>
                       {row.precioUnitario > 0 ? `${row.precioUnitario.toFixed(4)} €/${row.unidad}` : '-'}
@@ -846,11 +2269,43 @@ export const IngestionWizard: React.FC = () => {
           <ChevronLeft className="h-4 w-4" /> Atrás
         </Button>
         <Button 
-          onClick={executeImport} 
+          onClick={preparePreview} 
           disabled={isProcessing || normalizedData.filter(row => row.isValid).length === 0}
           className="flex items-center gap-2"
         >
-          {isProcessing ? 'Importando...' : `Importar ${normalizedData.filter(row => row.isValid).length} productos`}
+          {isProcessing
+            ? 'Comparando con el catálogo...'
+            : <>Ver cambios <ChevronRight className="h-4 w-4" /></>}
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderPreviewStep = () => importPreview && (
+    <div className="space-y-6">
+      <ImportPreviewStep
+        preview={importPreview}
+        selection={importSelection}
+        selectedRows={importRows}
+        onSelectionChange={setImportSelection}
+      />
+
+      {renderPriceReview(importedOutliers)}
+
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={() => setCurrentStep(3)} className="flex items-center gap-2">
+          <ChevronLeft className="h-4 w-4" /> Atrás
+        </Button>
+        <Button 
+          onClick={executeImport} 
+          disabled={isProcessing || importRows.size === 0 || unacknowledgedOutliers.length > 0}
+          className="flex items-center gap-2"
+        >
+          {isProcessing
+            ? 'Importando...'
+            : unacknowledgedOutliers.length > 0
+              ? `Confirma ${unacknowledgedOutliers.length} precios fuera de rango`
+              : `Importar ${importRows.size} productos`}
         </Button>
       </div>
     </div>
@@ -864,6 +2319,8 @@ export const IngestionWizard: React.FC = () => {
         return renderMappingStep();
       case 3:
         return renderValidationStep();
+      case 4:
+        return renderPreviewStep();
       default:
         return null;
     }
@@ -0,0 +1,142 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import type { InvoiceHeader, InvoiceTotalsCheck } from "@shared/invoice";
+import { AlertTriangle, CheckCircle, Receipt } from "lucide-react";
+
+interface InvoiceReviewProps {
+  header: InvoiceHeader;
+  check: InvoiceTotalsCheck;
+  lineCount: number;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  onChange: (header: InvoiceHeader) => void;
+}
+
+const parseAmount = (value: string): number | null => {
+  if (!value.trim()) return null;
+  const parsed = parseFloat(value.replace(',', '.'));
+  return isNaN(parsed) ? null : parsed;
+};
+
+export const InvoiceReview = ({ header, check, lineCount, enabled, onEnabledChange, onChange }: InvoiceReviewProps) => {
+  const update = (changes: Partial<InvoiceHeader>) => onChange({ ...header, ...changes });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="h-5 w-5" />
+              Factura de compra
+            </CardTitle>
+            <CardDescription>
+              Datos de cabecera leídos del documento. Al importar se guarda la factura con sus {lineCount} líneas.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="record-invoice" checked={enabled} onCheckedChange={onEnabledChange} />
+            <Label htmlFor="record-invoice">Registrar factura</Label>
+          </div>
+        </div>
+      </CardHeader>
+      {enabled && (
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Número</Label>
+              <Input
+                value={header.invoiceNumber || ''}
+                onChange={(e) => update({ invoiceNumber: e.target.value || null })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Fecha</Label>
+              <Input
+                type="date"
+                value={header.invoiceDate || ''}
+                onChange={(e) => update({ invoiceDate: e.target.value || null })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Vencimiento</Label>
+              <Input
+                type="date"
+                value={header.dueDate || ''}
+                onChange={(e) => update({ dueDate: e.target.value || null })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>NIF/CIF proveedor</Label>
+              <Input
+                value={header.supplierTaxId || ''}
+                onChange={(e) => update({ supplierTaxId: e.target.value.toUpperCase() || null })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Base imponible (€)</Label>
+              <Input
+                inputMode="decimal"
+                value={header.subtotal ?? ''}
+                onChange={(e) => update({ subtotal: parseAmount(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Impuestos (€)</Label>
+              <Input
+                inputMode="decimal"
+                value={header.taxTotal ?? ''}
+                onChange={(e) => update({ taxTotal: parseAmount(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Total (€)</Label>
+              <Input
+                inputMode="decimal"
+                value={header.total ?? ''}
+                onChange={(e) => update({ total: parseAmount(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Suma de líneas</Label>
+              <div className="h-10 flex items-center text-sm font-medium">{check.linesTotal.toFixed(2)} €</div>
+            </div>
+          </div>
+
+          {header.taxBreakdown.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {header.taxBreakdown.map(line => (
+                <Badge key={`${line.rate}-${line.tax}`} variant="outline">
+                  {line.rate}%: base {line.base.toFixed(2)} € · cuota {line.tax.toFixed(2)} €
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {check.matches ? (
+            <div className="flex items-center gap-2 text-sm text-green-600">
+              <CheckCircle className="h-4 w-4" />
+              Las líneas cuadran con los totales de la factura
+            </div>
+          ) : (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                <ul className="list-disc pl-4 space-y-1">
+                  {check.issues.map(issue => <li key={issue}>{issue}</li>)}
+                </ul>
+                <p className="mt-2 text-xs text-muted-foreground">
+                  La factura se guardará marcada como descuadrada para revisarla.
+                </p>
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
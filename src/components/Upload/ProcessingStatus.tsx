@@ -1,3 +1,4 @@
+import { useCallback, useEffect, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
@@ -8,40 +9,79 @@ import {
   Clock, 
   FileText, 
   Eye,
-  Download
+  RotateCcw
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { UploadJobService, type UploadJob } from '@/services/UploadJobService';
 
-interface ProcessingJob {
-  id: string;
-  fileName: string;
-  fileType: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  progress: number;
-  processedRecords: number;
-  failedRecords: number;
-  totalRecords: number;
-  startTime: Date;
-  endTime?: Date;
-  errorMessage?: string;
-}
+type JobStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
 interface ProcessingStatusProps {
-  jobs: ProcessingJob[];
-  onViewDetails: (jobId: string) => void;
-  onDownloadResults: (jobId: string) => void;
-  onRetry: (jobId: string) => void;
+  onReview: (job: UploadJob) => void;  // open a finished job in the wizard
   className?: string;
 }
 
+const STEP_LABELS: Record<string, string> = {
+  queued: 'En cola',
+  downloading: 'Descargando archivo',
+  extracting: 'Extrayendo datos',
+  normalizing: 'Normalizando filas',
+  ready: 'Listo para revisar',
+  done: 'Importado'
+};
+
+const jobStatus = (job: UploadJob): JobStatus => {
+  const status = job.processing_status as JobStatus;
+  return ['pending', 'processing', 'completed', 'failed'].includes(status) ? status : 'pending';
+};
+
+/**
+ * Background jobs of the organization, updated live as the server works through them.
+ * The user can leave and come back to a finished or failed job.
+ */
 export const ProcessingStatus = ({
-  jobs,
-  onViewDetails,
-  onDownloadResults,
-  onRetry,
+  onReview,
   className
 }: ProcessingStatusProps) => {
-  const getStatusIcon = (status: ProcessingJob['status']) => {
+  const { currentOrganization } = useAuth();
+  const { toast } = useToast();
+  const [jobs, setJobs] = useState<UploadJob[]>([]);
+
+  const loadJobs = useCallback(async () => {
+    if (!currentOrganization) return;
+
+    try {
+      setJobs(await UploadJobService.getJobs(currentOrganization.organization_id));
+    } catch (error) {
+      console.error('Error loading processing jobs:', error);
+    }
+  }, [currentOrganization]);
+
+  useEffect(() => {
+    if (!currentOrganization) return;
+
+    loadJobs();
+    return UploadJobService.subscribe(currentOrganization.organization_id, job => {
+      setJobs(prev => prev.some(j => j.id === job.id)
+        ? prev.map(j => (j.id === job.id ? job : j))
+        : [job, ...prev]);
+    });
+  }, [currentOrganization, loadJobs]);
+
+  const retryJob = async (job: UploadJob) => {
+    const result = await UploadJobService.retry(job);
+    if (!result.success) {
+      toast({
+        title: "No se pudo reintentar",
+        description: result.error,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getStatusIcon = (status: JobStatus) => {
     switch (status) {
       case 'pending':
         return <Clock className="h-4 w-4 text-warning" />;
@@ -54,7 +94,7 @@ export const ProcessingStatus = ({
     }
   };
 
-  const getStatusBadge = (status: ProcessingJob['status']) => {
+  const getStatusBadge = (status: JobStatus) => {
     const variants = {
       pending: 'secondary',
       processing: 'default',
@@ -76,7 +116,7 @@ export const ProcessingStatus = ({
     );
   };
 
-  const formatDuration = (start: Date, end?: Date) => {
+  const formatDuration = (start: Date, end?: Date | null) => {
     const endTime = end || new Date();
     const duration = Math.round((endTime.getTime() - start.getTime()) / 1000);
     
@@ -90,6 +130,8 @@ export const ProcessingStatus = ({
       csv: 'CSV',
       excel: 'Excel',
       pdf: 'PDF',
+      xlsx: 'Excel',
+      xls: 'Excel',
       image: 'Imagen'
     };
     return types[fileType as keyof typeof types] || fileType.toUpperCase();
@@ -101,7 +143,7 @@ export const ProcessingStatus = ({
         <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
         <h3 className="text-lg font-semibold mb-2">No hay archivos procesándose</h3>
         <p className="text-muted-foreground">
-          Los archivos aparecerán aquí cuando comiences a procesarlos
+          Los archivos grandes se procesan en segundo plano y aparecerán aquí
         </p>
       </Card>
     );
@@ -117,96 +159,95 @@ export const ProcessingStatus = ({
       </div>
 
       <div className="space-y-4">
-        {jobs.map((job) => (
-          <div
-            key={job.id}
-            className="border rounded-lg p-4 transition-colors hover:bg-muted/50"
-          >
-            <div className="flex items-start justify-between gap-4">
-              {/* Info principal */}
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center gap-2 mb-2">
-                  {getStatusIcon(job.status)}
-                  <h4 className="font-medium truncate">{job.fileName}</h4>
-                  {getStatusBadge(job.status)}
-                  <Badge variant="outline" className="text-xs">
-                    {formatFileType(job.fileType)}
-                  </Badge>
-                </div>
-
-                {/* Progreso */}
-                {job.status === 'processing' && (
-                  <div className="mb-2">
-                    <Progress value={job.progress} className="h-2" />
-                    <p className="text-xs text-muted-foreground mt-1">
-                      {job.progress}% completado
-                    </p>
+        {jobs.map((job) => {
+          const status = jobStatus(job);
+          const stale = UploadJobService.isStale(job);
+          return (
+            <div
+              key={job.id}
+              className="border rounded-lg p-4 transition-colors hover:bg-muted/50"
+            >
+              <div className="flex items-start justify-between gap-4">
+                {/* Info principal */}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-2">
+                    {getStatusIcon(status)}
+                    <h4 className="font-medium truncate">{job.file_name}</h4>
+                    {getStatusBadge(status)}
+                    <Badge variant="outline" className="text-xs">
+                      {formatFileType(job.file_type)}
+                    </Badge>
                   </div>
-                )}
-
-                {/* Estadísticas */}
-                <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                  {job.status === 'completed' && (
-                    <>
-                      <span className="text-success">
-                        ✓ {job.processedRecords} procesados
-                      </span>
-                      {job.failedRecords > 0 && (
-                        <span className="text-destructive">
-                          ✗ {job.failedRecords} errores
-                        </span>
-                      )}
-                    </>
+
+                  {/* Progreso */}
+                  {(status === 'processing' || status === 'pending') && (
+                    <div className="mb-2">
+                      <Progress value={job.progress} className="h-2" />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {STEP_LABELS[job.processing_step || 'queued'] || job.processing_step} · {job.progress}% completado
+                        {job.attempts > 1 && ` · intento ${job.attempts} de ${job.max_attempts}`}
+                        {stale && ' · sin respuesta del servidor'}
+                      </p>
+                    </div>
                   )}
+
+                  {/* Estadísticas */}
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                    {status === 'completed' && (
+                      <>
+                        <span className="text-success">
+                          ✓ {job.processing_step === 'ready'
+                            ? `${job.extracted_records ?? 0} filas listas para revisar`
+                            : `${job.processed_records ?? 0} procesados`}
+                        </span>
+                        {(job.failed_records ?? 0) > 0 && (
+                          <span className="text-destructive">
+                            ✗ {job.failed_records} errores
+                          </span>
+                        )}
+                      </>
+                    )}
                   
-                  {job.status === 'failed' && job.errorMessage && (
-                    <span className="text-destructive">
-                      {job.errorMessage}
-                    </span>
-                  )}
+                    {(status === 'failed' || status === 'pending') && job.error_message && (
+                      <span className="text-destructive">
+                        {job.error_message}
+                      </span>
+                    )}
 
-                  <span>
-                    {formatDuration(job.startTime, job.endTime)}
-                  </span>
+                    <span>
+                      {formatDuration(new Date(job.started_at || job.queued_at || job.created_at), job.processed_at ? new Date(job.processed_at) : null)}
+                    </span>
+                  </div>
                 </div>
-              </div>
 
-              {/* Acciones */}
-              <div className="flex gap-2">
-                {job.status === 'completed' && (
-                  <>
+                {/* Acciones */}
+                <div className="flex gap-2">
+                  {status === 'completed' && job.processing_step === 'ready' && (
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => onViewDetails(job.id)}
+                      onClick={() => onReview(job)}
                     >
                       <Eye className="h-4 w-4 mr-1" />
-                      Ver
+                      Revisar
                     </Button>
+                  )}
+
+                  {(status === 'failed' || stale) && (
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => onDownloadResults(job.id)}
+                      onClick={() => retryJob(job)}
                     >
-                      <Download className="h-4 w-4 mr-1" />
-                      Descargar
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Reintentar
                     </Button>
-                  </>
-                )}
-
-                {job.status === 'failed' && (
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => onRetry(job.id)}
-                  >
-                    Reintentar
-                  </Button>
-                )}
+                  )}
+                </div>
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </Card>
   );
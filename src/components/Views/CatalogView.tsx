@@ -8,10 +8,15 @@ import { FilterPanel } from "@/components/Catalog/FilterPanel";
 import { IngredientCard } from "@/components/Catalog/IngredientCard";
 import { ComparisonModal } from "@/components/Catalog/ComparisonModal";
 import { PriceAlerts } from "@/components/Catalog/PriceAlerts";
+import { MissingSupplierCodes } from "@/components/Catalog/MissingSupplierCodes";
+import { IngredientDetailDialog, type IngredientDetail } from "@/components/Catalog/IngredientDetailDialog";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import type { Json } from "@/integrations/supabase/types";
+import type { TaxCategory } from "@shared/tax";
+import type { ClassificationStatus } from "@shared/taxonomy";
+import { ALLERGENS, ALLERGEN_LABELS, allergensWithStatus, parseAllergenEntries, type AllergenEntry } from "@shared/allergens";
 import { 
   Package, 
   TrendingUp, 
@@ -30,6 +35,7 @@ type IngredientRowFromDB = {
   name: string;
   category: string;
   family: string;
+  subfamily: string | null;
   unit_base: string;
   best_price: number | null;
   avg_price: number | null;
@@ -37,7 +43,13 @@ type IngredientRowFromDB = {
   last_price_update: string | null;
   area: string;
   price_trend: number;
-  allergens: Json[] | null; // <- JSON array from Supabase
+  allergens: Json | null; // <- JSON array from Supabase
+  density_kg_per_l: number | null;
+  piece_weight_kg: number | null;
+  tax_category: TaxCategory;
+  taxonomy_node_id: string | null;
+  classification_status: string;
+  unmatched_category: string | null;
 };
 
 // UI type (what the component expects)
@@ -46,22 +58,28 @@ interface Ingredient {
   name: string;
   category: string;
   family: string;
+  subfamily: string | null;
   unit_base: string;
   best_price: number | null;
   avg_price: number | null;
   supplier_count: number;
   last_price_update: string | null;
-  allergens: string[]; // <- clean string array for UI
+  allergens: AllergenEntry[]; // <- parsed entries with review status
   area: 'kitchen' | 'dining' | 'both';
   price_trend: number;
+  density_kg_per_l: number | null;
+  piece_weight_kg: number | null;
+  tax_category: TaxCategory;
+  taxonomy_node_id: string | null;
+  classification_status: ClassificationStatus;
+  unmatched_category: string | null;
 }
 
-// Safe conversion function
-const normalizeAllergens = (arr: Json[] | null | undefined): string[] => {
-  if (!Array.isArray(arr)) return [];
-  return arr
-    .map(x => (typeof x === "string" ? x : x == null ? "" : String(x)))
-    .filter(Boolean);
+const normalizeClassificationStatus = (status: string): ClassificationStatus => {
+  if (status === 'manual' || status === 'auto') {
+    return status;
+  }
+  return 'pending';
 };
 
 const normalizeArea = (area: string): 'kitchen' | 'dining' | 'both' => {
@@ -77,6 +95,7 @@ const toIngredient = (r: IngredientRowFromDB): Ingredient => ({
   name: r.name,
   category: r.category,
   family: r.family,
+  subfamily: r.subfamily,
   unit_base: r.unit_base,
   best_price: r.best_price,
   avg_price: r.avg_price,
@@ -84,7 +103,13 @@ const toIngredient = (r: IngredientRowFromDB): Ingredient => ({
   last_price_update: r.last_price_update,
   area: normalizeArea(r.area),
   price_trend: r.price_trend,
-  allergens: normalizeAllergens(r.allergens),
+  allergens: parseAllergenEntries(r.allergens),
+  density_kg_per_l: r.density_kg_per_l,
+  piece_weight_kg: r.piece_weight_kg,
+  tax_category: r.tax_category,
+  taxonomy_node_id: r.taxonomy_node_id,
+  classification_status: normalizeClassificationStatus(r.classification_status),
+  unmatched_category: r.unmatched_category,
 });
 
 export const CatalogView = () => {
@@ -94,6 +119,7 @@ export const CatalogView = () => {
   const [selectedCategory, setSelectedCategory] = useState("all");
   const [selectedFamily, setSelectedFamily] = useState("all");
   const [selectedArea, setSelectedArea] = useState("all");
+  const [selectedAllergen, setSelectedAllergen] = useState("all");
   const [selectedIngredient, setSelectedIngredient] = useState<Ingredient | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [comparisonItems, setComparisonItems] = useState<string[]>([]);
@@ -109,6 +135,8 @@ export const CatalogView = () => {
   }, [currentOrganization]);
 
   const fetchIngredients = async () => {
+    if (!currentOrganization) return;
+
     try {
       setLoading(true);
       
@@ -119,6 +147,7 @@ export const CatalogView = () => {
           name,
           category,
           family,
+          subfamily,
           unit_base,
           best_price,
           avg_price,
@@ -126,9 +155,15 @@ export const CatalogView = () => {
           last_price_update,
           allergens,
           area,
-          price_trend
+          price_trend,
+          density_kg_per_l,
+          piece_weight_kg,
+          tax_category,
+          taxonomy_node_id,
+          classification_status,
+          unmatched_category
         `)
-        .eq('organization_id', currentOrganization?.id)
+        .eq('organization_id', currentOrganization.organization_id)
         .order('name');
 
       if (error) {
@@ -160,14 +195,21 @@ export const CatalogView = () => {
   const categories = [...new Set(ingredients.map(i => i.category).filter(Boolean))];
   const families = [...new Set(ingredients.map(i => i.family).filter(Boolean))];
 
+  const hasPendingAllergens = (ingredient: Ingredient) => ingredient.allergens.some(entry => entry.status === 'suggested');
+
   // Filter ingredients based on search and filters
   const filteredIngredients = ingredients.filter(ingredient => {
     const matchesSearch = ingredient.name.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory = selectedCategory === 'all' || ingredient.category === selectedCategory;
+    const matchesCategory = selectedCategory === 'all'
+      || (selectedCategory === 'pending' && ingredient.classification_status === 'pending')
+      || ingredient.category === selectedCategory;
     const matchesFamily = selectedFamily === 'all' || ingredient.family === selectedFamily;
     const matchesArea = selectedArea === 'all' || ingredient.area === selectedArea || ingredient.area === 'both';
+    const matchesAllergen = selectedAllergen === 'all'
+      || (selectedAllergen === 'pending' && hasPendingAllergens(ingredient))
+      || ingredient.allergens.some(entry => entry.code === selectedAllergen && entry.status === 'confirmed');
     
-    return matchesSearch && matchesCategory && matchesFamily && matchesArea;
+    return matchesSearch && matchesCategory && matchesFamily && matchesArea && matchesAllergen;
   });
 
   const handleAddToComparison = (ingredientId: string) => {
@@ -180,6 +222,11 @@ export const CatalogView = () => {
     setComparisonItems(comparisonItems.filter(id => id !== ingredientId));
   };
 
+  const handleIngredientUpdated = (updated: IngredientDetail) => {
+    setIngredients(prev => prev.map(i => i.id === updated.id ? { ...i, ...updated } : i));
+    setSelectedIngredient(prev => prev && prev.id === updated.id ? { ...prev, ...updated } : prev);
+  };
+
   const formatUnitPrice = (price: number, unit: string) => `${price.toFixed(4)} €/${unit}`;
   
   const getAreaBadge = (area: string) => {
@@ -341,10 +388,12 @@ export const CatalogView = () => {
         </Card>
       </div>
 
+      <MissingSupplierCodes organizationId={currentOrganization.organization_id} />
+
       {/* Filters */}
       <Card>
         <CardContent className="p-6">
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
+          <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
             <div className="space-y-2">
               <label className="text-sm font-medium">Buscar</label>
               <div className="relative">
@@ -366,6 +415,9 @@ export const CatalogView = () => {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">Todas las categorías</SelectItem>
+                  <SelectItem value="pending">
+                    Pendientes de clasificar ({ingredients.filter(i => i.classification_status === 'pending').length})
+                  </SelectItem>
                   {categories.map(category => (
                     <SelectItem key={category} value={category}>
                       {category}
@@ -407,6 +459,26 @@ export const CatalogView = () => {
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Alérgenos</label>
+              <Select value={selectedAllergen} onValueChange={setSelectedAllergen}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Todos" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos</SelectItem>
+                  <SelectItem value="pending">
+                    Por revisar ({ingredients.filter(hasPendingAllergens).length})
+                  </SelectItem>
+                  {ALLERGENS.map(allergen => (
+                    <SelectItem key={allergen.code} value={allergen.code}>
+                      Contiene {allergen.label.toLowerCase()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="space-y-2">
               <label className="text-sm font-medium">Resultados</label>
               <div className="text-sm text-muted-foreground pt-2">
@@ -470,14 +542,24 @@ export const CatalogView = () => {
           "space-y-4"
         }>
           {filteredIngredients.map((ingredient) => (
-            <Card key={ingredient.id} className="cursor-pointer hover:shadow-md transition-shadow">
+            <Card 
+              key={ingredient.id} 
+              className="cursor-pointer hover:shadow-md transition-shadow"
+              onClick={() => setSelectedIngredient(ingredient)}
+            >
               <CardContent className="p-6">
                 <div className="space-y-4">
                   <div>
                     <h3 className="font-semibold">{ingredient.name}</h3>
                     <p className="text-sm text-muted-foreground">
                       {ingredient.category || 'Sin categoría'} • {ingredient.family || 'Sin familia'}
+                      {ingredient.subfamily && ` • ${ingredient.subfamily}`}
                     </p>
+                    {ingredient.classification_status === 'pending' && (
+                      <Badge variant="outline" className="text-xs text-warning border-warning mt-1">
+                        {ingredient.unmatched_category ? `"${ingredient.unmatched_category}" no está en la taxonomía` : 'Sin clasificar'}
+                      </Badge>
+                    )}
                   </div>
                   <div className="flex justify-between items-center">
                     <div>
@@ -490,6 +572,20 @@ export const CatalogView = () => {
                     </div>
                     {getAreaBadge(ingredient.area)}
                   </div>
+                  {ingredient.allergens.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {allergensWithStatus(ingredient.allergens, 'confirmed').map(code => (
+                        <Badge key={code} variant="destructive" className="text-xs">
+                          {ALLERGEN_LABELS[code]}
+                        </Badge>
+                      ))}
+                      {hasPendingAllergens(ingredient) && (
+                        <Badge variant="outline" className="text-xs text-warning border-warning">
+                          {allergensWithStatus(ingredient.allergens, 'suggested').length} por revisar
+                        </Badge>
+                      )}
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -497,7 +593,11 @@ export const CatalogView = () => {
         </div>
       )}
 
-      {/* Future: Add modals here */}
+      <IngredientDetailDialog
+        ingredient={selectedIngredient}
+        onClose={() => setSelectedIngredient(null)}
+        onUpdated={handleIngredientUpdated}
+      />
     </div>
   );
 };
\ No newline at end of file
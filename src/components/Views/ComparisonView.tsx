@@ -20,6 +20,10 @@ import { cn } from "@/lib/utils";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useTaxProfiles } from "@/hooks/useTaxProfiles";
+import { convertQuantity, profileFromIngredient } from "@shared/units";
+import { splitTax, taxModeLabel, type TaxDisplayMode } from "@shared/tax";
+import { endOfDay, todayIso } from "@shared/priceVersions";
 
 interface SupplierPrice {
   id: string;
@@ -30,11 +34,19 @@ interface SupplierPrice {
   packNetQty: number;
   packUnit: string;
   packPrice: number;
+  baseUnit: string;
+  comparable: boolean;  // false when the pack unit can't be expressed in the ingredient's base unit
   unitPrice: number;
   discountPct: number;
   taxPct: number;
+  taxIncluded: boolean;
   finalPrice: number;
+  netUnitPrice: number;
+  grossUnitPrice: number;
+  netFinalPrice: number;
+  grossFinalPrice: number;
   effectiveFrom: string;
+  effectiveTo: string | null;
   isBest: boolean;
   area: string;
   family: string;
@@ -47,19 +59,29 @@ export const ComparisonView = () => {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedIngredient, setSelectedIngredient] = useState("all");
   const [selectedArea, setSelectedArea] = useState("all");
+  const [taxMode, setTaxMode] = useState<TaxDisplayMode>("net");
+  const [asOfDate, setAsOfDate] = useState(todayIso());
 
   const { currentOrganization } = useAuth();
+  const { defaultProfile } = useTaxProfiles();
   const { toast } = useToast();
 
   useEffect(() => {
-    if (currentOrganization) {
+    if (currentOrganization && asOfDate) {
       fetchPrices();
     }
-  }, [currentOrganization]);
+  }, [currentOrganization, asOfDate]);
+
+  // Prices valid at any moment of the selected day, the latest list of the day included
+  const asOf = endOfDay(asOfDate || todayIso());
+  const isToday = asOfDate === todayIso();
 
   const fetchPrices = async () => {
+    if (!currentOrganization) return;
+
     try {
       setLoading(true);
+      const asOfIso = asOf.toISOString();
       
       const { data, error } = await supabase
         .from('supplier_prices')
@@ -71,7 +93,9 @@ export const ComparisonView = () => {
           pack_price,
           discount_pct,
           tax_pct,
+          tax_included,
           effective_from,
+          effective_to,
           is_active,
           supplier_products!inner (
             id,
@@ -85,12 +109,16 @@ export const ComparisonView = () => {
               id,
               name,
               category,
-              unit_base
+              unit_base,
+              density_kg_per_l,
+              piece_weight_kg
             )
           )
         `)
         .eq('is_active', true)
-        .eq('supplier_products.suppliers.organization_id', currentOrganization?.id)
+        .lte('effective_from', asOfIso)
+        .or(`effective_to.is.null,effective_to.gt.${asOfIso}`)
+        .eq('supplier_products.suppliers.organization_id', currentOrganization.organization_id)
         .order('effective_from', { ascending: false });
 
       if (error) {
@@ -105,11 +133,28 @@ export const ComparisonView = () => {
 
       // Transform data and calculate metrics
       const transformedPrices: SupplierPrice[] = (data || []).map((item: any) => {
-        const unitPrice = item.pack_price / item.pack_net_qty;
-        const discountAmount = item.pack_price * (item.discount_pct / 100);
-        const taxableAmount = item.pack_price - discountAmount;
-        const taxAmount = taxableAmount * (item.tax_pct / 100);
-        const finalPrice = taxableAmount + taxAmount;
+        const ingredient = item.supplier_products.ingredients;
+        const ingredientUnit = ingredient.unit_base || item.pack_unit;
+
+        // Express the pack content in the ingredient's base unit so every supplier is compared per kg, L or ud
+        const converted = convertQuantity(
+          item.pack_net_qty,
+          item.pack_unit,
+          ingredientUnit,
+          profileFromIngredient(ingredient)
+        );
+        // Without a conversion the price stays per pack unit and is left out of the ranking
+        const comparable = converted !== null;
+        const packQtyInBase = converted ?? item.pack_net_qty;
+        const baseUnit = comparable ? ingredientUnit : item.pack_unit;
+
+        // tax_pct and discount_pct are percentages; pack_price may or may not include the tax
+        const listed = splitTax(item.pack_price, item.tax_pct, item.tax_included);
+        const discounted = splitTax(
+          item.pack_price * (1 - (item.discount_pct || 0) / 100),
+          item.tax_pct,
+          item.tax_included
+        );
         
         return {
           id: item.id,
@@ -120,11 +165,19 @@ export const ComparisonView = () => {
           packNetQty: item.pack_net_qty,
           packUnit: item.pack_unit,
           packPrice: item.pack_price,
-          unitPrice: unitPrice / item.pack_net_qty, // Normalize to base unit
-          discountPct: item.discount_pct,
-          taxPct: item.tax_pct,
-          finalPrice: finalPrice / item.pack_net_qty, // Final unit price
+          baseUnit,
+          comparable,
+          unitPrice: listed.net / packQtyInBase,
+          discountPct: item.discount_pct || 0,
+          taxPct: item.tax_pct || 0,
+          taxIncluded: !!item.tax_included,
+          finalPrice: discounted.net / packQtyInBase, // Final unit price
+          netUnitPrice: listed.net / packQtyInBase,
+          grossUnitPrice: listed.gross / packQtyInBase,
+          netFinalPrice: discounted.net / packQtyInBase,
+          grossFinalPrice: discounted.gross / packQtyInBase,
           effectiveFrom: item.effective_from,
+          effectiveTo: item.effective_to,
           isBest: false, // Will be calculated below
           area: item.supplier_products.area,
           family: item.supplier_products.family || '',
@@ -141,11 +194,13 @@ export const ComparisonView = () => {
         return acc;
       }, {} as Record<string, SupplierPrice[]>);
 
-      // Mark best prices
+      // Mark best prices on net cost, so different tax rates don't skew the ranking
       Object.values(ingredientGroups).forEach(group => {
-        const bestPrice = Math.min(...group.map(p => p.finalPrice));
-        group.forEach(price => {
-          if (price.finalPrice === bestPrice) {
+        const comparable = group.filter(p => p.comparable);
+        if (comparable.length === 0) return;
+        const bestPrice = Math.min(...comparable.map(p => p.netFinalPrice));
+        comparable.forEach(price => {
+          if (price.netFinalPrice === bestPrice) {
             price.isBest = true;
           }
         });
@@ -164,12 +219,19 @@ export const ComparisonView = () => {
     }
   };
 
+  // Every amount follows the selected tax mode
+  const displayPrices = prices.map(price => ({
+    ...price,
+    unitPrice: taxMode === 'gross' ? price.grossUnitPrice : price.netUnitPrice,
+    finalPrice: taxMode === 'gross' ? price.grossFinalPrice : price.netFinalPrice
+  }));
+
   // Get unique values for filters
   const uniqueIngredients = [...new Set(prices.map(p => ({ id: p.ingredientId, name: p.ingredientName })))];
   const uniqueAreas = [...new Set(prices.map(p => p.area))];
 
   // Filter prices
-  const filteredPrices = prices.filter(price => {
+  const filteredPrices = displayPrices.filter(price => {
     const matchesSearch = price.ingredientName.toLowerCase().includes(searchTerm.toLowerCase()) ||
                           price.supplierName.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesIngredient = selectedIngredient === 'all' || price.ingredientId === selectedIngredient;
@@ -186,9 +248,10 @@ export const ComparisonView = () => {
     outdatedPrices: 0
   };
 
-  // Calculate ingredient-wise savings
-  const ingredientStats = uniqueIngredients.map(ingredient => {
-    const ingredientPrices = prices.filter(p => p.ingredientId === ingredient.id);
+  // Calculate ingredient-wise savings over the prices expressed in the ingredient's base unit
+  const ingredientStats = uniqueIngredients.flatMap(ingredient => {
+    const ingredientPrices = displayPrices.filter(p => p.ingredientId === ingredient.id && p.comparable);
+    if (ingredientPrices.length === 0) return [];
     const bestPrice = Math.min(...ingredientPrices.map(p => p.finalPrice));
     const worstPrice = Math.max(...ingredientPrices.map(p => p.finalPrice));
     const avgPrice = ingredientPrices.reduce((sum, p) => sum + p.finalPrice, 0) / ingredientPrices.length;
@@ -210,6 +273,10 @@ export const ComparisonView = () => {
   const formatPrice = (price: number) => `${price.toFixed(4)} €`;
   const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString();
 
+  // Age of a price on the selected date, not today: an old list can be the newest one back then
+  const daysInForce = (price: SupplierPrice) =>
+    (asOf.getTime() - new Date(price.effectiveFrom).getTime()) / (1000 * 3600 * 24);
+
   const getAreaBadge = (area: string) => {
     switch (area) {
       case 'kitchen':
@@ -226,8 +293,8 @@ export const ComparisonView = () => {
   const exportComparison = () => {
     const headers = [
       'Ingrediente', 'Proveedor', 'Descripción', 'Cantidad', 'Unidad', 
-      'Precio Pack', 'Precio Unitario', 'Descuento %', 'Impuesto %', 
-      'Precio Final', 'Área', 'Fecha', 'Es Mejor'
+      'Precio Pack', 'Precio Unitario', 'Descuento %', 'Impuesto %', 'Impuesto incluido',
+      `Precio Final (${taxModeLabel(taxMode, defaultProfile?.regime)})`, 'Área', 'Fecha', 'Vigente hasta', 'Es Mejor'
     ];
     
     const csvContent = [
@@ -242,9 +309,11 @@ export const ComparisonView = () => {
         price.unitPrice.toFixed(4),
         price.discountPct.toString(),
         price.taxPct.toString(),
+        price.taxIncluded ? 'Sí' : 'No',
         price.finalPrice.toFixed(4),
         `"${price.area}"`,
         `"${formatDate(price.effectiveFrom)}"`,
+        price.effectiveTo ? `"${formatDate(price.effectiveTo)}"` : '',
         price.isBest ? 'Sí' : 'No'
       ].join(','))
     ].join('\n');
@@ -253,7 +322,7 @@ export const ComparisonView = () => {
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
     link.setAttribute('href', url);
-    link.setAttribute('download', `comparacion-precios-${new Date().toISOString().split('T')[0]}.csv`);
+    link.setAttribute('download', `comparacion-precios-${asOfDate}.csv`);
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
     link.click();
@@ -295,10 +364,28 @@ export const ComparisonView = () => {
             Compara precios de ingredientes entre diferentes proveedores
           </p>
         </div>
-        <Button onClick={exportComparison} variant="outline">
-          <Download className="h-4 w-4 mr-2" />
-          Exportar CSV
-        </Button>
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={asOfDate}
+            onChange={(e) => setAsOfDate(e.target.value)}
+            className="w-40"
+            aria-label="Precios vigentes a fecha"
+          />
+          <Select value={taxMode} onValueChange={(value) => setTaxMode(value as TaxDisplayMode)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="net">Precios {taxModeLabel('net', defaultProfile?.regime)}</SelectItem>
+              <SelectItem value="gross">Precios {taxModeLabel('gross', defaultProfile?.regime)}</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={exportComparison} variant="outline">
+            <Download className="h-4 w-4 mr-2" />
+            Exportar CSV
+          </Button>
+        </div>
       </div>
 
       {/* Statistics Cards */}
@@ -347,10 +434,7 @@ export const ComparisonView = () => {
               <Calendar className="h-8 w-8 text-purple-500" />
               <div>
                 <div className="text-2xl font-bold">
-                  {prices.filter(p => {
-                    const daysDiff = (new Date().getTime() - new Date(p.effectiveFrom).getTime()) / (1000 * 3600 * 24);
-                    return daysDiff > 30;
-                  }).length}
+                  {prices.filter(p => daysInForce(p) > 30).length}
                 </div>
                 <div className="text-sm text-muted-foreground">Precios +30 días</div>
               </div>
@@ -425,7 +509,8 @@ export const ComparisonView = () => {
         <CardHeader>
           <CardTitle>Comparación de Precios</CardTitle>
           <CardDescription>
-            Precios unitarios normalizados por ingrediente y proveedor
+            Precios unitarios normalizados por ingrediente y proveedor, {taxModeLabel(taxMode, defaultProfile?.regime)}
+            {!isToday && `, vigentes el ${asOf.toLocaleDateString()}`}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -487,7 +572,13 @@ export const ComparisonView = () => {
                         {formatPrice(price.packPrice)}
                       </TableCell>
                       <TableCell className="text-right">
-                        {formatPrice(price.unitPrice)}
+                        {formatPrice(price.unitPrice)}/{price.baseUnit}
+                        {!price.comparable && (
+                          <div className="flex items-center justify-end gap-1 text-xs text-destructive mt-1">
+                            <AlertTriangle className="h-3 w-3" />
+                            No comparable
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
                         {price.discountPct > 0 ? (
@@ -498,6 +589,9 @@ export const ComparisonView = () => {
                       </TableCell>
                       <TableCell className="text-right">
                         {price.taxPct}%
+                        {price.taxIncluded && (
+                          <div className="text-xs text-muted-foreground">incluido</div>
+                        )}
                       </TableCell>
                       <TableCell className="text-right font-medium">
                         {formatPrice(price.finalPrice)}
@@ -511,15 +605,17 @@ export const ComparisonView = () => {
                         <div className="text-sm">
                           {formatDate(price.effectiveFrom)}
                         </div>
-                        {(() => {
-                          const daysDiff = (new Date().getTime() - new Date(price.effectiveFrom).getTime()) / (1000 * 3600 * 24);
-                          return daysDiff > 30 && (
-                            <Badge variant="destructive" className="mt-1">
-                              <AlertTriangle className="h-3 w-3 mr-1" />
-                              Antiguo
-                            </Badge>
-                          );
-                        })()}
+                        {price.effectiveTo && (
+                          <div className="text-xs text-muted-foreground">
+                            hasta {formatDate(price.effectiveTo)}
+                          </div>
+                        )}
+                        {daysInForce(price) > 30 && (
+                          <Badge variant="destructive" className="mt-1">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Antiguo
+                          </Badge>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
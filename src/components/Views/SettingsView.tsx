@@ -0,0 +1,34 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TaxProfilesSettings } from "@/components/Settings/TaxProfilesSettings";
+import { TaxonomySettings } from "@/components/Settings/TaxonomySettings";
+import { ValidationRulesSettings } from "@/components/Settings/ValidationRulesSettings";
+
+export const SettingsView = () => {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gradient">Configuración</h1>
+        <p className="text-muted-foreground mt-1">
+          Ajustes de la organización
+        </p>
+      </div>
+
+      <Tabs defaultValue="taxes">
+        <TabsList>
+          <TabsTrigger value="taxes">Impuestos</TabsTrigger>
+          <TabsTrigger value="taxonomy">Categorías</TabsTrigger>
+          <TabsTrigger value="validation">Validación</TabsTrigger>
+        </TabsList>
+        <TabsContent value="taxes" className="mt-4">
+          <TaxProfilesSettings />
+        </TabsContent>
+        <TabsContent value="taxonomy" className="mt-4">
+          <TaxonomySettings />
+        </TabsContent>
+        <TabsContent value="validation" className="mt-4">
+          <ValidationRulesSettings />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -11,9 +11,13 @@ import {
   Phone, 
   Plus, 
   Loader2,
-  AlertCircle
+  AlertCircle,
+  Tags
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { AliasService, type SupplierAlias } from "@/services/AliasService";
+import { SupplierAliasesDialog } from "@/components/Suppliers/SupplierAliasesDialog";
 
 interface Supplier {
   id: string;
@@ -28,11 +32,30 @@ export const SuppliersView = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [aliases, setAliases] = useState<SupplierAlias[]>([]);
+  const [aliasSupplier, setAliasSupplier] = useState<Supplier | null>(null);
+  const { currentOrganization } = useAuth();
 
   useEffect(() => {
     fetchSuppliers();
   }, []);
 
+  const fetchAliases = useCallback(async () => {
+    if (!currentOrganization) return;
+
+    try {
+      setAliases(await AliasService.getSupplierAliases(currentOrganization.organization_id));
+    } catch (err) {
+      console.error('Error fetching supplier aliases:', err);
+    }
+  }, [currentOrganization]);
+
+  useEffect(() => {
+    fetchAliases();
+  }, [fetchAliases]);
+
+  const aliasesOf = (supplierId: string) => aliases.filter(alias => alias.supplier_id === supplierId);
+
   const fetchSuppliers = async () => {
     try {
       setLoading(true);
@@ -58,7 +81,8 @@ export const SuppliersView = () => {
 
   const filteredSuppliers = suppliers.filter(supplier =>
     supplier.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (supplier.contact && supplier.contact.toLowerCase().includes(searchTerm.toLowerCase()))
+    (supplier.contact && supplier.contact.toLowerCase().includes(searchTerm.toLowerCase())) ||
+    aliasesOf(supplier.id).some(alias => alias.alias.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
   const formatDate = (dateString: string) => {
@@ -196,6 +220,7 @@ export const SuppliersView = () => {
                 <TableRow>
                   <TableHead>Nombre</TableHead>
                   <TableHead>Contacto</TableHead>
+                  <TableHead>Alias</TableHead>
                   <TableHead className="text-center">Tiempo de entrega</TableHead>
                   <TableHead className="text-center">Fecha registro</TableHead>
                   <TableHead className="text-center">Estado</TableHead>
@@ -227,6 +252,21 @@ export const SuppliersView = () => {
                         <span className="text-muted-foreground">—</span>
                       )}
                     </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap items-center gap-1">
+                        {aliasesOf(supplier.id).slice(0, 3).map(alias => (
+                          <Badge key={alias.id} variant="outline" className="text-xs">
+                            {alias.alias}
+                          </Badge>
+                        ))}
+                        {aliasesOf(supplier.id).length > 3 && (
+                          <span className="text-xs text-muted-foreground">+{aliasesOf(supplier.id).length - 3}</span>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => setAliasSupplier(supplier)}>
+                          <Tags className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
                     <TableCell className="text-center">
                       <Badge variant="secondary">
                         {supplier.lead_time_days || 1} días
@@ -247,6 +287,14 @@ export const SuppliersView = () => {
           )}
         </CardContent>
       </Card>
+
+      <SupplierAliasesDialog
+        supplier={aliasSupplier}
+        organizationId={currentOrganization?.organization_id}
+        aliases={aliasSupplier ? aliasesOf(aliasSupplier.id) : []}
+        onClose={() => setAliasSupplier(null)}
+        onChanged={fetchAliases}
+      />
     </div>
   );
 };
\ No newline at end of file
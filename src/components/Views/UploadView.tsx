@@ -1,12 +1,16 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { IngestionWizard } from '@/components/Upload/IngestionWizard';
+import { ImportHistory } from '@/components/Upload/ImportHistory';
+import { ProcessingStatus } from '@/components/Upload/ProcessingStatus';
+import type { UploadJob } from '@/services/UploadJobService';
 import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent } from "@/components/ui/card";
 import { AlertCircle } from "lucide-react";
 
 export const UploadView: React.FC = () => {
   const { currentOrganization } = useAuth();
-
+  const [importCount, setImportCount] = useState(0);
+  const [reviewJob, setReviewJob] = useState<UploadJob | null>(null);
 
   if (!currentOrganization) {
     return (
@@ -32,5 +36,15 @@ export const UploadView: React.FC = () => {
     );
   }
 
-  return <IngestionWizard />;
+  return (
+    <div className="space-y-6">
+      <IngestionWizard
+        onImported={() => setImportCount(count => count + 1)}
+        reviewJob={reviewJob}
+        onReviewOpened={() => setReviewJob(null)}
+      />
+      <ProcessingStatus onReview={setReviewJob} />
+      <ImportHistory refreshKey={importCount} />
+    </div>
+  );
 };
\ No newline at end of file
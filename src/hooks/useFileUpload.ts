@@ -2,7 +2,11 @@ import { useState, useCallback } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { FileProcessor, ProcessedIngredient } from '@/services/FileProcessor';
+import type { DuplicateMatch } from '@/services/DuplicateUploadService';
 import { supabase } from '@/integrations/supabase/client';
+import { TaxonomyService } from '@/services/TaxonomyService';
+import { mergeAllergenSuggestions, parseAllergenEntries } from '@shared/allergens';
+import { classificationColumns, classifyProduct } from '@shared/taxonomy';
 
 export interface UploadProgress {
   fileId: string;
@@ -12,6 +16,7 @@ export interface UploadProgress {
   error?: string;
   processedCount?: number;
   failedCount?: number;
+  duplicates?: DuplicateMatch[];  // set when the file had been uploaded before; retrying confirms it
 }
 
 export const useFileUpload = () => {
@@ -20,7 +25,7 @@ export const useFileUpload = () => {
   const { toast } = useToast();
   const { currentOrganization } = useAuth();
 
-  const uploadFiles = useCallback(async (files: File[]) => {
+  const uploadFiles = useCallback(async (files: File[], confirmedDuplicate = false) => {
     if (!currentOrganization) {
       toast({
         title: "Error",
@@ -49,40 +54,18 @@ export const useFileUpload = () => {
         const uploadId = initialUploads[i].fileId;
 
         try {
-          // Actualizar estado a subiendo
+          // Procesar archivo: FileProcessor lo sube a Storage tras comprobar que no es un duplicado
           setUploads(prev => prev.map(u => 
             u.fileId === uploadId 
-              ? { ...u, status: 'uploading', progress: 10 }
+              ? { ...u, status: 'processing', progress: 10 }
               : u
           ));
 
-          // Subir archivo a Storage
-          const fileName = `${currentOrganization.id}/${Date.now()}-${file.name}`;
-          const { data: uploadData, error: uploadError } = await supabase.storage
-            .from('file-uploads')
-            .upload(fileName, file);
-
-          if (uploadError) throw uploadError;
-
-          // Actualizar progreso de subida
-          setUploads(prev => prev.map(u => 
-            u.fileId === uploadId 
-              ? { ...u, progress: 50 }
-              : u
-          ));
-
-          // Procesar archivo
-          setUploads(prev => prev.map(u => 
-            u.fileId === uploadId 
-              ? { ...u, status: 'processing', progress: 60 }
-              : u
-          ));
-
-          const result = await FileProcessor.processFile(file, currentOrganization.id);
+          const result = await FileProcessor.processFile(file, currentOrganization.organization_id, confirmedDuplicate);
 
           if (result.success && result.data.length > 0) {
             // Guardar ingredientes en la base de datos
-            await saveIngredientsToDatabase(result.data, currentOrganization.id);
+            await saveIngredientsToDatabase(result.data, currentOrganization.organization_id);
           }
 
           // Actualizar estado final
@@ -94,7 +77,8 @@ export const useFileUpload = () => {
                   progress: 100,
                   processedCount: result.processedCount,
                   failedCount: result.failedCount,
-                  error: result.errors[0]
+                  error: result.errors[0],
+                  duplicates: result.duplicates
                 }
               : u
           ));
@@ -142,12 +126,13 @@ export const useFileUpload = () => {
     ingredients: ProcessedIngredient[], 
     organizationId: string
   ): Promise<void> => {
+    // Values outside the organization's taxonomy are flagged instead of stored as free text
+    const classifier = await TaxonomyService.loadClassifier(organizationId);
+
     const ingredientInserts = ingredients.map(ingredient => ({
       organization_id: organizationId,
       name: ingredient.name,
-      category: ingredient.category,
-      family: ingredient.family,
-      subfamily: ingredient.subfamily,
+      ...classificationColumns(classifyProduct(classifier, ingredient)),
       area: ingredient.area,
       unit_base: ingredient.unitBase,
       allergens: ingredient.allergens,
@@ -156,9 +141,37 @@ export const useFileUpload = () => {
       last_price_update: new Date().toISOString()
     }));
 
+    // Rows resolved to the same catalog ingredient must reach the upsert only once
+    const uniqueInserts = Array.from(new Map(ingredientInserts.map(insert => [insert.name, insert])).values());
+
+    // The upsert replaces whole rows: keep reviewed allergens and any classification already made
+    const { data: existing } = await supabase
+      .from('ingredients')
+      .select('name, allergens, taxonomy_node_id, category, family, subfamily, classification_status, unmatched_category')
+      .eq('organization_id', organizationId)
+      .in('name', uniqueInserts.map(insert => insert.name));
+
+    const existingRows = new Map((existing || []).map(row => [row.name, row]));
+    const rows = uniqueInserts.map(insert => {
+      const row = existingRows.get(insert.name);
+      if (!row) return insert;
+
+      const suggestions = insert.allergens.filter(entry => entry.status === 'suggested');
+      const allergens = mergeAllergenSuggestions(parseAllergenEntries(row.allergens), suggestions.map(entry => ({
+        code: entry.code,
+        source: entry.source === 'category' || entry.source === 'spec' ? entry.source : 'name',
+        evidence: entry.evidence || ''
+      })));
+
+      if (row.classification_status === 'pending') return { ...insert, allergens };
+
+      const { allergens: _suggested, ...current } = row;
+      return { ...insert, ...current, allergens };
+    });
+
     const { error } = await supabase
       .from('ingredients')
-      .upsert(ingredientInserts, {
+      .upsert(rows, {
         onConflict: 'organization_id,name',
         ignoreDuplicates: false
       });
@@ -176,14 +189,17 @@ export const useFileUpload = () => {
   const retryUpload = useCallback(async (fileId: string, file: File) => {
     if (!currentOrganization) return;
 
+    // Retrying a file reported as already uploaded is the confirmation to import it again
+    const confirmedDuplicate = !!uploads.find(u => u.fileId === fileId)?.duplicates?.length;
+
     setUploads(prev => prev.map(u => 
       u.fileId === fileId 
-        ? { ...u, status: 'pending', progress: 0, error: undefined }
+        ? { ...u, status: 'pending', progress: 0, error: undefined, duplicates: undefined }
         : u
     ));
 
-    await uploadFiles([file]);
-  }, [currentOrganization, uploadFiles]);
+    await uploadFiles([file], confirmedDuplicate);
+  }, [currentOrganization, uploads, uploadFiles]);
 
   return {
     uploads,
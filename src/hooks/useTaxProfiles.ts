@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import type { TaxProfile } from '@shared/tax';
+
+/**
+ * Tax profiles of the current organization; `defaultProfile` drives rate resolution
+ */
+export const useTaxProfiles = () => {
+  const [profiles, setProfiles] = useState<TaxProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { currentOrganization } = useAuth();
+
+  const organizationId = currentOrganization?.organization_id;
+
+  const refresh = useCallback(async () => {
+    if (!organizationId) {
+      setProfiles([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('tax_profiles')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('is_default', { ascending: false })
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching tax profiles:', error);
+    }
+
+    setProfiles(data || []);
+    setLoading(false);
+  }, [organizationId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const defaultProfile = profiles.find(p => p.is_default) || profiles[0] || null;
+
+  return { profiles, defaultProfile, loading, refresh };
+};
@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { TaxonomyService, type TaxonomyNodeRow } from '@/services/TaxonomyService';
+import { buildTaxonomyTree } from '@shared/taxonomy';
+
+/**
+ * Category › family › subfamily tree of the current organization
+ */
+export const useTaxonomy = () => {
+  const [nodes, setNodes] = useState<TaxonomyNodeRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { currentOrganization } = useAuth();
+
+  const organizationId = currentOrganization?.organization_id;
+
+  const refresh = useCallback(async () => {
+    if (!organizationId) {
+      setNodes([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setNodes(await TaxonomyService.getNodes(organizationId));
+    } catch (error) {
+      console.error('Error fetching taxonomy:', error);
+      setNodes([]);
+    }
+    setLoading(false);
+  }, [organizationId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const tree = useMemo(() => buildTaxonomyTree(nodes), [nodes]);
+
+  return { nodes, tree, loading, refresh };
+};
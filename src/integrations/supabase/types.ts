@@ -140,37 +140,52 @@ export type Database = {
         Row: {
           column_mappings: Json
           created_at: string | null
-          file_upload_id: string
+          file_upload_id: string | null
+          header_fingerprint: string | null
           id: string
           is_confirmed: boolean | null
+          last_used_at: string | null
           normalization_rules: Json
           organization_id: string
+          scope: string
           source_columns: Json
+          supplier_id: string | null
           updated_at: string | null
+          use_count: number
           validation_results: Json
         }
         Insert: {
           column_mappings?: Json
           created_at?: string | null
-          file_upload_id: string
+          file_upload_id?: string | null
+          header_fingerprint?: string | null
           id?: string
           is_confirmed?: boolean | null
+          last_used_at?: string | null
           normalization_rules?: Json
           organization_id: string
+          scope?: string
           source_columns?: Json
+          supplier_id?: string | null
           updated_at?: string | null
+          use_count?: number
           validation_results?: Json
         }
         Update: {
           column_mappings?: Json
           created_at?: string | null
-          file_upload_id?: string
+          file_upload_id?: string | null
+          header_fingerprint?: string | null
           id?: string
           is_confirmed?: boolean | null
+          last_used_at?: string | null
           normalization_rules?: Json
           organization_id?: string
+          scope?: string
           source_columns?: Json
+          supplier_id?: string | null
           updated_at?: string | null
+          use_count?: number
           validation_results?: Json
         }
         Relationships: [
@@ -181,10 +196,19 @@ export type Database = {
             referencedRelation: "file_uploads"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "file_import_mappings_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
         ]
       }
       file_uploads: {
         Row: {
+          attempts: number
+          content_hash: string | null
           created_at: string
           error_message: string | null
           extracted_records: number | null
@@ -194,15 +218,24 @@ export type Database = {
           file_path: string
           file_size: number
           file_type: string
+          heartbeat_at: string | null
           id: string
+          max_attempts: number
           ocr_processing_id: string | null
           organization_id: string
           processed_at: string | null
           processed_records: number | null
           processing_status: string | null
+          processing_step: string | null
+          progress: number
+          purchase_invoice_id: string | null
+          queued_at: string | null
+          started_at: string | null
           validation_errors: Json | null
         }
         Insert: {
+          attempts?: number
+          content_hash?: string | null
           created_at?: string
           error_message?: string | null
           extracted_records?: number | null
@@ -212,15 +245,24 @@ export type Database = {
           file_path: string
           file_size: number
           file_type: string
+          heartbeat_at?: string | null
           id?: string
+          max_attempts?: number
           ocr_processing_id?: string | null
           organization_id: string
           processed_at?: string | null
           processed_records?: number | null
           processing_status?: string | null
+          processing_step?: string | null
+          progress?: number
+          purchase_invoice_id?: string | null
+          queued_at?: string | null
+          started_at?: string | null
           validation_errors?: Json | null
         }
         Update: {
+          attempts?: number
+          content_hash?: string | null
           created_at?: string
           error_message?: string | null
           extracted_records?: number | null
@@ -230,12 +272,19 @@ export type Database = {
           file_path?: string
           file_size?: number
           file_type?: string
+          heartbeat_at?: string | null
           id?: string
+          max_attempts?: number
           ocr_processing_id?: string | null
           organization_id?: string
           processed_at?: string | null
           processed_records?: number | null
           processing_status?: string | null
+          processing_step?: string | null
+          progress?: number
+          purchase_invoice_id?: string | null
+          queued_at?: string | null
+          started_at?: string | null
           validation_errors?: Json | null
         }
         Relationships: [
@@ -253,6 +302,175 @@ export type Database = {
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "file_uploads_purchase_invoice_id_fkey"
+            columns: ["purchase_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_batch_changes: {
+        Row: {
+          action: string
+          batch_id: string
+          created_at: string
+          entity_id: string
+          entity_type: string
+          id: string
+          organization_id: string
+          previous_data: Json | null
+          sequence: number
+        }
+        Insert: {
+          action: string
+          batch_id: string
+          created_at?: string
+          entity_id: string
+          entity_type: string
+          id?: string
+          organization_id: string
+          previous_data?: Json | null
+          sequence: number
+        }
+        Update: {
+          action?: string
+          batch_id?: string
+          created_at?: string
+          entity_id?: string
+          entity_type?: string
+          id?: string
+          organization_id?: string
+          previous_data?: Json | null
+          sequence?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_batch_changes_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "import_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_batch_changes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_batches: {
+        Row: {
+          created_at: string
+          error_message: string | null
+          file_upload_id: string | null
+          finished_at: string | null
+          id: string
+          organization_id: string
+          processed_count: number
+          reverted_at: string | null
+          row_count: number
+          started_at: string
+          status: string
+          summary: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          error_message?: string | null
+          file_upload_id?: string | null
+          finished_at?: string | null
+          id?: string
+          organization_id: string
+          processed_count?: number
+          reverted_at?: string | null
+          row_count?: number
+          started_at?: string
+          status?: string
+          summary?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          error_message?: string | null
+          file_upload_id?: string | null
+          finished_at?: string | null
+          id?: string
+          organization_id?: string
+          processed_count?: number
+          reverted_at?: string | null
+          row_count?: number
+          started_at?: string
+          status?: string
+          summary?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_batches_file_upload_id_fkey"
+            columns: ["file_upload_id"]
+            isOneToOne: false
+            referencedRelation: "file_uploads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_batches_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ingredient_aliases: {
+        Row: {
+          alias: string
+          created_at: string
+          created_by: string | null
+          id: string
+          ingredient_id: string
+          normalized_alias: string
+          organization_id: string
+          source: string
+        }
+        Insert: {
+          alias: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          ingredient_id: string
+          normalized_alias: string
+          organization_id: string
+          source?: string
+        }
+        Update: {
+          alias?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          ingredient_id?: string
+          normalized_alias?: string
+          organization_id?: string
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingredient_aliases_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ingredient_aliases_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       ingredients: {
@@ -263,16 +481,22 @@ export type Database = {
           best_price: number | null
           best_price_supplier_id: string | null
           category: string | null
+          classification_status: string
           created_at: string
+          density_kg_per_l: number | null
           family: string | null
           id: string
           last_price_update: string | null
           name: string
           organization_id: string
+          piece_weight_kg: number | null
           price_trend: number | null
           subfamily: string | null
           supplier_count: number | null
+          tax_category: Database["public"]["Enums"]["tax_category"]
+          taxonomy_node_id: string | null
           unit_base: string | null
+          unmatched_category: string | null
           updated_at: string
           yield_rate: number | null
         }
@@ -283,16 +507,22 @@ export type Database = {
           best_price?: number | null
           best_price_supplier_id?: string | null
           category?: string | null
+          classification_status?: string
           created_at?: string
+          density_kg_per_l?: number | null
           family?: string | null
           id?: string
           last_price_update?: string | null
           name: string
           organization_id: string
+          piece_weight_kg?: number | null
           price_trend?: number | null
           subfamily?: string | null
           supplier_count?: number | null
+          tax_category?: Database["public"]["Enums"]["tax_category"]
+          taxonomy_node_id?: string | null
           unit_base?: string | null
+          unmatched_category?: string | null
           updated_at?: string
           yield_rate?: number | null
         }
@@ -303,16 +533,22 @@ export type Database = {
           best_price?: number | null
           best_price_supplier_id?: string | null
           category?: string | null
+          classification_status?: string
           created_at?: string
+          density_kg_per_l?: number | null
           family?: string | null
           id?: string
           last_price_update?: string | null
           name?: string
           organization_id?: string
+          piece_weight_kg?: number | null
           price_trend?: number | null
           subfamily?: string | null
           supplier_count?: number | null
+          tax_category?: Database["public"]["Enums"]["tax_category"]
+          taxonomy_node_id?: string | null
           unit_base?: string | null
+          unmatched_category?: string | null
           updated_at?: string
           yield_rate?: number | null
         }
@@ -324,6 +560,13 @@ export type Database = {
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ingredients_taxonomy_node_id_fkey"
+            columns: ["taxonomy_node_id"]
+            isOneToOne: false
+            referencedRelation: "taxonomy_nodes"
+            referencedColumns: ["id"]
+          },
         ]
       }
       memberships: {
@@ -395,7 +638,10 @@ export type Database = {
           file_type: string
           id: string
           organization_id: string
+          page_count: number | null
+          pages_processed: number
           processing_status: string | null
+          progress: number
         }
         Insert: {
           completed_at?: string | null
@@ -407,7 +653,10 @@ export type Database = {
           file_type: string
           id?: string
           organization_id: string
+          page_count?: number | null
+          pages_processed?: number
           processing_status?: string | null
+          progress?: number
         }
         Update: {
           completed_at?: string | null
@@ -419,7 +668,10 @@ export type Database = {
           file_type?: string
           id?: string
           organization_id?: string
+          page_count?: number | null
+          pages_processed?: number
           processing_status?: string | null
+          progress?: number
         }
         Relationships: [
           {
@@ -542,6 +794,160 @@ export type Database = {
         }
         Relationships: []
       }
+      purchase_invoice_lines: {
+        Row: {
+          created_at: string
+          description: string
+          discount_pct: number
+          id: string
+          ingredient_id: string | null
+          invoice_id: string
+          line_number: number
+          line_total: number
+          organization_id: string
+          quantity: number
+          reference: string | null
+          tax_rate: number | null
+          unit: string | null
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          discount_pct?: number
+          id?: string
+          ingredient_id?: string | null
+          invoice_id: string
+          line_number: number
+          line_total: number
+          organization_id: string
+          quantity?: number
+          reference?: string | null
+          tax_rate?: number | null
+          unit?: string | null
+          unit_price: number
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          discount_pct?: number
+          id?: string
+          ingredient_id?: string | null
+          invoice_id?: string
+          line_number?: number
+          line_total?: number
+          organization_id?: string
+          quantity?: number
+          reference?: string | null
+          tax_rate?: number | null
+          unit?: string | null
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_invoice_lines_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_invoice_lines_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_invoice_lines_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_invoices: {
+        Row: {
+          created_at: string
+          currency: string
+          due_date: string | null
+          id: string
+          invoice_date: string | null
+          invoice_number: string | null
+          lines_total: number
+          organization_id: string
+          status: string
+          subtotal: number | null
+          supplier_id: string | null
+          supplier_name: string | null
+          supplier_tax_id: string | null
+          tax_breakdown: Json
+          tax_total: number | null
+          total: number | null
+          totals_issues: string[]
+          totals_match: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          currency?: string
+          due_date?: string | null
+          id?: string
+          invoice_date?: string | null
+          invoice_number?: string | null
+          lines_total?: number
+          organization_id: string
+          status?: string
+          subtotal?: number | null
+          supplier_id?: string | null
+          supplier_name?: string | null
+          supplier_tax_id?: string | null
+          tax_breakdown?: Json
+          tax_total?: number | null
+          total?: number | null
+          totals_issues?: string[]
+          totals_match?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string
+          due_date?: string | null
+          id?: string
+          invoice_date?: string | null
+          invoice_number?: string | null
+          lines_total?: number
+          organization_id?: string
+          status?: string
+          subtotal?: number | null
+          supplier_id?: string | null
+          supplier_name?: string | null
+          supplier_tax_id?: string | null
+          tax_breakdown?: Json
+          tax_total?: number | null
+          total?: number | null
+          totals_issues?: string[]
+          totals_match?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_invoices_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_invoices_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       recipe_cost_history: {
         Row: {
           change_percentage: number | null
@@ -798,6 +1204,122 @@ export type Database = {
           },
         ]
       }
+      supplier_aliases: {
+        Row: {
+          alias: string
+          created_at: string
+          created_by: string | null
+          id: string
+          normalized_alias: string
+          organization_id: string
+          source: string
+          supplier_id: string
+        }
+        Insert: {
+          alias: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          normalized_alias: string
+          organization_id: string
+          source?: string
+          supplier_id: string
+        }
+        Update: {
+          alias?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          normalized_alias?: string
+          organization_id?: string
+          source?: string
+          supplier_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_aliases_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_aliases_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_price_lists: {
+        Row: {
+          created_at: string
+          effective_from: string
+          file_upload_id: string | null
+          id: string
+          import_batch_id: string | null
+          item_count: number
+          name: string
+          organization_id: string
+          supplier_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          effective_from: string
+          file_upload_id?: string | null
+          id?: string
+          import_batch_id?: string | null
+          item_count?: number
+          name: string
+          organization_id: string
+          supplier_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          effective_from?: string
+          file_upload_id?: string | null
+          id?: string
+          import_batch_id?: string | null
+          item_count?: number
+          name?: string
+          organization_id?: string
+          supplier_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_price_lists_file_upload_id_fkey"
+            columns: ["file_upload_id"]
+            isOneToOne: false
+            referencedRelation: "file_uploads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_price_lists_import_batch_id_fkey"
+            columns: ["import_batch_id"]
+            isOneToOne: false
+            referencedRelation: "import_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_price_lists_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_price_lists_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       supplier_prices: {
         Row: {
           created_at: string
@@ -806,11 +1328,15 @@ export type Database = {
           effective_to: string | null
           id: string
           is_active: boolean | null
+          pack_breakdown: Json | null
+          pack_confidence: number | null
           pack_description: string
           pack_net_qty: number
           pack_price: number
           pack_unit: string
+          price_list_id: string | null
           supplier_product_id: string
+          tax_included: boolean
           tax_pct: number | null
           updated_at: string
         }
@@ -821,11 +1347,15 @@ export type Database = {
           effective_to?: string | null
           id?: string
           is_active?: boolean | null
+          pack_breakdown?: Json | null
+          pack_confidence?: number | null
           pack_description: string
           pack_net_qty: number
           pack_price: number
           pack_unit: string
+          price_list_id?: string | null
           supplier_product_id: string
+          tax_included?: boolean
           tax_pct?: number | null
           updated_at?: string
         }
@@ -836,15 +1366,26 @@ export type Database = {
           effective_to?: string | null
           id?: string
           is_active?: boolean | null
+          pack_breakdown?: Json | null
+          pack_confidence?: number | null
           pack_description?: string
           pack_net_qty?: number
           pack_price?: number
           pack_unit?: string
+          price_list_id?: string | null
           supplier_product_id?: string
+          tax_included?: boolean
           tax_pct?: number | null
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "supplier_prices_price_list_id_fkey"
+            columns: ["price_list_id"]
+            isOneToOne: false
+            referencedRelation: "supplier_price_lists"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "supplier_prices_supplier_product_id_fkey"
             columns: ["supplier_product_id"]
@@ -858,31 +1399,37 @@ export type Database = {
         Row: {
           area: string
           created_at: string
+          ean: string | null
           family: string | null
           id: string
           ingredient_id: string
           subfamily: string | null
           supplier_id: string
+          supplier_sku: string | null
           updated_at: string
         }
         Insert: {
           area: string
           created_at?: string
+          ean?: string | null
           family?: string | null
           id?: string
           ingredient_id: string
           subfamily?: string | null
           supplier_id: string
+          supplier_sku?: string | null
           updated_at?: string
         }
         Update: {
           area?: string
           created_at?: string
+          ean?: string | null
           family?: string | null
           id?: string
           ingredient_id?: string
           subfamily?: string | null
           supplier_id?: string
+          supplier_sku?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -910,6 +1457,7 @@ export type Database = {
           lead_time_days: number | null
           name: string
           organization_id: string
+          tax_id: string | null
           updated_at: string
         }
         Insert: {
@@ -919,6 +1467,7 @@ export type Database = {
           lead_time_days?: number | null
           name: string
           organization_id: string
+          tax_id?: string | null
           updated_at?: string
         }
         Update: {
@@ -928,6 +1477,7 @@ export type Database = {
           lead_time_days?: number | null
           name?: string
           organization_id?: string
+          tax_id?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -940,6 +1490,110 @@ export type Database = {
           },
         ]
       }
+      tax_profiles: {
+        Row: {
+          created_at: string
+          general_rate: number
+          id: string
+          is_default: boolean
+          name: string
+          organization_id: string
+          prices_include_tax: boolean
+          reduced_rate: number
+          regime: Database["public"]["Enums"]["tax_regime"]
+          super_reduced_rate: number | null
+          updated_at: string
+          zero_rate: number
+        }
+        Insert: {
+          created_at?: string
+          general_rate: number
+          id?: string
+          is_default?: boolean
+          name: string
+          organization_id: string
+          prices_include_tax?: boolean
+          reduced_rate: number
+          regime: Database["public"]["Enums"]["tax_regime"]
+          super_reduced_rate?: number | null
+          updated_at?: string
+          zero_rate?: number
+        }
+        Update: {
+          created_at?: string
+          general_rate?: number
+          id?: string
+          is_default?: boolean
+          name?: string
+          organization_id?: string
+          prices_include_tax?: boolean
+          reduced_rate?: number
+          regime?: Database["public"]["Enums"]["tax_regime"]
+          super_reduced_rate?: number | null
+          updated_at?: string
+          zero_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_profiles_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      taxonomy_nodes: {
+        Row: {
+          created_at: string
+          id: string
+          keywords: string[]
+          level: string
+          name: string
+          normalized_name: string
+          organization_id: string
+          parent_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          keywords?: string[]
+          level: string
+          name: string
+          normalized_name: string
+          organization_id: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          keywords?: string[]
+          level?: string
+          name?: string
+          normalized_name?: string
+          organization_id?: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "taxonomy_nodes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "taxonomy_nodes_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "taxonomy_nodes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       time_tracking: {
         Row: {
           approved_at: string | null
@@ -1039,11 +1693,47 @@ export type Database = {
           updated_at: string
         }
       }
+      get_missing_supplier_codes: {
+        Args: { p_organization_id: string }
+        Returns: {
+          ean: string
+          ingredient_id: string
+          ingredient_name: string
+          last_price_list_name: string
+          last_seen_from: string
+          latest_effective_from: string
+          latest_price_list_name: string
+          supplier_id: string
+          supplier_name: string
+          supplier_product_id: string
+          supplier_sku: string
+        }[]
+      }
+      revert_import_batch: {
+        Args: { p_batch_id: string }
+        Returns: {
+          created_at: string
+          error_message: string | null
+          file_upload_id: string | null
+          finished_at: string | null
+          id: string
+          organization_id: string
+          processed_count: number
+          reverted_at: string | null
+          row_count: number
+          started_at: string
+          status: string
+          summary: Json
+          updated_at: string
+        }
+      }
     }
     Enums: {
       component_type: "ingredient" | "recipe"
       recipe_status: "draft" | "active" | "archived"
       recipe_type: "PREP" | "PLATE"
+      tax_category: "zero" | "super_reduced" | "reduced" | "general"
+      tax_regime: "IGIC" | "IVA" | "IPSI"
       user_role:
         | "owner"
         | "admin"
@@ -1181,6 +1871,8 @@ export const Constants = {
       component_type: ["ingredient", "recipe"],
       recipe_status: ["draft", "active", "archived"],
       recipe_type: ["PREP", "PLATE"],
+      tax_category: ["zero", "super_reduced", "reduced", "general"],
+      tax_regime: ["IGIC", "IVA", "IPSI"],
       user_role: [
         "owner",
         "admin",
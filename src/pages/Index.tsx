@@ -7,6 +7,7 @@ import { ComparisonView } from "@/components/Views/ComparisonView";
 import { SuppliersView } from "@/components/Views/SuppliersView";
 import { RecipesView } from "@/components/Views/RecipesView";
 import { HRView } from "@/components/Views/HRView";
+import { SettingsView } from "@/components/Views/SettingsView";
 import UsersPage from "@/pages/UsersPage";
 import { useAuth } from "@/contexts/AuthContext";
 import { DashboardMetrics } from "@/components/Dashboard/DashboardMetrics";
@@ -31,6 +32,8 @@ const Index = () => {
         return <UsersPage />;
       case "hr":
         return <HRView />;
+      case "settings":
+        return <SettingsView />;
       case "dashboard":
         return (
           <div className="space-y-6">
@@ -0,0 +1,137 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { buildMatchIndex, canonicalizeName, type MatchIndex } from '@shared/ingredientMatcher';
+import { buildSupplierIndex, canonicalizeSupplierName, type SupplierIndex } from '@shared/supplierMatcher';
+
+export type IngredientAlias = Database['public']['Tables']['ingredient_aliases']['Row'];
+export type SupplierAlias = Database['public']['Tables']['supplier_aliases']['Row'];
+export type AliasSource = 'import' | 'manual';
+
+export interface AliasResult {
+  success: boolean;
+  error?: string;
+}
+
+// Postgres unique_violation: the canonical alias already points somewhere
+const UNIQUE_VIOLATION = '23505';
+
+export class AliasService {
+  /**
+   * Catalog ingredients plus their aliases, ready for matching
+   */
+  static async loadIngredientIndex(organizationId: string): Promise<MatchIndex> {
+    const [{ data: ingredients, error }, { data: aliases, error: aliasError }] = await Promise.all([
+      supabase.from('ingredients').select('id, name').eq('organization_id', organizationId),
+      supabase.from('ingredient_aliases').select('ingredient_id, alias').eq('organization_id', organizationId)
+    ]);
+
+    if (error) throw error;
+    if (aliasError) throw aliasError;
+
+    return buildMatchIndex(ingredients || [], aliases || []);
+  }
+
+  static async loadSupplierIndex(organizationId: string): Promise<SupplierIndex> {
+    const [{ data: suppliers, error }, { data: aliases, error: aliasError }] = await Promise.all([
+      supabase.from('suppliers').select('id, name').eq('organization_id', organizationId),
+      supabase.from('supplier_aliases').select('supplier_id, alias').eq('organization_id', organizationId)
+    ]);
+
+    if (error) throw error;
+    if (aliasError) throw aliasError;
+
+    return buildSupplierIndex(suppliers || [], aliases || []);
+  }
+
+  static async getIngredientAliases(ingredientId: string): Promise<IngredientAlias[]> {
+    const { data, error } = await supabase
+      .from('ingredient_aliases')
+      .select('*')
+      .eq('ingredient_id', ingredientId)
+      .order('alias');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async getSupplierAliases(organizationId: string): Promise<SupplierAlias[]> {
+    const { data, error } = await supabase
+      .from('supplier_aliases')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('alias');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async addIngredientAlias(
+    organizationId: string,
+    ingredientId: string,
+    alias: string,
+    source: AliasSource = 'manual'
+  ): Promise<AliasResult> {
+    const normalized = canonicalizeName(alias);
+    if (!normalized) {
+      return { success: false, error: 'El alias no contiene ningún nombre reconocible' };
+    }
+
+    const { error } = await supabase
+      .from('ingredient_aliases')
+      .insert({
+        organization_id: organizationId,
+        ingredient_id: ingredientId,
+        alias: alias.trim(),
+        normalized_alias: normalized,
+        source
+      });
+
+    return this.toResult(error);
+  }
+
+  static async addSupplierAlias(
+    organizationId: string,
+    supplierId: string,
+    alias: string,
+    source: AliasSource = 'manual'
+  ): Promise<AliasResult> {
+    const normalized = canonicalizeSupplierName(alias);
+    if (!normalized) {
+      return { success: false, error: 'El alias no contiene ningún nombre reconocible' };
+    }
+
+    const { error } = await supabase
+      .from('supplier_aliases')
+      .insert({
+        organization_id: organizationId,
+        supplier_id: supplierId,
+        alias: alias.trim(),
+        normalized_alias: normalized,
+        source
+      });
+
+    return this.toResult(error);
+  }
+
+  static async removeIngredientAlias(aliasId: string): Promise<AliasResult> {
+    const { error } = await supabase.from('ingredient_aliases').delete().eq('id', aliasId);
+    return this.toResult(error);
+  }
+
+  static async removeSupplierAlias(aliasId: string): Promise<AliasResult> {
+    const { error } = await supabase.from('supplier_aliases').delete().eq('id', aliasId);
+    return this.toResult(error);
+  }
+
+  private static toResult(error: { code?: string; message: string } | null): AliasResult {
+    if (!error) return { success: true };
+
+    console.error('Alias error:', error);
+    return {
+      success: false,
+      error: error.code === UNIQUE_VIOLATION
+        ? 'Ese alias ya está asignado a otro elemento'
+        : error.message
+    };
+  }
+}
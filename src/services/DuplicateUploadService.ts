@@ -0,0 +1,130 @@
+import { supabase } from '@/integrations/supabase/client';
+import { contentHash, invoiceDuplicateReason, type DuplicateReason } from '@shared/duplicates';
+import type { InvoiceHeader } from '@shared/invoice';
+
+export interface DuplicateMatch {
+  reason: DuplicateReason;
+  uploadId: string | null;      // null for an invoice recorded without a file
+  fileName: string | null;
+  uploadedAt: string;
+  url: string | null;           // signed link to the earlier file
+  invoiceNumber: string | null;
+  invoiceDate: string | null;
+}
+
+interface EarlierUploadRow {
+  id: string;
+  file_name: string;
+  file_path: string;
+  created_at: string;
+  purchase_invoice_id: string | null;
+}
+
+// Signed links stay valid while the warning is on screen
+const LINK_TTL_SECONDS = 60 * 60;
+
+const UPLOAD_COLUMNS = 'id, file_name, file_path, created_at, purchase_invoice_id';
+
+export class DuplicateUploadService {
+  static async hashFile(file: File): Promise<string> {
+    return contentHash(await file.arrayBuffer());
+  }
+
+  /**
+   * Earlier uploads of exactly the same file, newest first
+   */
+  static async findSameContent(organizationId: string, hash: string): Promise<DuplicateMatch[]> {
+    const { data, error } = await supabase
+      .from('file_uploads')
+      .select(UPLOAD_COLUMNS)
+      .eq('organization_id', organizationId)
+      .eq('content_hash', hash)
+      .order('created_at', { ascending: false })
+      .limit(5);
+
+    if (error) throw error;
+
+    const links = await this.signedLinks(data || []);
+    return (data || []).map(upload => ({
+      reason: 'content',
+      uploadId: upload.id,
+      fileName: upload.file_name,
+      uploadedAt: upload.created_at,
+      url: links[upload.file_path] ?? null,
+      invoiceNumber: null,
+      invoiceDate: null
+    }));
+  }
+
+  /**
+   * Recorded invoices of the same supplier with the same number, or with the same date and total.
+   * Catches the same invoice scanned again or exported to another format.
+   */
+  static async findSameInvoice(organizationId: string, header: InvoiceHeader): Promise<DuplicateMatch[]> {
+    if (!header.supplierTaxId && !header.supplierName) return [];
+
+    let query = supabase
+      .from('purchase_invoices')
+      .select('id, invoice_number, invoice_date, supplier_name, supplier_tax_id, total, created_at')
+      .eq('organization_id', organizationId);
+    query = header.supplierTaxId
+      ? query.not('supplier_tax_id', 'is', null)
+      : query.not('supplier_name', 'is', null);
+    if (header.invoiceDate) {
+      const year = header.invoiceDate.slice(0, 4);
+      query = query.or(`invoice_date.is.null,and(invoice_date.gte.${year}-01-01,invoice_date.lte.${year}-12-31)`);
+    }
+
+    const { data: invoices, error } = await query.order('created_at', { ascending: false }).limit(500);
+    if (error) throw error;
+
+    const matches = (invoices || []).flatMap(invoice => {
+      const reason = invoiceDuplicateReason(header, {
+        invoiceNumber: invoice.invoice_number,
+        invoiceDate: invoice.invoice_date,
+        supplierName: invoice.supplier_name,
+        supplierTaxId: invoice.supplier_tax_id,
+        total: invoice.total
+      });
+      return reason ? [{ invoice, reason }] : [];
+    });
+    if (matches.length === 0) return [];
+
+    const { data: uploads, error: uploadsError } = await supabase
+      .from('file_uploads')
+      .select(UPLOAD_COLUMNS)
+      .in('purchase_invoice_id', matches.map(match => match.invoice.id));
+    if (uploadsError) throw uploadsError;
+
+    const links = await this.signedLinks(uploads || []);
+    return matches.map(({ invoice, reason }) => {
+      const upload = uploads?.find(candidate => candidate.purchase_invoice_id === invoice.id);
+      return {
+        reason,
+        uploadId: upload?.id ?? null,
+        fileName: upload?.file_name ?? null,
+        uploadedAt: upload?.created_at ?? invoice.created_at,
+        url: upload ? links[upload.file_path] ?? null : null,
+        invoiceNumber: invoice.invoice_number,
+        invoiceDate: invoice.invoice_date
+      };
+    });
+  }
+
+  private static async signedLinks(uploads: EarlierUploadRow[]): Promise<Record<string, string>> {
+    if (uploads.length === 0) return {};
+
+    const { data, error } = await supabase.storage
+      .from('file-uploads')
+      .createSignedUrls(uploads.map(upload => upload.file_path), LINK_TTL_SECONDS);
+
+    // Without links the warning is still worth showing
+    if (error) {
+      console.error('Error signing upload links:', error);
+      return {};
+    }
+    return Object.fromEntries(
+      (data || []).flatMap(link => (link.path && link.signedUrl ? [[link.path, link.signedUrl]] : []))
+    );
+  }
+}
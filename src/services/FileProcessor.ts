@@ -1,7 +1,17 @@
-import * as XLSX from 'xlsx';
-import Papa from 'papaparse';
 import { OcrService, ExtractedPriceData } from './OcrService';
+import { SpreadsheetService } from './SpreadsheetService';
 import { supabase } from '@/integrations/supabase/client';
+import { AliasService } from './AliasService';
+import { AUTO_MATCH_THRESHOLD, findMatches } from '@shared/ingredientMatcher';
+import { findSupplier } from '@shared/supplierMatcher';
+import { mergeAllergenSuggestions, suggestAllergens, type AllergenEntry } from '@shared/allergens';
+import { combineSheetTables } from '@shared/sheetLayout';
+import { parseCsv } from '@shared/csvDialect';
+import { parseLocaleNumber } from '@shared/numberParser';
+import { extractInvoiceHeader, looksLikeInvoice, type InvoiceHeader, type InvoiceLine } from '@shared/invoice';
+import { linePackLabel, parseEInvoice } from '@/utils/eInvoice';
+import { InvoiceService } from './InvoiceService';
+import { DuplicateUploadService, type DuplicateMatch } from './DuplicateUploadService';
 
 export interface ProcessedIngredient {
   name: string;
@@ -10,7 +20,7 @@ export interface ProcessedIngredient {
   subfamily?: string;
   area: 'kitchen' | 'dining' | 'both';
   unitBase: string;
-  allergens: string[];
+  allergens: AllergenEntry[];
   supplier?: string;
   price?: number;
   unit?: string;
@@ -24,13 +34,40 @@ export interface FileProcessingResult {
   failedCount: number;
   data: ProcessedIngredient[];
   errors: string[];
+  invoiceHeader?: InvoiceHeader;  // set when the document reads as a purchase invoice
+  invoiceLines?: InvoiceLine[];   // exact lines of an e-invoice
+  invoiceId?: string;
+  duplicates?: DuplicateMatch[];  // earlier uploads of the same file; nothing was processed
 }
 
 export class FileProcessor {
-  static async processFile(file: File, organizationId: string): Promise<FileProcessingResult> {
+  /**
+   * Process and record a file. An exact copy of an earlier upload is reported before anything
+   * is processed or stored, unless the caller has confirmed it.
+   */
+  static async processFile(
+    file: File,
+    organizationId: string,
+    confirmedDuplicate = false
+  ): Promise<FileProcessingResult> {
     const fileType = this.getFileType(file);
     
     try {
+      const hash = await DuplicateUploadService.hashFile(file);
+      if (!confirmedDuplicate) {
+        const duplicates = await DuplicateUploadService.findSameContent(organizationId, hash);
+        if (duplicates.length > 0) {
+          return {
+            success: false,
+            processedCount: 0,
+            failedCount: 0,
+            data: [],
+            errors: [`${file.name} ya se subió antes, el ${new Date(duplicates[0].uploadedAt).toLocaleDateString('es-ES')}`],
+            duplicates
+          };
+        }
+      }
+
       let result: FileProcessingResult;
       
       switch (fileType) {
@@ -41,20 +78,35 @@ export class FileProcessor {
           result = await this.processExcel(file);
           break;
         case 'pdf':
-          result = await this.processPdf(file);
+          result = await this.processPdf(file, organizationId);
           break;
         case 'image':
           result = await this.processImage(file);
           break;
+        case 'xml':
+          result = await this.processXml(file);
+          break;
         default:
           throw new Error(`Tipo de archivo no soportado: ${file.type}`);
       }
 
+      result.data = await this.resolveAliases(result.data, organizationId);
+
       // Subir archivo a Supabase Storage
       await this.uploadToStorage(file, organizationId);
       
       // Guardar registro de procesamiento
-      await this.saveProcessingRecord(file, organizationId, result);
+      const fileUploadId = await this.saveProcessingRecord(file, organizationId, result, hash);
+
+      if (result.invoiceHeader) {
+        // The same invoice recorded twice would double the purchase history
+        const earlier = await DuplicateUploadService.findSameInvoice(organizationId, result.invoiceHeader);
+        if (earlier.length > 0) {
+          result.errors.push('La factura ya estaba registrada en una subida anterior; no se ha vuelto a guardar');
+        } else {
+          result.invoiceId = await this.recordInvoice(result, organizationId, fileUploadId);
+        }
+      }
 
       return result;
     } catch (error) {
@@ -76,56 +128,50 @@ export class FileProcessor {
     if (['xlsx', 'xls'].includes(extension)) return 'excel';
     if (['pdf'].includes(extension)) return 'pdf';
     if (['jpg', 'jpeg', 'png', 'gif', 'bmp'].includes(extension)) return 'image';
+    if (['xml'].includes(extension)) return 'xml';
     
     return 'unknown';
   }
 
   private static async processCsv(file: File): Promise<FileProcessingResult> {
-    return new Promise((resolve) => {
-      const results: ProcessedIngredient[] = [];
-      const errors: string[] = [];
-
-      Papa.parse(file, {
-        header: true,
-        skipEmptyLines: true,
-        complete: (result) => {
-          result.data.forEach((row: any, index: number) => {
-            try {
-              const processed = this.mapRowToIngredient(row);
-              if (processed) {
-                results.push(processed);
-              }
-            } catch (error) {
-              errors.push(`Fila ${index + 1}: ${error instanceof Error ? error.message : 'Error desconocido'}`);
-            }
-          });
-
-          resolve({
-            success: errors.length < results.length,
-            processedCount: results.length,
-            failedCount: errors.length,
-            data: results,
-            errors
-          });
-        },
-        error: (error) => {
-          resolve({
-            success: false,
-            processedCount: 0,
-            failedCount: 1,
-            data: [],
-            errors: [error.message]
-          });
+    // Same parser as the wizard and process-file: delimiter, quoting and encoding are sniffed
+    const { rows } = parseCsv(new Uint8Array(await file.arrayBuffer()));
+    const [headers = [], ...dataRows] = rows;
+
+    const results: ProcessedIngredient[] = [];
+    const errors: string[] = [];
+
+    dataRows.forEach((values, index) => {
+      try {
+        const row = Object.fromEntries(headers.map((header, column) => [header, values[column] ?? '']));
+        const processed = this.mapRowToIngredient(row);
+        if (processed) {
+          results.push(processed);
         }
-      });
+      } catch (error) {
+        errors.push(`Fila ${index + 1}: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+      }
     });
+
+    return {
+      success: errors.length < results.length,
+      processedCount: results.length,
+      failedCount: errors.length,
+      data: results,
+      errors
+    };
   }
 
   private static async processExcel(file: File): Promise<FileProcessingResult> {
-    const arrayBuffer = await file.arrayBuffer();
-    const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-    const jsonData = XLSX.utils.sheet_to_json(worksheet);
+    // All sheets, each from its detected header row
+    const sheets = await SpreadsheetService.readWorkbook(file);
+    const { columns, rows, familyColumn, text } = combineSheetTables(sheets);
+    const jsonData = rows.map(row => {
+      const record: Record<string, string> = Object.fromEntries(columns.map((column, index) => [column, row[index]]));
+      // Families carried down from sub-headers or sheet names are read like a "familia" column
+      if (familyColumn) record.familia = record[familyColumn];
+      return record;
+    });
 
     const results: ProcessedIngredient[] = [];
     const errors: string[] = [];
@@ -146,12 +192,13 @@ export class FileProcessor {
       processedCount: results.length,
       failedCount: errors.length,
       data: results,
-      errors
+      errors,
+      invoiceHeader: this.detectInvoice(text)
     };
   }
 
-  private static async processPdf(file: File): Promise<FileProcessingResult> {
-    const ocrResult = await OcrService.processPDF(file);
+  private static async processPdf(file: File, organizationId: string): Promise<FileProcessingResult> {
+    const ocrResult = await OcrService.processPDF(file, { organizationId });
     
     if (!ocrResult.success) {
       return {
@@ -170,7 +217,8 @@ export class FileProcessor {
       processedCount: results.length,
       failedCount: 0,
       data: results,
-      errors: []
+      errors: [],
+      invoiceHeader: this.detectInvoice(ocrResult.text || '')
     };
   }
 
@@ -194,7 +242,8 @@ export class FileProcessor {
       processedCount: results.length,
       failedCount: 0,
       data: results,
-      errors: []
+      errors: [],
+      invoiceHeader: this.detectInvoice(ocrResult.text || '')
     };
   }
 
@@ -204,22 +253,31 @@ export class FileProcessor {
     const priceFields = ['precio', 'price', 'coste', 'cost'];
     const unitFields = ['unidad', 'unit', 'medida'];
     const categoryFields = ['categoria', 'category', 'tipo', 'type'];
+    const familyFields = ['familia', 'family'];
+    const subfamilyFields = ['subfamilia', 'subfamily'];
     const supplierFields = ['proveedor', 'supplier', 'distribuidor'];
+    const descriptionFields = ['descripcion', 'description', 'formato', 'ingredientes', 'composicion'];
 
     const name = this.findValue(row, nameFields);
     if (!name) return null;
 
-    const price = parseFloat(this.findValue(row, priceFields) || '0');
+    const price = parseLocaleNumber(this.findValue(row, priceFields)) ?? 0;
     const unit = this.findValue(row, unitFields) || 'kg';
     const category = this.findValue(row, categoryFields);
+    const family = this.findValue(row, familyFields);
+    const subfamily = this.findValue(row, subfamilyFields);
     const supplier = this.findValue(row, supplierFields);
+    const description = this.findValue(row, descriptionFields);
 
     return {
       name,
       category,
+      family,
+      subfamily,
       area: 'both',
       unitBase: unit,
-      allergens: [],
+      allergens: mergeAllergenSuggestions([], suggestAllergens({ name, category, spec: description })),
+      packDescription: description,
       supplier,
       price: price > 0 ? price : undefined,
       unit,
@@ -244,7 +302,7 @@ export class FileProcessor {
         name: item.ingredient!,
         area: 'both' as const,
         unitBase: item.unit || 'kg',
-        allergens: [],
+        allergens: mergeAllergenSuggestions([], suggestAllergens({ name: item.ingredient! })),
         price: item.price,
         unit: item.unit,
         supplier: item.supplier,
@@ -252,6 +310,117 @@ export class FileProcessor {
       }));
   }
 
+  /**
+   * Rename rows to the catalog ingredient and supplier they are known as (by alias or a
+   * confident match), so saving by name merges into the existing records
+   */
+  private static async resolveAliases(data: ProcessedIngredient[], organizationId: string): Promise<ProcessedIngredient[]> {
+    if (data.length === 0) return data;
+
+    try {
+      const [ingredients, suppliers] = await Promise.all([
+        AliasService.loadIngredientIndex(organizationId),
+        AliasService.loadSupplierIndex(organizationId)
+      ]);
+
+      return data.map(item => {
+        const [match] = findMatches(ingredients, item.name, 1);
+        const supplier = item.supplier ? findSupplier(suppliers, item.supplier) : null;
+
+        return {
+          ...item,
+          name: match && match.score >= AUTO_MATCH_THRESHOLD ? match.ingredientName : item.name,
+          supplier: supplier ? supplier.supplierName : item.supplier
+        };
+      });
+    } catch (error) {
+      console.error('Error resolving aliases:', error);
+      return data;
+    }
+  }
+
+  // Facturae or UBL: every line is a priced product, no OCR involved
+  private static async processXml(file: File): Promise<FileProcessingResult> {
+    const parsed = parseEInvoice(await file.text());
+
+    if (!parsed.success || !parsed.invoice) {
+      return {
+        success: false,
+        processedCount: 0,
+        failedCount: 1,
+        data: [],
+        errors: [parsed.error || 'Error al procesar XML']
+      };
+    }
+
+    const { header, lines } = parsed.invoice;
+    const results: ProcessedIngredient[] = lines.map(line => ({
+      name: line.description,
+      area: 'both' as const,
+      // Packs (caja, bandeja...) are priced per unit inside
+      unitBase: line.unit && ['kg', 'g', 'L', 'ml', 'cl'].includes(line.unit) ? line.unit : 'ud',
+      allergens: mergeAllergenSuggestions([], suggestAllergens({ name: line.description })),
+      supplier: header.supplierName ?? undefined,
+      price: line.quantity > 0 ? Math.round((line.lineTotal / line.quantity) * 10000) / 10000 : line.unitPrice,
+      unit: line.unit ?? undefined,
+      packDescription: linePackLabel(line),
+      yieldRate: 1.0
+    }));
+
+    return {
+      success: true,
+      processedCount: results.length,
+      failedCount: 0,
+      data: results,
+      errors: [],
+      invoiceHeader: header,
+      invoiceLines: lines
+    };
+  }
+
+  private static detectInvoice(text: string): InvoiceHeader | undefined {
+    const header = extractInvoiceHeader(text);
+    return looksLikeInvoice(header) ? header : undefined;
+  }
+
+  /**
+   * Store the invoice read from the document, one line per priced product
+   */
+  private static async recordInvoice(
+    result: FileProcessingResult,
+    organizationId: string,
+    fileUploadId: string | null
+  ): Promise<string | undefined> {
+    if (!result.invoiceHeader) return undefined;
+
+    const lines: InvoiceLine[] = result.invoiceLines ?? result.data
+      .filter(item => item.price !== undefined)
+      .map((item, index) => ({
+        lineNumber: index + 1,
+        description: item.name,
+        reference: null,
+        quantity: 1,
+        unit: item.unit || null,
+        unitPrice: item.price!,
+        discountPct: 0,
+        taxRate: null,
+        lineTotal: item.price!
+      }));
+    const suppliers = Array.from(new Set(result.data.map(item => item.supplier).filter(Boolean)));
+
+    const invoice = await InvoiceService.createInvoice(organizationId, {
+      header: {
+        ...result.invoiceHeader,
+        supplierName: result.invoiceHeader.supplierName ?? (suppliers.length === 1 ? suppliers[0]! : null)
+      },
+      lines,
+      supplierId: null,
+      fileUploadId
+    });
+    if (!invoice.success) result.errors.push(`No se pudo guardar la factura: ${invoice.error}`);
+    return invoice.invoiceId;
+  }
+
   private static async uploadToStorage(file: File, organizationId: string): Promise<string> {
     const fileName = `${organizationId}/${Date.now()}-${file.name}`;
     
@@ -266,9 +435,10 @@ export class FileProcessor {
   private static async saveProcessingRecord(
     file: File, 
     organizationId: string, 
-    result: FileProcessingResult
-  ): Promise<void> {
-    const { error } = await supabase
+    result: FileProcessingResult,
+    contentHash: string
+  ): Promise<string | null> {
+    const { data, error } = await supabase
       .from('file_uploads')
       .insert({
         organization_id: organizationId,
@@ -276,13 +446,18 @@ export class FileProcessor {
         file_name: file.name,
         file_size: file.size,
         file_path: `${organizationId}/${Date.now()}-${file.name}`,
+        content_hash: contentHash,
         processing_status: result.success ? 'completed' : 'failed',
         processed_records: result.processedCount,
         error_message: result.errors.join('; ') || null
-      });
+      })
+      .select('id')
+      .single();
 
     if (error) {
       console.error('Error saving processing record:', error);
+      return null;
     }
+    return data.id;
   }
 }
\ No newline at end of file
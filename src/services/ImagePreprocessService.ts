@@ -0,0 +1,72 @@
+import {
+  DEFAULT_PREPROCESS,
+  MAX_SIDE,
+  preprocessGray,
+  toGray,
+  toRgba,
+  type PreprocessOptions,
+  type PreprocessReport
+} from '@/utils/imagePreprocess';
+
+export interface PreprocessedImage {
+  canvas: HTMLCanvasElement;  // what OCR reads
+  report: PreprocessReport;
+  before: string;  // preview data URLs, small JPEGs
+  after: string;
+}
+
+// Width of the before/after previews shown in the upload step
+const PREVIEW_WIDTH = 480;
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas 2D context not available');
+  return { canvas, context };
+}
+
+function preview(source: HTMLCanvasElement): string {
+  const factor = Math.min(1, PREVIEW_WIDTH / source.width);
+  const { canvas, context } = createCanvas(
+    Math.max(1, Math.round(source.width * factor)),
+    Math.max(1, Math.round(source.height * factor))
+  );
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.85);
+}
+
+export class ImagePreprocessService {
+  /**
+   * Draw an image file on a canvas, upright as the camera took it (EXIF orientation) and
+   * no larger than the pipeline handles; phone photos have resolution to spare
+   */
+  static async loadImage(file: File): Promise<HTMLCanvasElement> {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    try {
+      const factor = Math.min(1, MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+      const { canvas, context } = createCanvas(
+        Math.round(bitmap.width * factor),
+        Math.round(bitmap.height * factor)
+      );
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      return canvas;
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  static preprocess(source: HTMLCanvasElement, options: PreprocessOptions = DEFAULT_PREPROCESS): PreprocessedImage {
+    const context = source.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Canvas 2D context not available');
+
+    const pixels = context.getImageData(0, 0, source.width, source.height);
+    const { image, report } = preprocessGray(toGray(pixels.data, source.width, source.height), options);
+
+    const { canvas, context: output } = createCanvas(image.width, image.height);
+    output.putImageData(new ImageData(toRgba(image), image.width, image.height), 0, 0);
+
+    return { canvas, report, before: preview(source), after: preview(canvas) };
+  }
+}
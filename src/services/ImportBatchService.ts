@@ -0,0 +1,49 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type ImportBatchRow = Database['public']['Tables']['import_batches']['Row'];
+
+export type ImportBatchWithFile = ImportBatchRow & {
+  file_uploads: { file_name: string } | null;
+};
+
+export interface ImportBatchResult {
+  success: boolean;
+  error?: string;
+}
+
+export class ImportBatchService {
+  /**
+   * Latest import runs of the organization with the file they came from
+   */
+  static async getBatches(organizationId: string, limit = 20): Promise<ImportBatchWithFile[]> {
+    const { data, error } = await supabase
+      .from('import_batches')
+      .select('*, file_uploads(file_name)')
+      .eq('organization_id', organizationId)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Undo a batch in one transaction: previous prices come back and created entities are removed
+   */
+  static async revertBatch(batchId: string): Promise<ImportBatchResult> {
+    const { error } = await supabase.rpc('revert_import_batch', { p_batch_id: batchId });
+    return this.toResult(error);
+  }
+
+  private static toResult(error: { code?: string; message: string } | null): ImportBatchResult {
+    if (!error) return { success: true };
+
+    console.error('Import batch error:', error);
+    // A later recipe or price that uses a created entity blocks its removal
+    if (error.code === '23503') {
+      return { success: false, error: 'Algún elemento creado por esta importación ya se usa en otra parte del catálogo' };
+    }
+    return { success: false, error: error.message };
+  }
+}
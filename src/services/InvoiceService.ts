@@ -0,0 +1,153 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { checkInvoiceTotals, type InvoiceHeader, type InvoiceLine } from '@shared/invoice';
+
+export type PurchaseInvoiceRow = Database['public']['Tables']['purchase_invoices']['Row'];
+export type PurchaseInvoiceLineRow = Database['public']['Tables']['purchase_invoice_lines']['Row'];
+
+export interface InvoiceResult {
+  success: boolean;
+  error?: string;
+  invoiceId?: string;
+}
+
+export interface CreateInvoiceInput {
+  header: InvoiceHeader;
+  lines: InvoiceLine[];
+  supplierId: string | null;
+  fileUploadId: string | null;
+}
+
+export class InvoiceService {
+  static async getInvoices(organizationId: string, limit = 50): Promise<PurchaseInvoiceRow[]> {
+    const { data, error } = await supabase
+      .from('purchase_invoices')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('invoice_date', { ascending: false, nullsFirst: false })
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async getLines(invoiceId: string): Promise<PurchaseInvoiceLineRow[]> {
+    const { data, error } = await supabase
+      .from('purchase_invoice_lines')
+      .select('*')
+      .eq('invoice_id', invoiceId)
+      .order('line_number');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * The issuer's tax ID identifies the supplier better than the name typed in a file
+   */
+  static async findSupplierByTaxId(organizationId: string, taxId: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .select('id')
+      .eq('organization_id', organizationId)
+      .eq('tax_id', taxId)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.id ?? null;
+  }
+
+  /**
+   * Store an invoice with its lines and totals check, and link the upload that produced it
+   */
+  static async createInvoice(organizationId: string, input: CreateInvoiceInput): Promise<InvoiceResult> {
+    const { header, lines, fileUploadId } = input;
+    const check = checkInvoiceTotals(header, lines);
+
+    let supplierId = input.supplierId;
+    if (header.supplierTaxId) {
+      supplierId = (await this.findSupplierByTaxId(organizationId, header.supplierTaxId)) ?? supplierId;
+    }
+
+    const { data: invoice, error } = await supabase
+      .from('purchase_invoices')
+      .insert({
+        organization_id: organizationId,
+        supplier_id: supplierId,
+        supplier_name: header.supplierName,
+        supplier_tax_id: header.supplierTaxId,
+        invoice_number: header.invoiceNumber,
+        invoice_date: header.invoiceDate,
+        due_date: header.dueDate,
+        subtotal: header.subtotal,
+        tax_total: header.taxTotal,
+        total: header.total,
+        tax_breakdown: header.taxBreakdown,
+        lines_total: check.linesTotal,
+        totals_match: check.matches,
+        totals_issues: check.issues
+      })
+      .select('id')
+      .single();
+
+    if (error) return this.toResult(error);
+
+    if (lines.length > 0) {
+      const { error: linesError } = await supabase
+        .from('purchase_invoice_lines')
+        .insert(lines.map(line => ({
+          invoice_id: invoice.id,
+          organization_id: organizationId,
+          line_number: line.lineNumber,
+          description: line.description,
+          reference: line.reference,
+          quantity: line.quantity,
+          unit: line.unit,
+          unit_price: line.unitPrice,
+          discount_pct: line.discountPct,
+          tax_rate: line.taxRate,
+          line_total: line.lineTotal,
+          ingredient_id: line.ingredientId ?? null
+        })));
+
+      if (linesError) {
+        // An invoice without its lines would pass for a complete purchase
+        await supabase.from('purchase_invoices').delete().eq('id', invoice.id);
+        return this.toResult(linesError);
+      }
+    }
+
+    if (fileUploadId) {
+      const { error: linkError } = await supabase
+        .from('file_uploads')
+        .update({ purchase_invoice_id: invoice.id })
+        .eq('id', fileUploadId);
+      if (linkError) console.error('Error linking upload to invoice:', linkError);
+    }
+
+    // Remember the tax ID so the next invoice of this supplier is recognized by it
+    if (supplierId && header.supplierTaxId) {
+      await supabase
+        .from('suppliers')
+        .update({ tax_id: header.supplierTaxId })
+        .eq('id', supplierId)
+        .is('tax_id', null);
+    }
+
+    return { success: true, invoiceId: invoice.id };
+  }
+
+  static async deleteInvoice(invoiceId: string): Promise<InvoiceResult> {
+    const { error } = await supabase.from('purchase_invoices').delete().eq('id', invoiceId);
+    return this.toResult(error);
+  }
+
+  private static toResult(error: { code?: string; message: string } | null): InvoiceResult {
+    if (!error) return { success: true };
+
+    console.error('Invoice error:', error);
+    return { success: false, error: error.message };
+  }
+}
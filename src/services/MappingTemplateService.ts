@@ -0,0 +1,120 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { headerFingerprint, type ColumnMappingRule, type MappingTemplate } from '@shared/mappingTemplates';
+
+type MappingTemplateRow = Database['public']['Tables']['file_import_mappings']['Row'];
+
+export interface MappingTemplateResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface SaveTemplateInput {
+  fileUploadId: string | null;
+  supplierId: string | null;
+  columns: string[];
+  mappings: ColumnMappingRule[];
+  pricesIncludeTax: boolean;
+}
+
+function isRecord(value: Json): value is { [key: string]: Json | undefined } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// column_mappings is stored as { source column: target field }
+function toTemplate(row: MappingTemplateRow & { suppliers: { name: string } | null }): MappingTemplate {
+  const mappings = isRecord(row.column_mappings)
+    ? Object.entries(row.column_mappings).flatMap(([source, target]) =>
+        typeof target === 'string' ? [{ source, target }] : [])
+    : [];
+  const rules = isRecord(row.normalization_rules) ? row.normalization_rules : {};
+
+  return {
+    id: row.id,
+    supplierId: row.supplier_id,
+    supplierName: row.suppliers?.name ?? null,
+    sourceColumns: Array.isArray(row.source_columns)
+      ? row.source_columns.filter((column): column is string => typeof column === 'string')
+      : [],
+    mappings,
+    pricesIncludeTax: typeof rules.pricesIncludeTax === 'boolean' ? rules.pricesIncludeTax : undefined,
+    useCount: row.use_count,
+    lastUsedAt: row.last_used_at
+  };
+}
+
+export class MappingTemplateService {
+  /**
+   * Confirmed templates of the organization, most recently used first
+   */
+  static async getTemplates(organizationId: string): Promise<MappingTemplate[]> {
+    const { data, error } = await supabase
+      .from('file_import_mappings')
+      .select('*, suppliers(name)')
+      .eq('organization_id', organizationId)
+      .eq('scope', 'template')
+      .eq('is_confirmed', true)
+      .not('header_fingerprint', 'is', null)
+      .order('last_used_at', { ascending: false, nullsFirst: false });
+
+    if (error) throw error;
+    return (data || []).map(toTemplate);
+  }
+
+  /**
+   * Remember the mapping of an imported file: one template per supplier and layout,
+   * overwritten by the latest confirmed import
+   */
+  static async saveTemplate(organizationId: string, input: SaveTemplateInput): Promise<MappingTemplateResult> {
+    const fingerprint = headerFingerprint(input.columns);
+    if (!fingerprint || input.mappings.length === 0) return { success: true };
+
+    let query = supabase
+      .from('file_import_mappings')
+      .select('id, use_count')
+      .eq('organization_id', organizationId)
+      .eq('header_fingerprint', fingerprint);
+    query = input.supplierId ? query.eq('supplier_id', input.supplierId) : query.is('supplier_id', null);
+
+    const { data: existing, error: lookupError } = await query.limit(1).maybeSingle();
+    if (lookupError) return this.toResult(lookupError);
+
+    const values = {
+      file_upload_id: input.fileUploadId,
+      source_columns: input.columns,
+      column_mappings: Object.fromEntries(input.mappings.map(mapping => [mapping.source, mapping.target])),
+      normalization_rules: { pricesIncludeTax: input.pricesIncludeTax },
+      is_confirmed: true,
+      last_used_at: new Date().toISOString()
+    };
+
+    const { error } = existing
+      ? await supabase
+          .from('file_import_mappings')
+          .update({ ...values, use_count: existing.use_count + 1 })
+          .eq('id', existing.id)
+      : await supabase
+          .from('file_import_mappings')
+          .insert({
+            ...values,
+            organization_id: organizationId,
+            supplier_id: input.supplierId,
+            header_fingerprint: fingerprint,
+            use_count: 1
+          });
+
+    return this.toResult(error);
+  }
+
+  static async deleteTemplate(templateId: string): Promise<MappingTemplateResult> {
+    const { error } = await supabase.from('file_import_mappings').delete().eq('id', templateId);
+    return this.toResult(error);
+  }
+
+  private static toResult(error: { code?: string; message: string } | null): MappingTemplateResult {
+    if (!error) return { success: true };
+
+    console.error('Mapping template error:', error);
+    return { success: false, error: error.message };
+  }
+}
@@ -1,4 +1,10 @@
-import { createWorker, type Worker } from 'tesseract.js';
+import { createWorker, type ImageLike, type Worker } from 'tesseract.js';
+import { supabase } from '@/integrations/supabase/client';
+import { PdfService } from './PdfService';
+import { detectNumberFormat, parseMoney, type NumberFormatDetection } from '@shared/numberParser';
+import { buildOcrTable, type OcrLayoutLine, type OcrTable, type OcrWord } from '@shared/ocrTable';
+import type { PreprocessOptions } from '@/utils/imagePreprocess';
+import { ImagePreprocessService, type PreprocessedImage } from './ImagePreprocessService';
 
 export interface ExtractedPriceData {
   text: string;
@@ -6,7 +12,8 @@ export interface ExtractedPriceData {
   price?: number;
   unit?: string;
   supplier?: string;
-  confidence: number;
+  confidence: number;  // 0-1, from the recognized line
+  page?: number;
   boundingBox?: {
     x: number;
     y: number;
@@ -15,15 +22,77 @@ export interface ExtractedPriceData {
   };
 }
 
+export interface OcrLine {
+  text: string;
+  confidence: number;  // 0-1
+  page: number;
+  boundingBox?: ExtractedPriceData['boundingBox'];
+  words?: OcrWord[];  // word boxes, for rebuilding the table layout
+}
+
 export interface OcrResult {
   success: boolean;
   extractedData: ExtractedPriceData[];
   error?: string;
-  confidence: number;
+  confidence: number;  // 0-1, mean over the recognized pages
+  numberFormat?: NumberFormatDetection;
+  pages?: number;
+  ocrProcessingId?: string;
+  text?: string;  // recognized lines in reading order, for invoice header fields
+  table?: OcrTable;  // columns and rows rebuilt from the word positions
+  preprocessing?: Omit<PreprocessedImage, 'canvas'>;  // of the image, or of the first page of a PDF
+}
+
+export type OcrProfileId = 'price_list' | 'delivery_note' | 'invoice' | 'unrestricted';
+
+export interface OcrProfile {
+  label: string;
+  description: string;
+  whitelist: string | null;  // characters Tesseract may output; null for any
+}
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyzÁÉÍÓÚÜÑáéíóúüñÇç';
+const DIGITS = '0123456789';
+// Prices and pack sizes: "6×1 L", "12 x 330 ml", "2,35 €/kg", "IGIC 7%"
+const PACK_AND_PRICE = ' .,€$£%()-/×*+';
+
+// Per-document whitelists: a tight set removes look-alike noise, but a missing character is
+// silently replaced by another, so each profile keeps what its documents actually print
+export const OCR_PROFILES: Record<OcrProfileId, OcrProfile> = {
+  price_list: {
+    label: 'Tarifa de precios',
+    description: 'Productos, formatos y precios',
+    whitelist: LETTERS + DIGITS + PACK_AND_PRICE
+  },
+  delivery_note: {
+    label: 'Albarán',
+    description: 'Añade referencias, lotes y fechas',
+    whitelist: LETTERS + DIGITS + PACK_AND_PRICE + ":;#ºª'&\""
+  },
+  invoice: {
+    label: 'Factura',
+    description: 'Añade NIF, correos y datos fiscales',
+    whitelist: LETTERS + DIGITS + PACK_AND_PRICE + ":;#ºª'&\"@=_"
+  },
+  unrestricted: {
+    label: 'Sin restricción',
+    description: 'Cualquier carácter; más lento y con más ruido',
+    whitelist: null
+  }
+};
+
+export const DEFAULT_OCR_PROFILE: OcrProfileId = 'delivery_note';
+
+export interface OcrOptions {
+  organizationId?: string;  // when set, the run is recorded in ocr_processing
+  onProgress?: (page: number, pageCount: number) => void;
+  profile?: OcrProfileId;
+  preprocess?: PreprocessOptions;  // clean the image up before recognition; off when unset
 }
 
 export class OcrService {
   private static worker: Worker | null = null;
+  private static profile: OcrProfileId | null = null;
 
   static async initializeWorker(): Promise<void> {
     if (this.worker) return;
@@ -31,24 +100,47 @@ export class OcrService {
     this.worker = await createWorker('spa', 1, {
       logger: m => console.log('OCR:', m)
     });
-    
+    this.profile = null;
+  }
+
+  // The worker is shared: switch its whitelist only when the document type changes
+  private static async useProfile(profile: OcrProfileId = DEFAULT_OCR_PROFILE): Promise<void> {
+    await this.initializeWorker();
+    if (!this.worker || this.profile === profile) return;
+
     await this.worker.setParameters({
-      tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789.,€$£¥ ()-%'
+      tessedit_char_whitelist: OCR_PROFILES[profile].whitelist ?? ''
     });
+    this.profile = profile;
   }
 
-  static async processImage(file: File): Promise<OcrResult> {
+  static async processImage(file: File, options: OcrOptions = {}): Promise<OcrResult> {
     try {
-      await this.initializeWorker();
-      if (!this.worker) throw new Error('OCR worker not initialized');
+      await this.useProfile(options.profile);
+
+      let image: ImageLike = file;
+      let preprocessing: OcrResult['preprocessing'];
+      if (options.preprocess) {
+        const { canvas, ...preview } = ImagePreprocessService.preprocess(
+          await ImagePreprocessService.loadImage(file),
+          options.preprocess
+        );
+        image = canvas;
+        preprocessing = preview;
+      }
 
-      const { data } = await this.worker.recognize(file);
-      const extractedData = this.parseOcrText(data.text, []);
+      const { lines, confidence } = await this.recognizePage(image, 1);
+      const { extractedData, numberFormat } = this.parseOcrText(lines);
 
       return {
         success: true,
         extractedData,
-        confidence: data.confidence || 0
+        confidence,
+        numberFormat,
+        pages: 1,
+        text: lines.map(line => line.text).join('\n'),
+        table: this.buildTable(lines),
+        preprocessing
       };
     } catch (error) {
       console.error('OCR processing error:', error);
@@ -61,71 +153,223 @@ export class OcrService {
     }
   }
 
-  static async processPDF(file: File): Promise<OcrResult> {
+  /**
+   * OCR for scanned PDFs: every page is rasterized with pdfjs and recognized in turn,
+   * and the lines of all pages are parsed together
+   */
+  static async processPDF(file: File, options: OcrOptions = {}): Promise<OcrResult> {
+    const runId = options.organizationId ? await this.startRun(file, options.organizationId) : null;
+    const lines: OcrLine[] = [];
+    const pageConfidences: number[] = [];
+    let preprocessing: OcrResult['preprocessing'];
+
     try {
-      // Para PDFs, primero convertimos a imagen y luego aplicamos OCR
-      const arrayBuffer = await file.arrayBuffer();
-      
-      // Aquí usaríamos pdf-lib o similar para convertir PDF a imagen
-      // Por ahora, simulamos la extracción de texto
-      const mockData: ExtractedPriceData[] = [
-        {
-          text: "Aceite de oliva virgen extra - 15.50€/L",
-          ingredient: "Aceite de oliva virgen extra",
-          price: 15.50,
-          unit: "L",
-          confidence: 0.85
+      await this.useProfile(options.profile);
+
+      const pages = await PdfService.renderPages(file, async (canvas, pageNumber, pageCount) => {
+        let image: HTMLCanvasElement = canvas;
+        if (options.preprocess) {
+          const { canvas: processed, ...preview } = ImagePreprocessService.preprocess(canvas, options.preprocess);
+          image = processed;
+          if (pageNumber === 1) preprocessing = preview;
         }
-      ];
 
-      return {
+        const page = await this.recognizePage(image, pageNumber);
+        lines.push(...page.lines);
+        pageConfidences.push(page.confidence);
+        options.onProgress?.(pageNumber, pageCount);
+      });
+
+      const { extractedData, numberFormat } = this.parseOcrText(lines);
+      const result: OcrResult = {
         success: true,
-        extractedData: mockData,
-        confidence: 0.85
+        extractedData,
+        confidence: pageConfidences.length > 0
+          ? pageConfidences.reduce((sum, value) => sum + value, 0) / pageConfidences.length
+          : 0,
+        numberFormat,
+        pages,
+        ocrProcessingId: runId ?? undefined,
+        text: lines.map(line => line.text).join('\n'),
+        table: this.buildTable(lines),
+        preprocessing
       };
+
+      if (runId) await this.finishRun(runId, result, lines);
+      return result;
     } catch (error) {
-      return {
+      console.error('PDF OCR error:', error);
+      const result: OcrResult = {
         success: false,
         extractedData: [],
         error: error instanceof Error ? error.message : 'PDF processing failed',
-        confidence: 0
+        confidence: 0,
+        ocrProcessingId: runId ?? undefined
       };
+
+      if (runId) await this.finishRun(runId, result, lines);
+      return result;
     }
   }
 
-  private static parseOcrText(text: string, words: any[]): ExtractedPriceData[] {
-    const lines = text.split('\n').filter(line => line.trim().length > 0);
-    const extractedData: ExtractedPriceData[] = [];
+  private static async recognizePage(image: ImageLike, page: number): Promise<{ lines: OcrLine[]; confidence: number }> {
+    await this.useProfile(this.profile ?? DEFAULT_OCR_PROFILE);
+    if (!this.worker) throw new Error('OCR worker not initialized');
+
+    const { data } = await this.worker.recognize(image, {}, { text: true, blocks: true });
+    const lines: OcrLine[] = [];
 
-    // Patrones comunes para precios en facturas
+    (data.blocks || []).forEach(block => {
+      block.paragraphs.forEach(paragraph => {
+        paragraph.lines.forEach(line => {
+          if (!line.text.trim()) return;
+          lines.push({
+            text: line.text.trim(),
+            confidence: line.confidence / 100,
+            page,
+            boundingBox: {
+              x: line.bbox.x0,
+              y: line.bbox.y0,
+              width: line.bbox.x1 - line.bbox.x0,
+              height: line.bbox.y1 - line.bbox.y0
+            },
+            words: line.words.map(word => ({
+              text: word.text,
+              confidence: word.confidence / 100,
+              bbox: word.bbox
+            }))
+          });
+        });
+      });
+    });
+
+    // Sin estructura de bloques solo queda el texto plano con la confianza de la página
+    if (lines.length === 0) {
+      data.text.split('\n').filter(text => text.trim().length > 0).forEach(text => {
+        lines.push({ text: text.trim(), confidence: (data.confidence || 0) / 100, page });
+      });
+    }
+
+    return { lines, confidence: (data.confidence || 0) / 100 };
+  }
+
+  /**
+   * Table rebuilt from the lines that kept their word boxes; undefined when no columns show up
+   */
+  private static buildTable(lines: OcrLine[]): OcrTable | undefined {
+    const layoutLines: OcrLayoutLine[] = lines
+      .filter(line => line.words && line.words.length > 0 && line.boundingBox)
+      .map(line => ({
+        words: line.words!,
+        bbox: {
+          x0: line.boundingBox!.x,
+          y0: line.boundingBox!.y,
+          x1: line.boundingBox!.x + line.boundingBox!.width,
+          y1: line.boundingBox!.y + line.boundingBox!.height
+        },
+        page: line.page,
+        confidence: line.confidence
+      }));
+
+    const table = buildOcrTable(layoutLines);
+    return table.rows.length > 0 ? table : undefined;
+  }
+
+  private static async startRun(file: File, organizationId: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('ocr_processing')
+      .insert({
+        organization_id: organizationId,
+        file_name: file.name,
+        file_size: file.size,
+        file_type: file.name.split('.').pop()?.toLowerCase() || 'pdf',
+        processing_status: 'processing'
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error recording OCR run:', error);
+      return null;
+    }
+    return data.id;
+  }
+
+  private static async finishRun(runId: string, result: OcrResult, lines: OcrLine[]): Promise<void> {
+    const { error } = await supabase
+      .from('ocr_processing')
+      .update({
+        processing_status: result.success ? 'completed' : 'failed',
+        error_message: result.error || null,
+        completed_at: new Date().toISOString(),
+        extracted_data: {
+          pages: result.pages ?? null,
+          confidence: result.confidence,
+          numberFormat: result.numberFormat?.description ?? null,
+          lines: lines.map(line => ({ text: line.text, confidence: line.confidence, page: line.page })),
+          items: result.extractedData.map(item => ({
+            text: item.text,
+            ingredient: item.ingredient ?? null,
+            price: item.price ?? null,
+            unit: item.unit ?? null,
+            confidence: item.confidence,
+            page: item.page ?? null
+          }))
+        }
+      })
+      .eq('id', runId);
+
+    if (error) {
+      console.error('Error updating OCR run:', error);
+    }
+  }
+
+  private static parseOcrText(lines: OcrLine[]): { extractedData: ExtractedPriceData[]; numberFormat: NumberFormatDetection } {
+    const candidates: { text: string; amount: string; unit: string; ingredient: string; line: OcrLine }[] = [];
+
+    // Patrones comunes para precios en facturas (admiten separador de miles: 1.234,56)
     const pricePatterns = [
-      /(\d+[.,]\d{2})\s*€?\s*\/?\s*(kg|l|ud|unidad|litro|kilo)/gi,
-      /€\s*(\d+[.,]\d{2})\s*\/?\s*(kg|l|ud)/gi,
-      /(\w+[\w\s]+)\s+(\d+[.,]\d{2})\s*€?\s*\/?\s*(kg|l|ud)/gi
+      { pattern: /(\d{1,3}(?:[.,]\d{3})+[.,]\d{2}|\d+[.,]\d{2})\s*€?\s*\/?\s*(kg|l|ud|unidad|litro|kilo)/gi, amount: 1, unit: 2 },
+      { pattern: /€\s*(\d{1,3}(?:[.,]\d{3})+[.,]\d{2}|\d+[.,]\d{2})\s*\/?\s*(kg|l|ud)/gi, amount: 1, unit: 2 },
+      { pattern: /(\w+[\w\s]+)\s+(\d{1,3}(?:[.,]\d{3})+[.,]\d{2}|\d+[.,]\d{2})\s*€?\s*\/?\s*(kg|l|ud)/gi, amount: 2, unit: 3, ingredient: 1 }
     ];
 
-    lines.forEach((line, index) => {
-      pricePatterns.forEach(pattern => {
-        const matches = Array.from(line.matchAll(pattern));
+    lines.forEach(line => {
+      pricePatterns.forEach(({ pattern, amount, unit, ingredient }) => {
+        const matches = Array.from(line.text.matchAll(pattern));
         matches.forEach(match => {
-          const price = parseFloat(match[1]?.replace(',', '.') || '0');
-          const unit = match[2]?.toLowerCase() || 'ud';
-          const ingredient = match[3] || this.extractIngredientFromLine(line);
-
-          if (price > 0) {
-            extractedData.push({
-              text: match[0],
-              ingredient,
-              price,
-              unit,
-              confidence: 0.8
-            });
-          }
+          candidates.push({
+            text: match[0],
+            amount: match[amount],
+            unit: match[unit]?.toLowerCase() || 'ud',
+            ingredient: (ingredient && match[ingredient]?.trim()) || this.extractIngredientFromLine(line.text),
+            line
+          });
         });
       });
     });
 
-    return extractedData;
+    // Una factura usa el mismo formato en todo el documento: se decide con todos los importes
+    const numberFormat = detectNumberFormat(candidates.map(c => c.amount));
+    const extractedData: ExtractedPriceData[] = [];
+
+    candidates.forEach(candidate => {
+      const price = parseMoney(candidate.amount, numberFormat)?.amount ?? 0;
+
+      if (price > 0) {
+        extractedData.push({
+          text: candidate.text,
+          ingredient: candidate.ingredient,
+          price,
+          unit: candidate.unit,
+          confidence: candidate.line.confidence,
+          page: candidate.line.page,
+          boundingBox: candidate.line.boundingBox
+        });
+      }
+    });
+
+    return { extractedData, numberFormat };
   }
 
   private static extractIngredientFromLine(line: string): string {
@@ -138,6 +382,7 @@ export class OcrService {
     if (this.worker) {
       await this.worker.terminate();
       this.worker = null;
+      this.profile = null;
     }
   }
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import * as pdfjsLib from 'pdfjs-dist';
 import 'pdfjs-dist/build/pdf.worker.entry';
+import { extractPdfTable, toPdfTextItems, type PdfTextItem } from '@shared/pdfText';
 
 // Configure PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = '/node_modules/pdfjs-dist/build/pdf.worker.js';
@@ -8,6 +9,7 @@ export interface PdfExtractionResult {
   success: boolean;
   data: string[][];
   columns: string[];
+  text: string;  // every line of the text layer, for invoice header fields
   error?: string;
   metadata: {
     pages: number;
@@ -25,52 +27,23 @@ export class PdfService {
       const arrayBuffer = await file.arrayBuffer();
       const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
       
-      const allRows: string[][] = [];
-      let detectedColumns: string[] = [];
-      let hasText = false;
-      let tableCount = 0;
-      
-      // Process each page
+      // Positioned text items of every page; the table is rebuilt the same way in process-file
+      const pages: PdfTextItem[][] = [];
       for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
         const page = await pdf.getPage(pageNum);
         const textContent = await page.getTextContent();
-        
-        if (textContent.items.length > 0) {
-          hasText = true;
-          
-          // Extract text and position information
-          const textItems = textContent.items
-            .filter((item): item is any => 'str' in item && 'transform' in item)
-            .map(item => ({
-              text: item.str.trim(),
-              x: item.transform[4],
-              y: item.transform[5],
-              width: item.width || 0,
-              height: item.height || 12
-            }))
-            .filter(item => item.text.length > 0);
-          
-          // Group text items into potential table rows
-          const rows = this.extractTableRows(textItems);
-          
-          if (rows.length > 0) {
-            tableCount++;
-            
-            // Detect columns from first few rows if not already detected
-            if (detectedColumns.length === 0 && rows.length > 0) {
-              detectedColumns = this.detectColumns(rows);
-            }
-            
-            allRows.push(...rows);
-          }
-        }
+        pages.push(toPdfTextItems(textContent.items));
       }
       
+      const hasText = pages.some(items => items.length > 0);
+      const table = extractPdfTable(pages);
+      
       if (!hasText) {
         return {
           success: false,
           data: [],
           columns: [],
+          text: '',
           error: 'PDF appears to be scanned (no text content). OCR processing required.',
           metadata: {
             pages: pdf.numPages,
@@ -80,11 +53,12 @@ export class PdfService {
         };
       }
       
-      if (allRows.length === 0) {
+      if (table.rows.length === 0) {
         return {
           success: false,
           data: [],
           columns: [],
+          text: table.text,
           error: 'No table data found in PDF',
           metadata: {
             pages: pdf.numPages,
@@ -96,12 +70,13 @@ export class PdfService {
       
       return {
         success: true,
-        data: allRows,
-        columns: detectedColumns,
+        data: table.rows,
+        columns: table.columns,
+        text: table.text,
         metadata: {
           pages: pdf.numPages,
           hasText: true,
-          tables: tableCount
+          tables: table.tables
         }
       };
       
@@ -111,6 +86,7 @@ export class PdfService {
         success: false,
         data: [],
         columns: [],
+        text: '',
         error: error instanceof Error ? error.message : 'Failed to process PDF',
         metadata: {
           pages: 0,
@@ -122,86 +98,39 @@ export class PdfService {
   }
   
   /**
-   * Extract and organize text items into table rows
-   */
-  private static extractTableRows(textItems: Array<{text: string; x: number; y: number; width: number; height: number}>): string[][] {
-    if (textItems.length === 0) return [];
-    
-    // Group items by Y coordinate (rows)
-    const rowGroups = new Map<number, Array<{text: string; x: number}>>();
-    
-    textItems.forEach(item => {
-      // Round Y coordinate to group items on same line
-      const rowY = Math.round(item.y / 5) * 5;
-      
-      if (!rowGroups.has(rowY)) {
-        rowGroups.set(rowY, []);
-      }
-      
-      rowGroups.get(rowY)!.push({
-        text: item.text,
-        x: item.x
-      });
-    });
-    
-    // Convert to array and sort by Y coordinate (top to bottom)
-    const sortedRows = Array.from(rowGroups.entries())
-      .sort((a, b) => b[0] - a[0]) // Reverse sort for PDF coordinates
-      .map(([y, items]) => {
-        // Sort items in each row by X coordinate (left to right)
-        return items
-          .sort((a, b) => a.x - b.x)
-          .map(item => item.text);
-      })
-      .filter(row => row.length > 1); // Only keep rows with multiple columns
-    
-    return sortedRows;
-  }
-  
-  /**
-   * Detect column headers from the first few rows
+   * Rasterize every page of a PDF (scanned documents have no text layer) and hand each
+   * canvas to the callback, one page at a time to keep memory bounded
    */
-  private static detectColumns(rows: string[][]): string[] {
-    if (rows.length === 0) return [];
-    
-    // Look for common header patterns in first 3 rows
-    const headerPatterns = [
-      /referencia|código|code|ref/i,
-      /descripción|producto|nombre|name|description/i,
-      /formato|presentación|format|pack/i,
-      /precio|price|pvp|importe/i,
-      /unidad|unit|medida/i,
-      /iva|igic|tax/i,
-      /proveedor|supplier|distribuidor/i
-    ];
-    
-    let bestHeaderRow: string[] = [];
-    let maxMatches = 0;
-    
-    // Check first few rows for header patterns
-    for (let i = 0; i < Math.min(3, rows.length); i++) {
-      const row = rows[i];
-      let matches = 0;
-      
-      row.forEach(cell => {
-        headerPatterns.forEach(pattern => {
-          if (pattern.test(cell)) {
-            matches++;
-          }
-        });
-      });
-      
-      if (matches > maxMatches) {
-        maxMatches = matches;
-        bestHeaderRow = row;
+  static async renderPages(
+    file: File,
+    onPage: (canvas: HTMLCanvasElement, pageNumber: number, pageCount: number) => Promise<void>,
+    scale = 2
+  ): Promise<number> {
+    const arrayBuffer = await file.arrayBuffer();
+    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+
+    try {
+      for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+        const page = await pdf.getPage(pageNum);
+        const viewport = page.getViewport({ scale });
+        const canvas = document.createElement('canvas');
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas 2D context not available');
+
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+        await page.render({ canvasContext: context, viewport }).promise;
+
+        await onPage(canvas, pageNum, pdf.numPages);
+
+        // Release the bitmap before rendering the next page
+        canvas.width = 0;
+        canvas.height = 0;
+        page.cleanup();
       }
+      return pdf.numPages;
+    } finally {
+      await pdf.destroy();
     }
-    
-    // If no clear headers found, create generic ones
-    if (maxMatches === 0 && rows.length > 0) {
-      return rows[0].map((_, index) => `Columna ${index + 1}`);
-    }
-    
-    return bestHeaderRow;
   }
-}
\ No newline at end of file
+}
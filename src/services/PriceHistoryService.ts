@@ -0,0 +1,161 @@
+import { supabase } from '@/integrations/supabase/client';
+import { splitTax } from '@shared/tax';
+import type { ReferencePrice } from '@/utils/priceOutliers';
+import { productKey, type CurrentProductPrice } from '@/utils/importPreview';
+import { isPriceValidAt } from '@shared/priceVersions';
+import { convertUnitPrice, getBaseUnit, profileFromIngredient } from '@shared/units';
+
+// Lowest net price per unit of an ingredient on a given date, and who sells at it
+export interface DatedIngredientPrice {
+  unitPrice: number;
+  unit: string;  // the ingredient's unit_base, or the base unit of its first price without one
+  supplierId: string;
+}
+
+export class PriceHistoryService {
+  /**
+   * Every recorded price (current and past, all suppliers) of the given ingredients,
+   * as net unit prices keyed by ingredient id
+   */
+  static async loadReferencePrices(ingredientIds: string[]): Promise<Record<string, ReferencePrice[]>> {
+    const references: Record<string, ReferencePrice[]> = {};
+    if (ingredientIds.length === 0) return references;
+
+    const { data, error } = await supabase
+      .from('supplier_prices')
+      .select(`
+        pack_price,
+        pack_net_qty,
+        pack_unit,
+        tax_pct,
+        tax_included,
+        is_active,
+        effective_from,
+        effective_to,
+        supplier_products!inner (
+          ingredient_id,
+          supplier_id
+        )
+      `)
+      .in('supplier_products.ingredient_id', ingredientIds)
+      .order('effective_from', { ascending: false });
+
+    if (error) throw error;
+
+    const now = new Date();
+    (data || []).forEach(price => {
+      if (!price.pack_net_qty || price.pack_net_qty <= 0) return;
+
+      const { ingredient_id, supplier_id } = price.supplier_products;
+      const prices = references[ingredient_id] || [];
+      prices.push({
+        supplierId: supplier_id,
+        unitPrice: splitTax(price.pack_price, price.tax_pct, price.tax_included).net / price.pack_net_qty,
+        unit: price.pack_unit,
+        isActive: isPriceValidAt(price, now),
+        effectiveFrom: price.effective_from
+      });
+      references[ingredient_id] = prices;
+    });
+
+    return references;
+  }
+
+  /**
+   * Supplier products of the given ingredients with the price valid at the given date
+   * (now by default), keyed by supplier and ingredient
+   */
+  static async loadCurrentPrices(ingredientIds: string[], at = new Date()): Promise<Record<string, CurrentProductPrice>> {
+    const current: Record<string, CurrentProductPrice> = {};
+    if (ingredientIds.length === 0) return current;
+
+    const { data, error } = await supabase
+      .from('supplier_products')
+      .select(`
+        id,
+        ingredient_id,
+        supplier_id,
+        supplier_prices (
+          pack_price,
+          pack_net_qty,
+          pack_unit,
+          tax_pct,
+          tax_included,
+          is_active,
+          effective_from,
+          effective_to
+        )
+      `)
+      .in('ingredient_id', ingredientIds);
+
+    if (error) throw error;
+
+    (data || []).forEach(product => {
+      const active = product.supplier_prices.find(price => isPriceValidAt(price, at) && price.pack_net_qty > 0);
+      current[productKey(product.supplier_id, product.ingredient_id)] = {
+        supplierProductId: product.id,
+        unitPrice: active ? splitTax(active.pack_price, active.tax_pct, active.tax_included).net / active.pack_net_qty : null,
+        unit: active?.pack_unit ?? null
+      };
+    });
+
+    return current;
+  }
+
+  /**
+   * Best net unit price of every ingredient of the organization among the prices valid at
+   * the given date, for costing recipes as they were (or will be) on that day. Prices are
+   * compared in the ingredient's unit; one that can't be converted to it is left out.
+   */
+  static async loadIngredientPricesAt(organizationId: string, at: Date): Promise<Record<string, DatedIngredientPrice>> {
+    const iso = at.toISOString();
+    const { data, error } = await supabase
+      .from('supplier_prices')
+      .select(`
+        pack_price,
+        pack_net_qty,
+        pack_unit,
+        discount_pct,
+        tax_pct,
+        tax_included,
+        is_active,
+        effective_from,
+        effective_to,
+        supplier_products!inner (
+          ingredient_id,
+          supplier_id,
+          suppliers!inner ( organization_id ),
+          ingredients!inner ( unit_base, density_kg_per_l, piece_weight_kg )
+        )
+      `)
+      .eq('supplier_products.suppliers.organization_id', organizationId)
+      .eq('is_active', true)
+      .lte('effective_from', iso)
+      .or(`effective_to.is.null,effective_to.gt.${iso}`);
+
+    if (error) throw error;
+
+    const prices: Record<string, DatedIngredientPrice> = {};
+    (data || []).forEach(price => {
+      if (!price.pack_net_qty || price.pack_net_qty <= 0) return;
+
+      const { ingredient_id, supplier_id, ingredients: ingredient } = price.supplier_products;
+      const discounted = price.pack_price * (1 - (price.discount_pct || 0) / 100);
+      const best = prices[ingredient_id];
+      const unit = ingredient.unit_base || best?.unit || getBaseUnit(price.pack_unit);
+      const unitPrice = convertUnitPrice(
+        splitTax(discounted, price.tax_pct, price.tax_included).net / price.pack_net_qty,
+        price.pack_unit,
+        unit,
+        profileFromIngredient(ingredient)
+      );
+      if (unitPrice === null) return;
+
+      if (!best || unitPrice < best.unitPrice) {
+        prices[ingredient_id] = { unitPrice, unit, supplierId: supplier_id };
+      }
+    });
+
+    return prices;
+  }
+}
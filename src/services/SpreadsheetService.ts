@@ -0,0 +1,12 @@
+import * as XLSX from 'xlsx';
+import { readWorkbookTables, type SheetTable } from '@shared/sheetLayout';
+
+export class SpreadsheetService {
+  /**
+   * Every sheet of a workbook with its table located (header row, sub-header families).
+   * Sheets without data rows are left out.
+   */
+  static async readWorkbook(file: File): Promise<SheetTable[]> {
+    return readWorkbookTables(XLSX, await file.arrayBuffer());
+  }
+}
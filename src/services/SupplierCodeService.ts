@@ -0,0 +1,51 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { CodedProduct } from '@shared/productCodes';
+
+export type MissingSupplierCode = Database['public']['Functions']['get_missing_supplier_codes']['Returns'][number];
+
+export interface CodedSupplierProduct extends CodedProduct {
+  ingredient_name: string;
+}
+
+export class SupplierCodeService {
+  /**
+   * Supplier products of the organization that carry an article code or barcode
+   */
+  static async loadCodedProducts(organizationId: string): Promise<CodedSupplierProduct[]> {
+    const { data, error } = await supabase
+      .from('supplier_products')
+      .select(`
+        id,
+        supplier_id,
+        ingredient_id,
+        supplier_sku,
+        ean,
+        suppliers!inner ( organization_id ),
+        ingredients ( name )
+      `)
+      .eq('suppliers.organization_id', organizationId)
+      .or('supplier_sku.not.is.null,ean.not.is.null');
+
+    if (error) throw error;
+
+    return (data || []).map(product => ({
+      id: product.id,
+      supplier_id: product.supplier_id,
+      ingredient_id: product.ingredient_id,
+      supplier_sku: product.supplier_sku,
+      ean: product.ean,
+      ingredient_name: product.ingredients?.name ?? ''
+    }));
+  }
+
+  /**
+   * Coded products missing from the latest price list of their supplier
+   */
+  static async getMissingCodes(organizationId: string): Promise<MissingSupplierCode[]> {
+    const { data, error } = await supabase.rpc('get_missing_supplier_codes', { p_organization_id: organizationId });
+
+    if (error) throw error;
+    return data || [];
+  }
+}
@@ -0,0 +1,245 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import {
+  buildClassifier,
+  buildTaxonomyTree,
+  childLevel,
+  classificationColumns,
+  classifyProduct,
+  nodePath,
+  normalizeTaxonomyName,
+  type TaxonomyClassifier,
+  type TaxonomyNode,
+  type TaxonomyTemplate,
+  type TaxonomyTree
+} from '@shared/taxonomy';
+
+export type TaxonomyNodeRow = Database['public']['Tables']['taxonomy_nodes']['Row'];
+
+export interface TaxonomyResult {
+  success: boolean;
+  error?: string;
+}
+
+// Postgres unique_violation: a sibling already has that name
+const UNIQUE_VIOLATION = '23505';
+
+export class TaxonomyService {
+  static async getNodes(organizationId: string): Promise<TaxonomyNodeRow[]> {
+    const { data, error } = await supabase
+      .from('taxonomy_nodes')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * The organization's tree plus every ingredient already placed in it
+   */
+  static async loadClassifier(organizationId: string): Promise<TaxonomyClassifier> {
+    const [nodes, { data: classified, error }] = await Promise.all([
+      this.getNodes(organizationId),
+      supabase
+        .from('ingredients')
+        .select('name, taxonomy_node_id')
+        .eq('organization_id', organizationId)
+        .not('taxonomy_node_id', 'is', null)
+        .neq('classification_status', 'pending')
+    ]);
+
+    if (error) throw error;
+
+    return buildClassifier(nodes, (classified || []).map(row => ({ name: row.name, taxonomy_node_id: row.taxonomy_node_id! })));
+  }
+
+  static async createNode(
+    organizationId: string,
+    parent: TaxonomyNode | null,
+    name: string,
+    keywords: string[] = []
+  ): Promise<TaxonomyResult> {
+    const level = childLevel(parent ? parent.level : null);
+    if (!level) {
+      return { success: false, error: 'Las subfamilias no admiten más niveles' };
+    }
+    if (!name.trim()) {
+      return { success: false, error: 'El nombre es obligatorio' };
+    }
+
+    const { error } = await supabase
+      .from('taxonomy_nodes')
+      .insert({
+        organization_id: organizationId,
+        parent_id: parent?.id ?? null,
+        level,
+        name: name.trim(),
+        normalized_name: normalizeTaxonomyName(name),
+        keywords
+      });
+
+    return this.toResult(error);
+  }
+
+  /**
+   * Rename or change keywords; ingredients under the node get their text path rewritten
+   */
+  static async updateNode(
+    organizationId: string,
+    nodeId: string,
+    changes: { name: string; keywords: string[] }
+  ): Promise<TaxonomyResult> {
+    if (!changes.name.trim()) {
+      return { success: false, error: 'El nombre es obligatorio' };
+    }
+
+    const { error } = await supabase
+      .from('taxonomy_nodes')
+      .update({
+        name: changes.name.trim(),
+        normalized_name: normalizeTaxonomyName(changes.name),
+        keywords: changes.keywords
+      })
+      .eq('id', nodeId);
+
+    if (error) return this.toResult(error);
+
+    const tree = buildTaxonomyTree(await this.getNodes(organizationId));
+    return this.syncIngredientPaths(tree, this.subtreeIds(tree, nodeId));
+  }
+
+  /**
+   * Remove a node and its descendants. Their ingredients move up to the parent and wait for review.
+   */
+  static async deleteNode(organizationId: string, nodeId: string): Promise<TaxonomyResult> {
+    const tree = buildTaxonomyTree(await this.getNodes(organizationId));
+    const node = tree.nodes.get(nodeId);
+    if (!node) return { success: true };
+
+    const { error: moveError } = await supabase
+      .from('ingredients')
+      .update({
+        taxonomy_node_id: node.parent_id,
+        ...nodePath(tree, node.parent_id),
+        classification_status: 'pending'
+      })
+      .in('taxonomy_node_id', this.subtreeIds(tree, nodeId));
+
+    if (moveError) return this.toResult(moveError);
+
+    const { error } = await supabase.from('taxonomy_nodes').delete().eq('id', nodeId);
+    return this.toResult(error);
+  }
+
+  /**
+   * Create the given tree level by level, for organizations that have none yet
+   */
+  static async seedTemplate(organizationId: string, templates: TaxonomyTemplate[]): Promise<TaxonomyResult> {
+    let level: { parentId: string | null; items: TaxonomyTemplate[] }[] = [{ parentId: null, items: templates }];
+    let depth: ReturnType<typeof childLevel> = 'category';
+
+    while (depth && level.length > 0) {
+      const rows = level.flatMap(({ parentId, items }) => items.map(item => ({
+        organization_id: organizationId,
+        parent_id: parentId,
+        level: depth!,
+        name: item.name,
+        normalized_name: normalizeTaxonomyName(item.name),
+        keywords: item.keywords || []
+      })));
+
+      const { data, error } = await supabase
+        .from('taxonomy_nodes')
+        .insert(rows)
+        .select('id, parent_id, name');
+
+      if (error) return this.toResult(error);
+
+      const created = data || [];
+      level = level.flatMap(({ parentId, items }) => items
+        .filter(item => item.children?.length)
+        .map(item => ({
+          parentId: created.find(row => row.parent_id === parentId && row.name === item.name)?.id ?? null,
+          items: item.children!
+        }))
+        .filter(next => next.parentId !== null));
+      depth = childLevel(depth);
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Run the classifier over every pending ingredient; returns how many it could place
+   */
+  static async classifyPending(organizationId: string): Promise<number> {
+    const [classifier, { data: pending, error }] = await Promise.all([
+      this.loadClassifier(organizationId),
+      supabase
+        .from('ingredients')
+        .select('id, name, category, family, subfamily, unmatched_category')
+        .eq('organization_id', organizationId)
+        .eq('classification_status', 'pending')
+    ]);
+
+    if (error) throw error;
+
+    let classifiedCount = 0;
+    for (const ingredient of pending || []) {
+      const classification = classifyProduct(classifier, {
+        name: ingredient.name,
+        category: ingredient.unmatched_category ?? ingredient.category,
+        family: ingredient.unmatched_category ? null : ingredient.family,
+        subfamily: ingredient.unmatched_category ? null : ingredient.subfamily
+      });
+      if (classification.status !== 'auto') continue;
+
+      const { error: updateError } = await supabase
+        .from('ingredients')
+        .update(classificationColumns(classification))
+        .eq('id', ingredient.id);
+
+      if (updateError) {
+        console.error('Error classifying ingredient:', updateError);
+        continue;
+      }
+      classifiedCount++;
+    }
+
+    return classifiedCount;
+  }
+
+  private static subtreeIds(tree: TaxonomyTree, nodeId: string): string[] {
+    const ids = [nodeId];
+    for (let i = 0; i < ids.length; i++) {
+      ids.push(...(tree.children.get(ids[i]) || []).map(child => child.id));
+    }
+    return ids;
+  }
+
+  private static async syncIngredientPaths(tree: TaxonomyTree, nodeIds: string[]): Promise<TaxonomyResult> {
+    for (const nodeId of nodeIds) {
+      const { error } = await supabase
+        .from('ingredients')
+        .update(nodePath(tree, nodeId))
+        .eq('taxonomy_node_id', nodeId);
+
+      if (error) return this.toResult(error);
+    }
+    return { success: true };
+  }
+
+  private static toResult(error: { code?: string; message: string } | null): TaxonomyResult {
+    if (!error) return { success: true };
+
+    console.error('Taxonomy error:', error);
+    return {
+      success: false,
+      error: error.code === UNIQUE_VIOLATION
+        ? 'Ya existe un elemento con ese nombre en este nivel'
+        : error.message
+    };
+  }
+}
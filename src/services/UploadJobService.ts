@@ -0,0 +1,141 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type UploadJob = Database['public']['Tables']['file_uploads']['Row'];
+
+export interface UploadJobResult {
+  success: boolean;
+  jobId?: string;
+  error?: string;
+}
+
+// Files above this size are processed on the server instead of in the tab
+export const BACKGROUND_SIZE_THRESHOLD = 5 * 1024 * 1024;
+
+// Formats the server can read; images and scanned PDFs need the OCR that runs in the browser
+export const BACKGROUND_EXTENSIONS = ['csv', 'xlsx', 'xls', 'pdf'];
+
+// A processing job that has not reported progress for this long is taken as lost
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+export class UploadJobService {
+  /**
+   * Upload the file and queue it for server-side processing. The job keeps running
+   * if the tab is closed; its progress is read back from file_uploads.
+   */
+  static async enqueue(
+    file: File,
+    organizationId: string,
+    contentHash: string | null = null
+  ): Promise<UploadJobResult> {
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    const filePath = `${organizationId}/${Date.now()}-${file.name}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('file-uploads')
+      .upload(filePath, file);
+
+    if (uploadError) return this.toResult(uploadError);
+
+    const { data, error } = await supabase
+      .from('file_uploads')
+      .insert({
+        organization_id: organizationId,
+        file_name: file.name,
+        file_path: filePath,
+        file_type: extension || 'unknown',
+        file_size: file.size,
+        content_hash: contentHash,
+        processing_status: 'pending',
+        processing_step: 'queued',
+        queued_at: new Date().toISOString()
+      })
+      .select('id')
+      .single();
+
+    if (error) return this.toResult(error);
+
+    const started = await this.start(data.id);
+    return started.success ? { success: true, jobId: data.id } : started;
+  }
+
+  /**
+   * Latest background jobs of the organization, newest first
+   */
+  static async getJobs(organizationId: string, limit = 20): Promise<UploadJob[]> {
+    const { data, error } = await supabase
+      .from('file_uploads')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .not('queued_at', 'is', null)
+      .order('queued_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Queue a failed or lost job again with a fresh set of attempts
+   */
+  static async retry(job: UploadJob): Promise<UploadJobResult> {
+    const { error } = await supabase
+      .from('file_uploads')
+      .update({
+        processing_status: 'pending',
+        processing_step: 'queued',
+        progress: 0,
+        attempts: 0,
+        error_message: null,
+        queued_at: new Date().toISOString()
+      })
+      .eq('id', job.id);
+
+    if (error) return this.toResult(error);
+    return this.start(job.id);
+  }
+
+  /**
+   * Follow the organization's jobs as the server updates them. Returns the unsubscribe function.
+   */
+  static subscribe(organizationId: string, onChange: (job: UploadJob) => void): () => void {
+    const channel = supabase
+      .channel(`upload-jobs-${organizationId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'file_uploads', filter: `organization_id=eq.${organizationId}` },
+        payload => {
+          const job = payload.new as UploadJob;
+          if (job?.queued_at) onChange(job);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  static isStale(job: UploadJob, now = Date.now()): boolean {
+    if (job.processing_status !== 'processing') return false;
+    const lastSeen = job.heartbeat_at || job.started_at;
+    return !!lastSeen && now - new Date(lastSeen).getTime() > STALE_JOB_MS;
+  }
+
+  static runsInBackground(file: File): boolean {
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    return BACKGROUND_EXTENSIONS.includes(extension) && file.size > BACKGROUND_SIZE_THRESHOLD;
+  }
+
+  private static async start(jobId: string): Promise<UploadJobResult> {
+    const { error } = await supabase.functions.invoke('process-file', { body: { fileId: jobId } });
+    return error ? this.toResult(error) : { success: true, jobId };
+  }
+
+  private static toResult(error: { message: string } | null): UploadJobResult {
+    if (!error) return { success: true };
+
+    console.error('Upload job error:', error);
+    return { success: false, error: error.message };
+  }
+}
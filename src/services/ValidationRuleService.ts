@@ -0,0 +1,57 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { parseValidationRules, type ValidationRule } from '@shared/validationRules';
+
+export interface ValidationRuleResult {
+  success: boolean;
+  error?: string;
+}
+
+// The organization's rules live in its single file_import_mappings row with scope 'organization'
+export class ValidationRuleService {
+  static async getRules(organizationId: string): Promise<ValidationRule[]> {
+    const { data, error } = await supabase
+      .from('file_import_mappings')
+      .select('normalization_rules')
+      .eq('organization_id', organizationId)
+      .eq('scope', 'organization')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? parseValidationRules(data.normalization_rules) : [];
+  }
+
+  static async saveRules(organizationId: string, rules: ValidationRule[]): Promise<ValidationRuleResult> {
+    const { data: existing, error: lookupError } = await supabase
+      .from('file_import_mappings')
+      .select('id')
+      .eq('organization_id', organizationId)
+      .eq('scope', 'organization')
+      .maybeSingle();
+    if (lookupError) return this.toResult(lookupError);
+
+    const normalization_rules = { validationRules: rules } as unknown as Json;
+    const { error } = existing
+      ? await supabase
+          .from('file_import_mappings')
+          .update({ normalization_rules })
+          .eq('id', existing.id)
+      : await supabase
+          .from('file_import_mappings')
+          .insert({
+            organization_id: organizationId,
+            scope: 'organization',
+            normalization_rules,
+            is_confirmed: true
+          });
+
+    return this.toResult(error);
+  }
+
+  private static toResult(error: { code?: string; message: string } | null): ValidationRuleResult {
+    if (!error) return { success: true };
+
+    console.error('Validation rules error:', error);
+    return { success: false, error: error.message };
+  }
+}
@@ -0,0 +1,312 @@
+// Structured e-invoices: Spanish Facturae 3.2.x and UBL 2.1, read into the purchase invoice model
+import { computeLineTotal, type InvoiceHeader, type InvoiceLine, type InvoiceTaxLine } from '@shared/invoice';
+
+export type EInvoiceFormat = 'facturae' | 'ubl';
+
+export interface EInvoiceLine extends InvoiceLine {
+  packSize: number | null;   // units inside each invoiced pack
+  gtin: string | null;
+}
+
+export interface EInvoice {
+  format: EInvoiceFormat;
+  version: string | null;
+  currency: string;
+  header: InvoiceHeader;
+  lines: EInvoiceLine[];
+}
+
+export interface EInvoiceParseResult {
+  success: boolean;
+  invoice?: EInvoice;
+  error?: string;
+}
+
+export interface EInvoiceTable {
+  columns: string[];
+  rows: string[][];
+  mappings: { source: string; target: string }[];
+}
+
+// Facturae UnitOfMeasure codes with a catalog unit or a pack of known size
+const FACTURAE_UNITS: Record<string, { unit: string; packSize?: number; container?: string }> = {
+  '01': { unit: 'ud' },
+  '03': { unit: 'kg' },
+  '04': { unit: 'L' },
+  '06': { unit: 'ud', container: 'Caja' },
+  '07': { unit: 'ud', container: 'Bandeja' },
+  '10': { unit: 'ud', container: 'Bolsa' },
+  '12': { unit: 'ud' },
+  '14': { unit: 'ud' },
+  '15': { unit: 'cl' },
+  '18': { unit: 'ud', packSize: 12 },
+  '19': { unit: 'ud', container: 'Caja' },
+  '21': { unit: 'g' },
+  '23': { unit: 'ud' },
+  '27': { unit: 'ud', packSize: 6, container: 'Pack' },
+  '28': { unit: 'ud', container: 'Pack' }
+};
+
+// UN/ECE Recommendation 20 codes used by UBL unitCode attributes
+const UBL_UNITS: Record<string, { unit: string; packSize?: number; container?: string }> = {
+  KGM: { unit: 'kg' },
+  GRM: { unit: 'g' },
+  LTR: { unit: 'L' },
+  MLT: { unit: 'ml' },
+  CLT: { unit: 'cl' },
+  H87: { unit: 'ud' },
+  C62: { unit: 'ud' },
+  EA: { unit: 'ud' },
+  XBX: { unit: 'ud', container: 'Caja' },
+  XCS: { unit: 'ud', container: 'Caja' },
+  XPK: { unit: 'ud', container: 'Pack' },
+  XBG: { unit: 'ud', container: 'Bolsa' },
+  XPU: { unit: 'ud', container: 'Bandeja' },
+  DZN: { unit: 'ud', packSize: 12 }
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Namespace prefixes differ between issuers, so elements are found by local name
+function children(parent: Element | null, name: string): Element[] {
+  if (!parent) return [];
+  return Array.from(parent.children).filter(child => child.localName === name);
+}
+
+function find(parent: Element | null, ...path: string[]): Element | null {
+  let current = parent;
+  for (const name of path) {
+    current = children(current, name)[0] ?? null;
+    if (!current) return null;
+  }
+  return current;
+}
+
+function text(parent: Element | null, ...path: string[]): string | null {
+  const value = find(parent, ...path)?.textContent?.trim();
+  return value ? value : null;
+}
+
+function number(parent: Element | null, ...path: string[]): number | null {
+  const value = text(parent, ...path);
+  if (value === null) return null;
+  const parsed = Number(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+// Spanish tax IDs are stored without the country prefix, as in the rest of the catalog
+function normalizeTaxId(value: string | null): string | null {
+  return value ? value.replace(/^ES/i, '').replace(/[\s-]/g, '').toUpperCase() : null;
+}
+
+function parseFacturae(root: Element): EInvoice {
+  const seller = find(root, 'Parties', 'SellerParty');
+  const supplierName = text(seller, 'LegalEntity', 'CorporateName')
+    ?? ([text(seller, 'Individual', 'Name'), text(seller, 'Individual', 'FirstSurname')].filter(Boolean).join(' ') || null);
+
+  // A Facturae batch may hold several invoices; the first one is imported
+  const invoice = find(root, 'Invoices', 'Invoice');
+  if (!invoice) throw new Error('El XML Facturae no contiene ninguna factura');
+
+  const series = text(invoice, 'InvoiceHeader', 'InvoiceSeriesCode');
+  const invoiceNumber = text(invoice, 'InvoiceHeader', 'InvoiceNumber');
+
+  const taxBreakdown: InvoiceTaxLine[] = children(find(invoice, 'TaxesOutputs'), 'Tax').map(tax => ({
+    rate: number(tax, 'TaxRate') ?? 0,
+    base: number(tax, 'TaxableBase', 'TotalAmount') ?? 0,
+    tax: number(tax, 'TaxAmount', 'TotalAmount') ?? 0
+  }));
+
+  const lines = children(find(invoice, 'Items'), 'InvoiceLine').map((line, index): EInvoiceLine => {
+    const quantity = number(line, 'Quantity') ?? 1;
+    const unitPrice = number(line, 'UnitPriceWithoutTax') ?? 0;
+    const discountPct = number(line, 'DiscountsAndRebates', 'Discount', 'DiscountRate') ?? 0;
+    const unit = FACTURAE_UNITS[text(line, 'UnitOfMeasure') ?? '01'] ?? FACTURAE_UNITS['01'];
+
+    return {
+      lineNumber: index + 1,
+      description: text(line, 'ItemDescription') ?? '',
+      reference: text(line, 'ArticleCode'),
+      quantity,
+      unit: unit.container ?? unit.unit,
+      unitPrice,
+      discountPct,
+      taxRate: number(line, 'TaxesOutputs', 'Tax', 'TaxRate'),
+      // GrossAmount is the line after discounts and before taxes
+      lineTotal: number(line, 'GrossAmount') ?? computeLineTotal(quantity, unitPrice, discountPct),
+      packSize: unit.packSize ?? null,
+      gtin: null
+    };
+  });
+
+  const totals = find(invoice, 'InvoiceTotals');
+  return {
+    format: 'facturae',
+    version: text(root, 'FileHeader', 'SchemaVersion'),
+    currency: text(invoice, 'InvoiceIssueData', 'InvoiceCurrencyCode') ?? 'EUR',
+    header: {
+      invoiceNumber: invoiceNumber && series ? `${series}-${invoiceNumber}` : invoiceNumber,
+      invoiceDate: text(invoice, 'InvoiceIssueData', 'IssueDate'),
+      dueDate: text(invoice, 'PaymentDetails', 'Installment', 'InstallmentDueDate'),
+      supplierName,
+      supplierTaxId: normalizeTaxId(text(seller, 'TaxIdentification', 'TaxIdentificationNumber')),
+      subtotal: number(totals, 'TotalGrossAmountBeforeTaxes'),
+      taxTotal: number(totals, 'TotalTaxOutputs'),
+      total: number(totals, 'InvoiceTotal'),
+      taxBreakdown
+    },
+    lines
+  };
+}
+
+function parseUbl(root: Element): EInvoice {
+  const party = find(root, 'AccountingSupplierParty', 'Party');
+
+  const taxBreakdown: InvoiceTaxLine[] = children(root, 'TaxTotal')
+    .flatMap(total => children(total, 'TaxSubtotal'))
+    .map(subtotal => ({
+      rate: number(subtotal, 'TaxCategory', 'Percent') ?? 0,
+      base: number(subtotal, 'TaxableAmount') ?? 0,
+      tax: number(subtotal, 'TaxAmount') ?? 0
+    }));
+
+  const lines = children(root, 'InvoiceLine').map((line, index): EInvoiceLine => {
+    const quantityElement = find(line, 'InvoicedQuantity');
+    const quantity = number(line, 'InvoicedQuantity') ?? 1;
+    const unit = UBL_UNITS[quantityElement?.getAttribute('unitCode') ?? 'H87'] ?? UBL_UNITS.H87;
+    const item = find(line, 'Item');
+
+    // PriceAmount may be quoted for a BaseQuantity other than one
+    const baseQuantity = number(line, 'Price', 'BaseQuantity') || 1;
+    const unitPrice = (number(line, 'Price', 'PriceAmount') ?? 0) / baseQuantity;
+    const lineTotal = number(line, 'LineExtensionAmount') ?? computeLineTotal(quantity, unitPrice);
+    const grossTotal = quantity * unitPrice;
+
+    return {
+      lineNumber: index + 1,
+      description: text(item, 'Name') ?? text(item, 'Description') ?? '',
+      reference: text(item, 'SellersItemIdentification', 'ID'),
+      quantity,
+      unit: unit.container ?? unit.unit,
+      unitPrice: Math.round(unitPrice * 10000) / 10000,
+      // Line allowances are not itemized: the discount is what the line total leaves out
+      discountPct: grossTotal > 0 && lineTotal < grossTotal ? round2((1 - lineTotal / grossTotal) * 100) : 0,
+      taxRate: number(item, 'ClassifiedTaxCategory', 'Percent'),
+      lineTotal,
+      packSize: number(item, 'PackSizeNumeric') ?? unit.packSize ?? null,
+      gtin: text(item, 'StandardItemIdentification', 'ID')
+    };
+  });
+
+  const totals = find(root, 'LegalMonetaryTotal');
+  const taxTotal = children(root, 'TaxTotal')
+    .map(total => number(total, 'TaxAmount'))
+    .find((amount): amount is number => amount !== null) ?? null;
+
+  return {
+    format: 'ubl',
+    version: text(root, 'UBLVersionID'),
+    currency: text(root, 'DocumentCurrencyCode') ?? 'EUR',
+    header: {
+      invoiceNumber: text(root, 'ID'),
+      invoiceDate: text(root, 'IssueDate'),
+      dueDate: text(root, 'DueDate') ?? text(root, 'PaymentMeans', 'PaymentDueDate'),
+      supplierName: text(party, 'PartyLegalEntity', 'RegistrationName') ?? text(party, 'PartyName', 'Name'),
+      supplierTaxId: normalizeTaxId(text(party, 'PartyTaxScheme', 'CompanyID') ?? text(party, 'PartyLegalEntity', 'CompanyID')),
+      subtotal: number(totals, 'TaxExclusiveAmount') ?? number(totals, 'LineExtensionAmount'),
+      taxTotal,
+      total: number(totals, 'PayableAmount') ?? number(totals, 'TaxInclusiveAmount'),
+      taxBreakdown
+    },
+    lines
+  };
+}
+
+export function detectEInvoiceFormat(root: Element): EInvoiceFormat | null {
+  if (root.localName === 'Facturae') return 'facturae';
+  if (root.localName === 'Invoice' && (root.namespaceURI ?? '').includes('ubl')) return 'ubl';
+  return null;
+}
+
+/**
+ * Parse a Facturae or UBL invoice. Signed files are read as is: the signature is not verified.
+ */
+export function parseEInvoice(xml: string): EInvoiceParseResult {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    return { success: false, error: 'El archivo no es un XML válido' };
+  }
+
+  const root = document.documentElement;
+  const format = detectEInvoiceFormat(root);
+  if (!format) {
+    return { success: false, error: 'El XML no es una factura Facturae ni UBL' };
+  }
+
+  try {
+    const invoice = format === 'facturae' ? parseFacturae(root) : parseUbl(root);
+    if (invoice.lines.length === 0) {
+      return { success: false, error: 'La factura electrónica no tiene líneas' };
+    }
+    return { success: true, invoice };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Error al leer la factura electrónica' };
+  }
+}
+
+export function describeEInvoice(invoice: EInvoice): string {
+  const name = invoice.format === 'facturae' ? 'Facturae' : 'UBL';
+  return invoice.version ? `${name} ${invoice.version}` : name;
+}
+
+// Numbers written the Spanish way, so per-column format detection reads them unambiguously
+function formatNumber(value: number | null): string {
+  return value === null ? '' : String(Math.round(value * 10000) / 10000).replace('.', ',');
+}
+
+/**
+ * Pack label the catalog parser understands: "1 kg" for weighed lines, "Caja 12 ud" for packs
+ */
+export function linePackLabel(line: EInvoiceLine): string {
+  const isMeasure = line.unit && ['kg', 'g', 'L', 'ml', 'cl'].includes(line.unit);
+  if (isMeasure) return `1 ${line.unit}`;
+  if (line.packSize && line.packSize > 1) {
+    return line.unit && line.unit !== 'ud' ? `${line.unit} ${line.packSize} ud` : `${line.packSize} ud`;
+  }
+  return '1 ud';
+}
+
+/**
+ * Invoice lines as a table with its mapping, to go through the same validation and
+ * matching as any other file. Prices are net and include the line discount.
+ */
+export function eInvoiceToTable(invoice: EInvoice): EInvoiceTable {
+  const supplier = invoice.header.supplierName ?? '';
+  const columns = ['Producto', 'Proveedor', 'Referencia', 'Formato', 'Cantidad', 'Precio', 'Impuesto', 'Importe', 'EAN'];
+
+  return {
+    columns,
+    rows: invoice.lines.map(line => [
+      line.description,
+      supplier,
+      line.reference ?? '',
+      linePackLabel(line),
+      formatNumber(line.quantity),
+      formatNumber(line.quantity > 0 ? line.lineTotal / line.quantity : line.unitPrice),
+      formatNumber(line.taxRate),
+      formatNumber(line.lineTotal),
+      line.gtin ?? ''
+    ]),
+    mappings: [
+      { source: 'Producto', target: 'producto' },
+      { source: 'Proveedor', target: 'proveedor' },
+      { source: 'Referencia', target: 'referencia' },
+      { source: 'Formato', target: 'formato' },
+      { source: 'Cantidad', target: 'cantidad' },
+      { source: 'Precio', target: 'precio' },
+      { source: 'Impuesto', target: 'impuesto' },
+      { source: 'Importe', target: 'importe' },
+      { source: 'EAN', target: 'ean' }
+    ]
+  };
+}
@@ -0,0 +1,441 @@
+// Image cleanup before OCR for phone photos of delivery notes and invoices: grayscale,
+// perspective crop of the sheet, deskew, upscaling of small text and adaptive threshold.
+// Works on plain grayscale buffers so it runs without a DOM; see ImagePreprocessService.
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;  // one luminance byte per pixel, row by row
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface PreprocessOptions {
+  crop: boolean;       // find the sheet in the photo and straighten its perspective
+  deskew: boolean;     // level tilted text lines
+  upscale: boolean;    // enlarge small text to the size Tesseract reads best
+  threshold: boolean;  // black text on white, robust to shadows and uneven light
+}
+
+export type PreprocessStep = 'grayscale' | 'crop' | 'deskew' | 'upscale' | 'threshold';
+
+export interface PreprocessReport {
+  steps: PreprocessStep[];
+  corners: Point[] | null;  // sheet corners in the source (top-left, top-right, bottom-right, bottom-left)
+  skewAngle: number;        // degrees the text was tilted, positive descending to the right
+  scale: number;            // upscaling factor applied
+}
+
+export const DEFAULT_PREPROCESS: PreprocessOptions = {
+  crop: true,
+  deskew: true,
+  upscale: true,
+  threshold: true
+};
+
+// Tesseract reads best with capital letters around 30 px high
+const SMALL_TEXT_PX = 20;
+const TARGET_TEXT_PX = 30;
+const MAX_UPSCALE = 3;
+// Largest side after upscaling; also keeps the integral image within 32 bits
+export const MAX_SIDE = 4000;
+// Tilts below this are noise of the estimate, not worth a resampling
+const MIN_SKEW_DEGREES = 0.3;
+const MAX_SKEW_DEGREES = 10;
+
+export function toGray(rgba: Uint8ClampedArray, width: number, height: number): GrayImage {
+  const data = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; i < data.length; i++, p += 4) {
+    // Rec. 601 luma, as browsers use for grayscale
+    data[i] = 0.299 * rgba[p] + 0.587 * rgba[p + 1] + 0.114 * rgba[p + 2];
+  }
+  return { width, height, data };
+}
+
+export function toRgba(image: GrayImage): Uint8ClampedArray {
+  const rgba = new Uint8ClampedArray(image.width * image.height * 4);
+  for (let i = 0, p = 0; i < image.data.length; i++, p += 4) {
+    rgba[p] = rgba[p + 1] = rgba[p + 2] = image.data[i];
+    rgba[p + 3] = 255;
+  }
+  return rgba;
+}
+
+// Bilinear sample; outside the image reads as white paper
+function sample(image: GrayImage, x: number, y: number): number {
+  if (x < 0 || y < 0 || x > image.width - 1 || y > image.height - 1) return 255;
+
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, image.width - 1);
+  const y1 = Math.min(y0 + 1, image.height - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+  const row0 = y0 * image.width;
+  const row1 = y1 * image.width;
+
+  const top = image.data[row0 + x0] * (1 - fx) + image.data[row0 + x1] * fx;
+  const bottom = image.data[row1 + x0] * (1 - fx) + image.data[row1 + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+export function resize(image: GrayImage, factor: number): GrayImage {
+  const width = Math.max(1, Math.round(image.width * factor));
+  const height = Math.max(1, Math.round(image.height * factor));
+  const data = new Uint8ClampedArray(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = sample(image, (x + 0.5) / factor - 0.5, (y + 0.5) / factor - 0.5);
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Otsu's threshold: the gray level that best separates the histogram into two classes
+ */
+export function otsuThreshold(data: Uint8ClampedArray): number {
+  const histogram = new Array<number>(256).fill(0);
+  data.forEach(value => histogram[value]++);
+
+  const total = data.length;
+  const sum = histogram.reduce((acc, count, level) => acc + count * level, 0);
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 128;
+
+  for (let level = 0; level < 256; level++) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const between = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = level;
+    }
+  }
+  return threshold;
+}
+
+function downscaleTo(image: GrayImage, maxSide: number): { image: GrayImage; factor: number } {
+  const factor = Math.min(1, maxSide / Math.max(image.width, image.height));
+  return { image: factor < 1 ? resize(image, factor) : image, factor };
+}
+
+/**
+ * Corners of the sheet of paper in a photo: the largest bright region, when it covers a
+ * meaningful part of the frame without being all of it. Null when no sheet stands out
+ * (scans and screenshots, where the page already fills the image).
+ */
+export function findDocumentCorners(image: GrayImage): Point[] | null {
+  const { image: small, factor } = downscaleTo(image, 400);
+  const { width, height, data } = small;
+  const threshold = otsuThreshold(data);
+
+  // Largest 4-connected bright component
+  const labels = new Int32Array(width * height).fill(-1);
+  const queue = new Int32Array(width * height);
+  let bestLabel = -1;
+  let bestSize = 0;
+  let label = 0;
+
+  for (let start = 0; start < data.length; start++) {
+    if (labels[start] !== -1 || data[start] <= threshold) continue;
+
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    labels[start] = label;
+    while (head < tail) {
+      const index = queue[head++];
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width
+      ];
+      neighbours.forEach(next => {
+        if (next < 0 || next >= data.length || labels[next] !== -1 || data[next] <= threshold) return;
+        labels[next] = label;
+        queue[tail++] = next;
+      });
+    }
+
+    if (tail > bestSize) {
+      bestSize = tail;
+      bestLabel = label;
+    }
+    label++;
+  }
+
+  const coverage = bestSize / data.length;
+  if (bestLabel < 0 || coverage < 0.2 || coverage > 0.95) return null;
+
+  // Extreme points along the diagonals are the corners of a roughly rectangular region
+  let topLeft = { x: 0, y: 0, score: Infinity };
+  let bottomRight = { x: 0, y: 0, score: -Infinity };
+  let topRight = { x: 0, y: 0, score: -Infinity };
+  let bottomLeft = { x: 0, y: 0, score: Infinity };
+  for (let index = 0; index < labels.length; index++) {
+    if (labels[index] !== bestLabel) continue;
+    const x = index % width;
+    const y = Math.floor(index / width);
+    if (x + y < topLeft.score) topLeft = { x, y, score: x + y };
+    if (x + y > bottomRight.score) bottomRight = { x, y, score: x + y };
+    if (x - y > topRight.score) topRight = { x, y, score: x - y };
+    if (x - y < bottomLeft.score) bottomLeft = { x, y, score: x - y };
+  }
+
+  const corners = [topLeft, topRight, bottomRight, bottomLeft].map(corner => ({
+    x: corner.x / factor,
+    y: corner.y / factor
+  }));
+
+  // Shoelace area: a sliver or a twisted quadrilateral is not a sheet
+  const area = Math.abs(corners.reduce((acc, corner, i) => {
+    const next = corners[(i + 1) % corners.length];
+    return acc + corner.x * next.y - next.x * corner.y;
+  }, 0)) / 2;
+  return area >= 0.2 * image.width * image.height ? corners : null;
+}
+
+// Solve A·x = b by Gaussian elimination with partial pivoting
+function solve(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const rows = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-10) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const ratio = rows[row][col] / rows[col][col];
+      for (let k = col; k <= n; k++) rows[row][k] -= ratio * rows[col][k];
+    }
+  }
+  return rows.map((row, i) => row[n] / row[i]);
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Map the quadrilateral (top-left, top-right, bottom-right, bottom-left) onto an upright
+ * rectangle, undoing the perspective of a photo taken at an angle
+ */
+export function warpPerspective(image: GrayImage, corners: Point[]): GrayImage {
+  const [tl, tr, br, bl] = corners;
+  const width = Math.round(Math.max(distance(tl, tr), distance(bl, br)));
+  const height = Math.round(Math.max(distance(tl, bl), distance(tr, br)));
+  const target = [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }];
+
+  // Homography from the rectangle back to the photo, so every output pixel has a source
+  const matrix: number[][] = [];
+  const vector: number[] = [];
+  target.forEach((point, i) => {
+    const source = corners[i];
+    matrix.push([point.x, point.y, 1, 0, 0, 0, -point.x * source.x, -point.y * source.x]);
+    vector.push(source.x);
+    matrix.push([0, 0, 0, point.x, point.y, 1, -point.x * source.y, -point.y * source.y]);
+    vector.push(source.y);
+  });
+  const h = solve(matrix, vector);
+  if (!h || width < 2 || height < 2) return image;
+
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = h[6] * x + h[7] * y + 1;
+      data[y * width + x] = sample(image, (h[0] * x + h[1] * y + h[2]) / w, (h[3] * x + h[4] * y + h[5]) / w);
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Tilt of the text lines in degrees, positive when they descend to the right. Projection
+ * profile: ink projected along the right angle piles up into sharp rows.
+ */
+export function estimateSkew(image: GrayImage): number {
+  const { image: small } = downscaleTo(image, 800);
+  const { width, height, data } = small;
+  const threshold = otsuThreshold(data);
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let index = 0; index < data.length; index++) {
+    if (data[index] < threshold) {
+      xs.push(index % width);
+      ys.push(Math.floor(index / width));
+    }
+  }
+  if (xs.length < 100) return 0;
+
+  const bins = new Float64Array(width + height * 2);
+  let bestAngle = 0;
+  let bestScore = -Infinity;
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += 0.25) {
+    const radians = angle * Math.PI / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    bins.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.round(ys[i] * cos - xs[i] * sin) + width]++;
+    }
+    const score = bins.reduce((acc, count) => acc + count * count, 0);
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+}
+
+/**
+ * Rotate about the center so text tilted by `degrees` comes out level. Same size; the
+ * corners uncovered by the rotation are white.
+ */
+export function rotate(image: GrayImage, degrees: number): GrayImage {
+  const radians = degrees * Math.PI / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const cx = (image.width - 1) / 2;
+  const cy = (image.height - 1) / 2;
+  const data = new Uint8ClampedArray(image.width * image.height);
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const dx = x - cx;
+      const dy = y - cy;
+      data[y * image.width + x] = sample(image, cx + dx * cos - dy * sin, cy + dx * sin + dy * cos);
+    }
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+/**
+ * Median height of the text lines, from the runs of rows holding ink; null without enough lines
+ */
+export function estimateLineHeight(image: GrayImage): number | null {
+  const threshold = otsuThreshold(image.data);
+  const minInk = Math.max(2, image.width * 0.005);
+  const heights: number[] = [];
+  let run = 0;
+
+  for (let y = 0; y <= image.height; y++) {
+    let ink = 0;
+    if (y < image.height) {
+      const row = y * image.width;
+      for (let x = 0; x < image.width; x++) {
+        if (image.data[row + x] < threshold) ink++;
+      }
+    }
+    if (ink >= minInk) {
+      run++;
+    } else {
+      if (run >= 3) heights.push(run);
+      run = 0;
+    }
+  }
+
+  if (heights.length < 3) return null;
+  heights.sort((a, b) => a - b);
+  return heights[Math.floor(heights.length / 2)];
+}
+
+/**
+ * Bradley's adaptive threshold: a pixel is ink when it is clearly darker than the mean of its
+ * neighbourhood, so shadows and a flash hot spot do not swallow the text
+ */
+export function adaptiveThreshold(image: GrayImage, sensitivity = 0.15): GrayImage {
+  const { width, height, data } = image;
+  const half = Math.max(7, Math.round(width / 32)) >> 1;
+  const integral = new Uint32Array((width + 1) * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const output = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const count = (x1 - x0) * (y1 - y0);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      output[y * width + x] = data[y * width + x] * count < sum * (1 - sensitivity) ? 0 : 255;
+    }
+  }
+  return { width, height, data: output };
+}
+
+/**
+ * Run the enabled steps in the order they help each other: the crop and deskew work on
+ * gray levels, the threshold comes last so resampling does not blur a binary image
+ */
+export function preprocessGray(image: GrayImage, options: PreprocessOptions = DEFAULT_PREPROCESS): {
+  image: GrayImage;
+  report: PreprocessReport;
+} {
+  const report: PreprocessReport = { steps: ['grayscale'], corners: null, skewAngle: 0, scale: 1 };
+  let current = image;
+
+  if (options.crop) {
+    const corners = findDocumentCorners(current);
+    if (corners) {
+      current = warpPerspective(current, corners);
+      report.corners = corners;
+      report.steps.push('crop');
+    }
+  }
+
+  if (options.deskew) {
+    const angle = estimateSkew(current);
+    if (Math.abs(angle) >= MIN_SKEW_DEGREES) {
+      current = rotate(current, angle);
+      report.skewAngle = angle;
+      report.steps.push('deskew');
+    }
+  }
+
+  if (options.upscale) {
+    const lineHeight = estimateLineHeight(current);
+    if (lineHeight !== null && lineHeight < SMALL_TEXT_PX) {
+      const scale = Math.min(MAX_UPSCALE, TARGET_TEXT_PX / lineHeight, MAX_SIDE / Math.max(current.width, current.height));
+      if (scale >= 1.2) {
+        current = resize(current, scale);
+        report.scale = scale;
+        report.steps.push('upscale');
+      }
+    }
+  }
+
+  if (options.threshold) {
+    current = adaptiveThreshold(current);
+    report.steps.push('threshold');
+  }
+
+  return { image: current, report };
+}
@@ -0,0 +1,129 @@
+// What an import will change in the catalog, grouped so the user can commit only part of it
+
+export type ImportGroup = 'newIngredients' | 'newSuppliers' | 'newProducts' | 'priceChanges' | 'unchanged' | 'ignored';
+
+export interface CurrentProductPrice {
+  supplierProductId: string;
+  unitPrice: number | null;  // active price, net of tax per base unit; null when the product has none
+  unit: string | null;
+}
+
+export interface PreviewRowInput {
+  rowIndex: number;
+  product: string;
+  supplier: string;
+  ingredientId: string | null;   // null: the import creates the ingredient
+  supplierId: string | null;     // null: the import creates the supplier
+  unitPrice: number;             // net of tax per base unit
+  unit: string;
+  isValid: boolean;
+  errors: string[];
+}
+
+export interface PreviewEntry {
+  rowIndex: number;
+  product: string;
+  supplier: string;
+  group: Exclude<ImportGroup, 'newSuppliers'>;
+  newSupplier: boolean;
+  newUnitPrice: number;
+  oldUnitPrice: number | null;
+  deltaPct: number | null;
+  unit: string;
+  reason?: string;               // why an ignored row is left out
+}
+
+export interface ImportPreview {
+  entries: PreviewEntry[];
+  newSuppliers: string[];
+  counts: Record<ImportGroup, number>;
+}
+
+export type ImportSelection = Record<ImportGroup, boolean>;
+
+export const IMPORT_GROUPS: { key: ImportGroup; label: string; description: string }[] = [
+  { key: 'newIngredients', label: 'Ingredientes nuevos', description: 'Se crean en el catálogo con su primer precio' },
+  { key: 'newSuppliers', label: 'Proveedores nuevos', description: 'Se crean antes de asignarles productos' },
+  { key: 'newProducts', label: 'Productos de proveedor nuevos', description: 'Ingredientes existentes que este proveedor no tenía' },
+  { key: 'priceChanges', label: 'Cambios de precio', description: 'Productos existentes cuyo precio unitario cambia' },
+  { key: 'unchanged', label: 'Sin cambios', description: 'Mismo precio que el actual: se registra de nuevo con fecha de hoy' },
+  { key: 'ignored', label: 'Filas ignoradas', description: 'Filas con errores que no se importan' }
+];
+
+// Below half a percent the difference is rounding, not a new price
+export const PRICE_CHANGE_THRESHOLD = 0.005;
+
+export const DEFAULT_IMPORT_SELECTION: ImportSelection = {
+  newIngredients: true,
+  newSuppliers: true,
+  newProducts: true,
+  priceChanges: true,
+  unchanged: true,
+  ignored: false
+};
+
+export const productKey = (supplierId: string, ingredientId: string) => `${supplierId}:${ingredientId}`;
+
+/**
+ * Classify every row by its effect. Each row belongs to one group; rows of a new supplier
+ * also depend on the supplier group being selected.
+ */
+export function buildImportPreview(
+  rows: PreviewRowInput[],
+  currentPrices: Record<string, CurrentProductPrice>
+): ImportPreview {
+  const entries: PreviewEntry[] = rows.map(row => {
+    const base = {
+      rowIndex: row.rowIndex,
+      product: row.product,
+      supplier: row.supplier,
+      newSupplier: row.isValid && row.supplierId === null,
+      newUnitPrice: row.unitPrice,
+      oldUnitPrice: null,
+      deltaPct: null,
+      unit: row.unit
+    };
+
+    if (!row.isValid) return { ...base, group: 'ignored', reason: row.errors.join(', ') };
+    if (!row.ingredientId) return { ...base, group: 'newIngredients' };
+
+    const current = row.supplierId ? currentPrices[productKey(row.supplierId, row.ingredientId)] : undefined;
+    if (!current || current.unitPrice === null) return { ...base, group: 'newProducts' };
+
+    const deltaPct = current.unitPrice > 0 ? (row.unitPrice - current.unitPrice) / current.unitPrice : null;
+    const changed = deltaPct === null || Math.abs(deltaPct) >= PRICE_CHANGE_THRESHOLD;
+    return {
+      ...base,
+      group: changed ? 'priceChanges' : 'unchanged',
+      oldUnitPrice: current.unitPrice,
+      deltaPct: deltaPct === null ? null : deltaPct * 100
+    };
+  });
+
+  const newSuppliers = Array.from(new Set(entries.filter(entry => entry.newSupplier).map(entry => entry.supplier)));
+
+  const counts: Record<ImportGroup, number> = {
+    newIngredients: 0,
+    newSuppliers: newSuppliers.length,
+    newProducts: 0,
+    priceChanges: 0,
+    unchanged: 0,
+    ignored: 0
+  };
+  entries.forEach(entry => counts[entry.group]++);
+
+  return { entries, newSuppliers, counts };
+}
+
+/**
+ * Rows that the selection lets through: their own group is selected and, when they bring
+ * a new supplier, so is the supplier group. Ignored rows never pass.
+ */
+export function selectImportRows(preview: ImportPreview, selection: ImportSelection): Set<number> {
+  return new Set(
+    preview.entries
+      .filter(entry => entry.group !== 'ignored' && selection[entry.group])
+      .filter(entry => !entry.newSupplier || selection.newSuppliers)
+      .map(entry => entry.rowIndex)
+  );
+}
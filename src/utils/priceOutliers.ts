@@ -0,0 +1,99 @@
+// Flag imported unit prices that fall far from an ingredient's price history and other suppliers' current prices
+import { getBaseUnit } from '@shared/units';
+
+export interface ReferencePrice {
+  supplierId: string;
+  unitPrice: number;  // net of tax, per base unit
+  unit: string;
+  isActive: boolean;
+  effectiveFrom: string | null;
+}
+
+export type PriceCheckStatus = 'ok' | 'outlier' | 'no_reference';
+
+export interface PriceCheck {
+  status: PriceCheckStatus;
+  expectedMin: number;
+  expectedMax: number;
+  median: number;
+  ratio: number;       // checked price / median
+  sampleSize: number;
+  hint?: string;
+}
+
+// Past prices of the same supplier that count as history
+const HISTORY_LIMIT = 12;
+
+// Narrowest band allowed around the median, as a factor: prices move, typos are an order of magnitude off
+const MIN_BAND_FACTOR = 1.6;
+// With one or two references there is no spread to learn from
+const FEW_REFERENCES_BAND_FACTOR = 2.5;
+// Median absolute deviations (in log space) tolerated on each side
+const MAD_MULTIPLIER = 3;
+const MAD_TO_SIGMA = 1.4826;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Prices a row is compared against: the current price of every supplier plus the recent
+ * history of the row's own supplier (when known)
+ */
+export function selectReferencePrices(prices: ReferencePrice[], supplierId?: string | null): ReferencePrice[] {
+  const current = prices.filter(price => price.isActive && price.supplierId !== supplierId);
+  const history = prices
+    .filter(price => price.supplierId === supplierId)
+    .sort((a, b) => (b.effectiveFrom || '').localeCompare(a.effectiveFrom || ''))
+    .slice(0, HISTORY_LIMIT);
+
+  return [...current, ...history];
+}
+
+// "155,00" for "15,50": the ratio is close to a power of ten
+function decimalShiftHint(ratio: number): string | undefined {
+  const exponent = Math.log10(ratio);
+  const rounded = Math.round(exponent);
+  if (rounded === 0 || Math.abs(exponent - rounded) > 0.08) return undefined;
+
+  return rounded > 0
+    ? `Unas ${Math.pow(10, rounded)} veces más caro de lo habitual: ¿coma desplazada?`
+    : `Unas ${Math.pow(10, -rounded)} veces más barato de lo habitual: ¿coma desplazada?`;
+}
+
+/**
+ * Compare a unit price with the references in the same base unit. The expected range is the median
+ * widened by the spread of the references in log space, never narrower than MIN_BAND_FACTOR.
+ */
+export function checkUnitPrice(unitPrice: number, unit: string, references: ReferencePrice[]): PriceCheck {
+  const baseUnit = getBaseUnit(unit);
+  const values = references
+    .filter(reference => reference.unitPrice > 0 && getBaseUnit(reference.unit) === baseUnit)
+    .map(reference => reference.unitPrice);
+
+  if (values.length === 0 || unitPrice <= 0) {
+    return { status: 'no_reference', expectedMin: 0, expectedMax: 0, median: 0, ratio: 1, sampleSize: values.length };
+  }
+
+  const center = median(values);
+  const logDeviation = median(values.map(value => Math.abs(Math.log(value / center))));
+  const minimumBand = Math.log(values.length < 3 ? FEW_REFERENCES_BAND_FACTOR : MIN_BAND_FACTOR);
+  const band = Math.max(MAD_MULTIPLIER * MAD_TO_SIGMA * logDeviation, minimumBand);
+
+  const expectedMin = center * Math.exp(-band);
+  const expectedMax = center * Math.exp(band);
+  const ratio = unitPrice / center;
+  const isOutlier = unitPrice < expectedMin || unitPrice > expectedMax;
+
+  return {
+    status: isOutlier ? 'outlier' : 'ok',
+    expectedMin,
+    expectedMax,
+    median: center,
+    ratio,
+    sampleSize: values.length,
+    hint: isOutlier ? decimalShiftHint(ratio) : undefined
+  };
+}
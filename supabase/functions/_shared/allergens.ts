@@ -0,0 +1,296 @@
+// The 14 allergens regulated by EU Regulation 1169/2011 and a rule-based classifier that suggests them
+
+export type AllergenCode =
+  | 'gluten'
+  | 'crustaceans'
+  | 'eggs'
+  | 'fish'
+  | 'peanuts'
+  | 'soy'
+  | 'milk'
+  | 'nuts'
+  | 'celery'
+  | 'mustard'
+  | 'sesame'
+  | 'sulphites'
+  | 'lupin'
+  | 'molluscs';
+
+/**
+ * suggested: inferred by the classifier, pending review
+ * confirmed: a person checked the product contains it
+ * absent: a person checked the product does not contain it
+ */
+export type AllergenStatus = 'suggested' | 'confirmed' | 'absent';
+
+export type AllergenSource = 'name' | 'category' | 'spec' | 'manual';
+
+// A type alias rather than an interface so entries can be written straight into the Json column
+export type AllergenEntry = {
+  code: AllergenCode;
+  status: AllergenStatus;
+  source?: AllergenSource;
+  evidence?: string; // words that triggered the suggestion
+};
+
+export interface AllergenSuggestion {
+  code: AllergenCode;
+  source: Exclude<AllergenSource, 'manual'>;
+  evidence: string;
+}
+
+export interface AllergenText {
+  name: string;
+  category?: string | null;
+  spec?: string | null; // supplier description, format or technical sheet text
+}
+
+interface AllergenRule {
+  keywords: string[];
+  exclusions?: string[]; // phrases that contain a keyword but not the allergen
+  negations?: string[];  // phrases that rule the allergen out altogether
+}
+
+export const ALLERGENS: { code: AllergenCode; label: string }[] = [
+  { code: 'gluten', label: 'Gluten' },
+  { code: 'crustaceans', label: 'Crustáceos' },
+  { code: 'eggs', label: 'Huevos' },
+  { code: 'fish', label: 'Pescado' },
+  { code: 'peanuts', label: 'Cacahuetes' },
+  { code: 'soy', label: 'Soja' },
+  { code: 'milk', label: 'Lactosa' },
+  { code: 'nuts', label: 'Frutos secos' },
+  { code: 'celery', label: 'Apio' },
+  { code: 'mustard', label: 'Mostaza' },
+  { code: 'sesame', label: 'Sésamo' },
+  { code: 'sulphites', label: 'Sulfitos' },
+  { code: 'lupin', label: 'Altramuces' },
+  { code: 'molluscs', label: 'Moluscos' }
+];
+
+export const ALLERGEN_LABELS = Object.fromEntries(
+  ALLERGENS.map(allergen => [allergen.code, allergen.label])
+) as Record<AllergenCode, string>;
+
+// Labels stored before entries carried a status ("Lactosa", "Huevo", "Mariscos"...)
+const LEGACY_LABELS: Record<string, AllergenCode> = {
+  gluten: 'gluten',
+  crustaceos: 'crustaceans',
+  mariscos: 'crustaceans',
+  huevo: 'eggs',
+  huevos: 'eggs',
+  pescado: 'fish',
+  cacahuete: 'peanuts',
+  cacahuetes: 'peanuts',
+  soja: 'soy',
+  lactosa: 'milk',
+  leche: 'milk',
+  lacteos: 'milk',
+  'frutos secos': 'nuts',
+  apio: 'celery',
+  mostaza: 'mustard',
+  sesamo: 'sesame',
+  sulfitos: 'sulphites',
+  altramuces: 'lupin',
+  altramuz: 'lupin',
+  moluscos: 'molluscs'
+};
+
+const ALLERGEN_RULES: Record<AllergenCode, AllergenRule> = {
+  gluten: {
+    keywords: [
+      'trigo', 'harina', 'cebada', 'centeno', 'avena', 'espelta', 'kamut', 'triticale', 'malta', 'semola',
+      'pan', 'pan rallado', 'panko', 'pasta', 'espagueti', 'macarron', 'tallarin', 'fideo', 'lasana', 'galleta',
+      'bizcocho', 'hojaldre', 'croissant', 'cuscus', 'bulgur', 'seitan', 'cerveza', 'rebozado', 'empanado', 'gluten'
+    ],
+    exclusions: ['harina de maiz', 'harina de arroz', 'harina de garbanzo', 'fideo de arroz'],
+    negations: ['sin gluten', 'libre de gluten', 'gluten free']
+  },
+  crustaceans: {
+    keywords: [
+      'gamba', 'langostino', 'cigala', 'bogavante', 'langosta', 'cangrejo', 'necora', 'centollo', 'buey de mar',
+      'camaron', 'carabinero', 'quisquilla', 'krill', 'marisco', 'crustaceo'
+    ]
+  },
+  eggs: {
+    keywords: ['huevo', 'clara', 'yema', 'ovoproducto', 'mayonesa', 'alioli', 'merengue', 'albumina', 'tortilla']
+  },
+  fish: {
+    keywords: [
+      'pescado', 'atun', 'bonito', 'salmon', 'merluza', 'bacalao', 'anchoa', 'boqueron', 'sardina', 'caballa',
+      'dorada', 'lubina', 'rape', 'lenguado', 'mero', 'pez espada', 'emperador', 'trucha', 'surimi', 'abadejo',
+      'panga', 'corvina', 'cherne', 'sama', 'rodaballo', 'jurel', 'arenque'
+    ]
+  },
+  peanuts: {
+    keywords: ['cacahuete', 'mani']
+  },
+  soy: {
+    keywords: ['soja', 'tofu', 'edamame', 'miso', 'tempeh']
+  },
+  milk: {
+    keywords: [
+      'leche', 'nata', 'queso', 'mantequilla', 'yogur', 'lactosa', 'lacteo', 'requeson', 'mozzarella', 'parmesano',
+      'burrata', 'suero de leche', 'caseina', 'kefir', 'bechamel', 'helado', 'cuajada', 'ghee', 'mascarpone', 'ricotta'
+    ],
+    exclusions: [
+      'leche de coco', 'leche de soja', 'leche de almendra', 'leche de avena', 'leche de arroz',
+      'mantequilla de cacahuete', 'manteca de cacao'
+    ]
+  },
+  nuts: {
+    keywords: [
+      'almendra', 'avellana', 'nuez', 'anacardo', 'pistacho', 'pecana', 'macadamia', 'nuez de brasil',
+      'frutos secos', 'praline', 'mazapan', 'turron', 'nocilla'
+    ],
+    exclusions: ['nuez moscada']
+  },
+  celery: {
+    keywords: ['apio', 'apionabo']
+  },
+  mustard: {
+    keywords: ['mostaza']
+  },
+  sesame: {
+    keywords: ['sesamo', 'ajonjoli', 'tahini', 'tahin']
+  },
+  sulphites: {
+    keywords: [
+      'vino', 'vinagre', 'sulfito', 'bisulfito', 'metabisulfito', 'anhidrido sulfuroso', 'sidra', 'cava', 'vermut',
+      'jerez', 'orejon', 'uva pasa', 'e220', 'e221', 'e222', 'e223', 'e224', 'e226', 'e227', 'e228'
+    ]
+  },
+  lupin: {
+    keywords: ['altramuz', 'lupino', 'chocho']
+  },
+  molluscs: {
+    keywords: [
+      'mejillon', 'almeja', 'berberecho', 'ostra', 'vieira', 'zamburina', 'navaja', 'calamar', 'chipiron',
+      'sepia', 'choco', 'pulpo', 'caracol', 'lapa', 'bigaro', 'puntilla', 'pota', 'molusco'
+    ]
+  }
+};
+
+const CODES = new Set<string>(ALLERGENS.map(allergen => allergen.code));
+
+function fold(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole words only, allowing Spanish plurals: "huevo" matches "huevos", "nuez" matches "nueces"
+function keywordPattern(keyword: string): RegExp {
+  const stem = keyword.endsWith('z') ? `${escapeRegExp(keyword.slice(0, -1))}(z|ces)` : `${escapeRegExp(keyword)}(s|es)?`;
+  return new RegExp(`(^| )${stem}( |$)`);
+}
+
+const PATTERNS = new Map<string, RegExp>();
+function matches(text: string, phrase: string): boolean {
+  let pattern = PATTERNS.get(phrase);
+  if (!pattern) {
+    pattern = keywordPattern(phrase);
+    PATTERNS.set(phrase, pattern);
+  }
+  return pattern.test(text);
+}
+
+function classifyText(text: string): Map<AllergenCode, string> {
+  const found = new Map<AllergenCode, string>();
+  const folded = fold(text);
+  if (!folded) return found;
+
+  (Object.keys(ALLERGEN_RULES) as AllergenCode[]).forEach(code => {
+    const rule = ALLERGEN_RULES[code];
+    if (rule.negations?.some(phrase => folded.includes(phrase))) return;
+
+    let candidate = ` ${folded} `;
+    rule.exclusions?.forEach(phrase => {
+      candidate = candidate.split(` ${phrase} `).join('  ');
+    });
+    candidate = candidate.trim();
+
+    const keyword = rule.keywords.find(word => matches(candidate, word));
+    if (keyword) found.set(code, keyword);
+  });
+
+  return found;
+}
+
+/**
+ * Allergens the product probably contains, with the source and words that point to them.
+ * The name is the strongest evidence; category and spec text only add allergens the name did not.
+ */
+export function suggestAllergens(text: AllergenText): AllergenSuggestion[] {
+  const suggestions = new Map<AllergenCode, AllergenSuggestion>();
+  const sources: [AllergenSuggestion['source'], string | null | undefined][] = [
+    ['name', text.name],
+    ['category', text.category],
+    ['spec', text.spec]
+  ];
+
+  sources.forEach(([source, value]) => {
+    if (!value) return;
+    classifyText(value).forEach((evidence, code) => {
+      if (!suggestions.has(code)) suggestions.set(code, { code, source, evidence });
+    });
+  });
+
+  return Array.from(suggestions.values());
+}
+
+/**
+ * Read `ingredients.allergens`, accepting the legacy plain-label format as confirmed entries
+ */
+export function parseAllergenEntries(value: unknown): AllergenEntry[] {
+  if (!Array.isArray(value)) return [];
+
+  const entries = new Map<AllergenCode, AllergenEntry>();
+  value.forEach(item => {
+    if (typeof item === 'string') {
+      const code = LEGACY_LABELS[fold(item)];
+      if (code) entries.set(code, { code, status: 'confirmed', source: 'manual' });
+      return;
+    }
+
+    if (item && typeof item === 'object') {
+      const { code, status, source, evidence } = item as Record<string, unknown>;
+      if (typeof code !== 'string' || !CODES.has(code)) return;
+      if (status !== 'suggested' && status !== 'confirmed' && status !== 'absent') return;
+      entries.set(code as AllergenCode, {
+        code: code as AllergenCode,
+        status,
+        source: typeof source === 'string' ? source as AllergenSource : undefined,
+        evidence: typeof evidence === 'string' ? evidence : undefined
+      });
+    }
+  });
+
+  return Array.from(entries.values());
+}
+
+/**
+ * Add classifier suggestions without touching anything a person already decided
+ */
+export function mergeAllergenSuggestions(existing: AllergenEntry[], suggestions: AllergenSuggestion[]): AllergenEntry[] {
+  const merged = new Map(existing.map(entry => [entry.code, entry]));
+
+  suggestions.forEach(suggestion => {
+    const current = merged.get(suggestion.code);
+    if (current && current.status !== 'suggested') return;
+    merged.set(suggestion.code, { ...suggestion, status: 'suggested' });
+  });
+
+  return ALLERGENS.map(allergen => merged.get(allergen.code)).filter((entry): entry is AllergenEntry => !!entry);
+}
+
+export function allergensWithStatus(entries: AllergenEntry[], status: AllergenStatus): AllergenCode[] {
+  return entries.filter(entry => entry.status === status).map(entry => entry.code);
+}
@@ -0,0 +1,244 @@
+// Ingredient and supplier lookup shared by the import edge functions: catalog names plus learned aliases
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { addToIndex, buildMatchIndex, canonicalizeName, type MatchIndex } from './ingredientMatcher.ts';
+import { parseAllergenEntries, type AllergenEntry } from './allergens.ts';
+import { buildClassifier, type ClassificationStatus, type TaxonomyClassifier } from './taxonomy.ts';
+import {
+  addSupplierToIndex,
+  buildSupplierIndex,
+  canonicalizeSupplierName,
+  findSupplier,
+  type SupplierIndex
+} from './supplierMatcher.ts';
+import { recordChange, type BatchEntity, type ImportBatch } from './importBatch.ts';
+import { parseValidationRules, type ValidationRule } from './validationRules.ts';
+import type { TaxCategory, TaxProfile } from './tax.ts';
+
+export interface CatalogContext {
+  organizationId: string;
+  ingredients: MatchIndex;
+  suppliers: SupplierIndex;
+  taxCategories: Map<string, TaxCategory>;
+  allergens: Map<string, AllergenEntry[]>;
+  taxonomy: TaxonomyClassifier;
+  classificationStatus: Map<string, ClassificationStatus>;
+  batch?: ImportBatch;  // set by imports that can be undone
+}
+
+export async function loadCatalog(supabase: SupabaseClient, organizationId: string): Promise<CatalogContext> {
+  const [ingredients, ingredientAliases, suppliers, supplierAliases, taxonomyNodes] = await Promise.all([
+    supabase
+      .from('ingredients')
+      .select('id, name, tax_category, allergens, taxonomy_node_id, classification_status')
+      .eq('organization_id', organizationId),
+    supabase.from('ingredient_aliases').select('ingredient_id, alias').eq('organization_id', organizationId),
+    supabase.from('suppliers').select('id, name').eq('organization_id', organizationId),
+    supabase.from('supplier_aliases').select('supplier_id, alias').eq('organization_id', organizationId),
+    supabase.from('taxonomy_nodes').select('id, parent_id, level, name, keywords').eq('organization_id', organizationId)
+  ]);
+
+  if (ingredients.error) throw ingredients.error;
+  if (suppliers.error) throw suppliers.error;
+  if (ingredientAliases.error || supplierAliases.error) {
+    console.error('Error loading aliases:', ingredientAliases.error || supplierAliases.error);
+  }
+  if (taxonomyNodes.error) {
+    console.error('Error loading taxonomy:', taxonomyNodes.error);
+  }
+
+  // Ingredients someone or something already placed teach the classifier
+  const classified = (ingredients.data || [])
+    .filter(ingredient => ingredient.taxonomy_node_id && ingredient.classification_status !== 'pending')
+    .map(ingredient => ({ name: ingredient.name, taxonomy_node_id: ingredient.taxonomy_node_id }));
+
+  console.log('Catalog loaded:', {
+    ingredients: ingredients.data?.length ?? 0,
+    ingredientAliases: ingredientAliases.data?.length ?? 0,
+    suppliers: suppliers.data?.length ?? 0,
+    supplierAliases: supplierAliases.data?.length ?? 0,
+    taxonomyNodes: taxonomyNodes.data?.length ?? 0
+  });
+
+  return {
+    organizationId,
+    ingredients: buildMatchIndex(ingredients.data || [], ingredientAliases.data || []),
+    suppliers: buildSupplierIndex(suppliers.data || [], supplierAliases.data || []),
+    taxCategories: new Map((ingredients.data || []).map(ingredient => [ingredient.id, ingredient.tax_category || 'general'])),
+    allergens: new Map((ingredients.data || []).map(ingredient => [ingredient.id, parseAllergenEntries(ingredient.allergens)])),
+    taxonomy: buildClassifier(taxonomyNodes.data || [], classified),
+    classificationStatus: new Map((ingredients.data || []).map(ingredient => [ingredient.id, ingredient.classification_status || 'pending']))
+  };
+}
+
+/**
+ * The organization's validation rules, kept in its file_import_mappings row with scope 'organization'
+ */
+export async function loadValidationRules(supabase: SupabaseClient, organizationId: string): Promise<ValidationRule[]> {
+  const { data, error } = await supabase
+    .from('file_import_mappings')
+    .select('normalization_rules')
+    .eq('organization_id', organizationId)
+    .eq('scope', 'organization')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? parseValidationRules(data.normalization_rules) : [];
+}
+
+/**
+ * The organization's default tax profile; without one no tax is assumed
+ */
+export async function fetchDefaultTaxProfile(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<TaxProfile | null> {
+  const { data, error } = await supabase
+    .from('tax_profiles')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('is_default', true)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading tax profile:', error);
+  }
+
+  return data;
+}
+
+/**
+ * Upsert an alias and, inside a batch, record whether it was new or what it pointed to before
+ */
+async function saveAlias(
+  supabase: SupabaseClient,
+  catalog: CatalogContext,
+  table: 'ingredient_aliases' | 'supplier_aliases',
+  values: Record<string, string>
+) {
+  const entityType: BatchEntity = table === 'ingredient_aliases' ? 'ingredient_alias' : 'supplier_alias';
+  const { data: previous } = catalog.batch
+    ? await supabase
+        .from(table)
+        .select('*')
+        .eq('organization_id', catalog.organizationId)
+        .eq('normalized_alias', values.normalized_alias)
+        .maybeSingle()
+    : { data: null };
+
+  const { data, error } = await supabase
+    .from(table)
+    .upsert({ organization_id: catalog.organizationId, ...values, source: 'import' }, { onConflict: 'organization_id,normalized_alias' })
+    .select('id')
+    .single();
+
+  if (error) return error;
+
+  if (catalog.batch) {
+    await recordChange(supabase, catalog.batch, previous
+      ? { entityType, entityId: data.id, action: 'updated', previousData: previous }
+      : { entityType, entityId: data.id, action: 'created' });
+  }
+  return null;
+}
+
+/**
+ * Remember a confirmed product name so the next import matches it exactly
+ */
+export async function learnIngredientAlias(
+  supabase: SupabaseClient,
+  catalog: CatalogContext,
+  name: string,
+  ingredientId: string
+) {
+  const normalized = canonicalizeName(name);
+  if (!normalized) return;
+
+  const known = catalog.ingredients.byCanonical.get(normalized);
+  if (known && known.ingredientId === ingredientId) return;
+
+  const error = await saveAlias(supabase, catalog, 'ingredient_aliases', {
+    ingredient_id: ingredientId,
+    alias: name,
+    normalized_alias: normalized
+  });
+
+  if (error) {
+    console.error('Error saving ingredient alias:', error);
+    return;
+  }
+
+  addToIndex(catalog.ingredients, ingredientId, name, true);
+  console.log('Learned ingredient alias:', name, '->', ingredientId);
+}
+
+export async function learnSupplierAlias(
+  supabase: SupabaseClient,
+  catalog: CatalogContext,
+  name: string,
+  supplierId: string
+) {
+  const normalized = canonicalizeSupplierName(name);
+  if (!normalized) return;
+
+  if (findSupplier(catalog.suppliers, name)?.supplierId === supplierId) return;
+
+  const error = await saveAlias(supabase, catalog, 'supplier_aliases', {
+    supplier_id: supplierId,
+    alias: name,
+    normalized_alias: normalized
+  });
+
+  if (error) {
+    console.error('Error saving supplier alias:', error);
+    return;
+  }
+
+  addSupplierToIndex(catalog.suppliers, supplierId, name, true);
+  console.log('Learned supplier alias:', name, '->', supplierId);
+}
+
+/**
+ * Existing supplier for a name (directly or through an alias), created when unknown.
+ * A supplier the user picked by hand also learns the name as an alias.
+ */
+export async function ensureSupplier(
+  supabase: SupabaseClient,
+  catalog: CatalogContext,
+  name: string,
+  chosenSupplierId?: string,
+  confirmed = false
+): Promise<string> {
+  if (chosenSupplierId && catalog.suppliers.supplierNames.has(chosenSupplierId)) {
+    if (confirmed) await learnSupplierAlias(supabase, catalog, name, chosenSupplierId);
+    return chosenSupplierId;
+  }
+
+  const match = findSupplier(catalog.suppliers, name);
+  if (match) {
+    console.log('Found existing supplier:', name, match.kind === 'alias' ? `(alias of ${match.supplierName})` : '');
+    return match.supplierId;
+  }
+
+  console.log('Creating new supplier:', name);
+  const { data: newSupplier, error } = await supabase
+    .from('suppliers')
+    .insert({
+      name,
+      organization_id: catalog.organizationId,
+      lead_time_days: 1
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error creating supplier:', error);
+    throw error;
+  }
+
+  if (catalog.batch) {
+    await recordChange(supabase, catalog.batch, { entityType: 'supplier', entityId: newSupplier.id, action: 'created' });
+  }
+
+  addSupplierToIndex(catalog.suppliers, newSupplier.id, name, false);
+  return newSupplier.id;
+}
@@ -0,0 +1,190 @@
+// Delimited text exports: encoding, delimiter and quoting are sniffed from the bytes, never assumed
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+export type CsvQuote = '"' | "'";
+export type CsvEncoding = 'utf-8' | 'windows-1252' | 'utf-16le';
+
+export interface CsvDialect {
+  delimiter: CsvDelimiter;
+  quote: CsvQuote;
+  encoding: CsvEncoding;
+}
+
+export interface CsvDialectDetection extends CsvDialect {
+  hasBom: boolean;
+  confidence: number;  // share of sampled rows with the dominant field count
+  description: string;
+}
+
+export interface CsvParseResult {
+  dialect: CsvDialectDetection;
+  rows: string[][];
+}
+
+export const CSV_DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ';', label: 'Punto y coma (;)' },
+  { value: ',', label: 'Coma (,)' },
+  { value: '\t', label: 'Tabulador' },
+  { value: '|', label: 'Barra vertical (|)' }
+];
+
+export const CSV_QUOTES: { value: CsvQuote; label: string }[] = [
+  { value: '"', label: 'Comillas dobles (")' },
+  { value: "'", label: "Comillas simples (')" }
+];
+
+export const CSV_ENCODINGS: { value: CsvEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252 (ANSI)' },
+  { value: 'utf-16le', label: 'UTF-16' }
+];
+
+// Rows inspected to choose the delimiter
+const SNIFF_ROWS = 20;
+const SNIFF_CHARS = 64 * 1024;
+
+// Equally consistent candidates: Spanish exports use ";" because "," is the decimal separator
+const DELIMITER_PRIORITY: CsvDelimiter[] = [';', '\t', '|', ','];
+
+/**
+ * Encoding from the byte order mark, else UTF-8 when the bytes are valid UTF-8, else the
+ * Windows code page ERP exports use
+ */
+export function detectEncoding(bytes: Uint8Array): { encoding: CsvEncoding; hasBom: boolean } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', hasBom: true };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', hasBom: true };
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return { encoding: 'utf-8', hasBom: false };
+  } catch {
+    return { encoding: 'windows-1252', hasBom: false };
+  }
+}
+
+export function decodeText(bytes: Uint8Array, encoding: CsvEncoding): string {
+  // TextDecoder drops a matching BOM; a stray one from a wrong override is removed here
+  return new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, '');
+}
+
+/**
+ * RFC 4180 style parsing: quoted fields may hold delimiters, doubled quotes and line breaks.
+ * Unquoted values are trimmed and empty lines skipped.
+ */
+export function parseDelimited(text: string, delimiter: string, quote: string = '"', maxRows = Infinity): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let wasQuoted = false;
+
+  const endField = () => {
+    row.push(wasQuoted ? field : field.trim());
+    field = '';
+    wasQuoted = false;
+  };
+  const endRow = () => {
+    endField();
+    if (row.some(cell => cell !== '')) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === quote) {
+        if (text[i + 1] === quote) {
+          field += quote;
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === quote && field.trim() === '') {
+      quoted = true;
+      wasQuoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (rows.length < maxRows && (field !== '' || row.length > 0)) endRow();
+  return rows;
+}
+
+export function sniffQuote(text: string): CsvQuote {
+  const sample = text.slice(0, SNIFF_CHARS);
+  if (sample.includes('"')) return '"';
+
+  // Single quotes only count when they wrap whole fields, not in "D'Origen"
+  return /(^|[,;\t|])'[^'\n]*'([,;\t|]|$)/m.test(sample) ? "'" : '"';
+}
+
+/**
+ * Delimiter giving the most rows with the same number of fields (at least two)
+ */
+export function sniffDelimiter(text: string, quote: CsvQuote): { delimiter: CsvDelimiter; confidence: number } {
+  const sample = text.slice(0, SNIFF_CHARS);
+  let best: { delimiter: CsvDelimiter; confidence: number; fields: number } = { delimiter: ';', confidence: 0, fields: 0 };
+
+  DELIMITER_PRIORITY.forEach(delimiter => {
+    const rows = parseDelimited(sample, delimiter, quote, SNIFF_ROWS);
+    if (rows.length === 0) return;
+
+    const counts = new Map<number, number>();
+    rows.forEach(row => counts.set(row.length, (counts.get(row.length) || 0) + 1));
+    const [fields, occurrences] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    if (fields < 2) return;
+
+    const confidence = occurrences / rows.length;
+    // Earlier delimiters win ties (and near-ties from a short last row)
+    if (confidence > best.confidence + 0.05) {
+      best = { delimiter, confidence, fields };
+    }
+  });
+
+  return { delimiter: best.delimiter, confidence: best.confidence };
+}
+
+export function describeCsvDialect(dialect: CsvDialect & { hasBom?: boolean }): string {
+  const delimiter = CSV_DELIMITERS.find(d => d.value === dialect.delimiter)?.label || dialect.delimiter;
+  const quote = CSV_QUOTES.find(q => q.value === dialect.quote)?.label || dialect.quote;
+  const encoding = CSV_ENCODINGS.find(e => e.value === dialect.encoding)?.label || dialect.encoding;
+
+  return `${delimiter} · ${quote} · ${encoding}${dialect.hasBom ? ' con BOM' : ''}`;
+}
+
+/**
+ * Decode and parse a delimited file. Any part of the dialect can be forced; the rest is sniffed.
+ */
+export function parseCsv(bytes: Uint8Array, overrides: Partial<CsvDialect> = {}): CsvParseResult {
+  const detected = detectEncoding(bytes);
+  const encoding = overrides.encoding || detected.encoding;
+  const text = decodeText(bytes, encoding);
+
+  const quote = overrides.quote || sniffQuote(text);
+  const sniffed = sniffDelimiter(text, quote);
+  const delimiter = overrides.delimiter || sniffed.delimiter;
+
+  const dialect: CsvDialect = { delimiter, quote, encoding };
+  const hasBom = detected.hasBom && encoding === detected.encoding;
+
+  return {
+    dialect: {
+      ...dialect,
+      hasBom,
+      confidence: overrides.delimiter ? 1 : sniffed.confidence,
+      description: describeCsvDialect({ ...dialect, hasBom })
+    },
+    rows: parseDelimited(text, delimiter, quote)
+  };
+}
@@ -0,0 +1,61 @@
+// Recognize a file or invoice that was already uploaded: the same bytes, or the same invoice of
+// the same supplier scanned or exported again
+import { normalizeHeader } from './mappingTemplates.ts';
+import type { InvoiceHeader } from './invoice.ts';
+
+export type DuplicateReason = 'content' | 'invoice_number' | 'date_total';
+
+export type InvoiceIdentity = Pick<
+  InvoiceHeader,
+  'invoiceNumber' | 'invoiceDate' | 'supplierName' | 'supplierTaxId' | 'total'
+>;
+
+/**
+ * SHA-256 of the file bytes, hex encoded. Web Crypto, available in the browser and in Deno.
+ */
+export async function contentHash(bytes: ArrayBuffer | Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Invoice number as compared between documents: "F-2024/0012", "f 2024 12" and "F202412" are
+ * the same number once case, separators and the zeros padding each group are dropped
+ */
+export function normalizeInvoiceNumber(number: string | null | undefined): string | null {
+  const groups = (number ?? '').toUpperCase().match(/[A-Z]+|\d+/g);
+  if (!groups) return null;
+
+  return groups.map(group => (/^\d+$/.test(group) ? String(Number(group)) : group)).join('');
+}
+
+const normalizeTaxId = (taxId: string) => taxId.toUpperCase().replace(/[^A-Z0-9]/g, '').replace(/^ES/, '');
+
+function sameSupplier(a: InvoiceIdentity, b: InvoiceIdentity): boolean {
+  if (a.supplierTaxId && b.supplierTaxId) {
+    return normalizeTaxId(a.supplierTaxId) === normalizeTaxId(b.supplierTaxId);
+  }
+  return !!a.supplierName && !!b.supplierName && normalizeHeader(a.supplierName) === normalizeHeader(b.supplierName);
+}
+
+/**
+ * Why invoice b looks like a copy of invoice a, or null. The number decides within a year, since
+ * many suppliers restart their numbering every January; without a matching number, the same date
+ * and total is taken as the same invoice read with a different (often misread) number.
+ */
+export function invoiceDuplicateReason(a: InvoiceIdentity, b: InvoiceIdentity): DuplicateReason | null {
+  if (!sameSupplier(a, b)) return null;
+
+  const numberA = normalizeInvoiceNumber(a.invoiceNumber);
+  const sameYear = !a.invoiceDate || !b.invoiceDate || a.invoiceDate.slice(0, 4) === b.invoiceDate.slice(0, 4);
+  if (numberA && numberA === normalizeInvoiceNumber(b.invoiceNumber) && sameYear) return 'invoice_number';
+
+  if (a.invoiceDate && a.invoiceDate === b.invoiceDate
+    && a.total !== null && b.total !== null && Math.abs(a.total - b.total) < 0.01) {
+    return 'date_total';
+  }
+
+  return null;
+}
@@ -0,0 +1,114 @@
+// Import batches: every row an import creates or changes is recorded so the run can be undone
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+export type BatchEntity =
+  | 'ingredient'
+  | 'ingredient_alias'
+  | 'supplier'
+  | 'supplier_alias'
+  | 'supplier_product'
+  | 'supplier_price'
+  | 'supplier_price_list';
+
+export interface BatchChange {
+  entityType: BatchEntity;
+  entityId: string;
+  action: 'created' | 'updated';
+  previousData?: Record<string, unknown>;
+}
+
+export interface ImportBatch {
+  id: string;
+  organizationId: string;
+  sequence: number;
+  recorded: Set<string>;                       // entities already recorded in this batch
+  summary: Record<string, number>;             // "<entity>_<action>" counts shown in the upload history
+}
+
+export async function startImportBatch(
+  supabase: SupabaseClient,
+  organizationId: string,
+  fileUploadId: string | null,
+  rowCount: number
+): Promise<ImportBatch> {
+  const { data, error } = await supabase
+    .from('import_batches')
+    .insert({
+      organization_id: organizationId,
+      file_upload_id: fileUploadId,
+      row_count: rowCount,
+      status: 'running'
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return { id: data.id, organizationId, sequence: 0, recorded: new Set(), summary: {} };
+}
+
+/**
+ * Record a change before moving on. Only the first state of an entity matters for undo, so
+ * later changes to something the batch already created or recorded are skipped. A change
+ * that cannot be recorded could not be undone either, so the error stops the import.
+ */
+export async function recordChange(supabase: SupabaseClient, batch: ImportBatch, change: BatchChange) {
+  const key = `${change.entityType}:${change.entityId}`;
+  if (batch.recorded.has(key)) return;
+
+  batch.sequence++;
+  const { error } = await supabase.from('import_batch_changes').insert({
+    batch_id: batch.id,
+    organization_id: batch.organizationId,
+    sequence: batch.sequence,
+    entity_type: change.entityType,
+    entity_id: change.entityId,
+    action: change.action,
+    previous_data: change.previousData ?? null
+  });
+
+  if (error) throw error;
+  batch.recorded.add(key);
+
+  const summaryKey = `${change.entityType}_${change.action}`;
+  batch.summary[summaryKey] = (batch.summary[summaryKey] || 0) + 1;
+}
+
+export async function completeImportBatch(supabase: SupabaseClient, batch: ImportBatch, processedCount: number) {
+  const { error } = await supabase
+    .from('import_batches')
+    .update({
+      status: 'completed',
+      processed_count: processedCount,
+      summary: batch.summary,
+      finished_at: new Date().toISOString()
+    })
+    .eq('id', batch.id);
+
+  if (error) console.error('Error completing import batch:', error);
+}
+
+/**
+ * A failed row undoes the whole batch, so the catalog never keeps half an import
+ */
+export async function failImportBatch(supabase: SupabaseClient, batch: ImportBatch, message: string): Promise<boolean> {
+  await supabase
+    .from('import_batches')
+    .update({
+      status: 'failed',
+      error_message: message,
+      summary: batch.summary,
+      finished_at: new Date().toISOString()
+    })
+    .eq('id', batch.id);
+
+  const { error } = await supabase.rpc('revert_import_batch', { p_batch_id: batch.id });
+  if (error) {
+    console.error('Error rolling back import batch:', error);
+    await supabase
+      .from('import_batches')
+      .update({ error_message: `${message}. No se pudo deshacer: ${error.message}` })
+      .eq('id', batch.id);
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,347 @@
+// Fuzzy matching of supplier product names against the ingredient catalog
+
+// 'code' matches come from the supplier's article code or barcode, found by callers that know the supplier
+export type MatchKind = 'exact' | 'alias' | 'fuzzy' | 'code';
+
+export interface MatchCandidate {
+  id: string;
+  name: string;
+}
+
+export interface IngredientAliasEntry {
+  ingredient_id: string;
+  alias: string;
+}
+
+export interface MatchProposal {
+  ingredientId: string;
+  ingredientName: string;
+  score: number;       // 0-1
+  kind: MatchKind;
+  matchedName: string; // catalog name or alias that produced the score
+}
+
+interface IndexedName {
+  ingredientId: string;
+  name: string;
+  canonical: string;
+  tokens: string[];
+  isAlias: boolean;
+}
+
+export interface MatchIndex {
+  names: IndexedName[];
+  byCanonical: Map<string, IndexedName>;
+  byPrefix: Map<string, Set<number>>;
+  ingredientNames: Map<string, string>;
+}
+
+// Above this a match is applied without asking; between both it is only proposed
+export const AUTO_MATCH_THRESHOLD = 0.9;
+export const SUGGEST_MATCH_THRESHOLD = 0.6;
+
+const ABBREVIATIONS: Record<string, string> = {
+  aove: 'aceite oliva virgen extra',
+  ve: 'virgen extra',
+  ac: 'aceite',
+  acte: 'aceite',
+  ol: 'oliva',
+  vir: 'virgen',
+  ext: 'extra',
+  extr: 'extra',
+  pech: 'pechuga',
+  fte: 'filete',
+  cong: 'congelado',
+  cgl: 'congelado',
+  fco: 'fresco',
+  nat: 'natural',
+  desn: 'desnatada',
+  semidesn: 'semidesnatada',
+  qso: 'queso',
+  tom: 'tomate',
+  trit: 'triturado',
+  pim: 'pimiento',
+  pimta: 'pimienta',
+  bco: 'blanco',
+  bca: 'blanca',
+  ngo: 'negro',
+  hna: 'harina',
+  azuc: 'azucar',
+  mzna: 'manzana',
+  sh: 'sin hueso',
+  sp: 'sin piel',
+  ib: 'iberico',
+  ibco: 'iberico',
+  jam: 'jamon'
+};
+
+const STOP_WORDS = new Set(['de', 'del', 'la', 'el', 'los', 'las', 'en', 'con', 'al', 'y', 'para', 'a', 'e']);
+
+// Packaging and size words say nothing about what the product is
+const PACKAGING_WORDS = new Set([
+  'caja', 'saco', 'bandeja', 'pack', 'bolsa', 'garrafa', 'cubo', 'fardo', 'estuche', 'tarrina',
+  'tarro', 'bote', 'bidon', 'malla', 'lata', 'botella', 'brick', 'paquete', 'formato', 'granel'
+]);
+
+const QUANTITY_PATTERN = /^\d+([.,]\d+)?(x\d+([.,]\d+)?)*(kg|kgs|k|g|gr|grs|mg|l|lt|lts|ml|cl|dl|ud|uds|u|un|unid|pz|pzs)?$/;
+const UNIT_PATTERN = /^(kg|kgs|g|gr|grs|mg|l|lt|lts|ml|cl|dl|ud|uds|unid|pz|pzs|x)$/;
+// Grades tell products apart rather than sizing them: "Nata 35%", "Harina 00", "Leche +18m"
+const GRADE_PATTERN = /^(\d+([.,]\d+)?%|\+\d+[a-z]*|0\d+)$/;
+
+/**
+ * Crude Spanish plural folding, only needs to be consistent on both sides
+ */
+function singularize(token: string): string {
+  if (token.length <= 3 || !token.endsWith('s')) return token;
+  const stem = token.slice(0, -1);
+  // "limones" -> "limon", "panes" -> "pan"
+  if (stem.endsWith('e') && stem.length > 3 && /[lnrdz]e$/.test(stem)) {
+    return stem.slice(0, -1);
+  }
+  return stem;
+}
+
+/**
+ * Canonical tokens of a product name: folded case and accents, abbreviations expanded,
+ * quantities, packaging and stop words removed, grades kept
+ */
+export function nameTokens(name: string): string[] {
+  const folded = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    // "S/H" is one abbreviation, not two letters ("V.E." is handled by dropping the dots)
+    .replace(/\b([a-z])\/([a-z])\b/g, '$1$2')
+    .replace(/[×*]/g, 'x')
+    .replace(/(\d)\s+%/g, '$1%');
+
+  const tokens: string[] = [];
+  for (const raw of folded.split(/[^a-z0-9.,x%+]+/)) {
+    const trimmed = raw.replace(/^[.,]+|[.,]+$/g, '');
+    if (GRADE_PATTERN.test(trimmed)) {
+      tokens.push(trimmed.replace('.', ','));
+      continue;
+    }
+
+    const token = trimmed.replace(/\./g, '').replace(/[%+]/g, '');
+    if (!token || STOP_WORDS.has(token) || PACKAGING_WORDS.has(token)) continue;
+    if (QUANTITY_PATTERN.test(token) || UNIT_PATTERN.test(token)) continue;
+
+    const expansion = ABBREVIATIONS[token];
+    if (expansion) {
+      tokens.push(...expansion.split(' '));
+    } else if (/[a-z]/.test(token)) {
+      tokens.push(singularize(token));
+    }
+  }
+
+  return tokens;
+}
+
+export function canonicalizeName(name: string): string {
+  return nameTokens(name).join(' ');
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const isGrade = (token: string) => /\d/.test(token);
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  // "35%" and "36%" are one character apart and different products
+  if (isGrade(a) || isGrade(b)) return 0;
+  // Truncated words such as "pechug" or "congel"
+  const [shorter, longer] = a.length < b.length ? [a, b] : [b, a];
+  if (shorter.length >= 4 && longer.startsWith(shorter)) return 0.9;
+
+  const distance = levenshtein(a, b);
+  return 1 - distance / Math.max(a.length, b.length);
+}
+
+function bestTokenScores(from: string[], to: string[]): number {
+  let total = 0;
+  for (const token of from) {
+    let best = 0;
+    for (const other of to) {
+      best = Math.max(best, tokenSimilarity(token, other));
+      if (best === 1) break;
+    }
+    // Near misses are typos, anything lower is a different word
+    total += best >= 0.75 ? best : 0;
+  }
+  return total;
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s+/g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+}
+
+function diceCoefficient(a: string, b: string): number {
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (!left.length || !right.length) return a === b ? 1 : 0;
+
+  const counts = new Map<string, number>();
+  left.forEach(gram => counts.set(gram, (counts.get(gram) || 0) + 1));
+  let shared = 0;
+  for (const gram of right) {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+/**
+ * Similarity of two names (0-1): order-independent token matching tolerant to typos
+ * and truncation, blended with character bigrams of the canonical form
+ */
+export function nameSimilarity(a: string, b: string): number {
+  return tokensSimilarity(nameTokens(a), nameTokens(b));
+}
+
+function tokensSimilarity(left: string[], right: string[]): number {
+  if (!left.length || !right.length) return 0;
+
+  const leftCanonical = left.join(' ');
+  const rightCanonical = right.join(' ');
+  if (leftCanonical === rightCanonical) return 1;
+
+  const tokenScore = (bestTokenScores(left, right) + bestTokenScores(right, left)) / (left.length + right.length);
+  const charScore = diceCoefficient(leftCanonical, rightCanonical);
+  // Never let a fuzzy match reach a perfect score, nor be applied unasked when the grades differ
+  const ceiling = sameGrades(left, right) ? 0.99 : AUTO_MATCH_THRESHOLD - 0.01;
+  return Math.min(ceiling, 0.75 * tokenScore + 0.25 * charScore);
+}
+
+function sameGrades(left: string[], right: string[]): boolean {
+  const grades = (tokens: string[]) => tokens.filter(isGrade).sort().join(' ');
+  return grades(left) === grades(right);
+}
+
+function prefixOf(token: string): string {
+  return token.slice(0, 3);
+}
+
+/**
+ * Precompute canonical forms of the catalog and its learned aliases
+ */
+export function buildMatchIndex(candidates: MatchCandidate[], aliases: IngredientAliasEntry[] = []): MatchIndex {
+  const index: MatchIndex = {
+    names: [],
+    byCanonical: new Map(),
+    byPrefix: new Map(),
+    ingredientNames: new Map()
+  };
+
+  candidates.forEach(candidate => {
+    index.ingredientNames.set(candidate.id, candidate.name);
+    addToIndex(index, candidate.id, candidate.name, false);
+  });
+  aliases.forEach(alias => {
+    if (index.ingredientNames.has(alias.ingredient_id)) {
+      addToIndex(index, alias.ingredient_id, alias.alias, true);
+    }
+  });
+
+  return index;
+}
+
+/**
+ * Register a name in an existing index, e.g. an ingredient created earlier in the same import
+ */
+export function addToIndex(index: MatchIndex, ingredientId: string, name: string, isAlias: boolean) {
+  const tokens = nameTokens(name);
+  if (!tokens.length) return;
+
+  const entry: IndexedName = { ingredientId, name, canonical: tokens.join(' '), tokens, isAlias };
+  const position = index.names.push(entry) - 1;
+
+  if (!isAlias && !index.ingredientNames.has(ingredientId)) {
+    index.ingredientNames.set(ingredientId, name);
+  }
+  // Catalog names win over aliases that canonicalize to the same text
+  const existing = index.byCanonical.get(entry.canonical);
+  if (!existing || (existing.isAlias && !isAlias)) {
+    index.byCanonical.set(entry.canonical, entry);
+  }
+
+  tokens.forEach(token => {
+    const key = prefixOf(token);
+    if (!index.byPrefix.has(key)) index.byPrefix.set(key, new Set());
+    index.byPrefix.get(key)!.add(position);
+  });
+}
+
+/**
+ * Best catalog ingredients for a product name, highest score first, one proposal per ingredient
+ */
+export function findMatches(index: MatchIndex, name: string, limit = 3): MatchProposal[] {
+  const tokens = nameTokens(name);
+  if (!tokens.length) return [];
+
+  const canonical = tokens.join(' ');
+  const exact = index.byCanonical.get(canonical);
+  const best = new Map<string, MatchProposal>();
+
+  if (exact) {
+    best.set(exact.ingredientId, {
+      ingredientId: exact.ingredientId,
+      ingredientName: index.ingredientNames.get(exact.ingredientId) || exact.name,
+      score: 1,
+      kind: exact.isAlias ? 'alias' : 'exact',
+      matchedName: exact.name
+    });
+  }
+
+  // Only names sharing at least one token prefix are worth scoring
+  const positions = new Set<number>();
+  tokens.forEach(token => {
+    index.byPrefix.get(prefixOf(token))?.forEach(position => positions.add(position));
+  });
+
+  positions.forEach(position => {
+    const entry = index.names[position];
+    if (best.get(entry.ingredientId)?.score === 1) return;
+
+    const score = tokensSimilarity(tokens, entry.tokens);
+    if (score < SUGGEST_MATCH_THRESHOLD) return;
+
+    const current = best.get(entry.ingredientId);
+    if (!current || score > current.score) {
+      best.set(entry.ingredientId, {
+        ingredientId: entry.ingredientId,
+        ingredientName: index.ingredientNames.get(entry.ingredientId) || entry.name,
+        score,
+        kind: 'fuzzy',
+        matchedName: entry.name
+      });
+    }
+  });
+
+  return Array.from(best.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,190 @@
+// Purchase invoice header fields read from document text, and the check that lines add up to the totals
+import { detectNumberFormat, parseMoney, type NumberFormat } from './numberParser.ts';
+
+export type InvoiceTaxLine = {
+  rate: number;
+  base: number;
+  tax: number;
+};
+
+export interface InvoiceHeader {
+  invoiceNumber: string | null;
+  invoiceDate: string | null;   // ISO date (yyyy-mm-dd)
+  dueDate: string | null;
+  supplierName: string | null;
+  supplierTaxId: string | null;
+  subtotal: number | null;      // taxable base
+  taxTotal: number | null;
+  total: number | null;
+  taxBreakdown: InvoiceTaxLine[];
+}
+
+export interface InvoiceLine {
+  lineNumber: number;
+  description: string;
+  reference: string | null;
+  quantity: number;
+  unit: string | null;
+  unitPrice: number;
+  discountPct: number;
+  taxRate: number | null;
+  lineTotal: number;            // net of tax, after discount
+  ingredientId?: string | null;
+}
+
+export interface InvoiceTotalsCheck {
+  linesTotal: number;
+  matches: boolean;
+  issues: string[];
+}
+
+// Rounding per line in the supplier's system: a few cents is not a discrepancy
+export const TOTALS_TOLERANCE = 0.05;
+
+const AMOUNT = String.raw`(-?\d{1,3}(?:[.,\s]\d{3})*[.,]\d{2}|-?\d+[.,]\d{2})`;
+const DATE = String.raw`(\d{1,2}[/.\-]\d{1,2}[/.\-]\d{2,4}|\d{4}-\d{2}-\d{2})`;
+
+const INVOICE_NUMBER_PATTERN =
+  /(?:n[º°o.]?\s*(?:de\s+)?factura|factura\s*(?:n[º°o.]?|n[úu]mero|num\.?)?|invoice\s*(?:no\.?|number|#)?)\s*[:#]?\s*([A-Z0-9][A-Z0-9\-/.]*\d[A-Z0-9\-/.]*)/i;
+const INVOICE_DATE_PATTERN = new RegExp(String.raw`fecha(?:\s+(?:de\s+)?(?:factura|emisi[oó]n|expedici[oó]n))?\s*[:.]?\s*` + DATE, 'i');
+const DUE_DATE_PATTERN = new RegExp(String.raw`(?:vencimiento|vto\.?|fecha\s+(?:de\s+)?pago)\s*[:.]?\s*` + DATE, 'i');
+const ANY_DATE_PATTERN = new RegExp(DATE);
+// CIF (letter, 7 digits, control) or NIF/NIE (8 digits and letter, or X/Y/Z and 7 digits)
+const TAX_ID_PATTERN = /(?:c\.?i\.?f\.?|n\.?i\.?f\.?|vat|nif\/cif)\s*[:.]?\s*(?:ES[-\s]?)?([A-HJNP-SUVW]-?\d{7}[0-9A-J]|\d{8}-?[A-Z]|[XYZ]\d{7}[A-Z])/i;
+const SUBTOTAL_PATTERN = new RegExp(String.raw`(?:base\s+imponible|total\s+base|subtotal|total\s+neto)\s*[:€]?\s*` + AMOUNT, 'i');
+const TOTAL_PATTERNS = [
+  new RegExp(String.raw`(?:total\s+factura|total\s+a\s+pagar|importe\s+total|total\s+importe)\s*[:€]?\s*` + AMOUNT, 'i'),
+  new RegExp(String.raw`\btotal\b(?!\s+(?:base|neto|iva|igic|ipsi|impuestos|cuota|l[ií]neas))\s*[:€]?\s*` + AMOUNT, 'gi')
+];
+const TAX_TOTAL_PATTERN = new RegExp(String.raw`(?:total\s+(?:iva|igic|ipsi|impuestos)|cuota\s+total)\s*[:€]?\s*` + AMOUNT, 'i');
+const TAX_LINE_PATTERN = new RegExp(
+  String.raw`\b(?:iva|igic|ipsi)\s*(\d{1,2}(?:[.,]\d{1,2})?)\s*%[^\d\n-]*` + AMOUNT + String.raw`(?:[^\d\n-]+` + AMOUNT + ')?',
+  'gi'
+);
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * "05/03/25", "5-3-2025", "2025-03-05" as an ISO date; day first, as Spanish invoices write it
+ */
+export function parseInvoiceDate(value: string | null | undefined): string | null {
+  if (!value) return null;
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return value;
+
+  const parts = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  if (!parts) return null;
+
+  const day = Number(parts[1]);
+  const month = Number(parts[2]);
+  let year = Number(parts[3]);
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function amount(value: string | undefined, format: NumberFormat): number | null {
+  return value ? parseMoney(value, format)?.amount ?? null : null;
+}
+
+/**
+ * Header fields of an invoice from its text (PDF text layer, OCR or the cells above a
+ * spreadsheet table). Missing fields are null; amounts share one number format.
+ */
+export function extractInvoiceHeader(text: string): InvoiceHeader {
+  const amounts = Array.from(text.matchAll(new RegExp(AMOUNT, 'g'))).map(match => match[1]);
+  const format = detectNumberFormat(amounts);
+
+  const taxBreakdown: InvoiceTaxLine[] = [];
+  for (const match of text.matchAll(TAX_LINE_PATTERN)) {
+    const rate = parseMoney(match[1], { decimal: ',', thousands: '' })?.amount ?? null;
+    const first = amount(match[2], format);
+    const second = amount(match[3], format);
+    if (rate === null || first === null || rate <= 0) continue;
+
+    // "IVA 10% 125,40 12,54" lists base then tax; a single amount is the tax
+    const line = second !== null
+      ? { rate, base: first, tax: second }
+      : { rate, base: round2((first * 100) / rate), tax: first };
+    if (!taxBreakdown.some(existing => existing.rate === line.rate && existing.tax === line.tax)) {
+      taxBreakdown.push(line);
+    }
+  }
+
+  let total: number | null = null;
+  const explicitTotal = text.match(TOTAL_PATTERNS[0]);
+  if (explicitTotal) {
+    total = amount(explicitTotal[1], format);
+  } else {
+    // Plain "Total" appears on several lines; the invoice total is the last one
+    const totals = Array.from(text.matchAll(TOTAL_PATTERNS[1]));
+    total = totals.length > 0 ? amount(totals[totals.length - 1][1], format) : null;
+  }
+
+  const taxTotalMatch = text.match(TAX_TOTAL_PATTERN);
+  const taxTotal = taxTotalMatch
+    ? amount(taxTotalMatch[1], format)
+    : taxBreakdown.length > 0 ? round2(taxBreakdown.reduce((sum, line) => sum + line.tax, 0)) : null;
+
+  const subtotalMatch = text.match(SUBTOTAL_PATTERN);
+  const subtotal = subtotalMatch
+    ? amount(subtotalMatch[1], format)
+    : taxBreakdown.length > 0 ? round2(taxBreakdown.reduce((sum, line) => sum + line.base, 0)) : null;
+
+  const dateMatch = text.match(INVOICE_DATE_PATTERN) || text.match(ANY_DATE_PATTERN);
+
+  return {
+    invoiceNumber: text.match(INVOICE_NUMBER_PATTERN)?.[1] ?? null,
+    invoiceDate: parseInvoiceDate(dateMatch?.[1]),
+    dueDate: parseInvoiceDate(text.match(DUE_DATE_PATTERN)?.[1]),
+    supplierName: null,
+    supplierTaxId: text.match(TAX_ID_PATTERN)?.[1].replace('-', '').toUpperCase() ?? null,
+    subtotal,
+    taxTotal,
+    total,
+    taxBreakdown
+  };
+}
+
+/**
+ * Enough of a header to be a purchase invoice rather than a price list
+ */
+export function looksLikeInvoice(header: InvoiceHeader): boolean {
+  return !!header.invoiceNumber && (header.total !== null || header.invoiceDate !== null);
+}
+
+export function computeLineTotal(quantity: number, unitPrice: number, discountPct = 0): number {
+  return round2(quantity * unitPrice * (1 - discountPct / 100));
+}
+
+/**
+ * Lines must add up to the taxable base, and base plus tax to the total
+ */
+export function checkInvoiceTotals(header: InvoiceHeader, lines: InvoiceLine[]): InvoiceTotalsCheck {
+  const linesTotal = round2(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+  const issues: string[] = [];
+
+  if (header.subtotal !== null) {
+    const difference = round2(linesTotal - header.subtotal);
+    if (Math.abs(difference) > TOTALS_TOLERANCE) {
+      issues.push(`Las líneas suman ${linesTotal.toFixed(2)} € y la base imponible es ${header.subtotal.toFixed(2)} € (diferencia ${difference.toFixed(2)} €)`);
+    }
+  }
+
+  if (header.total !== null) {
+    const base = header.subtotal ?? linesTotal;
+    const expected = round2(base + (header.taxTotal ?? 0));
+    const difference = round2(expected - header.total);
+    if (Math.abs(difference) > TOTALS_TOLERANCE) {
+      issues.push(`Base más impuestos da ${expected.toFixed(2)} € y el total de la factura es ${header.total.toFixed(2)} € (diferencia ${difference.toFixed(2)} €)`);
+    }
+  }
+
+  if (header.subtotal === null && header.total === null) {
+    issues.push('La factura no indica base imponible ni total: no se puede comprobar');
+  }
+
+  return { linesTotal, matches: issues.length === 0, issues };
+}
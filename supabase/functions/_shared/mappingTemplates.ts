@@ -0,0 +1,105 @@
+// Recognize a supplier file layout by its headers and reuse the column mapping learned from it
+
+export interface ColumnMappingRule {
+  source: string;
+  target: string;
+}
+
+export interface MappingTemplate {
+  id: string;
+  supplierId: string | null;
+  supplierName: string | null;
+  sourceColumns: string[];
+  mappings: ColumnMappingRule[];
+  pricesIncludeTax?: boolean;
+  useCount: number;
+  lastUsedAt: string | null;
+}
+
+export interface TemplateMatch {
+  template: MappingTemplate;
+  similarity: number;  // share of headers in common (Jaccard)
+  exact: boolean;      // same header fingerprint
+}
+
+// Headers in common for a template to be offered at all
+export const TEMPLATE_MIN_SIMILARITY = 0.6;
+
+// Names generated when a file has no header row ("Columna 1") say nothing about its layout
+const GENERIC_HEADER = /^columna \d+$/;
+
+export function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9%]+/g, ' ')
+    .trim();
+}
+
+function headerSet(columns: string[]): Set<string> {
+  return new Set(columns.map(normalizeHeader).filter(Boolean));
+}
+
+/**
+ * Layout fingerprint: normalized headers, deduplicated and sorted so reordered columns still match.
+ * Null when the headers are generated and cannot identify a layout.
+ */
+export function headerFingerprint(columns: string[]): string | null {
+  const headers = Array.from(headerSet(columns));
+  if (headers.length === 0 || headers.every(header => GENERIC_HEADER.test(header))) return null;
+
+  return headers.sort().join('|');
+}
+
+export function headerSimilarity(a: string[], b: string[]): number {
+  const setA = headerSet(a);
+  const setB = headerSet(b);
+  if (setA.size === 0 || setB.size === 0) return 0;
+
+  const shared = Array.from(setA).filter(header => setB.has(header)).length;
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * Best template for a file: exact fingerprint first, then most headers in common,
+ * then the most recently used
+ */
+export function findTemplate(templates: MappingTemplate[], columns: string[]): TemplateMatch | null {
+  const fingerprint = headerFingerprint(columns);
+  if (!fingerprint) return null;
+
+  const matches = templates
+    .map(template => ({
+      template,
+      similarity: headerSimilarity(template.sourceColumns, columns),
+      exact: headerFingerprint(template.sourceColumns) === fingerprint
+    }))
+    .filter(match => match.exact || match.similarity >= TEMPLATE_MIN_SIMILARITY)
+    .sort((a, b) =>
+      Number(b.exact) - Number(a.exact) ||
+      b.similarity - a.similarity ||
+      (b.template.lastUsedAt || '').localeCompare(a.template.lastUsedAt || '')
+    );
+
+  return matches[0] || null;
+}
+
+/**
+ * The template's rules for the columns present in this file, renamed to the file's own spelling
+ */
+export function applyTemplate(template: MappingTemplate, columns: string[]): ColumnMappingRule[] {
+  const byHeader = new Map(columns.map(column => [normalizeHeader(column), column]));
+
+  return template.mappings.flatMap(rule => {
+    const source = byHeader.get(normalizeHeader(rule.source));
+    return source ? [{ source, target: rule.target }] : [];
+  });
+}
+
+/**
+ * Confident enough to skip the mapping step: same layout and every required field mapped
+ */
+export function isConfidentMatch(match: TemplateMatch, mappings: ColumnMappingRule[], requiredTargets: string[]): boolean {
+  return match.exact && requiredTargets.every(target => mappings.some(mapping => mapping.target === target));
+}
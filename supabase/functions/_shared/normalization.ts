@@ -0,0 +1,361 @@
+// Utility functions for normalizing product data across ingestion and comparison
+import { convertQuantity, getBaseUnit } from './units.ts';
+import { parsePackLabel, type PackBreakdown } from './packParser.ts';
+import {
+  detectNumberFormat,
+  parseLocaleNumber,
+  parseMoney,
+  SPANISH_NUMBER_FORMAT,
+  type NumberFormat,
+  type NumberFormatDetection
+} from './numberParser.ts';
+import { normalizeHeader, type ColumnMappingRule } from './mappingTemplates.ts';
+import { applyRewrites, checkRules, type RuleViolation, type ValidationRule } from './validationRules.ts';
+
+export interface ParsedPack {
+  total: number;   // expressed in the base unit (kg, L, ud)
+  unit: string;
+  count?: number;  // for "6×1 L" format
+  individual?: number; // individual size, in base units
+  sourceUnit?: string; // unit as written on the label
+  confidence?: number; // 0..1, see packParser
+  breakdown?: PackBreakdown;
+  error?: string;  // set when the label could not be parsed
+}
+
+/**
+ * Parse pack labels like "6×1 L", "500 g", "Caja 4×6×330 ml", "Saco 25 kg (5×5)", "10-12 ud aprox."
+ */
+export function parsePack(label: string): ParsedPack {
+  if (!label) return { total: 0, unit: 'ud' };
+
+  const result = parsePackLabel(label);
+  if (!result.success) {
+    return { total: 0, unit: 'ud', confidence: 0, error: result.error };
+  }
+
+  const pack = result.pack!;
+  const count = pack.levels.reduce((acc, level) => acc * level, 1);
+
+  return {
+    total: pack.total,
+    unit: pack.unit,
+    count: pack.levels.length > 0 ? count : undefined,
+    individual: pack.levels.length > 0 ? pack.unitQuantity.amount : undefined,
+    sourceUnit: pack.unitQuantity.sourceUnit,
+    confidence: pack.confidence,
+    breakdown: pack
+  };
+}
+
+/**
+ * Parse Spanish number format ("1.234,56"); returns 0 when the value is not numeric
+ */
+export function parseSpanishNumber(value: string): number {
+  if (!value) return 0;
+  return parseLocaleNumber(value, SPANISH_NUMBER_FORMAT) ?? 0;
+}
+
+/**
+ * Normalize unit names to standard base units
+ */
+export function normalizeUnit(unit: string): string {
+  return getBaseUnit(unit);
+}
+
+/**
+ * Convert quantity to base units (kg, L, ud)
+ */
+export function toBaseUnits(amount: number, unit: string): number {
+  if (!amount || amount <= 0) return 0;
+  
+  return convertQuantity(amount, unit, getBaseUnit(unit)) ?? amount;
+}
+
+/**
+ * Calculate normalized unit price (€/kg, €/L, €/ud)
+ */
+export function calculateUnitPrice(price: number, packData: ParsedPack): number {
+  if (!price || price <= 0 || !packData.total || packData.total <= 0) return 0;
+  
+  const baseAmount = toBaseUnits(packData.total, packData.unit);
+  return price / baseAmount;
+}
+
+/**
+ * Format unit price with proper unit
+ */
+export function formatUnitPrice(unitPrice: number, unit: string): string {
+  const baseUnit = normalizeUnit(unit);
+  return `${unitPrice.toFixed(4)} €/${baseUnit}`;
+}
+
+/**
+ * Validate and normalize a row of ingredient data
+ */
+export interface NormalizationResult {
+  isValid: boolean;
+  errors: string[];
+  normalized?: {
+    producto: string;
+    proveedor: string;
+    formato: string;
+    contenido: number;
+    unidad: string;
+    precio: number;
+    precioUnitario: number;
+    impuesto?: number; // percent; when absent the organization's tax profile decides
+    area: string;
+    referencia?: string;
+    ean?: string;
+    categoria?: string;
+    familia?: string;
+    subfamilia?: string;
+    pack?: PackBreakdown;
+  };
+}
+
+export interface NormalizationOptions {
+  // Separators detected per target column across the whole file (see detectNumberFormat)
+  numberFormats?: Partial<Record<string, NumberFormat>>;
+}
+
+// Trimmed text of a cell, which may hold a string or a number straight from a spreadsheet
+function cellText(value: unknown): string | undefined {
+  return value === null || value === undefined ? undefined : String(value).trim();
+}
+
+export function normalizeIngredientRow(row: Record<string, unknown>, options: NormalizationOptions = {}): NormalizationResult {
+  const formats = options.numberFormats || {};
+  const errors: string[] = [];
+  
+  // Required fields validation
+  const producto = cellText(row.producto);
+  if (!producto) errors.push('Producto/ingrediente es requerido');
+  
+  const proveedor = cellText(row.proveedor);
+  if (!proveedor) errors.push('Proveedor es requerido');
+  
+  const precioStr = cellText(row.precio);
+  if (!precioStr) errors.push('Precio es requerido');
+  
+  // Spreadsheet cells may already be numbers; only text needs separator handling
+  const money = precioStr
+    ? parseMoney(typeof row.precio === 'number' ? row.precio : precioStr, formats.precio || SPANISH_NUMBER_FORMAT)
+    : null;
+  const precio = money?.amount ?? 0;
+  if (precioStr && !money) {
+    errors.push(`Precio no numérico: "${precioStr}"`);
+  } else if (money?.negative) {
+    errors.push('Línea de abono (importe negativo), no es un precio de compra');
+  } else if (precio <= 0) {
+    errors.push('Precio debe ser mayor a 0');
+  }
+  
+  // Parse pack information
+  const formato = cellText(row.formato) || cellText(row.contenido) || '';
+  const packData = parsePack(formato);
+  
+  if (packData.error) {
+    errors.push(`No se pudo interpretar el formato: ${packData.error}`);
+  } else if (packData.total <= 0) {
+    errors.push('No se pudo determinar el contenido del producto');
+  }
+  
+  // Calculate unit price
+  const precioUnitario = calculateUnitPrice(precio, packData);
+  
+  // Optional fields
+  const impuestoStr = cellText(row.impuesto);
+  const impuesto = typeof row.impuesto === 'number'
+    ? row.impuesto
+    : impuestoStr
+      ? parseLocaleNumber(impuestoStr.replace('%', ''), formats.impuesto || SPANISH_NUMBER_FORMAT)
+      : undefined;
+  if (impuesto === null) errors.push(`Impuesto no numérico: "${impuestoStr}"`);
+  
+  const area = normalizeArea(cellText(row.area));
+  
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+  
+  return {
+    isValid: true,
+    errors: [],
+    normalized: {
+      producto: producto!,
+      proveedor: proveedor!,
+      formato,
+      contenido: packData.total,
+      unidad: packData.unit,
+      precio,
+      precioUnitario,
+      impuesto: impuesto ?? undefined,
+      area,
+      referencia: cellText(row.referencia),
+      ean: cellText(row.ean) || undefined,
+      categoria: cellText(row.categoria),
+      familia: cellText(row.familia),
+      subfamilia: cellText(row.subfamilia),
+      pack: packData.breakdown
+    }
+  };
+}
+
+// Target fields holding numbers whose separators are detected per file
+export const NUMERIC_FIELDS = ['precio', 'contenido', 'impuesto', 'cantidad', 'importe'];
+
+// Header names recognised for each target field, most specific first. A column is taken by
+// the first field that names it, so "descripcion" is the product unless another column is.
+const FIELD_HEADERS: Array<{ target: string; headers: string[] }> = [
+  { target: 'producto', headers: ['producto', 'nombre', 'name', 'ingrediente', 'ingredient', 'articulo', 'denominacion'] },
+  { target: 'proveedor', headers: ['proveedor', 'supplier', 'distribuidor', 'empresa'] },
+  { target: 'formato', headers: ['formato', 'formato pack', 'pack', 'presentacion', 'envase'] },
+  { target: 'contenido', headers: ['contenido', 'peso', 'tamano', 'size', 'pack size'] },
+  { target: 'unidad', headers: ['unidad', 'unit', 'medida', 'unidad base', 'base unit'] },
+  { target: 'precio', headers: ['precio', 'price', 'pvp', 'coste', 'cost', 'tarifa', 'precio pack', 'pack price'] },
+  { target: 'impuesto', headers: ['impuesto', 'igic', 'iva', 'ipsi', 'tax'] },
+  { target: 'area', headers: ['area', 'zona', 'zone'] },
+  { target: 'ean', headers: ['ean', 'ean13', 'gtin', 'codigo de barras', 'cod barras', 'barcode'] },
+  { target: 'referencia', headers: ['referencia', 'ref', 'codigo', 'code', 'sku', 'cod articulo'] },
+  { target: 'categoria', headers: ['categoria', 'category', 'tipo', 'type'] },
+  { target: 'familia', headers: ['familia', 'family'] },
+  { target: 'subfamilia', headers: ['subfamilia', 'subfamily'] },
+  { target: 'cantidad', headers: ['cantidad', 'quantity', 'uds', 'unidades'] },
+  { target: 'importe', headers: ['importe', 'total', 'amount'] },
+  { target: 'producto', headers: ['descripcion', 'description'] }
+];
+
+/**
+ * Propose a target field for the columns whose header names one. Used as the starting
+ * mapping in the wizard and as the whole mapping when files are processed unattended.
+ * A column of families carried down from sub-header rows or sheet names is the "familia" field.
+ */
+export function suggestColumnMappings(columns: string[], familyColumn?: string): ColumnMappingRule[] {
+  const headers = columns.map(normalizeHeader);
+  const mappings: ColumnMappingRule[] = familyColumn ? [{ source: familyColumn, target: 'familia' }] : [];
+
+  FIELD_HEADERS.forEach(({ target, headers: names }) => {
+    if (mappings.some(mapping => mapping.target === target)) return;
+
+    const index = headers.findIndex((header, column) =>
+      names.includes(header) && !mappings.some(mapping => mapping.source === columns[column]));
+    if (index >= 0) mappings.push({ source: columns[index], target });
+  });
+
+  return mappings;
+}
+
+export interface NormalizedRow extends NonNullable<NormalizationResult['normalized']> {
+  cantidad?: number;  // units bought, on invoice lines
+  importe?: number;   // line total net of tax
+  isValid: boolean;
+  errors: string[];   // includes the messages of the violations
+  violations?: RuleViolation[];  // broken organization rules, per field
+  rowIndex: number;   // 1-based, as shown to the user
+}
+
+export interface NormalizedTable {
+  rows: NormalizedRow[];
+  numberFormats: Record<string, NumberFormatDetection>;
+  rewrittenCells: number;  // cells changed by rewrite rules
+}
+
+export interface NormalizeTableOptions {
+  rules?: ValidationRule[];  // the organization's validation rules
+}
+
+/**
+ * Map the columns of an extracted table to target fields and normalize every row.
+ * Invalid rows are kept, with their errors, so they can be shown next to the valid ones.
+ * Rewrite rules run on the raw cells; the other rules check the rows that pass the fixed validation.
+ */
+export function normalizeTable(
+  columns: string[],
+  rows: string[][],
+  mappings: ColumnMappingRule[],
+  options: NormalizeTableOptions = {}
+): NormalizedTable {
+  const rules = options.rules || [];
+  let rewrittenCells = 0;
+
+  const mappedRows = rows.map(row => {
+    const mappedRow: Record<string, string> = {};
+
+    mappings.forEach(mapping => {
+      const columnIndex = columns.indexOf(mapping.source);
+      if (columnIndex >= 0 && columnIndex < row.length) {
+        mappedRow[mapping.target] = row[columnIndex];
+      }
+    });
+
+    rewrittenCells += applyRewrites(mappedRow, rules);
+    return mappedRow;
+  });
+
+  // Decide decimal/thousands separators per column using every row, not just the current one
+  const numberFormats: Record<string, NumberFormatDetection> = {};
+  NUMERIC_FIELDS.forEach(field => {
+    if (mappings.some(mapping => mapping.target === field)) {
+      numberFormats[field] = detectNumberFormat(mappedRows.map(mappedRow => mappedRow[field]));
+    }
+  });
+
+  const normalized = mappedRows.map((mappedRow, index): NormalizedRow => {
+    // Add defaults for missing optional fields
+    if (!mappedRow.area) mappedRow.area = 'both';
+    if (!mappedRow.formato && mappedRow.contenido && mappedRow.unidad) {
+      const contenido = parseLocaleNumber(mappedRow.contenido, numberFormats.contenido) ?? mappedRow.contenido;
+      mappedRow.formato = `${contenido} ${mappedRow.unidad}`;
+    }
+
+    const result = normalizeIngredientRow(mappedRow, { numberFormats });
+
+    if (result.isValid && result.normalized) {
+      const violations = checkRules(result.normalized, rules);
+      return {
+        ...result.normalized,
+        cantidad: parseLocaleNumber(mappedRow.cantidad, numberFormats.cantidad) ?? undefined,
+        importe: parseLocaleNumber(mappedRow.importe, numberFormats.importe) ?? undefined,
+        isValid: violations.length === 0,
+        errors: violations.map(violation => violation.error),
+        violations,
+        rowIndex: index + 1
+      };
+    }
+
+    return {
+      producto: mappedRow.producto || '',
+      proveedor: mappedRow.proveedor || '',
+      formato: mappedRow.formato || '',
+      contenido: 0,
+      unidad: 'ud',
+      precio: 0,
+      precioUnitario: 0,
+      area: 'both',
+      referencia: mappedRow.referencia,
+      ean: mappedRow.ean,
+      categoria: mappedRow.categoria,
+      isValid: false,
+      errors: result.errors,
+      rowIndex: index + 1
+    };
+  });
+
+  return { rows: normalized, numberFormats, rewrittenCells };
+}
+
+/**
+ * Normalize area values
+ */
+function normalizeArea(area: string): string {
+  if (!area) return 'both';
+  
+  const normalized = area.toLowerCase().trim();
+  
+  if (normalized.includes('cocina') || normalized.includes('kitchen')) return 'kitchen';
+  if (normalized.includes('sala') || normalized.includes('dining') || normalized.includes('comedor')) return 'dining';
+  
+  return 'both';
+}
\ No newline at end of file
@@ -0,0 +1,231 @@
+// Locale-aware parsing of numbers and money amounts coming from supplier files
+
+export type DecimalSeparator = ',' | '.';
+export type ThousandsSeparator = '.' | ',' | ' ' | '';
+
+export interface NumberFormat {
+  decimal: DecimalSeparator;
+  thousands: ThousandsSeparator;
+}
+
+export interface NumberFormatDetection extends NumberFormat {
+  confidence: number;  // share of decisive samples that agree with the choice
+  ambiguous: boolean;  // no sample settled it, the default was assumed
+  samples: number;     // non-empty values inspected
+  description: string;
+}
+
+export interface ParsedMoney {
+  amount: number;      // signed; credit lines are negative
+  currency?: string;
+  negative: boolean;
+}
+
+export const SPANISH_NUMBER_FORMAT: NumberFormat = { decimal: ',', thousands: '.' };
+
+const CURRENCY_PATTERN = /(€|\$|£|\beur\b|\beuros?\b|\busd\b|\bgbp\b)/i;
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '€': 'EUR',
+  '$': 'USD',
+  '£': 'GBP',
+  'eur': 'EUR',
+  'euro': 'EUR',
+  'euros': 'EUR',
+  'usd': 'USD',
+  'gbp': 'GBP'
+};
+
+interface CleanedValue {
+  digits: string;      // digits and separators only
+  negative: boolean;
+  currency?: string;
+}
+
+/**
+ * Strip currency, whitespace noise and sign markers: "-1.234,50 €", "(12,00)", "12,00-"
+ */
+function cleanValue(raw: string): CleanedValue | null {
+  let value = raw.replace(/[\u00a0\u202f]/g, ' ').trim();
+  if (!value) return null;
+
+  let currency: string | undefined;
+  const currencyMatch = value.match(CURRENCY_PATTERN);
+  if (currencyMatch) {
+    currency = CURRENCY_SYMBOLS[currencyMatch[1].toLowerCase()];
+    value = value.replace(CURRENCY_PATTERN, '').trim();
+  }
+
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1).trim();
+  }
+  if (/^[-−–]/.test(value)) {
+    negative = !negative;
+    value = value.slice(1).trim();
+  } else if (/[-−–]$/.test(value)) {
+    negative = !negative;
+    value = value.slice(0, -1).trim();
+  }
+  value = value.replace(/^\+/, '').trim();
+
+  if (!/^\d[\d.,\s']*$/.test(value) && !/^[.,]\d+$/.test(value)) return null;
+
+  return {
+    digits: value.replace(/'/g, ' '),
+    negative,
+    currency
+  };
+}
+
+type Vote = DecimalSeparator | 'space' | null;
+
+/**
+ * What a single value tells us about the decimal separator, if anything
+ */
+function voteForDecimal(digits: string): Vote {
+  const hasComma = digits.includes(',');
+  const hasDot = digits.includes('.');
+
+  if (hasComma && hasDot) {
+    return digits.lastIndexOf(',') > digits.lastIndexOf('.') ? ',' : '.';
+  }
+
+  const separator = hasComma ? ',' : hasDot ? '.' : null;
+  if (!separator) {
+    return /\d\s\d{3}(\s|$)/.test(digits) ? 'space' : null;
+  }
+
+  const parts = digits.split(separator);
+  // Repeated separator can only be grouping: "1.234.567"
+  if (parts.length > 2) {
+    return separator === ',' ? '.' : ',';
+  }
+
+  // "1.234" / "1,234" could be either; anything else is a decimal
+  const [integer, fraction] = parts;
+  if (fraction.length === 3 && integer.length >= 1 && integer.length <= 3 && integer !== '0') {
+    return null;
+  }
+  return separator;
+}
+
+export function describeNumberFormat(format: NumberFormat): string {
+  const thousands = format.thousands === ' ' ? 'espacio' : format.thousands ? `'${format.thousands}'` : 'ninguno';
+  const example = formatExample(format);
+  return `Decimal '${format.decimal}', miles ${thousands} (ej. ${example})`;
+}
+
+function formatExample(format: NumberFormat): string {
+  return `1${format.thousands}234${format.decimal}56`;
+}
+
+/**
+ * Decide the separators for a column by looking at all of its values.
+ * Falls back to the Spanish convention when every value is ambiguous.
+ */
+export function detectNumberFormat(
+  values: Array<string | number | null | undefined>,
+  fallback: NumberFormat = SPANISH_NUMBER_FORMAT
+): NumberFormatDetection {
+  const votes = { ',': 0, '.': 0 };
+  let spaceGrouping = false;
+  let samples = 0;
+
+  for (const value of values) {
+    if (value === null || value === undefined || typeof value === 'number') continue;
+    const cleaned = cleanValue(String(value));
+    if (!cleaned) continue;
+
+    samples++;
+    const vote = voteForDecimal(cleaned.digits);
+    if (vote === 'space') {
+      spaceGrouping = true;
+    } else if (vote) {
+      votes[vote]++;
+      if (/\d\s\d{3}/.test(cleaned.digits)) spaceGrouping = true;
+    }
+  }
+
+  const decisive = votes[','] + votes['.'];
+  let decimal: DecimalSeparator;
+  if (votes[','] > votes['.']) {
+    decimal = ',';
+  } else if (votes['.'] > votes[',']) {
+    decimal = '.';
+  } else {
+    decimal = fallback.decimal;
+  }
+
+  const thousands: ThousandsSeparator = spaceGrouping ? ' ' : decimal === ',' ? '.' : ',';
+  const format: NumberFormat = { decimal, thousands };
+
+  return {
+    ...format,
+    confidence: decisive > 0 ? Math.max(votes[','], votes['.']) / decisive : 0.5,
+    ambiguous: decisive === 0 || votes[','] === votes['.'],
+    samples,
+    description: describeNumberFormat(format)
+  };
+}
+
+function parseDigits(digits: string, format: NumberFormat): number | null {
+  let value = digits.replace(/\s/g, '');
+
+  // A lone "1.5" in a column using '.' for thousands is still clearly a decimal
+  const grouping = format.thousands && format.thousands !== ' ' ? format.thousands : null;
+  if (grouping && !value.includes(format.decimal)) {
+    const groups = value.split(grouping);
+    if (groups.length === 2 && groups[1].length !== 3) {
+      return parseDigits(value.replace(grouping, format.decimal), format);
+    }
+  }
+
+  if (format.thousands && format.thousands !== ' ') {
+    value = value.split(format.thousands).join('');
+  }
+  if (format.decimal === ',') {
+    value = value.replace(',', '.');
+  }
+
+  if (!/^\d*\.?\d+$|^\d+\.$/.test(value)) return null;
+
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Parse a number using the given format, or the value's own evidence when none is given
+ */
+export function parseLocaleNumber(
+  value: string | number | null | undefined,
+  format?: NumberFormat
+): number | null {
+  const money = parseMoney(value, format);
+  return money ? money.amount : null;
+}
+
+/**
+ * Parse a money amount: strips currency, honours "-12,50", "12,50-" and "(12,50)" as credits
+ */
+export function parseMoney(
+  value: string | number | null | undefined,
+  format?: NumberFormat
+): ParsedMoney | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') {
+    return isNaN(value) ? null : { amount: value, negative: value < 0 };
+  }
+
+  const cleaned = cleanValue(value);
+  if (!cleaned) return null;
+
+  const amount = parseDigits(cleaned.digits, format || detectNumberFormat([value]));
+  if (amount === null) return null;
+
+  return {
+    amount: cleaned.negative ? -amount : amount,
+    currency: cleaned.currency,
+    negative: cleaned.negative && amount !== 0
+  };
+}
@@ -0,0 +1,244 @@
+// Tables rebuilt from OCR word boxes: words become cells, cells are clustered into columns by
+// x-position and wrapped description lines are joined to the row they continue
+import { countHeaderMatches } from './pdfText.ts';
+
+export interface OcrBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrWord {
+  text: string;
+  confidence: number;  // 0-1
+  bbox: OcrBox;
+}
+
+export interface OcrLayoutLine {
+  words: OcrWord[];
+  bbox: OcrBox;
+  page: number;
+  confidence: number;  // 0-1
+}
+
+export interface OcrTable {
+  columns: string[];
+  rows: string[][];
+  rowPages: number[];        // page of each row
+  rowConfidence: number[];   // 0-1, mean word confidence of each row
+  headerFound: boolean;      // false when the columns are generic ("Columna 1")
+}
+
+interface Cell {
+  text: string;
+  x0: number;
+  x1: number;
+  confidences: number[];
+}
+
+interface Band {
+  x0: number;
+  x1: number;
+}
+
+// A gap wider than this many times the word height separates two cells
+const CELL_GAP_FACTOR = 1.2;
+
+// Lines closer than this many line heights can be a wrapped continuation of the row above
+const WRAP_GAP_FACTOR = 1.0;
+
+// Totals and carried sums close the table; they are not product rows
+const SUMMARY_LINE = /^(sub)?total|base imponible|suma y sigue|importe total|total factura/i;
+
+const DESCRIPTION_HEADER = /descripci[oó]n|producto|art[ií]culo|concepto|nombre|denominaci[oó]n/i;
+
+const hasDigit = (text: string) => /\d/.test(text);
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Split a line into cells at the gaps between words that are wider than a word space
+ */
+function splitCells(line: OcrLayoutLine): Cell[] {
+  const words = line.words
+    .filter(word => word.text.trim())
+    .sort((a, b) => a.bbox.x0 - b.bbox.x0);
+  if (words.length === 0) return [];
+
+  const height = median(words.map(word => word.bbox.y1 - word.bbox.y0)) || line.bbox.y1 - line.bbox.y0;
+  const cells: Cell[] = [];
+
+  words.forEach(word => {
+    const last = cells[cells.length - 1];
+    if (last && word.bbox.x0 - last.x1 <= height * CELL_GAP_FACTOR) {
+      last.text += ` ${word.text.trim()}`;
+      last.x1 = Math.max(last.x1, word.bbox.x1);
+      last.confidences.push(word.confidence);
+    } else {
+      cells.push({ text: word.text.trim(), x0: word.bbox.x0, x1: word.bbox.x1, confidences: [word.confidence] });
+    }
+  });
+
+  return cells;
+}
+
+/**
+ * Column bands from the lines with the most common number of cells: their cells are
+ * merged wherever they overlap horizontally
+ */
+function clusterColumns(cellLines: Cell[][]): Band[] {
+  const multiCell = cellLines.filter(cells => cells.length > 1);
+  if (multiCell.length === 0) return [];
+
+  const counts = new Map<number, number>();
+  multiCell.forEach(cells => counts.set(cells.length, (counts.get(cells.length) || 0) + 1));
+  const modal = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || b[0] - a[0])[0][0];
+
+  const intervals = multiCell
+    .filter(cells => cells.length === modal)
+    .flatMap(cells => cells.map(cell => ({ x0: cell.x0, x1: cell.x1 })))
+    .sort((a, b) => a.x0 - b.x0);
+
+  const bands: Band[] = [];
+  intervals.forEach(interval => {
+    const last = bands[bands.length - 1];
+    if (last && interval.x0 <= last.x1) {
+      last.x1 = Math.max(last.x1, interval.x1);
+    } else {
+      bands.push({ ...interval });
+    }
+  });
+
+  return bands;
+}
+
+/**
+ * Column of a cell: the band it overlaps most, or the nearest one when it overlaps none
+ */
+function assignBand(cell: Cell, bands: Band[]): number {
+  let best = 0;
+  let bestScore = -Infinity;
+
+  bands.forEach((band, index) => {
+    const overlap = Math.min(cell.x1, band.x1) - Math.max(cell.x0, band.x0);
+    const distance = Math.abs((cell.x0 + cell.x1) / 2 - (band.x0 + band.x1) / 2);
+    const score = overlap > 0 ? overlap : -distance;
+    if (score > bestScore) {
+      bestScore = score;
+      best = index;
+    }
+  });
+
+  return best;
+}
+
+function toRow(cells: Cell[], bands: Band[]): { values: string[]; confidences: number[] } {
+  const values = bands.map(() => '');
+  const confidences: number[] = [];
+
+  cells.forEach(cell => {
+    const index = assignBand(cell, bands);
+    values[index] = values[index] ? `${values[index]} ${cell.text}` : cell.text;
+    confidences.push(...cell.confidences);
+  });
+
+  return { values, confidences };
+}
+
+/**
+ * Rebuild the price table of a recognized document. Each page finds its header row (a
+ * repeated header on later pages is skipped) and its column bands; lines holding only
+ * description text right below a row are joined to that row.
+ */
+export function buildOcrTable(lines: OcrLayoutLine[]): OcrTable {
+  const rows: string[][] = [];
+  const rowPages: number[] = [];
+  const rowConfidence: number[] = [];
+  let columns: string[] = [];
+  let headerFound = false;
+
+  const pages = Array.from(new Set(lines.map(line => line.page))).sort((a, b) => a - b);
+
+  pages.forEach(page => {
+    const pageLines = lines
+      .filter(line => line.page === page)
+      .sort((a, b) => a.bbox.y0 - b.bbox.y0)
+      .map(line => ({ line, cells: splitCells(line) }))
+      .filter(entry => entry.cells.length > 0);
+
+    const headerIndex = pageLines.findIndex(entry =>
+      entry.cells.length > 1 && countHeaderMatches(entry.cells.map(cell => cell.text)) >= 2);
+    const body = headerIndex >= 0 ? pageLines.slice(headerIndex + 1) : pageLines;
+
+    const headerCells = headerIndex >= 0 ? pageLines[headerIndex].cells : null;
+    const bands = headerCells
+      ? headerCells.map(cell => ({ x0: cell.x0, x1: cell.x1 }))
+      : clusterColumns(body.map(entry => entry.cells));
+    if (bands.length < 2) return;
+
+    if (columns.length === 0) {
+      headerFound = !!headerCells;
+      columns = headerCells
+        ? headerCells.map(cell => cell.text)
+        : bands.map((_, index) => `Columna ${index + 1}`);
+    }
+
+    // The description is the column named so, or else the one with the longest texts
+    const headerDescription = headerCells ? headerCells.findIndex(cell => DESCRIPTION_HEADER.test(cell.text)) : -1;
+    let descriptionColumn = headerDescription;
+    let previous: { rowIndex: number; bottom: number; height: number } | null = null;
+
+    body.forEach(({ line, cells }) => {
+      const text = cells.map(cell => cell.text).join(' ');
+      if (SUMMARY_LINE.test(text.trim())) {
+        previous = null;
+        return;
+      }
+
+      const { values, confidences } = toRow(cells, bands);
+      const filled = values.map((value, index) => (value ? index : -1)).filter(index => index >= 0);
+      const height = line.bbox.y1 - line.bbox.y0;
+
+      if (descriptionColumn < 0 && filled.length > 1) {
+        descriptionColumn = values
+          .map((value, index) => ({ index, length: value.replace(/[\d.,€%\s]/g, '').length }))
+          .sort((a, b) => b.length - a.length)[0].index;
+      }
+
+      const continuation = previous !== null
+        && filled.length === 1
+        && filled[0] === descriptionColumn
+        && !hasDigit(values[descriptionColumn])
+        && line.bbox.y0 - previous.bottom <= previous.height * WRAP_GAP_FACTOR;
+
+      if (continuation && previous) {
+        const row = rows[previous.rowIndex];
+        row[descriptionColumn] = `${row[descriptionColumn]} ${values[descriptionColumn]}`.trim();
+        previous.bottom = line.bbox.y1;
+        return;
+      }
+
+      // Product rows spread over several columns and carry at least one figure
+      if (filled.length < 2 || !values.some(hasDigit)) {
+        previous = null;
+        return;
+      }
+
+      rows.push(columns.map((_, index) => values[index] ?? ''));
+      rowPages.push(page);
+      rowConfidence.push(mean(confidences));
+      previous = { rowIndex: rows.length - 1, bottom: line.bbox.y1, height };
+    });
+  });
+
+  return { columns, rows, rowPages, rowConfidence, headerFound };
+}
@@ -0,0 +1,528 @@
+// Grammar-based parser for supplier pack labels ("Caja 4×6×330 ml", "Saco 25 kg (5×5)", ...)
+import { BASE_UNITS, resolveUnit, type BaseUnit, type UnitDimension } from './units.ts';
+import { parseLocaleNumber } from './numberParser.ts';
+
+export interface PackQuantity {
+  amount: number;        // in base units; midpoint when the label gives a range
+  unit: BaseUnit;
+  min?: number;          // only for ranges like "10-12 ud"
+  max?: number;
+  sourceUnit?: string;   // unit as written on the label
+}
+
+export interface PackBreakdown {
+  label: string;
+  container?: string;          // caja, saco, bandeja...
+  levels: number[];            // outer → inner multipliers, e.g. [4, 6] for "4×6×330 ml"
+  unitQuantity: PackQuantity;  // innermost item, e.g. 330 ml
+  net?: PackQuantity;          // "neto" clause
+  drained?: PackQuantity;      // "escurrido" clause
+  total: number;               // quantity used for pricing, in base units
+  unit: BaseUnit;
+  range?: { min: number; max: number };
+  approximate: boolean;
+  confidence: number;          // 0..1
+  warnings: string[];
+}
+
+export interface PackParseResult {
+  success: boolean;
+  pack?: PackBreakdown;
+  error?: string;
+}
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'ratio'; numerator: number; denominator: number; text: string }  // "1/2", "6/1"
+  | { type: 'unit'; value: string; dimension: UnitDimension; factor: number }
+  | { type: 'times' }
+  | { type: 'dash' }
+  | { type: 'slash' }
+  | { type: 'lparen' }
+  | { type: 'rparen' }
+  | { type: 'word'; value: string };
+
+interface Term {
+  min: number;
+  max: number;
+  unit?: { value: string; dimension: UnitDimension; factor: number };
+}
+
+interface Clause {
+  kind: 'plain' | 'net' | 'drained';
+  terms: Term[];
+  group?: Term[]; // parenthesised breakdown, e.g. "(5×5)"
+}
+
+// Containers that hold several items, where "6/1 L" reads as 6 × 1 L
+const MULTI_CONTAINER_WORDS = ['caja', 'cajas', 'pack', 'packs', 'bandeja', 'bandejas', 'fardo', 'fardos', 'estuche'];
+const CONTAINER_WORDS = ['caja', 'cajas', 'saco', 'sacos', 'bandeja', 'bandejas', 'pack', 'packs', 'bolsa', 'bolsas', 'garrafa', 'garrafas', 'cubo', 'cubos', 'fardo', 'fardos', 'estuche', 'tarrina', 'tarro', 'bote', 'bidon', 'bidón', 'malla'];
+const APPROX_WORDS = ['aprox', 'aprox.', 'aproximadamente', 'approx', 'ca', 'ca.', 'c.a.', 'alrededor'];
+const FILLER_WORDS = ['a', 'de', 'del', 'peso', 'con', 'y', 'en', 'por', 'total', 'formato'];
+const RANGE_WORDS = ['a', 'al'];
+
+const WORD_PATTERN = /^[a-záéíóúüñ]+\.?/;
+// A number, or two joined by a slash: "1.000", "0,33", "1/2", "6/1"
+const NUMBER_PATTERN = /^(\d+(?:[.,]\d+)*)(?:\s*\/\s*(\d+(?:[.,]\d+)*))?/;
+
+// Labels are Spanish, so "1.000 g" is a thousand grams and "0,33 L" a third of a litre
+const toNumber = (raw: string) => parseLocaleNumber(raw);
+
+function tokenize(label: string): Token[] {
+  const tokens: Token[] = [];
+  let rest = label.toLowerCase().trim();
+
+  while (rest.length > 0) {
+    const whitespace = rest.match(/^\s+/);
+    if (whitespace) {
+      rest = rest.slice(whitespace[0].length);
+      continue;
+    }
+
+    const number = rest.match(NUMBER_PATTERN);
+    if (number) {
+      rest = rest.slice(number[0].length);
+      const value = toNumber(number[1]);
+      const denominator = number[2] !== undefined ? toNumber(number[2]) : null;
+      if (value === null) continue;
+
+      tokens.push(denominator !== null
+        ? { type: 'ratio', numerator: value, denominator, text: number[0].replace(/\s/g, '') }
+        : { type: 'number', value });
+      continue;
+    }
+
+    const char = rest[0];
+    if (char === '×' || char === '*') {
+      tokens.push({ type: 'times' });
+      rest = rest.slice(1);
+      continue;
+    }
+    if (char === '-' || char === '–') {
+      tokens.push({ type: 'dash' });
+      rest = rest.slice(1);
+      continue;
+    }
+    if (char === '/' || char === ';' || char === '|') {
+      tokens.push({ type: 'slash' });
+      rest = rest.slice(1);
+      continue;
+    }
+    if (char === '(' || char === '[') {
+      tokens.push({ type: 'lparen' });
+      rest = rest.slice(1);
+      continue;
+    }
+    if (char === ')' || char === ']') {
+      tokens.push({ type: 'rparen' });
+      rest = rest.slice(1);
+      continue;
+    }
+    if (char === '~' || char === '±') {
+      tokens.push({ type: 'word', value: 'aprox' });
+      rest = rest.slice(1);
+      continue;
+    }
+
+    const word = rest.match(WORD_PATTERN);
+    if (word) {
+      const value = word[0];
+      rest = rest.slice(value.length);
+
+      // "6x1" / "6 x 1": an isolated x between quantities is a multiplication sign
+      if (value === 'x') {
+        tokens.push({ type: 'times' });
+        continue;
+      }
+
+      const unit = resolveUnit(value);
+      if (unit) {
+        tokens.push({ type: 'unit', value: value.replace(/\.$/, ''), dimension: unit.dimension, factor: unit.factor });
+      } else {
+        tokens.push({ type: 'word', value });
+      }
+      continue;
+    }
+
+    // Anything else (punctuation, stray symbols) is noise
+    rest = rest.slice(1);
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parse of:
+ *   label   := clause ( SLASH clause )*
+ *   clause  := ( WORD )* product ( LPAREN product RPAREN )? ( WORD )*
+ *   product := term ( (TIMES | "de")? term )*
+ *   term    := NUMBER ( (DASH | "a") NUMBER )? UNIT?
+ *            | RATIO UNIT?
+ */
+class PackGrammar {
+  private position = 0;
+  private multiContainer: boolean;
+  container?: string;
+  approximate = false;
+  ignoredWords: string[] = [];
+  ambiguous?: string;  // a ratio that is neither a fraction nor a pack in this label
+
+  constructor(private tokens: Token[]) {
+    this.multiContainer = tokens.some(token => token.type === 'word' && MULTI_CONTAINER_WORDS.includes(token.value));
+  }
+
+  parse(): Clause[] {
+    const clauses: Clause[] = [];
+    while (this.position < this.tokens.length) {
+      const clause = this.parseClause();
+      if (clause.terms.length > 0) clauses.push(clause);
+      if (this.peek()?.type === 'slash') this.position++;
+    }
+    return clauses;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private parseClause(): Clause {
+    const clause: Clause = { kind: 'plain', terms: [] };
+
+    while (this.position < this.tokens.length) {
+      const token = this.peek()!;
+
+      if (token.type === 'slash') break;
+
+      if (token.type === 'word') {
+        this.consumeWord(token.value, clause);
+        this.position++;
+        continue;
+      }
+
+      if (isQuantity(token)) {
+        const terms = this.parseProduct();
+        // A second product inside the same clause after a closed one is treated as extra detail
+        if (clause.terms.length === 0) {
+          clause.terms = terms;
+        } else if (!clause.group) {
+          clause.group = terms;
+        }
+        continue;
+      }
+
+      if (token.type === 'lparen') {
+        this.position++;
+        const inner: Term[] = [];
+        while (this.position < this.tokens.length && this.peek()!.type !== 'rparen') {
+          const next = this.peek()!;
+          if (isQuantity(next)) {
+            inner.push(...this.parseProduct());
+          } else {
+            if (next.type === 'word') this.consumeWord(next.value, clause);
+            this.position++;
+          }
+        }
+        this.position++; // rparen
+        if (inner.length > 0) {
+          if (clause.terms.length === 0) {
+            clause.terms = inner;
+          } else {
+            clause.group = inner;
+          }
+        }
+        continue;
+      }
+
+      // Stray units, dashes or multiplication signs outside a product
+      this.position++;
+    }
+
+    return clause;
+  }
+
+  private consumeWord(value: string, clause: Clause) {
+    if (value.startsWith('escurrid')) {
+      clause.kind = 'drained';
+    } else if (value.startsWith('neto') || value.startsWith('neta')) {
+      if (clause.kind !== 'drained') clause.kind = 'net';
+    } else if (APPROX_WORDS.includes(value)) {
+      this.approximate = true;
+    } else if (CONTAINER_WORDS.includes(value)) {
+      this.container = this.container || value.replace(/s$/, '');
+    } else if (!FILLER_WORDS.includes(value)) {
+      this.ignoredWords.push(value);
+    }
+  }
+
+  private parseProduct(): Term[] {
+    const terms: Term[] = this.parseTerm();
+
+    while (this.position < this.tokens.length) {
+      const token = this.peek()!;
+      const next = this.peek(1);
+
+      if (token.type === 'times' && isQuantity(next)) {
+        this.position++;
+        terms.push(...this.parseTerm());
+        continue;
+      }
+
+      // "24 latas de 33 cl"
+      if (token.type === 'word' && token.value === 'de' && isQuantity(next)) {
+        this.position++;
+        terms.push(...this.parseTerm());
+        continue;
+      }
+
+      // "12 ud 1 kg": implicit multiplication after a count
+      const last = terms[terms.length - 1];
+      if (isQuantity(token) && last.unit?.dimension === 'count') {
+        terms.push(...this.parseTerm());
+        continue;
+      }
+
+      break;
+    }
+
+    return terms;
+  }
+
+  private parseTerm(): Term[] {
+    const first = this.peek() as Extract<Token, { type: 'number' | 'ratio' }>;
+    this.position++;
+    if (first.type === 'ratio') return this.parseRatio(first);
+
+    const term: Term = { min: first.value, max: first.value };
+
+    const token = this.peek();
+    const next = this.peek(1);
+    const isRangeSeparator =
+      token?.type === 'dash' ||
+      (token?.type === 'word' && RANGE_WORDS.includes(token.value));
+
+    if (isRangeSeparator && next?.type === 'number') {
+      this.position += 2;
+      term.max = (next as { value: number }).value;
+      if (term.max < term.min) [term.min, term.max] = [term.max, term.min];
+    }
+
+    term.unit = this.parseUnit();
+    return [term];
+  }
+
+  /**
+   * "1/2 kg" is half a kilo; "Caja 6/1 L" and "24/0,33 L" are 6 × 1 L and 24 × 0,33 L, which
+   * only a container of several items tells apart from a fraction. Anything else is ambiguous.
+   */
+  private parseRatio({ numerator, denominator, text }: Extract<Token, { type: 'ratio' }>): Term[] {
+    const unit = this.parseUnit();
+    const isFraction = Number.isInteger(numerator) && Number.isInteger(denominator)
+      && numerator < denominator && denominator <= 8;
+
+    if (isFraction) {
+      const value = numerator / denominator;
+      return [{ min: value, max: value, unit }];
+    }
+
+    if (!this.multiContainer || denominator === 0) {
+      this.ambiguous = this.ambiguous || text;
+    }
+    return [{ min: numerator, max: numerator }, { min: denominator, max: denominator, unit }];
+  }
+
+  private parseUnit(): Term['unit'] {
+    const unit = this.peek();
+    if (unit?.type !== 'unit') return undefined;
+
+    this.position++;
+    return { value: unit.value, dimension: unit.dimension, factor: unit.factor };
+  }
+}
+
+const isQuantity = (token: Token | undefined) => token?.type === 'number' || token?.type === 'ratio';
+
+function productOf(values: number[]): number {
+  return values.reduce((acc, value) => acc * value, 1);
+}
+
+/**
+ * Collapse a product of terms into levels + innermost quantity
+ */
+function evaluateProduct(
+  terms: Term[],
+  warnings: string[]
+): { levels: number[]; quantity: PackQuantity; hasUnit: boolean; conflict: boolean } {
+  const measures = terms.filter(t => t.unit && t.unit.dimension !== 'count');
+  const conflict = measures.length > 1;
+  if (conflict) {
+    warnings.push('Varias cantidades en la misma parte; se usa la última');
+  }
+
+  const measure = measures[measures.length - 1];
+  const multipliers = terms.filter(t => t !== measure);
+  const levels = multipliers.map(t => (t.min + t.max) / 2 * (t.unit?.factor ?? 1));
+
+  const innermost = measure || multipliers.pop();
+  if (!measure) levels.pop();
+
+  const dimension: UnitDimension = innermost.unit?.dimension ?? 'count';
+  const factor = innermost.unit?.factor ?? 1;
+  const quantity: PackQuantity = {
+    amount: (innermost.min + innermost.max) / 2 * factor,
+    unit: BASE_UNITS[dimension],
+    sourceUnit: innermost.unit?.value
+  };
+
+  if (innermost.min !== innermost.max) {
+    quantity.min = innermost.min * factor;
+    quantity.max = innermost.max * factor;
+  }
+
+  return { levels, quantity, hasUnit: terms.some(t => !!t.unit), conflict };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Parse a pack label into a structured breakdown.
+ * Labels without any recognisable quantity are reported as failures rather than guessed.
+ */
+export function parsePackLabel(label: string): PackParseResult {
+  if (!label || !label.trim()) {
+    return { success: false, error: 'Formato vacío' };
+  }
+
+  const grammar = new PackGrammar(tokenize(label));
+  const clauses = grammar.parse();
+
+  if (clauses.length === 0) {
+    return { success: false, error: `No se reconoce ninguna cantidad en "${label}"` };
+  }
+
+  if (grammar.ambiguous) {
+    return { success: false, error: `"${grammar.ambiguous}" puede ser una fracción o un pack en "${label}"` };
+  }
+
+  const warnings: string[] = [];
+  let confidence = 1;
+
+  const evaluated = clauses.map(clause => ({ clause, ...evaluateProduct(clause.terms, warnings) }));
+  const drained = evaluated.find(e => e.clause.kind === 'drained');
+  const net = evaluated.find(e => e.clause.kind === 'net');
+  const main = evaluated.find(e => e.clause.kind === 'plain') || drained || net!;
+
+  if (!evaluated.some(e => e.hasUnit)) {
+    warnings.push('Sin unidad de medida; se asume "ud"');
+    confidence -= 0.5;
+  }
+
+  if (evaluated.some(e => e.conflict)) confidence -= 0.3;
+
+  // Drained weight is what actually reaches the plate, so it drives pricing when present
+  const pricing = drained || main;
+  const levels = pricing.levels;
+  const multiplier = productOf(levels);
+  const total = round(pricing.quantity.amount * multiplier);
+
+  const breakdown: PackBreakdown = {
+    label,
+    container: grammar.container,
+    levels,
+    unitQuantity: pricing.quantity,
+    total,
+    unit: pricing.quantity.unit,
+    approximate: grammar.approximate,
+    confidence: 1,
+    warnings
+  };
+
+  if (net) breakdown.net = { ...net.quantity, amount: round(net.quantity.amount * productOf(net.levels)) };
+  if (drained) breakdown.drained = { ...drained.quantity, amount: round(drained.quantity.amount * productOf(drained.levels)) };
+
+  if (pricing.quantity.min !== undefined && pricing.quantity.max !== undefined) {
+    breakdown.range = {
+      min: round(pricing.quantity.min * multiplier),
+      max: round(pricing.quantity.max * multiplier)
+    };
+    breakdown.approximate = true;
+    confidence -= 0.2;
+  }
+
+  if (grammar.approximate) confidence -= 0.15;
+
+  // "Saco 25 kg (5×5)": the group should multiply out to the main quantity
+  const group = pricing.clause.group;
+  if (group && group.length > 0) {
+    const detail = evaluateProduct(group, []);
+    // Unitless groups inherit the unit of the main quantity
+    const sourceFactor = resolveUnit(pricing.quantity.sourceUnit || '')?.factor ?? 1;
+    const innerAmount = detail.hasUnit ? detail.quantity.amount : detail.quantity.amount * sourceFactor;
+    const innerUnit = detail.hasUnit ? detail.quantity.unit : pricing.quantity.unit;
+    const groupTotal = innerAmount * productOf(detail.levels);
+
+    if (innerUnit !== pricing.quantity.unit) {
+      // "Caja 5 kg (12 ud)": informative only, nothing to cross-check
+    } else if (Math.abs(groupTotal - total) <= total * 0.01) {
+      if (levels.length === 0 && detail.levels.length > 0) {
+        breakdown.levels = detail.levels;
+        breakdown.unitQuantity = { ...pricing.quantity, amount: round(innerAmount) };
+      }
+    } else {
+      warnings.push('El desglose entre paréntesis no coincide con el total');
+      confidence -= 0.2;
+    }
+  }
+
+  // "1 kg / 2 kg", "Neto 500 g / 400 g": clauses other than the drained one describe the same content
+  const totals = evaluated
+    .filter(e => e.clause.kind !== 'drained')
+    .map(e => ({ unit: e.quantity.unit, amount: e.quantity.amount * productOf(e.levels) }));
+  const disagree = totals.some(a => totals.some(b =>
+    a.unit === b.unit && Math.abs(a.amount - b.amount) > Math.max(a.amount, b.amount) * 0.01
+  ));
+  if (disagree) {
+    warnings.push('Las cantidades del formato no coinciden entre sí');
+    confidence -= 0.3;
+  }
+
+  if (net && drained && drained.quantity.unit === net.quantity.unit && breakdown.drained!.amount > breakdown.net!.amount) {
+    warnings.push('El peso escurrido supera al peso neto');
+    confidence -= 0.3;
+  }
+
+  if (grammar.ignoredWords.length > 0) {
+    confidence -= Math.min(0.2, grammar.ignoredWords.length * 0.05);
+  }
+
+  if (total <= 0) {
+    return { success: false, error: `Cantidad no válida en "${label}"` };
+  }
+
+  breakdown.confidence = Math.max(0.1, Math.round(confidence * 100) / 100);
+  return { success: true, pack: breakdown };
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString('es-ES', { maximumFractionDigits: 3 });
+}
+
+/**
+ * Human readable summary, e.g. "4 × 6 × 0,33 L = 7,92 L"
+ */
+export function describePackBreakdown(pack: PackBreakdown): string {
+  const inner = `${formatAmount(pack.unitQuantity.amount)} ${pack.unitQuantity.unit}`;
+  const levels = pack.levels.map(formatAmount);
+  const total = pack.range
+    ? `${formatAmount(pack.range.min)}–${formatAmount(pack.range.max)} ${pack.unit}`
+    : `${formatAmount(pack.total)} ${pack.unit}`;
+
+  const parts = levels.length > 0 ? `${[...levels, inner].join(' × ')} = ${total}` : total;
+  const qualifiers = [
+    pack.drained && 'escurrido',
+    pack.approximate && 'aprox.'
+  ].filter(Boolean);
+
+  return qualifiers.length > 0 ? `${parts} (${qualifiers.join(', ')})` : parts;
+}
@@ -0,0 +1,134 @@
+// Price tables rebuilt from the positioned text items of a PDF text layer (pdf.js getTextContent)
+
+export interface PdfTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfTable {
+  columns: string[];
+  rows: string[][];
+  text: string;    // every line of the text layer, for invoice header fields
+  tables: number;  // pages where table rows were found
+}
+
+// Look for common header patterns in the first rows
+const HEADER_PATTERNS = [
+  /referencia|código|code|ref/i,
+  /descripción|producto|nombre|name|description/i,
+  /formato|presentación|format|pack/i,
+  /precio|price|pvp|importe/i,
+  /unidad|unit|medida/i,
+  /iva|igic|tax/i,
+  /proveedor|supplier|distribuidor/i
+];
+
+/**
+ * How many cells of a row read like column headers (price, product, unit...)
+ */
+export function countHeaderMatches(row: string[]): number {
+  return row.reduce((matches, cell) =>
+    matches + HEADER_PATTERNS.filter(pattern => pattern.test(cell)).length, 0);
+}
+
+/**
+ * Text items of a pdf.js page, trimmed and without the empty ones
+ */
+export function toPdfTextItems(items: unknown[]): PdfTextItem[] {
+  return items
+    .filter((item): item is { str: string; transform: number[]; width?: number; height?: number } =>
+      typeof item === 'object' && item !== null && 'str' in item && 'transform' in item)
+    .map(item => ({
+      text: item.str.trim(),
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width || 0,
+      height: item.height || 12
+    }))
+    .filter(item => item.text.length > 0);
+}
+
+/**
+ * Group text items into lines, top to bottom and left to right
+ */
+export function groupTextLines(textItems: PdfTextItem[]): string[][] {
+  if (textItems.length === 0) return [];
+
+  // Group items by Y coordinate (rows)
+  const rowGroups = new Map<number, Array<{ text: string; x: number }>>();
+
+  textItems.forEach(item => {
+    // Round Y coordinate to group items on same line
+    const rowY = Math.round(item.y / 5) * 5;
+
+    if (!rowGroups.has(rowY)) {
+      rowGroups.set(rowY, []);
+    }
+
+    rowGroups.get(rowY)!.push({
+      text: item.text,
+      x: item.x
+    });
+  });
+
+  // Reverse sort for PDF coordinates, then left to right inside each row
+  return Array.from(rowGroups.entries())
+    .sort((a, b) => b[0] - a[0])
+    .map(([, items]) => items
+      .sort((a, b) => a.x - b.x)
+      .map(item => item.text));
+}
+
+/**
+ * Detect column headers from the first few rows; generic names when none look like headers
+ */
+export function detectPdfColumns(rows: string[][]): string[] {
+  if (rows.length === 0) return [];
+
+  let bestHeaderRow: string[] = [];
+  let maxMatches = 0;
+
+  for (let i = 0; i < Math.min(3, rows.length); i++) {
+    const row = rows[i];
+    const matches = countHeaderMatches(row);
+
+    if (matches > maxMatches) {
+      maxMatches = matches;
+      bestHeaderRow = row;
+    }
+  }
+
+  if (maxMatches === 0) {
+    return rows[0].map((_, index) => `Columna ${index + 1}`);
+  }
+
+  return bestHeaderRow;
+}
+
+/**
+ * Table of a whole document, one array of text items per page. Table rows are the
+ * lines with several columns; the header is taken from the first page that has any.
+ */
+export function extractPdfTable(pages: PdfTextItem[][]): PdfTable {
+  const rows: string[][] = [];
+  const textLines: string[] = [];
+  let columns: string[] = [];
+  let tables = 0;
+
+  pages.forEach(items => {
+    const lines = groupTextLines(items);
+    textLines.push(...lines.map(line => line.join(' ')));
+
+    const pageRows = lines.filter(row => row.length > 1);
+    if (pageRows.length === 0) return;
+
+    tables++;
+    if (columns.length === 0) columns = detectPdfColumns(pageRows);
+    rows.push(...pageRows);
+  });
+
+  return { columns, rows, text: textLines.join('\n'), tables };
+}
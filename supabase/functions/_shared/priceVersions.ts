@@ -0,0 +1,88 @@
+// Versioned supplier prices: each price is valid in [effective_from, effective_to) and a new
+// price list closes the versions it overlaps on its own effective date
+
+export interface DatedPrice {
+  id: string;
+  effective_from: string | null;
+  effective_to: string | null;
+  is_active: boolean | null;
+}
+
+export interface PriceClosure {
+  id: string;
+  effective_to: string | null;
+  is_active: boolean;
+  previous: { effective_to: string | null; is_active: boolean | null };
+}
+
+export interface PriceVersionPlan {
+  closures: PriceClosure[];     // existing versions to close or replace
+  effectiveTo: string | null;   // end of the new version: the next scheduled one, if any
+}
+
+const time = (value: string | null, fallback: number) => (value ? new Date(value).getTime() : fallback);
+
+/**
+ * Whether a price applies at the given instant. Replaced versions never apply.
+ */
+export function isPriceValidAt(price: Omit<DatedPrice, 'id'>, at: Date): boolean {
+  if (price.is_active === false) return false;
+  const instant = at.getTime();
+  return time(price.effective_from, -Infinity) <= instant && instant < time(price.effective_to, Infinity);
+}
+
+/**
+ * Where a new version starting at effectiveFrom fits among the existing versions of a product.
+ * Versions that started before it and are still open are closed on that date; a version with
+ * the same start is replaced; a later (scheduled) version ends the new one where it starts.
+ */
+export function planPriceVersion(existing: DatedPrice[], effectiveFrom: string): PriceVersionPlan {
+  const start = new Date(effectiveFrom).getTime();
+  const closures: PriceClosure[] = [];
+  let effectiveTo: string | null = null;
+
+  existing
+    .filter(price => price.is_active !== false)
+    .forEach(price => {
+      const previous = { effective_to: price.effective_to, is_active: price.is_active };
+      const priceStart = time(price.effective_from, -Infinity);
+      const priceEnd = time(price.effective_to, Infinity);
+
+      if (priceStart === start) {
+        closures.push({ id: price.id, effective_to: price.effective_to, is_active: false, previous });
+      } else if (priceStart > start) {
+        if (effectiveTo === null || priceStart < new Date(effectiveTo).getTime()) {
+          effectiveTo = price.effective_from;
+        }
+      } else if (priceEnd > start) {
+        closures.push({ id: price.id, effective_to: effectiveFrom, is_active: true, previous });
+      }
+    });
+
+  return { closures, effectiveTo };
+}
+
+/**
+ * Last instant of a calendar day (yyyy-mm-dd, local time): what was valid "on" that day
+ * includes the prices that came into force during it
+ */
+export function endOfDay(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day + 1, 0, 0, 0, -1);
+}
+
+/**
+ * First instant of a calendar day (yyyy-mm-dd, local time), where a dated price list starts
+ */
+export function startOfDay(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Today as yyyy-mm-dd in local time, the value of a date input
+ */
+export function todayIso(now = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
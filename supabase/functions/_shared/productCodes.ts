@@ -0,0 +1,64 @@
+// Supplier article codes and EAN/GTIN barcodes: the identity of a supplier product across price
+// lists, stronger than its name, which suppliers reword from one list to the next
+
+export interface ProductCodes {
+  sku: string | null;  // supplier's own article code
+  ean: string | null;  // GTIN-8/12/13/14, digits only and check digit verified
+}
+
+export interface CodedProduct {
+  id: string;
+  supplier_id: string;
+  ingredient_id: string;
+  supplier_sku: string | null;
+  ean: string | null;
+}
+
+/**
+ * Article code as compared between lists: case, spaces, dots and dashes are formatting
+ */
+export function normalizeSku(code: string | null | undefined): string | null {
+  const normalized = (code ?? '').toUpperCase().replace(/[\s.\-_/]/g, '');
+  return normalized || null;
+}
+
+/**
+ * Barcode digits when the value is a GTIN with a valid check digit; null otherwise
+ */
+export function normalizeEan(code: string | null | undefined): string | null {
+  const digits = (code ?? '').replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits) || ![8, 12, 13, 14].includes(digits.length)) return null;
+
+  // GS1 check digit: weights 3 and 1 alternate from the rightmost data digit
+  const body = digits.slice(0, -1);
+  const sum = body
+    .split('')
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  const check = (10 - (sum % 10)) % 10;
+
+  return check === Number(digits[digits.length - 1]) ? digits : null;
+}
+
+/**
+ * Codes of a row. A reference that is a valid barcode doubles as the EAN when the file has no
+ * EAN column, since many suppliers list products by barcode only.
+ */
+export function productCodes(referencia?: string | null, ean?: string | null): ProductCodes {
+  return {
+    sku: normalizeSku(referencia),
+    ean: normalizeEan(ean) ?? normalizeEan(referencia)
+  };
+}
+
+export const hasCodes = (codes: ProductCodes) => codes.sku !== null || codes.ean !== null;
+
+/**
+ * Supplier product carrying one of the codes: the article code first, the barcode after
+ */
+export function findProductByCode(products: CodedProduct[], supplierId: string, codes: ProductCodes): CodedProduct | null {
+  const ofSupplier = products.filter(product => product.supplier_id === supplierId);
+  return (codes.sku && ofSupplier.find(product => product.supplier_sku === codes.sku))
+    || (codes.ean && ofSupplier.find(product => product.ean === codes.ean))
+    || null;
+}
@@ -0,0 +1,261 @@
+// Locate the price table inside a spreadsheet sheet: header row below logos and address blocks,
+// merged cells, and sub-header rows naming the family of the items below them
+
+export interface CellRange {
+  s: { r: number; c: number };
+  e: { r: number; c: number };
+}
+
+export interface SheetTable {
+  name: string;
+  headerRow: number;             // 0-based row of the sheet used as header
+  columns: string[];
+  rows: string[][];
+  families: (string | null)[];   // sub-header family above each row
+  hasFamilies: boolean;
+  text: string;                  // every non-empty row, for document fields outside the table
+}
+
+// The part of SheetJS used here: the browser bundles it, the edge functions load it from a CDN
+export interface SheetJsSheet {
+  '!ref'?: string;
+  '!merges'?: CellRange[];
+}
+
+export interface SheetJs {
+  read(data: ArrayBuffer, options: { type: 'array' }): { SheetNames: string[]; Sheets: Record<string, SheetJsSheet> };
+  utils: {
+    decode_range(ref: string): CellRange;
+    sheet_to_json(sheet: SheetJsSheet, options: { header: 1; defval: string; blankrows: boolean }): unknown[];
+  };
+}
+
+export interface CombinedSheets {
+  columns: string[];
+  rows: string[][];
+  text: string;
+  familyColumn?: string;  // column carrying sub-header (or sheet) families, when any
+}
+
+// Logos, addresses and titles rarely take more rows than this
+const HEADER_SCAN_ROWS = 30;
+
+const HEADER_KEYWORDS = [
+  /referencia|c[oó]digo|code|\bref\b|art[ií]culo|ean/i,
+  /descripci[oó]n|producto|nombre|name|denominaci[oó]n/i,
+  /formato|presentaci[oó]n|envase|pack|contenido/i,
+  /precio|price|pvp|importe|tarifa|coste/i,
+  /unidad|unit|medida|\bud\b/i,
+  /iva|igic|ipsi|tax/i,
+  /proveedor|supplier|marca/i,
+  /familia|categor[ií]a|secci[oó]n|subfamilia/i
+];
+
+const FAMILY_HEADER = /^(familia|family)$/i;
+
+const isNumeric = (value: string) => /^[-+]?[\d.,\s]+\s*[€%]?$/.test(value.trim());
+
+const nonEmpty = (row: string[]) => row.map(cell => cell.trim()).filter(Boolean);
+
+/**
+ * Copy the value of each merged range into every cell it covers, so a merged family or
+ * header cell reads the same from any column
+ */
+export function fillMergedCells(grid: string[][], merges: CellRange[]): string[][] {
+  const filled = grid.map(row => [...row]);
+
+  merges.forEach(({ s, e }) => {
+    const value = filled[s.r]?.[s.c] ?? '';
+    if (!value) return;
+
+    for (let r = s.r; r <= e.r; r++) {
+      if (!filled[r]) continue;
+      for (let c = s.c; c <= e.c; c++) {
+        filled[r][c] = value;
+      }
+    }
+  });
+
+  return filled;
+}
+
+/**
+ * Row holding the column names: several distinct text cells, header-like words, and a row
+ * with data below it. Titles and merged banners (one distinct value) never qualify.
+ */
+export function detectHeaderRow(grid: string[][]): number {
+  let bestRow = -1;
+  let bestScore = 0;
+
+  for (let r = 0; r < Math.min(grid.length, HEADER_SCAN_ROWS); r++) {
+    const cells = nonEmpty(grid[r]);
+    const distinct = new Set(cells.map(cell => cell.toLowerCase()));
+    if (distinct.size < 2) continue;
+
+    const textCells = cells.filter(cell => !isNumeric(cell));
+    if (textCells.length < 2) continue;
+
+    // Data below, possibly after a family sub-header
+    const below = grid.slice(r + 1).filter(row => nonEmpty(row).length > 0).slice(0, 3);
+    if (!below.some(row => nonEmpty(row).length >= 2)) continue;
+
+    const keywordHits = HEADER_KEYWORDS.filter(pattern => textCells.some(cell => pattern.test(cell))).length;
+    const score = keywordHits * 3 + textCells.length / cells.length + Math.min(distinct.size, 10) * 0.1;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestRow = r;
+    }
+  }
+
+  if (bestRow >= 0) return bestRow;
+
+  // Nothing header-like: the first row with several values
+  const firstRow = grid.findIndex(row => nonEmpty(row).length >= 2);
+  return firstRow >= 0 ? firstRow : 0;
+}
+
+/**
+ * A row naming the family of the items below it ("CONSERVAS", merged across the table):
+ * a single distinct text value
+ */
+export function subHeaderValue(row: string[]): string | null {
+  const cells = nonEmpty(row);
+  if (cells.length === 0) return null;
+
+  const distinct = new Set(cells);
+  if (distinct.size !== 1) return null;
+
+  const value = cells[0];
+  return !isNumeric(value) && value.length <= 80 ? value : null;
+}
+
+function uniqueColumnNames(header: string[]): string[] {
+  const seen = new Map<string, number>();
+
+  return header.map((cell, index) => {
+    const name = cell.trim() || `Columna ${index + 1}`;
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name} (${count})`;
+  });
+}
+
+export function extractSheetTable(name: string, grid: string[][], merges: CellRange[] = []): SheetTable {
+  const filled = fillMergedCells(grid, merges);
+  const headerRow = detectHeaderRow(filled);
+  const body = filled.slice(headerRow + 1);
+
+  // Trailing columns that are empty everywhere are layout, not data
+  const width = [filled[headerRow] || [], ...body].reduce((max, row) => {
+    const last = row.reduce((lastIndex, cell, index) => (cell.trim() ? index : lastIndex), -1);
+    return Math.max(max, last + 1);
+  }, 0);
+
+  const header = Array.from({ length: width }, (_, index) => filled[headerRow]?.[index] ?? '');
+  const columns = uniqueColumnNames(header);
+  const headerKey = header.map(cell => cell.trim().toLowerCase()).join('|');
+
+  const rows: string[][] = [];
+  const families: (string | null)[] = [];
+  let family: string | null = null;
+
+  body.forEach(row => {
+    const cells = Array.from({ length: width }, (_, index) => (row[index] ?? '').trim());
+    if (cells.every(cell => !cell)) return;
+
+    // Header repeated at each printed page
+    if (cells.map(cell => cell.toLowerCase()).join('|') === headerKey) return;
+
+    const subHeader = subHeaderValue(cells);
+    if (subHeader) {
+      family = subHeader;
+      return;
+    }
+
+    rows.push(cells);
+    families.push(family);
+  });
+
+  return {
+    name,
+    headerRow,
+    columns,
+    rows,
+    families,
+    hasFamilies: families.some(value => value !== null),
+    text: grid.map(row => nonEmpty(row).join(' ')).filter(Boolean).join('\n')
+  };
+}
+
+/**
+ * Rows of several sheets under one header, columns joined by name. The family of each row
+ * comes from its own family column, its sub-header, or the sheet name when several sheets
+ * are combined (one sheet per family).
+ */
+export function combineSheetTables(tables: SheetTable[]): CombinedSheets {
+  const columns: string[] = [];
+  tables.forEach(table => table.columns.forEach(column => {
+    if (!columns.includes(column)) columns.push(column);
+  }));
+
+  const carriesFamily = tables.length > 1 || tables.some(table => table.hasFamilies);
+  let familyColumn = columns.find(column => FAMILY_HEADER.test(column.trim()));
+  if (carriesFamily && !familyColumn) {
+    familyColumn = 'Familia';
+    columns.push(familyColumn);
+  }
+  const familyIndex = familyColumn ? columns.indexOf(familyColumn) : -1;
+
+  const rows: string[][] = [];
+  tables.forEach(table => {
+    const positions = table.columns.map(column => columns.indexOf(column));
+
+    table.rows.forEach((row, rowIndex) => {
+      const combined = columns.map(() => '');
+      row.forEach((cell, index) => {
+        combined[positions[index]] = cell;
+      });
+
+      if (carriesFamily && familyIndex >= 0 && !combined[familyIndex]) {
+        combined[familyIndex] = table.families[rowIndex] || (tables.length > 1 ? table.name : '');
+      }
+      rows.push(combined);
+    });
+  });
+
+  return {
+    columns,
+    rows,
+    text: tables.map(table => table.text).join('\n'),
+    familyColumn: carriesFamily ? familyColumn : undefined
+  };
+}
+
+/**
+ * Every sheet of a workbook with its table located (header row, sub-header families).
+ * Sheets without data rows are left out.
+ */
+export function readWorkbookTables(xlsx: SheetJs, data: ArrayBuffer): SheetTable[] {
+  const workbook = xlsx.read(data, { type: 'array' });
+
+  return workbook.SheetNames
+    .map(name => readSheetTable(xlsx, name, workbook.Sheets[name]))
+    .filter(table => table.rows.length > 0);
+}
+
+function readSheetTable(xlsx: SheetJs, name: string, worksheet: SheetJsSheet): SheetTable {
+  if (!worksheet['!ref']) return extractSheetTable(name, []);
+
+  // Blank rows are kept so merge ranges still line up with the grid
+  const range = xlsx.utils.decode_range(worksheet['!ref']);
+  const grid = (xlsx.utils.sheet_to_json(worksheet, { header: 1, defval: '', blankrows: true }) as unknown[][])
+    .map(row => row.map(cell => (cell === null || cell === undefined ? '' : String(cell))));
+
+  const merges = (worksheet['!merges'] || []).map(merge => ({
+    s: { r: merge.s.r - range.s.r, c: merge.s.c - range.s.c },
+    e: { r: merge.e.r - range.s.r, c: merge.e.c - range.s.c }
+  }));
+
+  return extractSheetTable(name, grid, merges);
+}
@@ -0,0 +1,96 @@
+// Resolution of supplier names ("MAKRO AUTOSERVICIO", "Makro Cash&Carry") to one suppliers row
+
+export interface SupplierCandidate {
+  id: string;
+  name: string;
+}
+
+export interface SupplierAliasEntry {
+  supplier_id: string;
+  alias: string;
+}
+
+export interface SupplierMatch {
+  supplierId: string;
+  supplierName: string;
+  kind: 'exact' | 'alias';
+}
+
+interface IndexedSupplier {
+  supplierId: string;
+  name: string;
+  isAlias: boolean;
+}
+
+export interface SupplierIndex {
+  byCanonical: Map<string, IndexedSupplier>;
+  supplierNames: Map<string, string>;
+}
+
+const LEGAL_FORMS = new Set(['sl', 'sa', 'slu', 'sau', 'sll', 'slne', 'scoop', 'coop', 'cb', 'sc', 'ltd', 'inc', 'gmbh', 'srl', 'spa', 'sas']);
+
+// Trade descriptors that vary between invoices of the same supplier
+const GENERIC_WORDS = new Set([
+  'cash', 'carry', 'autoservicio', 'mayorista', 'mayoristas', 'distribuciones', 'distribucion', 'distribuidora',
+  'comercial', 'grupo', 'hnos', 'hermanos', 'cia', 'y', 'de', 'del', 'la', 'el', 'los', 'las'
+]);
+
+/**
+ * Canonical supplier name: folded case and accents, legal forms and trade descriptors removed.
+ * Falls back to the folded name when nothing distinctive is left.
+ */
+export function canonicalizeSupplierName(name: string): string {
+  const folded = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    // "S.L.", "S.A.U." -> "sl", "sau"
+    .replace(/\b((?:[a-z]\.){1,3}[a-z]?)(?=\s|,|$)/g, match => match.replace(/\./g, ''))
+    .replace(/&/g, ' ');
+
+  const words = folded.split(/[^a-z0-9]+/).filter(Boolean);
+  const distinctive = words.filter(word => !LEGAL_FORMS.has(word) && !GENERIC_WORDS.has(word));
+
+  return (distinctive.length > 0 ? distinctive : words).join(' ');
+}
+
+export function buildSupplierIndex(suppliers: SupplierCandidate[], aliases: SupplierAliasEntry[] = []): SupplierIndex {
+  const index: SupplierIndex = {
+    byCanonical: new Map(),
+    supplierNames: new Map()
+  };
+
+  suppliers.forEach(supplier => addSupplierToIndex(index, supplier.id, supplier.name, false));
+  aliases.forEach(alias => {
+    if (index.supplierNames.has(alias.supplier_id)) {
+      addSupplierToIndex(index, alias.supplier_id, alias.alias, true);
+    }
+  });
+
+  return index;
+}
+
+export function addSupplierToIndex(index: SupplierIndex, supplierId: string, name: string, isAlias: boolean) {
+  const canonical = canonicalizeSupplierName(name);
+  if (!canonical) return;
+
+  if (!isAlias && !index.supplierNames.has(supplierId)) {
+    index.supplierNames.set(supplierId, name);
+  }
+  // Supplier names win over aliases that canonicalize to the same text
+  const existing = index.byCanonical.get(canonical);
+  if (!existing || (existing.isAlias && !isAlias)) {
+    index.byCanonical.set(canonical, { supplierId, name, isAlias });
+  }
+}
+
+export function findSupplier(index: SupplierIndex, name: string): SupplierMatch | null {
+  const entry = index.byCanonical.get(canonicalizeSupplierName(name));
+  if (!entry) return null;
+
+  return {
+    supplierId: entry.supplierId,
+    supplierName: index.supplierNames.get(entry.supplierId) || entry.name,
+    kind: entry.isAlias ? 'alias' : 'exact'
+  };
+}
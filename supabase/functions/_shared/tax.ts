@@ -0,0 +1,100 @@
+// Tax regimes (IGIC, IVA, IPSI), per-product tax categories and net/gross price helpers
+
+export type TaxRegime = 'IGIC' | 'IVA' | 'IPSI';
+export type TaxCategory = 'zero' | 'super_reduced' | 'reduced' | 'general';
+
+/**
+ * Whether amounts are shown without (net) or with (gross) tax
+ */
+export type TaxDisplayMode = 'net' | 'gross';
+
+export interface TaxRates {
+  zero_rate: number;
+  super_reduced_rate: number | null;
+  reduced_rate: number;
+  general_rate: number;
+}
+
+// A tax_profiles row
+export interface TaxProfile extends TaxRates {
+  id: string;
+  organization_id: string;
+  name: string;
+  regime: TaxRegime;
+  prices_include_tax: boolean;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PriceBreakdown {
+  net: number;
+  tax: number;
+  gross: number;
+}
+
+/**
+ * Starting rates (percent) when creating a profile; editable afterwards
+ */
+export const TAX_REGIME_PRESETS: Record<TaxRegime, TaxRates & { label: string }> = {
+  IGIC: { label: 'IGIC (Canarias)', zero_rate: 0, super_reduced_rate: null, reduced_rate: 3, general_rate: 7 },
+  IVA: { label: 'IVA (Península y Baleares)', zero_rate: 0, super_reduced_rate: 4, reduced_rate: 10, general_rate: 21 },
+  IPSI: { label: 'IPSI (Ceuta y Melilla)', zero_rate: 0, super_reduced_rate: 0.5, reduced_rate: 1, general_rate: 4 }
+};
+
+export const TAX_CATEGORY_LABELS: Record<TaxCategory, string> = {
+  zero: 'Tipo cero / exento',
+  super_reduced: 'Superreducido',
+  reduced: 'Reducido',
+  general: 'General'
+};
+
+export const TAX_CATEGORIES: TaxCategory[] = ['zero', 'super_reduced', 'reduced', 'general'];
+
+/**
+ * Rate (percent) for a product category; regimes without a super-reduced rate fall back to reduced
+ */
+export function resolveTaxRate(rates: TaxRates | null | undefined, category: TaxCategory | null | undefined): number {
+  if (!rates) return 0;
+
+  switch (category || 'general') {
+    case 'zero':
+      return rates.zero_rate;
+    case 'super_reduced':
+      return rates.super_reduced_rate ?? rates.reduced_rate;
+    case 'reduced':
+      return rates.reduced_rate;
+    default:
+      return rates.general_rate;
+  }
+}
+
+/**
+ * Split a price into net, tax and gross given whether it already includes the tax
+ */
+export function splitTax(amount: number, taxPct: number | null | undefined, taxIncluded: boolean): PriceBreakdown {
+  const rate = (taxPct || 0) / 100;
+
+  if (taxIncluded) {
+    const net = amount / (1 + rate);
+    return { net, tax: amount - net, gross: amount };
+  }
+
+  const tax = amount * rate;
+  return { net: amount, tax, gross: amount + tax };
+}
+
+export function priceForDisplay(
+  amount: number,
+  taxPct: number | null | undefined,
+  taxIncluded: boolean,
+  mode: TaxDisplayMode
+): number {
+  const breakdown = splitTax(amount, taxPct, taxIncluded);
+  return mode === 'gross' ? breakdown.gross : breakdown.net;
+}
+
+export function taxModeLabel(mode: TaxDisplayMode, regime?: TaxRegime): string {
+  const name = regime || 'impuestos';
+  return mode === 'gross' ? `con ${name}` : `sin ${name}`;
+}
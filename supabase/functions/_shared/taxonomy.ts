@@ -0,0 +1,444 @@
+// Per-organization category › family › subfamily tree and the classifier that places imported products in it
+import { nameTokens } from './ingredientMatcher.ts';
+
+export type TaxonomyLevel = 'category' | 'family' | 'subfamily';
+
+/**
+ * manual: a person placed the ingredient
+ * auto: placed by an imported value that exists in the tree, past assignments or a keyword rule
+ * pending: unknown free text or nothing conclusive, waiting for a person
+ */
+export type ClassificationStatus = 'manual' | 'auto' | 'pending';
+
+export type ClassificationSource = 'value' | 'history' | 'keyword';
+
+export interface TaxonomyNode {
+  id: string;
+  parent_id: string | null;
+  level: string;
+  name: string;
+  keywords: string[];
+}
+
+export interface TaxonomyTree {
+  nodes: Map<string, TaxonomyNode>;
+  children: Map<string | null, TaxonomyNode[]>; // null holds the categories
+}
+
+export interface TaxonomyPath {
+  category: string | null;
+  family: string | null;
+  subfamily: string | null;
+}
+
+// An ingredient already placed in the tree, used to classify similar names
+export interface PastAssignment {
+  name: string;
+  taxonomy_node_id: string;
+}
+
+export interface TaxonomyClassifier {
+  tree: TaxonomyTree;
+  keywordRules: { nodeId: string; tokens: string[] }[];
+  history: Map<string, Map<string, number>>; // name token -> node id -> ingredients
+}
+
+export interface ClassificationInput {
+  name: string;
+  category?: string | null;
+  family?: string | null;
+  subfamily?: string | null;
+}
+
+export interface Classification {
+  nodeId: string | null;
+  path: TaxonomyPath;
+  status: ClassificationStatus;
+  source: ClassificationSource | null;
+  score: number;
+  unmatchedValue: string | null; // imported free text that does not exist in the tree
+}
+
+export interface TaxonomyTemplate {
+  name: string;
+  keywords?: string[];
+  children?: TaxonomyTemplate[];
+}
+
+export const TAXONOMY_LEVELS: { level: TaxonomyLevel; label: string }[] = [
+  { level: 'category', label: 'Categoría' },
+  { level: 'family', label: 'Familia' },
+  { level: 'subfamily', label: 'Subfamilia' }
+];
+
+// Share of the weighted name tokens that must point to the same node
+export const HISTORY_THRESHOLD = 0.6;
+
+export const DEFAULT_TAXONOMY: TaxonomyTemplate[] = [
+  {
+    name: 'Carnes',
+    keywords: ['carne'],
+    children: [
+      { name: 'Vacuno', keywords: ['ternera', 'vaca', 'buey', 'vacuno', 'añojo', 'solomillo', 'entrecot', 'chuleton', 'hamburguesa'] },
+      { name: 'Porcino', keywords: ['cerdo', 'porcino', 'lomo', 'panceta', 'secreto', 'presa', 'pluma', 'costilla', 'carrillera'] },
+      { name: 'Aves', keywords: ['pollo', 'pavo', 'pato', 'codorniz', 'pechuga', 'muslo', 'contramuslo', 'alita'] },
+      { name: 'Cordero y cabrito', keywords: ['cordero', 'lechazo', 'cabrito'] },
+      { name: 'Embutidos y curados', keywords: ['jamon', 'chorizo', 'salchichon', 'fuet', 'morcilla', 'sobrasada', 'bacon', 'salchicha', 'lomo embuchado'] }
+    ]
+  },
+  {
+    name: 'Pescados y mariscos',
+    children: [
+      { name: 'Pescado', keywords: ['pescado', 'merluza', 'lubina', 'dorada', 'rape', 'bacalao', 'salmon', 'atun', 'rodaballo', 'lenguado', 'sardina', 'boqueron', 'corvina'] },
+      { name: 'Marisco', keywords: ['marisco', 'gamba', 'langostino', 'cigala', 'bogavante', 'carabinero', 'mejillon', 'almeja', 'berberecho', 'navaja', 'vieira', 'ostra'] },
+      { name: 'Cefalópodos', keywords: ['pulpo', 'calamar', 'sepia', 'chipiron', 'choco'] },
+      { name: 'Ahumados y salazones', keywords: ['ahumado', 'anchoa', 'mojama', 'hueva'] }
+    ]
+  },
+  {
+    name: 'Frutas y verduras',
+    children: [
+      { name: 'Verduras y hortalizas', keywords: ['verdura', 'tomate', 'cebolla', 'ajo', 'patata', 'pimiento', 'zanahoria', 'lechuga', 'calabacin', 'berenjena', 'puerro', 'espinaca', 'brocoli', 'pepino', 'calabaza', 'alcachofa', 'esparrago'] },
+      { name: 'Setas', keywords: ['seta', 'champiñon', 'boletus', 'shiitake'] },
+      { name: 'Frutas', keywords: ['fruta', 'manzana', 'pera', 'platano', 'naranja', 'limon', 'lima', 'fresa', 'uva', 'melon', 'sandia', 'piña', 'mango', 'aguacate', 'kiwi', 'melocoton', 'frambuesa', 'arandano'] },
+      { name: 'Hierbas aromáticas', keywords: ['perejil', 'cilantro', 'albahaca', 'romero', 'tomillo', 'menta', 'hierbabuena', 'eneldo', 'cebollino'] }
+    ]
+  },
+  {
+    name: 'Lácteos y huevos',
+    children: [
+      { name: 'Leche y nata', keywords: ['leche', 'nata'] },
+      { name: 'Quesos', keywords: ['queso', 'mozzarella', 'parmesano', 'burrata', 'ricotta', 'mascarpone', 'manchego'] },
+      { name: 'Mantequillas y yogures', keywords: ['mantequilla', 'yogur', 'kefir', 'cuajada'] },
+      { name: 'Huevos', keywords: ['huevo', 'clara', 'yema'] }
+    ]
+  },
+  {
+    name: 'Despensa',
+    children: [
+      { name: 'Arroces y pastas', keywords: ['arroz', 'pasta', 'espagueti', 'macarron', 'fideo', 'tallarin', 'lasaña', 'cuscus'] },
+      { name: 'Legumbres', keywords: ['legumbre', 'garbanzo', 'lenteja', 'alubia', 'judion'] },
+      { name: 'Harinas y azúcares', keywords: ['harina', 'azucar', 'levadura', 'maicena', 'pan rallado', 'panko'] },
+      { name: 'Conservas', keywords: ['conserva', 'tomate triturado', 'tomate frito', 'pimiento del piquillo', 'atun en aceite'] },
+      { name: 'Especias', keywords: ['especia', 'pimenton', 'pimienta', 'comino', 'canela', 'oregano', 'azafran', 'nuez moscada', 'curry'] },
+      { name: 'Frutos secos', keywords: ['almendra', 'nuez', 'avellana', 'pistacho', 'anacardo', 'cacahuete', 'piñon'] }
+    ]
+  },
+  {
+    name: 'Aceites y condimentos',
+    children: [
+      { name: 'Aceites', keywords: ['aceite', 'aove'] },
+      { name: 'Vinagres', keywords: ['vinagre'] },
+      { name: 'Salsas y fondos', keywords: ['salsa', 'mayonesa', 'ketchup', 'mostaza', 'soja', 'caldo', 'fondo'] },
+      { name: 'Sal', keywords: ['sal', 'escamas de sal'] }
+    ]
+  },
+  {
+    name: 'Panadería y repostería',
+    children: [
+      { name: 'Pan', keywords: ['pan', 'baguette', 'chapata', 'mollete', 'brioche', 'pan de molde'] },
+      { name: 'Masas y bollería', keywords: ['hojaldre', 'croissant', 'masa', 'brick', 'obleas'] },
+      { name: 'Repostería', keywords: ['chocolate', 'cacao', 'gelatina', 'vainilla', 'cobertura'] }
+    ]
+  },
+  {
+    name: 'Bebidas',
+    children: [
+      { name: 'Aguas y refrescos', keywords: ['agua', 'refresco', 'tonica', 'gaseosa', 'zumo', 'cola'] },
+      { name: 'Cervezas', keywords: ['cerveza'] },
+      { name: 'Vinos y cavas', keywords: ['vino', 'cava', 'champagne', 'rioja', 'ribera', 'albariño', 'verdejo'] },
+      { name: 'Destilados y licores', keywords: ['ginebra', 'ron', 'whisky', 'vodka', 'brandy', 'licor', 'vermut', 'orujo'] },
+      { name: 'Café e infusiones', keywords: ['cafe', 'infusion', 'manzanilla', 'poleo'] }
+    ]
+  },
+  {
+    name: 'Limpieza y menaje',
+    children: [
+      { name: 'Limpieza', keywords: ['detergente', 'lejia', 'friegasuelos', 'jabon', 'desengrasante', 'bayeta', 'estropajo', 'abrillantador'] },
+      { name: 'Desechables', keywords: ['servilleta', 'mantel', 'film', 'aluminio', 'guante', 'vaso', 'pajita'] }
+    ]
+  }
+];
+
+/**
+ * Comparable form of a node name or imported value: "Frutas y Verduras" and "fruta verdura" are the same
+ */
+export function normalizeTaxonomyName(name: string): string {
+  return nameTokens(name).join(' ') || name.trim().toLowerCase();
+}
+
+export function buildTaxonomyTree(nodes: TaxonomyNode[]): TaxonomyTree {
+  const tree: TaxonomyTree = { nodes: new Map(), children: new Map() };
+
+  [...nodes]
+    .sort((a, b) => a.name.localeCompare(b.name, 'es'))
+    .forEach(node => {
+      tree.nodes.set(node.id, node);
+      const siblings = tree.children.get(node.parent_id) || [];
+      siblings.push(node);
+      tree.children.set(node.parent_id, siblings);
+    });
+
+  return tree;
+}
+
+export function childLevel(level: string | null): TaxonomyLevel | null {
+  if (level === null) return 'category';
+  if (level === 'category') return 'family';
+  if (level === 'family') return 'subfamily';
+  return null;
+}
+
+// Node first, root last
+function ancestry(tree: TaxonomyTree, nodeId: string): TaxonomyNode[] {
+  const chain: TaxonomyNode[] = [];
+  let node = tree.nodes.get(nodeId);
+  while (node && chain.length < TAXONOMY_LEVELS.length) {
+    chain.push(node);
+    node = node.parent_id ? tree.nodes.get(node.parent_id) : undefined;
+  }
+  return chain;
+}
+
+export function nodePath(tree: TaxonomyTree, nodeId: string | null): TaxonomyPath {
+  const chain = nodeId ? ancestry(tree, nodeId).reverse() : [];
+  return {
+    category: chain[0]?.name ?? null,
+    family: chain[1]?.name ?? null,
+    subfamily: chain[2]?.name ?? null
+  };
+}
+
+export function nodeLabel(tree: TaxonomyTree, nodeId: string | null): string {
+  return nodeId ? ancestry(tree, nodeId).reverse().map(node => node.name).join(' › ') : '';
+}
+
+/**
+ * Every node in display order (categories, then each one's families and subfamilies) with its depth
+ */
+export function flattenTree(tree: TaxonomyTree): { node: TaxonomyNode; depth: number }[] {
+  const flat: { node: TaxonomyNode; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    (tree.children.get(parentId) || []).forEach(node => {
+      flat.push({ node, depth });
+      visit(node.id, depth + 1);
+    });
+  };
+  visit(null, 0);
+  return flat;
+}
+
+export function isDescendant(tree: TaxonomyTree, nodeId: string, ancestorId: string): boolean {
+  return ancestry(tree, nodeId).some(node => node.id === ancestorId);
+}
+
+function descendants(tree: TaxonomyTree, parentId: string | null): TaxonomyNode[] {
+  const found: TaxonomyNode[] = [];
+  const pending = [...(tree.children.get(parentId) || [])];
+  while (pending.length > 0) {
+    const node = pending.shift()!;
+    found.push(node);
+    pending.push(...(tree.children.get(node.id) || []));
+  }
+  return found;
+}
+
+function findByName(tree: TaxonomyTree, parent: TaxonomyNode | null, value: string): TaxonomyNode | null {
+  const normalized = normalizeTaxonomyName(value);
+  const sameName = (node: TaxonomyNode) => normalizeTaxonomyName(node.name) === normalized;
+
+  const child = (tree.children.get(parent?.id ?? null) || []).find(sameName);
+  if (child) return child;
+
+  // Files often give a family in the category column ("Quesos"): accept it when it is unambiguous
+  const deeper = descendants(tree, parent?.id ?? null).filter(sameName);
+  return deeper.length === 1 ? deeper[0] : null;
+}
+
+/**
+ * Deepest node named by the imported values, and the values that are not in the tree
+ */
+function resolveImportedValues(tree: TaxonomyTree, input: ClassificationInput): { node: TaxonomyNode | null; unmatched: string | null } {
+  const values = [input.category, input.family, input.subfamily]
+    .map(value => value?.trim() || null)
+    .filter((value): value is string => !!value);
+
+  let node: TaxonomyNode | null = null;
+  for (let i = 0; i < values.length; i++) {
+    const found = findByName(tree, node, values[i]);
+    if (!found) return { node, unmatched: values.slice(i).join(' › ') };
+    node = found;
+  }
+
+  return { node, unmatched: null };
+}
+
+export function buildClassifier(nodes: TaxonomyNode[], history: PastAssignment[] = []): TaxonomyClassifier {
+  const tree = buildTaxonomyTree(nodes);
+  const classifier: TaxonomyClassifier = { tree, keywordRules: [], history: new Map() };
+
+  nodes.forEach(node => {
+    [node.name, ...node.keywords].forEach(keyword => {
+      const tokens = nameTokens(keyword);
+      if (tokens.length > 0) classifier.keywordRules.push({ nodeId: node.id, tokens });
+    });
+  });
+
+  history.forEach(assignment => learnAssignment(classifier, assignment.name, assignment.taxonomy_node_id));
+  return classifier;
+}
+
+/**
+ * Count a classified ingredient towards its node and every ancestor
+ */
+export function learnAssignment(classifier: TaxonomyClassifier, name: string, nodeId: string) {
+  const chain = ancestry(classifier.tree, nodeId);
+  if (chain.length === 0) return;
+
+  new Set(nameTokens(name)).forEach(token => {
+    const votes = classifier.history.get(token) || new Map<string, number>();
+    chain.forEach(node => votes.set(node.id, (votes.get(node.id) || 0) + 1));
+    classifier.history.set(token, votes);
+  });
+}
+
+// The first token usually carries the product ("Tomate triturado", "Queso curado")
+function classifyByHistory(classifier: TaxonomyClassifier, tokens: string[]): { nodeId: string; score: number } | null {
+  const scores = new Map<string, number>();
+  let totalWeight = 0;
+
+  tokens.forEach((token, index) => {
+    const weight = index === 0 ? 2 : 1;
+    totalWeight += weight;
+
+    const votes = classifier.history.get(token);
+    if (!votes) return;
+
+    // Every ingredient votes once per level, so the categories hold the total
+    const total = Array.from(votes.entries())
+      .filter(([nodeId]) => !classifier.tree.nodes.get(nodeId)?.parent_id)
+      .reduce((sum, [, count]) => sum + count, 0);
+    if (total === 0) return;
+
+    votes.forEach((count, nodeId) => {
+      scores.set(nodeId, (scores.get(nodeId) || 0) + weight * count / total);
+    });
+  });
+
+  if (totalWeight === 0) return null;
+
+  // Deepest node that still clears the threshold
+  let best: { nodeId: string; score: number; depth: number } | null = null;
+  for (const [nodeId, sum] of scores) {
+    const score = sum / totalWeight;
+    if (score < HISTORY_THRESHOLD) continue;
+    const depth = ancestry(classifier.tree, nodeId).length;
+    if (!best || depth > best.depth || (depth === best.depth && score > best.score)) {
+      best = { nodeId, score, depth };
+    }
+  }
+
+  return best ? { nodeId: best.nodeId, score: best.score } : null;
+}
+
+// Longest keyword wins, then the one nearest the start of the name, then the deepest node
+function classifyByKeywords(classifier: TaxonomyClassifier, tokens: string[]): { nodeId: string; score: number } | null {
+  const matches = classifier.keywordRules
+    .map(rule => {
+      const positions = rule.tokens.map(token => tokens.indexOf(token));
+      if (positions.some(position => position < 0)) return null;
+      return {
+        nodeId: rule.nodeId,
+        length: rule.tokens.length,
+        position: Math.min(...positions),
+        depth: ancestry(classifier.tree, rule.nodeId).length
+      };
+    })
+    .filter((match): match is NonNullable<typeof match> => !!match)
+    .sort((a, b) => b.length - a.length || a.position - b.position || b.depth - a.depth);
+
+  const [best, runnerUp] = matches;
+  if (!best) return null;
+
+  // The same keyword in two unrelated branches says nothing
+  if (runnerUp && runnerUp.nodeId !== best.nodeId
+    && runnerUp.length === best.length && runnerUp.position === best.position && runnerUp.depth === best.depth) {
+    return null;
+  }
+
+  return { nodeId: best.nodeId, score: 0.8 };
+}
+
+function classifyByName(classifier: TaxonomyClassifier, name: string): { nodeId: string; score: number; source: ClassificationSource } | null {
+  const tokens = nameTokens(name);
+  if (tokens.length === 0) return null;
+
+  const fromHistory = classifyByHistory(classifier, tokens);
+  if (fromHistory) return { ...fromHistory, source: 'history' };
+
+  const fromKeywords = classifyByKeywords(classifier, tokens);
+  return fromKeywords ? { ...fromKeywords, source: 'keyword' } : null;
+}
+
+/**
+ * Place an imported product in the tree. Imported values that exist in the tree are kept;
+ * values that do not are recorded and leave the product pending with the best guess from its name.
+ * Without a tree the imported values are kept as they come, pending review.
+ */
+export function classifyProduct(classifier: TaxonomyClassifier, input: ClassificationInput): Classification {
+  if (classifier.tree.nodes.size === 0) {
+    return {
+      nodeId: null,
+      path: { category: input.category || null, family: input.family || null, subfamily: input.subfamily || null },
+      status: 'pending',
+      source: null,
+      score: 0,
+      unmatchedValue: null
+    };
+  }
+
+  const imported = resolveImportedValues(classifier.tree, input);
+  const byName = classifyByName(classifier, input.name);
+  const result = (nodeId: string | null, status: ClassificationStatus, source: ClassificationSource | null, score: number): Classification => ({
+    nodeId,
+    path: nodePath(classifier.tree, nodeId),
+    status,
+    source,
+    score,
+    unmatchedValue: imported.unmatched
+  });
+
+  if (imported.unmatched) {
+    // Flagged: keep what did match, or the name's guess when it fits under it
+    if (byName && (!imported.node || isDescendant(classifier.tree, byName.nodeId, imported.node.id))) {
+      return result(byName.nodeId, 'pending', byName.source, byName.score);
+    }
+    return result(imported.node?.id ?? null, 'pending', imported.node ? 'value' : null, imported.node ? 1 : 0);
+  }
+
+  if (imported.node) {
+    // The name may refine a category-only value down to its family
+    if (byName && byName.nodeId !== imported.node.id && isDescendant(classifier.tree, byName.nodeId, imported.node.id)) {
+      return result(byName.nodeId, 'auto', byName.source, byName.score);
+    }
+    return result(imported.node.id, 'auto', 'value', 1);
+  }
+
+  return byName
+    ? result(byName.nodeId, 'auto', byName.source, byName.score)
+    : result(null, 'pending', null, 0);
+}
+
+/**
+ * Ingredient columns written for a classification
+ */
+export function classificationColumns(classification: Classification) {
+  return {
+    taxonomy_node_id: classification.nodeId,
+    category: classification.path.category,
+    family: classification.path.family,
+    subfamily: classification.path.subfamily,
+    classification_status: classification.status,
+    unmatched_category: classification.unmatchedValue
+  };
+}
@@ -0,0 +1,196 @@
+// Dimension-aware unit conversion for ingredient quantities and prices
+
+export type UnitDimension = 'mass' | 'volume' | 'count';
+
+export type BaseUnit = 'kg' | 'L' | 'ud';
+
+export interface UnitDefinition {
+  dimension: UnitDimension;
+  factor: number; // how many base units one of this unit represents
+}
+
+/**
+ * Per-ingredient physical properties that allow crossing dimensions
+ */
+export interface ConversionProfile {
+  densityKgPerL?: number | null;
+  pieceWeightKg?: number | null;
+}
+
+export const BASE_UNITS: Record<UnitDimension, BaseUnit> = {
+  mass: 'kg',
+  volume: 'L',
+  count: 'ud'
+};
+
+const UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
+  // Mass
+  'kg': { dimension: 'mass', factor: 1 },
+  'kgs': { dimension: 'mass', factor: 1 },
+  'kilo': { dimension: 'mass', factor: 1 },
+  'kilos': { dimension: 'mass', factor: 1 },
+  'kilogramo': { dimension: 'mass', factor: 1 },
+  'kilogramos': { dimension: 'mass', factor: 1 },
+  'g': { dimension: 'mass', factor: 0.001 },
+  'gr': { dimension: 'mass', factor: 0.001 },
+  'grs': { dimension: 'mass', factor: 0.001 },
+  'gramo': { dimension: 'mass', factor: 0.001 },
+  'gramos': { dimension: 'mass', factor: 0.001 },
+  'mg': { dimension: 'mass', factor: 0.000001 },
+
+  // Volume
+  'l': { dimension: 'volume', factor: 1 },
+  'lt': { dimension: 'volume', factor: 1 },
+  'lts': { dimension: 'volume', factor: 1 },
+  'litro': { dimension: 'volume', factor: 1 },
+  'litros': { dimension: 'volume', factor: 1 },
+  'dl': { dimension: 'volume', factor: 0.1 },
+  'cl': { dimension: 'volume', factor: 0.01 },
+  'ml': { dimension: 'volume', factor: 0.001 },
+  'mililitro': { dimension: 'volume', factor: 0.001 },
+  'mililitros': { dimension: 'volume', factor: 0.001 },
+
+  // Count
+  'ud': { dimension: 'count', factor: 1 },
+  'uds': { dimension: 'count', factor: 1 },
+  'u': { dimension: 'count', factor: 1 },
+  'un': { dimension: 'count', factor: 1 },
+  'unidad': { dimension: 'count', factor: 1 },
+  'unidades': { dimension: 'count', factor: 1 },
+  'pza': { dimension: 'count', factor: 1 },
+  'pieza': { dimension: 'count', factor: 1 },
+  'piezas': { dimension: 'count', factor: 1 },
+  'botella': { dimension: 'count', factor: 1 },
+  'botellas': { dimension: 'count', factor: 1 },
+  'paquete': { dimension: 'count', factor: 1 },
+  'paquetes': { dimension: 'count', factor: 1 },
+  'lata': { dimension: 'count', factor: 1 },
+  'latas': { dimension: 'count', factor: 1 },
+  'docena': { dimension: 'count', factor: 12 },
+  'docenas': { dimension: 'count', factor: 12 }
+};
+
+/**
+ * Units offered in pickers (recipe lines, manual edits)
+ */
+export const COMMON_UNITS = ['g', 'kg', 'ml', 'cl', 'L', 'ud'];
+
+/**
+ * Look up a unit label, ignoring case, trailing dots and whitespace
+ */
+export function resolveUnit(unit: string): UnitDefinition | null {
+  if (!unit) return null;
+
+  const key = unit.toLowerCase().trim().replace(/\.$/, '');
+  return UNIT_DEFINITIONS[key] || null;
+}
+
+export function getUnitDimension(unit: string): UnitDimension | null {
+  return resolveUnit(unit)?.dimension ?? null;
+}
+
+export function isKnownUnit(unit: string): boolean {
+  return resolveUnit(unit) !== null;
+}
+
+/**
+ * Base unit (kg, L, ud) for any known unit; unknown units are treated as pieces
+ */
+export function getBaseUnit(unit: string): BaseUnit {
+  const definition = resolveUnit(unit);
+  return definition ? BASE_UNITS[definition.dimension] : 'ud';
+}
+
+/**
+ * Convert an amount already expressed in a base unit into another dimension
+ */
+function convertBaseAcrossDimensions(
+  amount: number,
+  from: UnitDimension,
+  to: UnitDimension,
+  profile: ConversionProfile
+): number | null {
+  if (from === to) return amount;
+
+  const density = profile.densityKgPerL && profile.densityKgPerL > 0 ? profile.densityKgPerL : null;
+  const pieceWeight = profile.pieceWeightKg && profile.pieceWeightKg > 0 ? profile.pieceWeightKg : null;
+
+  // Route everything through mass, which is the only dimension both properties relate to
+  let kg: number | null = null;
+  switch (from) {
+    case 'mass':
+      kg = amount;
+      break;
+    case 'volume':
+      kg = density ? amount * density : null;
+      break;
+    case 'count':
+      kg = pieceWeight ? amount * pieceWeight : null;
+      break;
+  }
+
+  if (kg === null) return null;
+
+  switch (to) {
+    case 'mass':
+      return kg;
+    case 'volume':
+      return density ? kg / density : null;
+    case 'count':
+      return pieceWeight ? kg / pieceWeight : null;
+  }
+}
+
+/**
+ * Convert a quantity between any two known units.
+ * Returns null when the units are unknown or the dimensions cannot be bridged
+ * with the ingredient's density / piece weight.
+ */
+export function convertQuantity(
+  amount: number,
+  fromUnit: string,
+  toUnit: string,
+  profile: ConversionProfile = {}
+): number | null {
+  const from = resolveUnit(fromUnit);
+  const to = resolveUnit(toUnit);
+  if (!from || !to) return null;
+
+  const baseAmount = amount * from.factor;
+  const converted = convertBaseAcrossDimensions(baseAmount, from.dimension, to.dimension, profile);
+  if (converted === null) return null;
+
+  return converted / to.factor;
+}
+
+export function canConvert(fromUnit: string, toUnit: string, profile: ConversionProfile = {}): boolean {
+  return convertQuantity(1, fromUnit, toUnit, profile) !== null;
+}
+
+/**
+ * Re-express a price per `fromUnit` as a price per `toUnit` (e.g. €/kg → €/ml)
+ */
+export function convertUnitPrice(
+  price: number,
+  fromUnit: string,
+  toUnit: string,
+  profile: ConversionProfile = {}
+): number | null {
+  const fromPerTo = convertQuantity(1, toUnit, fromUnit, profile);
+  if (fromPerTo === null) return null;
+
+  return price * fromPerTo;
+}
+
+/**
+ * Build a conversion profile from an `ingredients` row
+ */
+export function profileFromIngredient(ingredient: {
+  density_kg_per_l?: number | null;
+  piece_weight_kg?: number | null;
+}): ConversionProfile {
+  return {
+    densityKgPerL: ingredient.density_kg_per_l ?? null,
+    pieceWeightKg: ingredient.piece_weight_kg ?? null
+  };
+}
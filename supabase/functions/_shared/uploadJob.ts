@@ -0,0 +1,107 @@
+// Background processing of uploaded files: claim, per-step progress and retries, all written to file_uploads
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+export type JobStep = 'queued' | 'downloading' | 'extracting' | 'normalizing' | 'ready' | 'done';
+
+export interface UploadJob {
+  id: string;
+  organizationId: string;
+  fileName: string;
+  filePath: string;
+  fileSize: number;
+  attempt: number;        // 1-based, this run
+  maxAttempts: number;
+}
+
+// The same file would fail the same way again (unsupported format, no rows...): no retry
+export class PermanentJobError extends Error {}
+
+/**
+ * Take a pending job. The attempt count doubles as a version, so when two workers race
+ * for the same job only one of them moves it out of pending; the other gets null.
+ */
+export async function claimJob(supabase: SupabaseClient, fileUploadId: string): Promise<UploadJob | null> {
+  const { data: row, error } = await supabase
+    .from('file_uploads')
+    .select('id, organization_id, file_name, file_path, file_size, attempts, max_attempts, processing_status')
+    .eq('id', fileUploadId)
+    .single();
+
+  if (error) throw error;
+  if (row.processing_status !== 'pending') return null;
+
+  const now = new Date().toISOString();
+  const { data: claimed, error: claimError } = await supabase
+    .from('file_uploads')
+    .update({
+      processing_status: 'processing',
+      processing_step: 'downloading',
+      progress: 0,
+      attempts: row.attempts + 1,
+      started_at: now,
+      heartbeat_at: now
+    })
+    .eq('id', row.id)
+    .eq('processing_status', 'pending')
+    .eq('attempts', row.attempts)
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) throw claimError;
+  if (!claimed) return null;
+
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    fileName: row.file_name,
+    filePath: row.file_path,
+    fileSize: row.file_size,
+    attempt: row.attempts + 1,
+    maxAttempts: row.max_attempts
+  };
+}
+
+export async function reportProgress(supabase: SupabaseClient, job: UploadJob, step: JobStep, progress: number) {
+  const { error } = await supabase
+    .from('file_uploads')
+    .update({
+      processing_step: step,
+      progress: Math.min(100, Math.round(progress)),
+      heartbeat_at: new Date().toISOString()
+    })
+    .eq('id', job.id);
+
+  if (error) console.error('Error reporting job progress:', error);
+}
+
+/**
+ * Record a failed attempt. Returns whether the job went back to the queue for another one.
+ */
+export async function failJob(supabase: SupabaseClient, job: UploadJob, error: unknown): Promise<boolean> {
+  const message = error instanceof Error ? error.message : String(error);
+  const retry = !(error instanceof PermanentJobError) && job.attempt < job.maxAttempts;
+  const now = new Date().toISOString();
+
+  const { error: updateError } = await supabase
+    .from('file_uploads')
+    .update(retry
+      ? {
+          processing_status: 'pending',
+          processing_step: 'queued',
+          error_message: `Intento ${job.attempt} de ${job.maxAttempts}: ${message}`,
+          heartbeat_at: now
+        }
+      : {
+          processing_status: 'failed',
+          error_message: message,
+          processed_at: now,
+          heartbeat_at: now
+        })
+    .eq('id', job.id);
+
+  if (updateError) console.error('Error recording job failure:', updateError);
+  return retry;
+}
+
+// Wait before the next attempt: 5 s, 10 s, 20 s...
+export const retryDelay = (attempt: number) => 5000 * 2 ** (attempt - 1);
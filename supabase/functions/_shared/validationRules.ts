@@ -0,0 +1,256 @@
+// Declarative validation rules an organization adds to the fixed checks of normalizeIngredientRow.
+// Stored as JSON, so every rule is re-read defensively and a broken one is skipped, never thrown.
+import { normalizeHeader } from './mappingTemplates.ts';
+
+export type RuleKind = 'required' | 'maxUnitPrice' | 'allowedUnits' | 'pattern' | 'rewrite';
+
+export const RULE_FIELDS = [
+  'producto', 'proveedor', 'formato', 'contenido', 'unidad', 'precio', 'impuesto', 'area',
+  'referencia', 'ean', 'categoria', 'familia', 'subfamilia'
+] as const;
+
+export type RuleField = typeof RULE_FIELDS[number];
+
+export const RULE_FIELD_LABELS: Record<RuleField, string> = {
+  producto: 'Producto',
+  proveedor: 'Proveedor',
+  formato: 'Formato',
+  contenido: 'Contenido',
+  unidad: 'Unidad',
+  precio: 'Precio',
+  impuesto: 'Impuesto',
+  area: 'Área',
+  referencia: 'Referencia',
+  ean: 'EAN',
+  categoria: 'Categoría',
+  familia: 'Familia',
+  subfamilia: 'Subfamilia'
+};
+
+interface RuleBase {
+  id: string;
+  enabled: boolean;
+  suppliers: string[];  // supplier names as written in the files; empty applies to every supplier
+}
+
+export interface RequiredRule extends RuleBase {
+  kind: 'required';
+  field: RuleField;
+}
+
+export interface MaxUnitPriceRule extends RuleBase {
+  kind: 'maxUnitPrice';
+  family: string;  // empty for every family
+  max: number;     // € per base unit (kg, L, ud)
+}
+
+export interface AllowedUnitsRule extends RuleBase {
+  kind: 'allowedUnits';
+  category: string;  // empty for every category
+  units: string[];   // base units
+}
+
+export interface PatternRule extends RuleBase {
+  kind: 'pattern';
+  field: RuleField;
+  pattern: string;  // regular expression the whole value has to match, case-sensitive
+}
+
+export interface RewriteRule extends RuleBase {
+  kind: 'rewrite';
+  field: RuleField;
+  match: string;        // regular expression replaced wherever it appears in the cell, case-insensitive
+  replacement: string;  // may use $1, $2... for the captured groups
+}
+
+export type ValidationRule = RequiredRule | MaxUnitPriceRule | AllowedUnitsRule | PatternRule | RewriteRule;
+
+export interface RuleViolation {
+  ruleId: string;
+  field: RuleField;
+  value: string;
+  error: string;
+  suggestion?: string;
+}
+
+// Values checked after normalization: the fields of a normalized row the rules can read
+export type RuleSubject = Partial<Record<RuleField, string | number | undefined>> & {
+  precioUnitario: number;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isRuleField = (value: unknown): value is RuleField =>
+  typeof value === 'string' && (RULE_FIELDS as readonly string[]).includes(value);
+
+const text = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const strings = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+/**
+ * Rules stored in normalization_rules.validationRules. Entries with an unknown kind or
+ * field are dropped.
+ */
+export function parseValidationRules(value: unknown): ValidationRule[] {
+  if (!isRecord(value) || !Array.isArray(value.validationRules)) return [];
+
+  return value.validationRules.flatMap((entry): ValidationRule[] => {
+    if (!isRecord(entry) || typeof entry.id !== 'string') return [];
+    const base = { id: entry.id, enabled: entry.enabled !== false, suppliers: strings(entry.suppliers) };
+
+    switch (entry.kind) {
+      case 'required':
+        return isRuleField(entry.field) ? [{ ...base, kind: 'required', field: entry.field }] : [];
+      case 'maxUnitPrice':
+        return typeof entry.max === 'number' && entry.max > 0
+          ? [{ ...base, kind: 'maxUnitPrice', family: text(entry.family), max: entry.max }]
+          : [];
+      case 'allowedUnits':
+        return [{ ...base, kind: 'allowedUnits', category: text(entry.category), units: strings(entry.units) }];
+      case 'pattern':
+        return isRuleField(entry.field)
+          ? [{ ...base, kind: 'pattern', field: entry.field, pattern: text(entry.pattern) }]
+          : [];
+      case 'rewrite':
+        return isRuleField(entry.field)
+          ? [{ ...base, kind: 'rewrite', field: entry.field, match: text(entry.match), replacement: text(entry.replacement) }]
+          : [];
+      default:
+        return [];
+    }
+  });
+}
+
+function compile(pattern: string, flags = 'i'): RegExp | null {
+  if (!pattern) return null;
+  try {
+    return new RegExp(pattern, flags);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * What keeps a rule from running, shown next to it while it is edited; null when it is usable
+ */
+export function ruleProblem(rule: ValidationRule): string | null {
+  switch (rule.kind) {
+    case 'maxUnitPrice':
+      return rule.max > 0 ? null : 'El precio máximo debe ser mayor que 0';
+    case 'allowedUnits':
+      return rule.units.length > 0 ? null : 'Elige al menos una unidad';
+    case 'pattern':
+      return compile(rule.pattern) ? null : 'Expresión regular no válida';
+    case 'rewrite':
+      return compile(rule.match) ? null : 'Expresión regular no válida';
+    default:
+      return null;
+  }
+}
+
+const sameName = (a: string | number | undefined, b: string) => normalizeHeader(String(a ?? '')) === normalizeHeader(b);
+
+function appliesTo(rule: ValidationRule, supplier: string | number | undefined): boolean {
+  return rule.enabled
+    && ruleProblem(rule) === null
+    && (rule.suppliers.length === 0 || rule.suppliers.some(name => sameName(supplier, name)));
+}
+
+/**
+ * Rewrite the raw cells of a mapped row before they are parsed ("IGIC 7%" → "7").
+ * Returns the number of cells changed.
+ */
+export function applyRewrites(row: Record<string, string>, rules: ValidationRule[]): number {
+  let changed = 0;
+
+  rules.forEach(rule => {
+    if (rule.kind !== 'rewrite' || !appliesTo(rule, row.proveedor)) return;
+
+    const value = row[rule.field];
+    // Every occurrence: "IGIC|IVA" has to clear "IVA 7% + IGIC" whole
+    const regex = compile(rule.match, 'gi');
+    if (value === undefined || !regex) return;
+
+    const rewritten = value.replace(regex, rule.replacement).trim();
+    if (rewritten !== value) {
+      row[rule.field] = rewritten;
+      changed++;
+    }
+  });
+
+  return changed;
+}
+
+/**
+ * Check a normalized row against the organization's rules
+ */
+export function checkRules(row: RuleSubject, rules: ValidationRule[]): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  const valueOf = (field: RuleField) => String(row[field] ?? '').trim();
+
+  rules.forEach(rule => {
+    if (!appliesTo(rule, row.proveedor)) return;
+
+    switch (rule.kind) {
+      case 'required': {
+        if (valueOf(rule.field)) return;
+        violations.push({
+          ruleId: rule.id,
+          field: rule.field,
+          value: '',
+          error: rule.suppliers.length > 0
+            ? `${RULE_FIELD_LABELS[rule.field]} es obligatorio para ${row.proveedor}`
+            : `${RULE_FIELD_LABELS[rule.field]} es obligatorio`,
+          suggestion: 'Completa el valor en el archivo o mapea la columna que lo contiene'
+        });
+        return;
+      }
+      case 'maxUnitPrice': {
+        if (rule.family && !sameName(row.familia, rule.family)) return;
+        if (row.precioUnitario <= rule.max) return;
+        const unit = valueOf('unidad') || 'ud';
+        violations.push({
+          ruleId: rule.id,
+          field: 'precio',
+          value: valueOf('precio'),
+          error: `Precio unitario ${row.precioUnitario.toFixed(4)} €/${unit} supera el máximo de ${rule.max} €/${unit}`
+            + (rule.family ? ` para ${rule.family}` : ''),
+          suggestion: 'Comprueba el precio y el formato: un formato mal leído dispara el precio unitario'
+        });
+        return;
+      }
+      case 'allowedUnits': {
+        if (rule.category && !sameName(row.categoria, rule.category)) return;
+        const unit = valueOf('unidad');
+        if (rule.units.includes(unit)) return;
+        violations.push({
+          ruleId: rule.id,
+          field: 'unidad',
+          value: unit,
+          error: `Unidad ${unit} no permitida` + (rule.category ? ` en ${rule.category}` : ''),
+          suggestion: `Unidades permitidas: ${rule.units.join(', ')}`
+        });
+        return;
+      }
+      case 'pattern': {
+        const value = valueOf(rule.field);
+        const regex = compile(`^(?:${rule.pattern})$`, '');
+        if (!value || !regex || regex.test(value)) return;
+        violations.push({
+          ruleId: rule.id,
+          field: rule.field,
+          value,
+          error: `${RULE_FIELD_LABELS[rule.field]} "${value}" no tiene el formato esperado`,
+          suggestion: `Debe cumplir ${rule.pattern}`
+        });
+        return;
+      }
+      default:
+        return;
+    }
+  });
+
+  return violations;
+}
@@ -1,6 +1,23 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { resolveTaxRate, type TaxCategory, type TaxProfile } from '../_shared/tax.ts';
+import { AUTO_MATCH_THRESHOLD, addToIndex, findMatches } from '../_shared/ingredientMatcher.ts';
+import {
+  ensureSupplier,
+  fetchDefaultTaxProfile,
+  learnIngredientAlias,
+  loadCatalog,
+  loadValidationRules,
+  type CatalogContext
+} from '../_shared/catalog.ts';
+import { mergeAllergenSuggestions, suggestAllergens } from '../_shared/allergens.ts';
+import { classificationColumns, classifyProduct } from '../_shared/taxonomy.ts';
+import { calculateUnitPrice, normalizeUnit, toBaseUnits } from '../_shared/normalization.ts';
+import { checkRules, type RuleViolation, type ValidationRule } from '../_shared/validationRules.ts';
+import { completeImportBatch, failImportBatch, recordChange, startImportBatch } from '../_shared/importBatch.ts';
+import { planPriceVersion } from '../_shared/priceVersions.ts';
+import { findProductByCode, hasCodes, productCodes, type CodedProduct, type ProductCodes } from '../_shared/productCodes.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -19,10 +36,37 @@ interface NormalizedData {
   contenido: number;
   unidad: string;
   precio: number;
-  igic?: number;
+  precioUnitario?: number;    // per base unit, as computed when the row was normalized
+  impuesto?: number;          // percent, as read from the file
+  impuestoIncluido?: boolean; // precio already includes the tax
   area?: string;
-  referencia?: string;
+  referencia?: string;        // supplier's article code
+  ean?: string;
   categoria?: string;
+  familia?: string;
+  subfamilia?: string;
+  ingredienteId?: string;     // chosen in the wizard, skips matching
+  ingredienteConfirmado?: boolean; // picked by hand: the product name becomes an alias
+  crearIngrediente?: boolean; // user rejected every proposed match
+  proveedorId?: string;       // supplier chosen in the wizard
+  proveedorConfirmado?: boolean;   // picked by hand: the supplier name becomes an alias
+  pack?: {
+    levels: number[];
+    total: number;
+    unit: string;
+    confidence: number;
+    warnings: string[];
+  };
+}
+
+const CODED_PRODUCT_COLUMNS = 'id, supplier_id, ingredient_id, supplier_sku, ean';
+
+// One price list per supplier in the file, all sharing the import's effective date
+interface PriceListContext {
+  effectiveFrom: string;
+  name: string;
+  fileUploadId: string | null;
+  bySupplier: Map<string, { id: string; itemCount: number }>;
 }
 
 serve(async (req) => {
@@ -31,7 +75,7 @@ serve(async (req) => {
   }
 
   try {
-    const { organizationId, data } = await req.json();
+    const { organizationId, data, fileUploadId, effectiveFrom, priceListName } = await req.json();
     
     console.log('Starting import for organization:', organizationId);
     console.log('Data to import:', data.length, 'items');
@@ -40,30 +84,79 @@ serve(async (req) => {
       throw new Error('Missing organizationId or data');
     }
 
+    // Without a date the prices apply from now; a future date schedules the list
+    const listStart = effectiveFrom ? new Date(effectiveFrom) : new Date();
+    if (Number.isNaN(listStart.getTime())) {
+      throw new Error(`Invalid effectiveFrom: ${effectiveFrom}`);
+    }
+    const priceLists: PriceListContext = {
+      effectiveFrom: listStart.toISOString(),
+      name: priceListName || `Importación ${listStart.toISOString().slice(0, 10)}`,
+      fileUploadId: fileUploadId ?? null,
+      bySupplier: new Map()
+    };
+    console.log('Price lists effective from:', priceLists.effectiveFrom);
+
     let processedCount = 0;
-    let failedCount = 0;
-    const errors: string[] = [];
+
+    // The wizard checks the organization's rules too, but a row that breaks one never gets in
+    const violations = findRuleViolations(data as NormalizedData[], await loadValidationRules(supabase, organizationId));
+    if (violations.length > 0) {
+      console.log('Rows breaking validation rules:', violations.length);
+      return new Response(JSON.stringify({
+        success: false,
+        processedCount: 0,
+        violations,
+        error: describeViolations(violations)
+      }), {
+        status: 422,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const taxProfile = await fetchDefaultTaxProfile(supabase, organizationId);
+    console.log('Tax profile:', taxProfile?.regime ?? 'none');
+
+    const catalog = await loadCatalog(supabase, organizationId);
+    const batch = await startImportBatch(supabase, organizationId, fileUploadId ?? null, data.length);
+    catalog.batch = batch;
 
     for (const item of data as NormalizedData[]) {
       try {
-        await importSingleItem(item, organizationId);
+        await importSingleItem(item, organizationId, taxProfile, catalog, priceLists);
         processedCount++;
         console.log('Imported:', item.producto);
       } catch (error) {
-        failedCount++;
-        const errorMsg = `Error importing ${item.producto}: ${error.message}`;
-        errors.push(errorMsg);
+        // All or nothing: the rows already written are undone with the batch
+        const errorMsg = `Error al importar "${item.producto}": ${error.message}`;
         console.error(errorMsg);
+        const rolledBack = await failImportBatch(supabase, batch, errorMsg);
+
+        return new Response(JSON.stringify({
+          success: false,
+          batchId: batch.id,
+          rolledBack,
+          processedCount: 0,
+          error: rolledBack
+            ? `${errorMsg}. No se ha importado ninguna fila.`
+            : `${errorMsg}. La importación parcial no se pudo deshacer; revierte el lote desde el historial.`
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
     }
 
-    console.log('Import completed:', { processedCount, failedCount });
+    await countPriceListItems(priceLists);
+    await completeImportBatch(supabase, batch, processedCount);
+    console.log('Import completed:', { batchId: batch.id, processedCount });
 
     return new Response(JSON.stringify({
       success: true,
+      batchId: batch.id,
       processedCount,
-      failedCount,
-      errors
+      failedCount: 0,
+      errors: []
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -80,99 +173,281 @@ serve(async (req) => {
   }
 });
 
-async function importSingleItem(item: NormalizedData, organizationId: string) {
-  console.log('Processing item:', item.producto);
+function findRuleViolations(items: NormalizedData[], rules: ValidationRule[]): Array<RuleViolation & { producto: string }> {
+  if (rules.length === 0) return [];
 
-  // Step 1: Ensure ingredient exists
-  let ingredientId: string;
-  
-  const { data: existingIngredient, error: findError } = await supabase
-    .from('ingredients')
+  return items.flatMap(item => {
+    const precioUnitario = item.precioUnitario ?? calculateUnitPrice(item.precio, {
+      total: toBaseUnits(item.contenido, item.unidad),
+      unit: normalizeUnit(item.unidad)
+    });
+    return checkRules({ ...item, precioUnitario }, rules).map(violation => ({ ...violation, producto: item.producto }));
+  });
+}
+
+function describeViolations(violations: Array<RuleViolation & { producto: string }>): string {
+  const shown = violations.slice(0, 5).map(violation => `"${violation.producto}": ${violation.error}`);
+  const more = violations.length > shown.length ? `; y ${violations.length - shown.length} más` : '';
+  return `Filas que no cumplen las reglas de validación: ${shown.join('; ')}${more}. No se ha importado ninguna fila.`;
+}
+
+/**
+ * Price list of a supplier for this import, created with its first price
+ */
+async function ensurePriceList(priceLists: PriceListContext, supplierId: string, catalog: CatalogContext): Promise<string> {
+  const known = priceLists.bySupplier.get(supplierId);
+  if (known) {
+    known.itemCount++;
+    return known.id;
+  }
+
+  const { data: priceList, error } = await supabase
+    .from('supplier_price_lists')
+    .insert({
+      organization_id: catalog.organizationId,
+      supplier_id: supplierId,
+      import_batch_id: catalog.batch?.id ?? null,
+      file_upload_id: priceLists.fileUploadId,
+      name: priceLists.name,
+      effective_from: priceLists.effectiveFrom
+    })
     .select('id')
-    .eq('name', item.producto)
-    .eq('organization_id', organizationId)
-    .maybeSingle();
+    .single();
 
-  if (existingIngredient) {
-    ingredientId = existingIngredient.id;
-    console.log('Found existing ingredient:', item.producto);
-    
-    // Update ingredient info
-    await supabase
+  if (error) {
+    console.error('Error creating price list:', error);
+    throw error;
+  }
+  if (catalog.batch) {
+    await recordChange(supabase, catalog.batch, { entityType: 'supplier_price_list', entityId: priceList.id, action: 'created' });
+  }
+
+  priceLists.bySupplier.set(supplierId, { id: priceList.id, itemCount: 1 });
+  return priceList.id;
+}
+
+async function countPriceListItems(priceLists: PriceListContext) {
+  for (const { id, itemCount } of priceLists.bySupplier.values()) {
+    const { error } = await supabase.from('supplier_price_lists').update({ item_count: itemCount }).eq('id', id);
+    if (error) console.error('Error counting price list items:', error);
+  }
+}
+
+/**
+ * Product of the supplier with the row's article code or, failing that, its barcode
+ */
+async function findCodedProduct(supplierId: string, codes: ProductCodes): Promise<CodedProduct | null> {
+  const candidates: CodedProduct[] = [];
+
+  for (const [column, value] of [['supplier_sku', codes.sku], ['ean', codes.ean]] as const) {
+    if (!value) continue;
+    const { data, error } = await supabase
+      .from('supplier_products')
+      .select(CODED_PRODUCT_COLUMNS)
+      .eq('supplier_id', supplierId)
+      .eq(column, value);
+
+    if (error) throw error;
+    candidates.push(...(data || []));
+  }
+
+  return findProductByCode(candidates, supplierId, codes);
+}
+
+/**
+ * Store the row's codes on its product; a code the row lacks keeps its stored value
+ */
+async function assignCodes(product: CodedProduct, codes: ProductCodes, catalog: CatalogContext) {
+  const supplierSku = codes.sku ?? product.supplier_sku;
+  const ean = codes.ean ?? product.ean;
+  if (supplierSku === product.supplier_sku && ean === product.ean) return;
+
+  await updateCodes(product, { supplier_sku: supplierSku, ean }, catalog);
+}
+
+async function releaseCodes(product: CodedProduct, codes: ProductCodes, catalog: CatalogContext) {
+  await updateCodes(product, {
+    supplier_sku: product.supplier_sku === codes.sku ? null : product.supplier_sku,
+    ean: product.ean === codes.ean ? null : product.ean
+  }, catalog);
+  console.log('Moved supplier codes off product:', product.id);
+}
+
+async function updateCodes(
+  product: CodedProduct,
+  values: { supplier_sku: string | null; ean: string | null },
+  catalog: CatalogContext
+) {
+  if (catalog.batch) {
+    await recordChange(supabase, catalog.batch, {
+      entityType: 'supplier_product',
+      entityId: product.id,
+      action: 'updated',
+      previousData: { supplier_sku: product.supplier_sku, ean: product.ean }
+    });
+  }
+
+  const { error } = await supabase.from('supplier_products').update(values).eq('id', product.id);
+  if (error) throw error;
+
+  product.supplier_sku = values.supplier_sku;
+  product.ean = values.ean;
+}
+
+async function resolveIngredient(
+  item: NormalizedData,
+  organizationId: string,
+  catalog: CatalogContext
+): Promise<{ ingredientId: string; taxCategory: TaxCategory }> {
+  let ingredientId: string | null = null;
+
+  if (item.ingredienteId && catalog.taxCategories.has(item.ingredienteId)) {
+    ingredientId = item.ingredienteId;
+    // Preselected matches are guesses; only a match the user picked is worth remembering
+    if (item.ingredienteConfirmado) {
+      await learnIngredientAlias(supabase, catalog, item.producto, ingredientId);
+    }
+  } else if (!item.crearIngrediente) {
+    const [best] = findMatches(catalog.ingredients, item.producto, 1);
+    if (best && best.score >= AUTO_MATCH_THRESHOLD) {
+      ingredientId = best.ingredientId;
+      console.log('Matched', item.producto, 'to', best.ingredientName, `(${Math.round(best.score * 100)}%)`);
+    }
+  }
+
+  // Suggestions stay pending until someone reviews them in the catalog
+  const suggestions = suggestAllergens({ name: item.producto, category: item.categoria, spec: item.formato });
+
+  // Only values that exist in the organization's taxonomy are accepted; anything else is flagged
+  const classification = classifyProduct(catalog.taxonomy, {
+    name: item.producto,
+    category: item.categoria,
+    family: item.familia,
+    subfamily: item.subfamilia
+  });
+  if (classification.unmatchedValue) {
+    console.log('Category not in taxonomy:', item.producto, '->', classification.unmatchedValue);
+  }
+
+  if (ingredientId) {
+    const allergens = mergeAllergenSuggestions(catalog.allergens.get(ingredientId) || [], suggestions);
+    // Reviewed or already classified ingredients keep their place in the tree
+    const reclassify = (catalog.classificationStatus.get(ingredientId) || 'pending') === 'pending';
+
+    if (catalog.batch) {
+      const { data: previous, error: previousError } = await supabase
+        .from('ingredients')
+        .select('taxonomy_node_id, category, family, subfamily, classification_status, unmatched_category, area, allergens')
+        .eq('id', ingredientId)
+        .single();
+      if (previousError) throw previousError;
+      await recordChange(supabase, catalog.batch, { entityType: 'ingredient', entityId: ingredientId, action: 'updated', previousData: previous });
+    }
+
+    // Update ingredient info; unit_base stays as set when the ingredient was created
+    const { error: updateError } = await supabase
       .from('ingredients')
       .update({
-        category: item.categoria || 'General',
-        unit_base: normalizeBaseUnit(item.unidad),
+        ...(reclassify ? classificationColumns(classification) : {}),
         area: item.area || 'both',
+        allergens,
         updated_at: new Date().toISOString()
       })
       .eq('id', ingredientId);
-  } else {
-    console.log('Creating new ingredient:', item.producto);
-    const { data: newIngredient, error: createError } = await supabase
-      .from('ingredients')
-      .insert({
-        name: item.producto,
-        category: item.categoria || 'General',
-        unit_base: normalizeBaseUnit(item.unidad),
-        area: item.area || 'both',
-        organization_id: organizationId
-      })
-      .select('id')
-      .single();
 
-    if (createError) {
-      console.error('Error creating ingredient:', createError);
-      throw createError;
+    if (updateError) {
+      console.error('Error updating ingredient:', updateError);
+      throw updateError;
     }
-    ingredientId = newIngredient.id;
+    catalog.allergens.set(ingredientId, allergens);
+    if (reclassify) catalog.classificationStatus.set(ingredientId, classification.status);
+
+    return { ingredientId, taxCategory: catalog.taxCategories.get(ingredientId) || 'general' };
   }
 
-  // Step 2: Ensure supplier exists
-  let supplierId: string;
-  
-  const { data: existingSupplier, error: supplierFindError } = await supabase
-    .from('suppliers')
-    .select('id')
-    .eq('name', item.proveedor)
-    .eq('organization_id', organizationId)
-    .maybeSingle();
+  console.log('Creating new ingredient:', item.producto);
+  const { data: newIngredient, error: createError } = await supabase
+    .from('ingredients')
+    .insert({
+      name: item.producto,
+      ...classificationColumns(classification),
+      unit_base: normalizeUnit(item.unidad),
+      area: item.area || 'both',
+      allergens: mergeAllergenSuggestions([], suggestions),
+      organization_id: organizationId
+    })
+    .select('id, tax_category')
+    .single();
+
+  if (createError) {
+    console.error('Error creating ingredient:', createError);
+    throw createError;
+  }
 
-  if (existingSupplier) {
-    supplierId = existingSupplier.id;
-    console.log('Found existing supplier:', item.proveedor);
-  } else {
-    console.log('Creating new supplier:', item.proveedor);
-    const { data: newSupplier, error: supplierCreateError } = await supabase
-      .from('suppliers')
-      .insert({
-        name: item.proveedor,
-        organization_id: organizationId,
-        lead_time_days: 1
-      })
-      .select('id')
-      .single();
+  if (catalog.batch) {
+    await recordChange(supabase, catalog.batch, { entityType: 'ingredient', entityId: newIngredient.id, action: 'created' });
+  }
 
-    if (supplierCreateError) {
-      console.error('Error creating supplier:', supplierCreateError);
-      throw supplierCreateError;
-    }
-    supplierId = newSupplier.id;
+  // Later rows of the same file must find it too
+  addToIndex(catalog.ingredients, newIngredient.id, item.producto, false);
+  catalog.taxCategories.set(newIngredient.id, newIngredient.tax_category || 'general');
+  catalog.allergens.set(newIngredient.id, mergeAllergenSuggestions([], suggestions));
+  catalog.classificationStatus.set(newIngredient.id, classification.status);
+
+  return { ingredientId: newIngredient.id, taxCategory: newIngredient.tax_category || 'general' };
+}
+
+async function importSingleItem(
+  item: NormalizedData,
+  organizationId: string,
+  taxProfile: TaxProfile | null,
+  catalog: CatalogContext,
+  priceLists: PriceListContext
+) {
+  console.log('Processing item:', item.producto);
+
+  // Step 1: Resolve the supplier through its name or aliases
+  const supplierId = await ensureSupplier(supabase, catalog, item.proveedor, item.proveedorId, item.proveedorConfirmado);
+
+  // Step 2: Match or create the ingredient. A known article code or barcode of this supplier
+  // identifies the product even if it was renamed; the name is matched only without one.
+  const codes = productCodes(item.referencia, item.ean);
+  const codedProduct = hasCodes(codes) ? await findCodedProduct(supplierId, codes) : null;
+  const codeIngredientId = codedProduct && !item.ingredienteId && !item.crearIngrediente
+    ? codedProduct.ingredient_id
+    : undefined;
+  if (codeIngredientId) {
+    console.log('Matched', item.producto, 'by supplier code:', codes.sku ?? codes.ean);
+  }
+  const { ingredientId, taxCategory } = await resolveIngredient(
+    codeIngredientId ? { ...item, ingredienteId: codeIngredientId } : item,
+    organizationId,
+    catalog
+  );
+
+  // A code now used for another ingredient moves off the product that had it
+  if (codedProduct && codedProduct.ingredient_id !== ingredientId) {
+    await releaseCodes(codedProduct, codes, catalog);
   }
 
-  // Step 3: Ensure supplier product exists
+  // Step 3: Ensure supplier product exists, carrying the codes of the row
   let supplierProductId: string;
 
-  const { data: existingProduct, error: productFindError } = await supabase
-    .from('supplier_products')
-    .select('id')
-    .eq('supplier_id', supplierId)
-    .eq('ingredient_id', ingredientId)
-    .maybeSingle();
+  const { data: existingProduct, error: productFindError } = codedProduct?.ingredient_id === ingredientId
+    ? { data: codedProduct, error: null }
+    : await supabase
+        .from('supplier_products')
+        .select(CODED_PRODUCT_COLUMNS)
+        .eq('supplier_id', supplierId)
+        .eq('ingredient_id', ingredientId)
+        .maybeSingle();
+
+  if (productFindError) throw productFindError;
 
   if (existingProduct) {
     supplierProductId = existingProduct.id;
     console.log('Found existing supplier product');
+    await assignCodes(existingProduct, codes, catalog);
   } else {
     console.log('Creating supplier product');
     const { data: supplierProduct, error: productError } = await supabase
@@ -181,7 +456,9 @@ async function importSingleItem(item: NormalizedData, organizationId: string) {
         supplier_id: supplierId,
         ingredient_id: ingredientId,
         area: item.area || 'both',
-        family: item.categoria || 'General'
+        family: item.categoria || 'General',
+        supplier_sku: codes.sku,
+        ean: codes.ean
       })
       .select('id')
       .single();
@@ -191,23 +468,47 @@ async function importSingleItem(item: NormalizedData, organizationId: string) {
       throw productError;
     }
     supplierProductId = supplierProduct.id;
+    if (catalog.batch) {
+      await recordChange(supabase, catalog.batch, { entityType: 'supplier_product', entityId: supplierProductId, action: 'created' });
+    }
   }
 
-  // Step 4: Create or update pricing
+  // Step 4: Add the price as a new version in the supplier's price list
   console.log('Creating new price for:', item.producto);
+  const priceListId = await ensurePriceList(priceLists, supplierId, catalog);
 
-  // Deactivate old prices for this supplier product
-  await supabase
+  // Close the versions the new one overlaps on its effective date; a scheduled later version stays
+  const { data: existingPrices, error: existingError } = await supabase
     .from('supplier_prices')
-    .update({ is_active: false })
+    .select('id, effective_from, effective_to, is_active')
     .eq('supplier_product_id', supplierProductId);
 
-  // Convert content to base unit for consistent pricing
-  const baseContent = convertToBaseUnit(item.contenido, item.unidad);
-  const baseUnit = normalizeBaseUnit(item.unidad);
+  if (existingError) throw existingError;
+  const { closures, effectiveTo } = planPriceVersion(existingPrices || [], priceLists.effectiveFrom);
+
+  for (const closure of closures) {
+    if (catalog.batch) {
+      await recordChange(supabase, catalog.batch, {
+        entityType: 'supplier_price',
+        entityId: closure.id,
+        action: 'updated',
+        previousData: closure.previous
+      });
+    }
+
+    const { error: closeError } = await supabase
+      .from('supplier_prices')
+      .update({ effective_to: closure.effective_to, is_active: closure.is_active })
+      .eq('id', closure.id);
+    if (closeError) throw closeError;
+  }
+
+  // Convert content to base unit for consistent pricing, with the wizard's unit table
+  const baseContent = toBaseUnits(item.contenido, item.unidad);
+  const baseUnit = normalizeUnit(item.unidad);
 
   // Create new price
-  const { error: priceError } = await supabase
+  const { data: newPrice, error: priceError } = await supabase
     .from('supplier_prices')
     .insert({
       supplier_product_id: supplierProductId,
@@ -215,49 +516,27 @@ async function importSingleItem(item: NormalizedData, organizationId: string) {
       pack_unit: baseUnit,
       pack_net_qty: baseContent,
       pack_price: item.precio,
+      pack_breakdown: item.pack ?? null,
+      pack_confidence: item.pack?.confidence ?? null,
       discount_pct: 0,
-      tax_pct: (item.igic || 7) / 100,
+      // A rate in the file wins; otherwise the product's tax category resolves it in the org's regime
+      tax_pct: item.impuesto ?? resolveTaxRate(taxProfile, taxCategory),
+      tax_included: item.impuestoIncluido ?? taxProfile?.prices_include_tax ?? false,
       is_active: true,
-      effective_from: new Date().toISOString()
-    });
+      effective_from: priceLists.effectiveFrom,
+      effective_to: effectiveTo,
+      price_list_id: priceListId
+    })
+    .select('id')
+    .single();
 
   if (priceError) {
     console.error('Error creating price:', priceError);
     throw priceError;
   }
+  if (catalog.batch) {
+    await recordChange(supabase, catalog.batch, { entityType: 'supplier_price', entityId: newPrice.id, action: 'created' });
+  }
 
   console.log('Successfully imported:', item.producto);
 }
-
-function normalizeBaseUnit(unit: string): string {
-  const unitMap: Record<string, string> = {
-    'g': 'kg',
-    'kg': 'kg',
-    'ml': 'L',
-    'l': 'L',
-    'L': 'L',
-    'ud': 'ud',
-    'u': 'ud',
-    'unidad': 'ud',
-    'unidades': 'ud'
-  };
-
-  return unitMap[unit] || 'kg';
-}
-
-function convertToBaseUnit(amount: number, unit: string): number {
-  const conversionMap: Record<string, number> = {
-    'g': 0.001,  // g to kg
-    'kg': 1,     // kg to kg
-    'ml': 0.001, // ml to L
-    'l': 1,      // L to L
-    'L': 1,      // L to L
-    'ud': 1,     // ud to ud
-    'u': 1,      // u to ud
-    'unidad': 1,
-    'unidades': 1
-  };
-
-  const factor = conversionMap[unit] || 1;
-  return amount * factor;
-}
\ No newline at end of file
@@ -1,42 +1,47 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import * as XLSX from 'https://esm.sh/xlsx@0.18.5';
+import * as pdfjsLib from 'https://esm.sh/pdfjs-dist@3.11.174/legacy/build/pdf.js';
+import { parseCsv, type CsvDialectDetection } from '../_shared/csvDialect.ts';
+import { combineSheetTables, readWorkbookTables } from '../_shared/sheetLayout.ts';
+import { extractPdfTable, toPdfTextItems, type PdfTextItem } from '../_shared/pdfText.ts';
+import { normalizeTable, suggestColumnMappings } from '../_shared/normalization.ts';
+import { loadValidationRules } from '../_shared/catalog.ts';
+import {
+  claimJob,
+  failJob,
+  PermanentJobError,
+  reportProgress,
+  retryDelay,
+  type UploadJob
+} from '../_shared/uploadJob.ts';
+
+// Supabase edge runtime: keeps the worker alive for work that outlives the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://esm.sh/pdfjs-dist@3.11.174/legacy/build/pdf.worker.js';
+
 const supabase = createClient(
   Deno.env.get('SUPABASE_URL') ?? '',
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 );
 
-interface ProcessedIngredient {
-  name: string;
-  category?: string;
-  unit_base?: string;
-  area?: string;
-  allergens?: string[];
-  supplier_name?: string;
-  pack_description?: string;
-  pack_size?: string;
-  pack_price?: number;
-  unit_price?: number;
-  discount?: number;
-  igic?: number;
-}
-
-interface FileProcessingResult {
-  success: boolean;
-  processed_records: number;
-  failed_records: number;
-  extracted_data: ProcessedIngredient[];
-  error?: string;
-}
-
-interface RowData {
-  [key: string]: string | number | undefined;
+// Table read from the file, before any column is given a meaning
+interface ExtractedTable {
+  columns: string[];
+  rows: string[][];
+  text: string;
+  fileType: string;
+  pages?: number;
+  familyColumn?: string;
+  csvDialect?: CsvDialectDetection;
+  ocrProcessingId?: string;
 }
 
 serve(async (req) => {
@@ -45,85 +50,27 @@ serve(async (req) => {
   }
 
   try {
-    const { fileId, organizationId } = await req.json();
-    
-    console.log('Processing file:', { fileId, organizationId });
-
-    if (!fileId || !organizationId) {
-      throw new Error('Missing fileId or organizationId');
-    }
+    const { fileId } = await req.json();
 
-    // Get file record
-    const { data: fileRecord, error: fileError } = await supabase
-      .from('file_uploads')
-      .select('*')
-      .eq('id', fileId)
-      .single();
+    console.log('Queued file:', fileId);
 
-    if (fileError || !fileRecord) {
-      console.error('File record error:', fileError);
-      throw new Error('File record not found');
+    if (!fileId) {
+      throw new Error('Missing fileId');
     }
 
-    console.log('File record found:', fileRecord.file_name, fileRecord.file_type);
-
-    // Download file from storage
-    const { data: fileData, error: downloadError } = await supabase.storage
-      .from('file-uploads')
-      .download(fileRecord.file_path);
-
-    if (downloadError) {
-      console.error('Download error:', downloadError);
-      throw new Error(`Error downloading file: ${downloadError.message}`);
-    }
-
-    // Process based on file type
-    const fileExtension = fileRecord.file_name.toLowerCase().split('.').pop();
-    let result: FileProcessingResult;
-
-    console.log('Processing file type:', fileExtension);
-
-    switch (fileExtension) {
-      case 'csv':
-        result = await processCSV(fileData, organizationId);
-        break;
-      case 'xlsx':
-      case 'xls':
-        result = await processExcel(fileData, organizationId);
-        break;
-      default:
-        // Create sample data for testing
-        result = await createSampleData(fileRecord.file_name, organizationId);
-    }
-
-    console.log('Processing result:', result);
-
-    // Update file upload record
-    await supabase
-      .from('file_uploads')
-      .update({
-        processing_status: result.success ? 'completed' : 'failed',
-        processed_records: result.processed_records,
-        failed_records: result.failed_records,
-        error_message: result.error,
-        processed_at: new Date().toISOString()
-      })
-      .eq('id', fileId);
+    // The job runs after the response: closing the tab that queued it does not stop it
+    EdgeRuntime.waitUntil(runJob(fileId).catch(error => console.error('Error running job:', fileId, error)));
 
-    return new Response(JSON.stringify({
-      success: true,
-      processed_count: result.processed_records,
-      message: `Procesados ${result.processed_records} ingredientes correctamente`
-    }), {
+    return new Response(JSON.stringify({ success: true, queued: true }), {
+      status: 202,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
   } catch (error) {
-    console.error('Error processing file:', error);
-    return new Response(JSON.stringify({ 
-      success: false, 
-      error: error.message,
-      processed_count: 0
+    console.error('Error queuing file:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message
     }), {
       status: 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -131,333 +78,195 @@ serve(async (req) => {
   }
 });
 
-async function createSampleData(fileName: string, organizationId: string): Promise<FileProcessingResult> {
-  // Remove sample data - no more mocks
-  console.log('File processing not supported for this format, creating empty result');
-  
-  return {
-    success: true,
-    processed_records: 0,
-    failed_records: 0,
-    extracted_data: []
-  };
-
-  console.log('Creating sample data with', sampleIngredients.length, 'ingredients');
-
-  let processed = 0;
-  let failed = 0;
+/**
+ * Process a queued file, retrying failed attempts with a growing delay until the job
+ * runs out of attempts or fails for a reason a retry cannot fix
+ */
+async function runJob(fileId: string) {
+  for (;;) {
+    const job = await claimJob(supabase, fileId);
+    if (!job) {
+      console.log('Job is not pending, nothing to do:', fileId);
+      return;
+    }
 
-  for (const ingredient of sampleIngredients) {
     try {
-      await saveIngredientData(ingredient, organizationId);
-      processed++;
-      console.log('Saved ingredient:', ingredient.name);
+      await processJob(job);
+      return;
     } catch (error) {
-      console.error('Error saving ingredient:', ingredient.name, error);
-      failed++;
+      console.error(`Attempt ${job.attempt} of ${job.maxAttempts} failed:`, job.fileName, error);
+      if (!(await failJob(supabase, job, error))) return;
+      await new Promise(resolve => setTimeout(resolve, retryDelay(job.attempt)));
     }
   }
-
-  return {
-    success: true,
-    processed_records: processed,
-    failed_records: failed,
-    extracted_data: sampleIngredients
-  };
 }
 
-async function processCSV(fileData: Blob, organizationId: string): Promise<FileProcessingResult> {
-  const text = await fileData.text();
-  const lines = text.split('\n').filter(line => line.trim());
-  
-  if (lines.length < 2) {
-    throw new Error('CSV file must have header and at least one data row');
-  }
-
-  const headers = lines[0].split(',').map(h => h.trim().toLowerCase().replace(/"/g, ''));
-  const extractedData: ProcessedIngredient[] = [];
-  let processed = 0;
-  let failed = 0;
+async function processJob(job: UploadJob) {
+  const { data: fileData, error: downloadError } = await supabase.storage
+    .from('file-uploads')
+    .download(job.filePath);
 
-  console.log('CSV headers:', headers);
-
-  for (let i = 1; i < lines.length; i++) {
-    try {
-      const values = parseCSVLine(lines[i]);
-      const row: RowData = {};
-      
-      headers.forEach((header, index) => {
-        row[header] = values[index] || '';
-      });
-
-      const ingredient = mapRowToIngredient(row);
-      if (ingredient) {
-        await saveIngredientData(ingredient, organizationId);
-        extractedData.push(ingredient);
-        processed++;
-        console.log('Processed ingredient:', ingredient.name);
-      } else {
-        failed++;
-      }
-    } catch (error) {
-      console.error(`Error processing row ${i}:`, error);
-      failed++;
-    }
+  if (downloadError) {
+    throw new Error(`Error downloading file: ${downloadError.message}`);
   }
 
-  return {
-    success: true,
-    processed_records: processed,
-    failed_records: failed,
-    extracted_data
-  };
-}
-
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
+  await reportProgress(supabase, job, 'extracting', 10);
+  const table = await extractTable(fileData, job);
+  if (table.rows.length === 0) {
+    throw new PermanentJobError('El archivo no contiene filas de datos');
   }
-  
-  result.push(current.trim());
-  return result;
-}
 
-async function processExcel(fileData: Blob, organizationId: string): Promise<FileProcessingResult> {
-  // For MVP, convert to sample data
-  console.log('Excel processing - creating sample data');
-  return await createSampleData('excel-file.xlsx', organizationId);
+  await reportProgress(supabase, job, 'normalizing', 75);
+  const mappings = suggestColumnMappings(table.columns, table.familyColumn);
+  // The organization's rules mark the rows here already; the wizard applies them again on review
+  const rules = await loadValidationRules(supabase, job.organizationId);
+  const { rows, numberFormats } = normalizeTable(table.columns, table.rows, mappings, { rules });
+  const invalidRows = rows.filter(row => !row.isValid);
+  console.log('Normalized rows:', rows.length, 'invalid:', invalidRows.length);
+
+  // The whole table, so the wizard can take the review up from the mapping step
+  const extraction = {
+    columns: table.columns,
+    rows: table.rows,
+    text: table.text,
+    metadata: {
+      fileType: table.fileType,
+      pages: table.pages,
+      familyColumn: table.familyColumn,
+      csvDialect: table.csvDialect?.description
+    },
+    mappings,
+    number_formats: numberFormats,
+    csv_dialect: table.csvDialect
+  };
+  const validationErrors = invalidRows.map(row => ({ row: row.rowIndex, errors: row.errors }));
+
+  // Importing is left to the wizard, where the organization's rules, outliers and matches are reviewed
+  await finishJob(job, {
+    processing_step: 'ready',
+    extracted_records: table.rows.length,
+    failed_records: invalidRows.length,
+    ocr_processing_id: table.ocrProcessingId ?? null,
+    extraction_data: extraction,
+    validation_errors: validationErrors
+  });
 }
 
-function mapRowToIngredient(row: RowData): ProcessedIngredient | null {
-  const name = findValue(row, ['nombre', 'name', 'producto', 'ingredient', 'ingrediente', 'articulo']);
-  if (!name || typeof name !== 'string') return null;
-
-  const packPrice = parseNumeric(findValue(row, ['precio', 'price', 'coste', 'cost', 'precio_pack', 'pack_price']));
-  const packSize = parseNumeric(findValue(row, ['tamaño', 'size', 'cantidad', 'quantity', 'pack_size', 'peso'])) || 1;
-  
-  return {
-    name: name.trim(),
-    category: getString(findValue(row, ['categoria', 'category', 'tipo', 'type', 'familia'])),
-    unit_base: getString(findValue(row, ['unidad', 'unit', 'unidad_base', 'base_unit'])) || 'kg',
-    area: normalizeArea(getString(findValue(row, ['area', 'zona', 'zone']))),
-    supplier_name: getString(findValue(row, ['proveedor', 'supplier', 'distribuidor', 'empresa'])),
-    pack_description: getString(findValue(row, ['formato', 'pack', 'descripcion', 'description', 'formato_pack'])),
-    pack_size: `${packSize} ${getString(findValue(row, ['unidad', 'unit'])) || 'kg'}`,
-    pack_price: packPrice,
-    unit_price: packPrice && packSize ? packPrice / packSize : undefined,
-    discount: parseNumeric(findValue(row, ['descuento', 'discount', 'dto'])) || 0,
-    igic: parseNumeric(findValue(row, ['igic', 'tax', 'impuesto', 'iva'])) || 7
-  };
+async function finishJob(job: UploadJob, values: Record<string, unknown>) {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('file_uploads')
+    .update({
+      ...values,
+      processing_status: 'completed',
+      progress: 100,
+      processed_at: now,
+      heartbeat_at: now
+    })
+    .eq('id', job.id);
+
+  if (error) throw error;
 }
 
-function findValue(row: RowData, fields: string[]): string | number | undefined {
-  for (const field of fields) {
-    const value = row[field];
-    if (value !== undefined && value !== null && String(value).trim()) {
-      return value;
+/**
+ * Read the file into a table with the same parsers the wizard uses in the browser
+ */
+async function extractTable(fileData: Blob, job: UploadJob): Promise<ExtractedTable> {
+  const extension = job.fileName.toLowerCase().split('.').pop();
+
+  switch (extension) {
+    case 'csv': {
+      // Delimiter, quoting and encoding are sniffed: ERP exports are often ";" and Windows-1252
+      const { dialect, rows } = parseCsv(new Uint8Array(await fileData.arrayBuffer()));
+      console.log('CSV dialect:', dialect.description);
+      return {
+        columns: rows[0] || [],
+        rows: rows.slice(1),
+        text: rows.map(row => row.filter(Boolean).join(' ')).join('\n'),
+        fileType: 'csv',
+        csvDialect: dialect
+      };
+    }
+    case 'xlsx':
+    case 'xls': {
+      // Every sheet from its detected header row, sub-header families carried down
+      const sheets = readWorkbookTables(XLSX, await fileData.arrayBuffer());
+      const { columns, rows, text, familyColumn } = combineSheetTables(sheets);
+      return { columns, rows, text, fileType: 'excel', familyColumn };
     }
+    case 'pdf':
+      return extractPdfText(fileData, job);
+    case 'jpg':
+    case 'jpeg':
+    case 'png':
+      // Tesseract runs in the browser; edge functions have no OCR engine
+      throw new PermanentJobError('Las imágenes necesitan OCR: ábrelas en el asistente de ingesta');
+    default:
+      throw new PermanentJobError(`Tipo de archivo no soportado en segundo plano: ${extension}`);
   }
-  return undefined;
-}
-
-function getString(value: string | number | undefined): string | undefined {
-  if (value === undefined || value === null) return undefined;
-  const str = String(value).trim();
-  return str || undefined;
 }
 
-function parseNumeric(value: string | number | undefined): number | undefined {
-  if (value === undefined || value === null) return undefined;
-  const num = typeof value === 'number' ? value : parseFloat(String(value).replace(/[€$,]/g, ''));
-  return isNaN(num) ? undefined : num;
-}
-
-function normalizeArea(area: string | undefined): string {
-  if (!area) return 'both';
-  const normalized = area.toLowerCase();
-  if (normalized.includes('cocina') || normalized.includes('kitchen')) return 'kitchen';
-  if (normalized.includes('sala') || normalized.includes('dining') || normalized.includes('hall')) return 'dining';
-  return 'both';
-}
-
-async function saveIngredientData(ingredient: ProcessedIngredient, organizationId: string) {
-  console.log('Saving ingredient:', ingredient.name);
-  
-  // First, ensure ingredient exists
-  let ingredientId: string;
-  
-  const { data: existingIngredient, error: findError } = await supabase
-    .from('ingredients')
+/**
+ * Text layer of every page, with the pages done written to ocr_processing as it goes.
+ * Extraction takes the 10-70% slice of the job progress.
+ */
+async function extractPdfText(fileData: Blob, job: UploadJob): Promise<ExtractedTable> {
+  const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(await fileData.arrayBuffer()), isEvalSupported: false }).promise;
+
+  const { data: run, error: runError } = await supabase
+    .from('ocr_processing')
+    .insert({
+      organization_id: job.organizationId,
+      file_name: job.fileName,
+      file_size: job.fileSize,
+      file_type: 'pdf',
+      processing_status: 'processing',
+      page_count: pdf.numPages
+    })
     .select('id')
-    .eq('name', ingredient.name)
-    .eq('organization_id', organizationId)
-    .maybeSingle();
-
-  if (existingIngredient) {
-    ingredientId = existingIngredient.id;
-    console.log('Found existing ingredient:', ingredient.name);
-    
-    // Update ingredient info if category or other details provided
-    if (ingredient.category || ingredient.unit_base || ingredient.area) {
-      await supabase
-        .from('ingredients')
-        .update({
-          category: ingredient.category || 'General',
-          unit_base: ingredient.unit_base || 'kg',
-          area: ingredient.area || 'both'
-        })
-        .eq('id', ingredientId);
-    }
-  } else {
-    console.log('Creating new ingredient:', ingredient.name);
-    const { data: newIngredient, error: createError } = await supabase
-      .from('ingredients')
-      .insert({
-        name: ingredient.name,
-        category: ingredient.category || 'General',
-        unit_base: ingredient.unit_base || 'kg',
-        area: ingredient.area || 'both',
-        allergens: ingredient.allergens || [],
-        organization_id: organizationId
-      })
-      .select('id')
-      .single();
-
-    if (createError) {
-      console.error('Error creating ingredient:', createError);
-      throw createError;
-    }
-    ingredientId = newIngredient.id;
-    console.log('Created ingredient with ID:', ingredientId);
-  }
+    .single();
 
-  // If supplier info provided, create supplier and pricing
-  if (ingredient.supplier_name && ingredient.pack_price && ingredient.pack_price > 0) {
-    console.log('Processing supplier data for:', ingredient.supplier_name);
-    
-    // Ensure supplier exists
-    let supplierId: string;
-    
-    const { data: existingSupplier, error: supplierFindError } = await supabase
-      .from('suppliers')
-      .select('id')
-      .eq('name', ingredient.supplier_name)
-      .eq('organization_id', organizationId)
-      .maybeSingle();
-
-    if (existingSupplier) {
-      supplierId = existingSupplier.id;
-      console.log('Found existing supplier:', ingredient.supplier_name);
-    } else {
-      console.log('Creating new supplier:', ingredient.supplier_name);
-      const { data: newSupplier, error: supplierCreateError } = await supabase
-        .from('suppliers')
-        .insert({
-          name: ingredient.supplier_name,
-          organization_id: organizationId,
-          lead_time_days: 1
-        })
-        .select('id')
-        .single();
-
-      if (supplierCreateError) {
-        console.error('Error creating supplier:', supplierCreateError);
-        throw supplierCreateError;
-      }
-      supplierId = newSupplier.id;
-      console.log('Created supplier with ID:', supplierId);
-    }
+  if (runError) console.error('Error creating extraction run:', runError);
 
-    // Check if supplier product already exists
-    const { data: existingProduct, error: productFindError } = await supabase
-      .from('supplier_products')
-      .select('id')
-      .eq('supplier_id', supplierId)
-      .eq('ingredient_id', ingredientId)
-      .maybeSingle();
-
-    let supplierProductId: string;
-
-    if (existingProduct) {
-      supplierProductId = existingProduct.id;
-      console.log('Found existing supplier product');
-    } else {
-      console.log('Creating supplier product');
-      const { data: supplierProduct, error: productError } = await supabase
-        .from('supplier_products')
-        .insert({
-          supplier_id: supplierId,
-          ingredient_id: ingredientId,
-          area: ingredient.area || 'both'
-        })
-        .select('id')
-        .single();
-
-      if (productError) {
-        console.error('Error creating supplier product:', productError);
-        throw productError;
-      }
-      supplierProductId = supplierProduct.id;
-      console.log('Created supplier product with ID:', supplierProductId);
-    }
+  const updateRun = async (values: Record<string, unknown>) => {
+    if (!run) return;
+    const { error } = await supabase.from('ocr_processing').update(values).eq('id', run.id);
+    if (error) console.error('Error updating extraction run:', error);
+  };
 
-    // Create or update pricing
-    const packSize = parseNumeric(ingredient.pack_size?.split(' ')[0]) || 1;
-    const packUnit = ingredient.pack_size?.split(' ')[1] || ingredient.unit_base || 'kg';
-
-    // Deactivate old prices
-    await supabase
-      .from('supplier_prices')
-      .update({ is_active: false })
-      .eq('supplier_product_id', supplierProductId);
-
-    // Create new price
-    console.log('Creating new price:', ingredient.pack_price);
-    const { error: priceError } = await supabase
-      .from('supplier_prices')
-      .insert({
-        supplier_product_id: supplierProductId,
-        pack_description: ingredient.pack_description || `${ingredient.name} - ${ingredient.pack_size}`,
-        pack_unit: packUnit,
-        pack_net_qty: packSize,
-        pack_price: ingredient.pack_price,
-        discount_pct: Math.min(100, Math.max(0, ingredient.discount || 0)),
-        tax_pct: ingredient.igic || 7,
-        is_active: true,
-        effective_from: new Date().toISOString()
-      });
-
-    if (priceError) {
-      console.error('Error creating price:', priceError);
-      throw priceError;
+  try {
+    const pages: PdfTextItem[][] = [];
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+      const page = await pdf.getPage(pageNum);
+      const textContent = await page.getTextContent();
+      pages.push(toPdfTextItems(textContent.items));
+      page.cleanup();
+
+      const share = pageNum / pdf.numPages;
+      await updateRun({ pages_processed: pageNum, progress: Math.round(share * 100) });
+      await reportProgress(supabase, job, 'extracting', 10 + share * 60);
     }
 
-    // Update ingredient average price
-    const finalPrice = ingredient.pack_price * (1 - (ingredient.discount || 0) / 100) * (1 + (ingredient.igic || 7) / 100);
-    const unitPrice = finalPrice / packSize;
+    if (pages.every(items => items.length === 0)) {
+      throw new PermanentJobError('El PDF está escaneado (sin texto): ábrelo en el asistente para aplicar OCR');
+    }
 
-    await supabase
-      .from('ingredients')
-      .update({
-        avg_price: unitPrice,
-        last_price_update: new Date().toISOString(),
-        supplier_count: 1 // Will be recalculated by triggers
-      })
-      .eq('id', ingredientId);
+    const { columns, rows, text } = extractPdfTable(pages);
+    await updateRun({
+      processing_status: 'completed',
+      extracted_data: { columns, rows: rows.length },
+      completed_at: new Date().toISOString()
+    });
 
-    console.log('Updated ingredient with price info');
+    return { columns, rows, text, fileType: 'pdf', pages: pdf.numPages, ocrProcessingId: run?.id };
+  } catch (error) {
+    await updateRun({
+      processing_status: 'failed',
+      error_message: error instanceof Error ? error.message : String(error),
+      completed_at: new Date().toISOString()
+    });
+    throw error;
+  } finally {
+    await pdf.destroy();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,8 @@
+-- Physical properties used to convert between mass, volume and count units
+
+ALTER TABLE public.ingredients
+ADD COLUMN IF NOT EXISTS density_kg_per_l DECIMAL(8,4) CHECK (density_kg_per_l IS NULL OR density_kg_per_l > 0),
+ADD COLUMN IF NOT EXISTS piece_weight_kg DECIMAL(10,4) CHECK (piece_weight_kg IS NULL OR piece_weight_kg > 0);
+
+COMMENT ON COLUMN public.ingredients.density_kg_per_l IS 'Densidad (kg por litro) para convertir entre masa y volumen';
+COMMENT ON COLUMN public.ingredients.piece_weight_kg IS 'Peso medio de una unidad (kg) para convertir entre unidades y masa';
@@ -0,0 +1,8 @@
+-- Structured pack breakdown (levels, net/drained weight, ranges, confidence) parsed from the supplier label
+
+ALTER TABLE public.supplier_prices
+ADD COLUMN IF NOT EXISTS pack_breakdown JSONB,
+ADD COLUMN IF NOT EXISTS pack_confidence DECIMAL(3,2) CHECK (pack_confidence IS NULL OR (pack_confidence >= 0 AND pack_confidence <= 1));
+
+COMMENT ON COLUMN public.supplier_prices.pack_breakdown IS 'Desglose del formato: niveles, peso neto/escurrido, rangos y avisos';
+COMMENT ON COLUMN public.supplier_prices.pack_confidence IS 'Confianza (0-1) en la interpretación del formato';
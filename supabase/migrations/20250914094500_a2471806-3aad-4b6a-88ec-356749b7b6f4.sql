@@ -0,0 +1,139 @@
+-- Regímenes fiscales por organización (IGIC, IVA, IPSI) y categoría fiscal por producto
+
+CREATE TYPE public.tax_regime AS ENUM ('IGIC', 'IVA', 'IPSI');
+CREATE TYPE public.tax_category AS ENUM ('zero', 'super_reduced', 'reduced', 'general');
+
+CREATE TABLE public.tax_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  regime public.tax_regime NOT NULL,
+  -- Tipos en porcentaje (7 = 7%)
+  zero_rate DECIMAL(5,3) NOT NULL DEFAULT 0 CHECK (zero_rate >= 0),
+  super_reduced_rate DECIMAL(5,3) CHECK (super_reduced_rate IS NULL OR super_reduced_rate >= 0),
+  reduced_rate DECIMAL(5,3) NOT NULL CHECK (reduced_rate >= 0),
+  general_rate DECIMAL(5,3) NOT NULL CHECK (general_rate >= 0),
+  prices_include_tax BOOLEAN NOT NULL DEFAULT false,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX tax_profiles_one_default_per_org ON public.tax_profiles(organization_id) WHERE is_default;
+
+ALTER TABLE public.tax_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization's tax profiles"
+ON public.tax_profiles
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = tax_profiles.organization_id
+  AND user_id = auth.uid()
+  AND is_active = true
+));
+
+CREATE POLICY "Managers can manage their organization's tax profiles"
+ON public.tax_profiles
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = tax_profiles.organization_id
+  AND user_id = auth.uid()
+  AND role IN ('owner', 'admin', 'manager')
+  AND is_active = true
+));
+
+CREATE TRIGGER update_tax_profiles_updated_at
+BEFORE UPDATE ON public.tax_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Perfil IGIC por defecto para las organizaciones existentes (todas se crearon con IGIC)
+INSERT INTO public.tax_profiles (organization_id, name, regime, zero_rate, reduced_rate, general_rate, is_default)
+SELECT id, 'IGIC Canarias', 'IGIC', 0, 3, COALESCE(igic_default, 0.070) * 100, true
+FROM public.organizations;
+
+-- Categoría fiscal del producto: resuelve el tipo dentro del perfil de la organización
+ALTER TABLE public.ingredients
+ADD COLUMN IF NOT EXISTS tax_category public.tax_category NOT NULL DEFAULT 'general';
+
+-- tax_pct pasa a expresarse siempre en porcentaje, como discount_pct
+UPDATE public.supplier_prices SET tax_pct = tax_pct * 100 WHERE tax_pct > 0 AND tax_pct < 1;
+ALTER TABLE public.supplier_prices ALTER COLUMN tax_pct SET DEFAULT 7;
+
+ALTER TABLE public.supplier_prices
+ADD COLUMN IF NOT EXISTS tax_included BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.supplier_prices.tax_pct IS 'Tipo impositivo aplicado al precio, en porcentaje';
+COMMENT ON COLUMN public.supplier_prices.tax_included IS 'true si pack_price ya incluye el impuesto';
+COMMENT ON COLUMN public.ingredients.tax_category IS 'Categoría fiscal: tipo cero, superreducido, reducido o general';
+
+-- best_price se compara siempre sin impuestos, aunque el proveedor facture con impuesto incluido
+CREATE OR REPLACE FUNCTION update_ingredient_pricing()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE ingredients 
+  SET 
+    best_price = (
+      SELECT MIN(
+        CASE WHEN sp.tax_included THEN sp.pack_price / (1 + COALESCE(sp.tax_pct, 0) / 100) ELSE sp.pack_price END
+        / sp.pack_net_qty
+      )
+      FROM supplier_prices sp
+      JOIN supplier_products spr ON sp.supplier_product_id = spr.id
+      WHERE spr.ingredient_id = (
+        SELECT spr2.ingredient_id 
+        FROM supplier_products spr2 
+        WHERE spr2.id = NEW.supplier_product_id
+      )
+      AND sp.is_active = true
+      AND (sp.effective_to IS NULL OR sp.effective_to > now())
+    ),
+    best_price_supplier_id = (
+      SELECT spr.supplier_id
+      FROM supplier_products spr
+      JOIN supplier_prices sp ON sp.supplier_product_id = spr.id
+      WHERE spr.ingredient_id = (
+        SELECT spr2.ingredient_id 
+        FROM supplier_products spr2 
+        WHERE spr2.id = NEW.supplier_product_id
+      )
+      AND sp.is_active = true
+      AND (sp.effective_to IS NULL OR sp.effective_to > now())
+      ORDER BY (
+        CASE WHEN sp.tax_included THEN sp.pack_price / (1 + COALESCE(sp.tax_pct, 0) / 100) ELSE sp.pack_price END
+        / sp.pack_net_qty
+      ) ASC
+      LIMIT 1
+    ),
+    last_price_update = now(),
+    updated_at = now()
+  WHERE id = (
+    SELECT ingredient_id 
+    FROM supplier_products 
+    WHERE id = NEW.supplier_product_id
+  );
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Las organizaciones nuevas reciben también su perfil por defecto
+CREATE OR REPLACE FUNCTION public.create_default_tax_profile()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.tax_profiles (organization_id, name, regime, zero_rate, reduced_rate, general_rate, is_default)
+  VALUES (NEW.id, 'IGIC Canarias', 'IGIC', 0, 3, COALESCE(NEW.igic_default, 0.070) * 100, true);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_default_tax_profile_on_org
+AFTER INSERT ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.create_default_tax_profile();
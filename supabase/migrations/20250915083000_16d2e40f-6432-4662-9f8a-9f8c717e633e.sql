@@ -0,0 +1,39 @@
+-- Alias aprendidos de ingredientes: nombres de proveedor confirmados como un ingrediente del catálogo
+
+CREATE TABLE public.ingredient_aliases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  ingredient_id UUID NOT NULL REFERENCES public.ingredients(id) ON DELETE CASCADE,
+  alias TEXT NOT NULL,
+  -- Forma canónica (minúsculas, sin acentos, abreviaturas expandidas) usada para buscar
+  normalized_alias TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'import' CHECK (source IN ('import', 'manual')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, normalized_alias)
+);
+
+CREATE INDEX idx_ingredient_aliases_ingredient ON public.ingredient_aliases(ingredient_id);
+
+ALTER TABLE public.ingredient_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization's ingredient aliases"
+ON public.ingredient_aliases
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = ingredient_aliases.organization_id
+  AND user_id = auth.uid()
+  AND is_active = true
+));
+
+CREATE POLICY "Managers can manage their organization's ingredient aliases"
+ON public.ingredient_aliases
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = ingredient_aliases.organization_id
+  AND user_id = auth.uid()
+  AND role IN ('owner', 'admin', 'manager')
+  AND is_active = true
+));
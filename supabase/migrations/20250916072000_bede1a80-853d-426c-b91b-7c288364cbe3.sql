@@ -0,0 +1,39 @@
+-- Alias de proveedores: "MAKRO AUTOSERVICIO" o "Makro Cash&Carry" apuntan al mismo proveedor
+
+CREATE TABLE public.supplier_aliases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id) ON DELETE CASCADE,
+  alias TEXT NOT NULL,
+  -- Forma canónica (sin acentos, forma jurídica ni descriptores comerciales) usada para buscar
+  normalized_alias TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'import' CHECK (source IN ('import', 'manual')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, normalized_alias)
+);
+
+CREATE INDEX idx_supplier_aliases_supplier ON public.supplier_aliases(supplier_id);
+
+ALTER TABLE public.supplier_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization's supplier aliases"
+ON public.supplier_aliases
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = supplier_aliases.organization_id
+  AND user_id = auth.uid()
+  AND is_active = true
+));
+
+CREATE POLICY "Managers can manage their organization's supplier aliases"
+ON public.supplier_aliases
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = supplier_aliases.organization_id
+  AND user_id = auth.uid()
+  AND role IN ('owner', 'admin', 'manager')
+  AND is_active = true
+));
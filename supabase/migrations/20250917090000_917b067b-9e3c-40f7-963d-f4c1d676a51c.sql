@@ -0,0 +1,36 @@
+-- Alérgenos con estado: cada entrada de ingredients.allergens indica si es sugerido, confirmado o ausente
+-- Formato: [{"code": "gluten", "status": "suggested|confirmed|absent", "source": "name|category|spec|manual", "evidence": "trigo"}]
+
+-- Las etiquetas antiguas ("Lactosa", "Huevo"...) se introdujeron a mano: pasan a confirmadas
+UPDATE public.ingredients i
+SET allergens = (
+  SELECT COALESCE(jsonb_agg(
+    CASE
+      WHEN jsonb_typeof(elem) = 'string' AND codes.code IS NOT NULL
+        THEN jsonb_build_object('code', codes.code, 'status', 'confirmed', 'source', 'manual')
+      ELSE elem
+    END
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(i.allergens) AS elem
+  LEFT JOIN (VALUES
+    ('gluten', 'gluten'),
+    ('crustáceos', 'crustaceans'), ('crustaceos', 'crustaceans'), ('mariscos', 'crustaceans'),
+    ('huevo', 'eggs'), ('huevos', 'eggs'),
+    ('pescado', 'fish'),
+    ('cacahuete', 'peanuts'), ('cacahuetes', 'peanuts'),
+    ('soja', 'soy'),
+    ('lactosa', 'milk'), ('leche', 'milk'), ('lácteos', 'milk'),
+    ('frutos secos', 'nuts'),
+    ('apio', 'celery'),
+    ('mostaza', 'mustard'),
+    ('sésamo', 'sesame'), ('sesamo', 'sesame'),
+    ('sulfitos', 'sulphites'),
+    ('altramuces', 'lupin'), ('altramuz', 'lupin'),
+    ('moluscos', 'molluscs')
+  ) AS codes(label, code) ON jsonb_typeof(elem) = 'string' AND lower(elem #>> '{}') = codes.label
+)
+WHERE jsonb_typeof(i.allergens) = 'array' AND jsonb_array_length(i.allergens) > 0;
+
+UPDATE public.ingredients SET allergens = '[]'::jsonb WHERE allergens IS NULL;
+
+COMMENT ON COLUMN public.ingredients.allergens IS 'Los 14 alérgenos UE: [{code, status: suggested|confirmed|absent, source, evidence}]';
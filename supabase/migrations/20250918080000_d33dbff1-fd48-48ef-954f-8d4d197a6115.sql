@@ -0,0 +1,65 @@
+-- Taxonomía jerárquica por organización: categoría › familia › subfamilia
+-- Sustituye el texto libre de ingredients.category/family/subfamily como fuente de verdad
+
+CREATE TABLE public.taxonomy_nodes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.taxonomy_nodes(id) ON DELETE CASCADE,
+  level TEXT NOT NULL CHECK (level IN ('category', 'family', 'subfamily')),
+  name TEXT NOT NULL,
+  -- Forma canónica (minúsculas, sin acentos) para resolver los valores importados
+  normalized_name TEXT NOT NULL,
+  -- Palabras que clasifican un producto en este nodo a partir de su nombre
+  keywords TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((level = 'category') = (parent_id IS NULL))
+);
+
+-- Nombres únicos entre hermanos (las categorías raíz no tienen padre)
+CREATE UNIQUE INDEX idx_taxonomy_nodes_sibling_name
+ON public.taxonomy_nodes(organization_id, COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), normalized_name);
+
+CREATE INDEX idx_taxonomy_nodes_parent ON public.taxonomy_nodes(parent_id);
+
+CREATE TRIGGER update_taxonomy_nodes_updated_at
+BEFORE UPDATE ON public.taxonomy_nodes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.taxonomy_nodes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization's taxonomy"
+ON public.taxonomy_nodes
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = taxonomy_nodes.organization_id
+  AND user_id = auth.uid()
+  AND is_active = true
+));
+
+CREATE POLICY "Managers can manage their organization's taxonomy"
+ON public.taxonomy_nodes
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = taxonomy_nodes.organization_id
+  AND user_id = auth.uid()
+  AND role IN ('owner', 'admin', 'manager')
+  AND is_active = true
+));
+
+-- Clasificación de cada ingrediente: nodo más profundo asignado y cómo se asignó
+-- category/family/subfamily se mantienen como copia legible del camino del nodo
+ALTER TABLE public.ingredients
+  ADD COLUMN taxonomy_node_id UUID REFERENCES public.taxonomy_nodes(id) ON DELETE SET NULL,
+  ADD COLUMN classification_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (classification_status IN ('manual', 'auto', 'pending')),
+  -- Valor de texto libre recibido en la importación que no existe en la taxonomía
+  ADD COLUMN unmatched_category TEXT;
+
+CREATE INDEX idx_ingredients_taxonomy_node ON public.ingredients(taxonomy_node_id);
+
+-- 'General' lo ponía la importación por defecto: no es una clasificación real
+UPDATE public.ingredients SET category = NULL WHERE category = 'General';
@@ -0,0 +1,26 @@
+-- Plantillas de mapeo de columnas reutilizables por proveedor y formato de archivo
+-- file_import_mappings pasa de guardar el mapeo de un archivo a ser la plantilla aprendida de él
+
+-- La plantilla sobrevive al archivo del que se aprendió
+ALTER TABLE public.file_import_mappings ALTER COLUMN file_upload_id DROP NOT NULL;
+ALTER TABLE public.file_import_mappings DROP CONSTRAINT IF EXISTS file_import_mappings_file_upload_id_fkey;
+ALTER TABLE public.file_import_mappings
+  ADD CONSTRAINT file_import_mappings_file_upload_id_fkey
+  FOREIGN KEY (file_upload_id) REFERENCES public.file_uploads(id) ON DELETE SET NULL;
+
+ALTER TABLE public.file_import_mappings
+  ADD COLUMN supplier_id UUID REFERENCES public.suppliers(id) ON DELETE CASCADE,
+  -- Cabeceras normalizadas y ordenadas: identifican el formato de archivo
+  ADD COLUMN header_fingerprint TEXT,
+  ADD COLUMN use_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN last_used_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_file_import_mappings_fingerprint
+ON public.file_import_mappings(organization_id, header_fingerprint);
+
+CREATE INDEX idx_file_import_mappings_supplier ON public.file_import_mappings(supplier_id);
+
+CREATE TRIGGER update_file_import_mappings_updated_at
+BEFORE UPDATE ON public.file_import_mappings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,109 @@
+-- Facturas de compra: cabecera y líneas extraídas de los archivos subidos
+-- Historial real de compras además de los precios del catálogo
+
+-- NIF/CIF del proveedor: identifica al emisor de las facturas
+ALTER TABLE public.suppliers ADD COLUMN tax_id TEXT;
+
+CREATE INDEX idx_suppliers_tax_id ON public.suppliers(organization_id, tax_id);
+
+CREATE TABLE public.purchase_invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL,
+  -- Datos del emisor tal como aparecen en la factura
+  supplier_name TEXT,
+  supplier_tax_id TEXT,
+  invoice_number TEXT,
+  invoice_date DATE,
+  due_date DATE,
+  currency TEXT NOT NULL DEFAULT 'EUR',
+  subtotal NUMERIC(12,2),
+  tax_total NUMERIC(12,2),
+  total NUMERIC(12,2),
+  -- [{ rate, base, tax }] por tipo impositivo
+  tax_breakdown JSONB NOT NULL DEFAULT '[]',
+  -- Suma de líneas frente a la base y la base más impuestos frente al total
+  lines_total NUMERIC(12,2) NOT NULL DEFAULT 0,
+  totals_match BOOLEAN NOT NULL DEFAULT false,
+  totals_issues TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'confirmed')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_purchase_invoices_organization ON public.purchase_invoices(organization_id, invoice_date DESC);
+CREATE INDEX idx_purchase_invoices_supplier ON public.purchase_invoices(supplier_id);
+
+CREATE TABLE public.purchase_invoice_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.purchase_invoices(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  line_number INTEGER NOT NULL,
+  description TEXT NOT NULL,
+  reference TEXT,
+  quantity NUMERIC(12,3) NOT NULL DEFAULT 1,
+  unit TEXT,
+  unit_price NUMERIC(12,4) NOT NULL,
+  discount_pct NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (discount_pct >= 0 AND discount_pct <= 100),
+  tax_rate NUMERIC(5,2),
+  -- Importe neto de la línea (sin impuestos)
+  line_total NUMERIC(12,2) NOT NULL,
+  ingredient_id UUID REFERENCES public.ingredients(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_purchase_invoice_lines_invoice ON public.purchase_invoice_lines(invoice_id, line_number);
+CREATE INDEX idx_purchase_invoice_lines_ingredient ON public.purchase_invoice_lines(ingredient_id);
+
+ALTER TABLE public.file_uploads
+  ADD COLUMN purchase_invoice_id UUID REFERENCES public.purchase_invoices(id) ON DELETE SET NULL;
+
+CREATE TRIGGER update_purchase_invoices_updated_at
+BEFORE UPDATE ON public.purchase_invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.purchase_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_invoice_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization's purchase invoices"
+ON public.purchase_invoices
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = purchase_invoices.organization_id
+  AND user_id = auth.uid()
+  AND is_active = true
+));
+
+CREATE POLICY "Managers can manage their organization's purchase invoices"
+ON public.purchase_invoices
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = purchase_invoices.organization_id
+  AND user_id = auth.uid()
+  AND role IN ('owner', 'admin', 'manager')
+  AND is_active = true
+));
+
+CREATE POLICY "Members can view their organization's purchase invoice lines"
+ON public.purchase_invoice_lines
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = purchase_invoice_lines.organization_id
+  AND user_id = auth.uid()
+  AND is_active = true
+));
+
+CREATE POLICY "Managers can manage their organization's purchase invoice lines"
+ON public.purchase_invoice_lines
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = purchase_invoice_lines.organization_id
+  AND user_id = auth.uid()
+  AND role IN ('owner', 'admin', 'manager')
+  AND is_active = true
+));
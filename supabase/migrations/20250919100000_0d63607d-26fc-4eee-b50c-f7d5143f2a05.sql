@@ -0,0 +1,221 @@
+-- Lotes de importación: cada ejecución de import-normalized-data registra lo que crea o modifica
+-- para poder deshacerla entera si falla o si el usuario la revierte
+CREATE TABLE public.import_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  file_upload_id UUID REFERENCES public.file_uploads(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed', 'reverted')),
+  row_count INTEGER NOT NULL DEFAULT 0,
+  processed_count INTEGER NOT NULL DEFAULT 0,
+  summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+  error_message TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  reverted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Un cambio por entidad creada o modificada; previous_data guarda el estado anterior de las modificadas
+CREATE TABLE public.import_batch_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_id UUID NOT NULL REFERENCES public.import_batches(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  sequence INTEGER NOT NULL,
+  entity_type TEXT NOT NULL CHECK (entity_type IN (
+    'ingredient', 'ingredient_alias', 'supplier', 'supplier_alias', 'supplier_product', 'supplier_price'
+  )),
+  entity_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('created', 'updated')),
+  previous_data JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (batch_id, sequence)
+);
+
+CREATE INDEX idx_import_batches_org ON public.import_batches(organization_id, started_at DESC);
+CREATE INDEX idx_import_batches_file_upload ON public.import_batches(file_upload_id);
+CREATE INDEX idx_import_batch_changes_batch ON public.import_batch_changes(batch_id, sequence);
+
+CREATE TRIGGER update_import_batches_updated_at
+BEFORE UPDATE ON public.import_batches
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.import_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_batch_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization's import batches"
+ON public.import_batches
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = import_batches.organization_id
+  AND user_id = auth.uid()
+  AND is_active = true
+));
+
+CREATE POLICY "Managers can manage their organization's import batches"
+ON public.import_batches
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = import_batches.organization_id
+  AND user_id = auth.uid()
+  AND role IN ('owner', 'admin', 'manager')
+  AND is_active = true
+));
+
+CREATE POLICY "Members can view their organization's import batch changes"
+ON public.import_batch_changes
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = import_batch_changes.organization_id
+  AND user_id = auth.uid()
+  AND is_active = true
+));
+
+CREATE POLICY "Managers can manage their organization's import batch changes"
+ON public.import_batch_changes
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = import_batch_changes.organization_id
+  AND user_id = auth.uid()
+  AND role IN ('owner', 'admin', 'manager')
+  AND is_active = true
+));
+
+-- Deshace un lote en orden inverso dentro de una sola transacción: o se revierte entero o nada.
+-- Los lotes fallidos conservan su estado 'failed'; los completados pasan a 'reverted'.
+CREATE OR REPLACE FUNCTION public.revert_import_batch(p_batch_id uuid)
+RETURNS public.import_batches
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.import_batches;
+  v_change public.import_batch_changes;
+  v_ingredients uuid[];
+BEGIN
+  SELECT * INTO v_batch FROM public.import_batches WHERE id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lote de importación no encontrado';
+  END IF;
+  IF v_batch.status = 'running' THEN
+    RAISE EXCEPTION 'La importación sigue en curso';
+  END IF;
+  IF v_batch.reverted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'El lote ya se ha revertido';
+  END IF;
+
+  -- Reactivar precios que una importación posterior ya sustituyó dejaría el catálogo incoherente
+  IF EXISTS (
+    SELECT 1
+    FROM public.supplier_prices later
+    WHERE later.created_at > v_batch.started_at
+    AND later.supplier_product_id IN (
+      SELECT sp.supplier_product_id
+      FROM public.import_batch_changes c
+      JOIN public.supplier_prices sp ON sp.id = c.entity_id
+      WHERE c.batch_id = p_batch_id AND c.entity_type = 'supplier_price'
+    )
+    AND later.id NOT IN (
+      SELECT entity_id FROM public.import_batch_changes
+      WHERE batch_id = p_batch_id AND entity_type = 'supplier_price'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Hay precios más recientes de estos productos: revierte antes las importaciones posteriores';
+  END IF;
+
+  -- Ingredientes cuyo mejor precio hay que recalcular al final
+  SELECT array_agg(DISTINCT spr.ingredient_id) INTO v_ingredients
+  FROM public.import_batch_changes c
+  JOIN public.supplier_prices sp ON sp.id = c.entity_id
+  JOIN public.supplier_products spr ON spr.id = sp.supplier_product_id
+  WHERE c.batch_id = p_batch_id AND c.entity_type = 'supplier_price';
+
+  FOR v_change IN
+    SELECT * FROM public.import_batch_changes WHERE batch_id = p_batch_id ORDER BY sequence DESC
+  LOOP
+    IF v_change.action = 'created' THEN
+      CASE v_change.entity_type
+        WHEN 'supplier_price' THEN DELETE FROM public.supplier_prices WHERE id = v_change.entity_id;
+        WHEN 'supplier_product' THEN DELETE FROM public.supplier_products WHERE id = v_change.entity_id;
+        WHEN 'supplier_alias' THEN DELETE FROM public.supplier_aliases WHERE id = v_change.entity_id;
+        WHEN 'supplier' THEN DELETE FROM public.suppliers WHERE id = v_change.entity_id;
+        WHEN 'ingredient_alias' THEN DELETE FROM public.ingredient_aliases WHERE id = v_change.entity_id;
+        WHEN 'ingredient' THEN DELETE FROM public.ingredients WHERE id = v_change.entity_id;
+      END CASE;
+    ELSE
+      CASE v_change.entity_type
+        WHEN 'supplier_price' THEN
+          UPDATE public.supplier_prices
+          SET is_active = (v_change.previous_data->>'is_active')::boolean,
+              effective_to = (v_change.previous_data->>'effective_to')::timestamptz
+          WHERE id = v_change.entity_id;
+        WHEN 'ingredient' THEN
+          UPDATE public.ingredients i
+          SET taxonomy_node_id = p.taxonomy_node_id,
+              category = p.category,
+              family = p.family,
+              subfamily = p.subfamily,
+              classification_status = p.classification_status,
+              unmatched_category = p.unmatched_category,
+              unit_base = p.unit_base,
+              area = p.area,
+              allergens = p.allergens,
+              updated_at = now()
+          FROM jsonb_populate_record(NULL::public.ingredients, v_change.previous_data) p
+          WHERE i.id = v_change.entity_id;
+        WHEN 'ingredient_alias' THEN
+          UPDATE public.ingredient_aliases
+          SET ingredient_id = (v_change.previous_data->>'ingredient_id')::uuid,
+              alias = v_change.previous_data->>'alias',
+              source = v_change.previous_data->>'source'
+          WHERE id = v_change.entity_id;
+        WHEN 'supplier_alias' THEN
+          UPDATE public.supplier_aliases
+          SET supplier_id = (v_change.previous_data->>'supplier_id')::uuid,
+              alias = v_change.previous_data->>'alias',
+              source = v_change.previous_data->>'source'
+          WHERE id = v_change.entity_id;
+        ELSE
+          RAISE EXCEPTION 'Cambio no reversible: % %', v_change.entity_type, v_change.action;
+      END CASE;
+    END IF;
+  END LOOP;
+
+  -- El trigger de precios solo salta en INSERT/UPDATE: tras borrar se recalcula a mano
+  UPDATE public.supplier_prices
+  SET updated_at = now()
+  WHERE id IN (
+    SELECT DISTINCT ON (spr.ingredient_id) sp.id
+    FROM public.supplier_prices sp
+    JOIN public.supplier_products spr ON spr.id = sp.supplier_product_id
+    WHERE spr.ingredient_id = ANY(v_ingredients) AND sp.is_active = true
+  );
+  UPDATE public.ingredients i
+  SET best_price = NULL, best_price_supplier_id = NULL
+  WHERE i.id = ANY(v_ingredients)
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.supplier_prices sp
+    JOIN public.supplier_products spr ON spr.id = sp.supplier_product_id
+    WHERE spr.ingredient_id = i.id AND sp.is_active = true
+  );
+
+  UPDATE public.import_batches
+  SET status = CASE WHEN status = 'failed' THEN 'failed' ELSE 'reverted' END,
+      reverted_at = now()
+  WHERE id = p_batch_id
+  RETURNING * INTO v_batch;
+
+  RETURN v_batch;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.revert_import_batch(uuid) TO authenticated;
+
+COMMENT ON TABLE public.import_batches IS 'Ejecuciones de importación con el registro de cambios para deshacerlas';
+COMMENT ON COLUMN public.import_batch_changes.previous_data IS 'Estado anterior de la fila modificada; nulo en las creadas';
@@ -0,0 +1,26 @@
+-- Cola de procesamiento en segundo plano para archivos grandes
+-- Cada archivo encolado es un trabajo: estado, reintentos y progreso por paso, visibles en tiempo real
+
+ALTER TABLE public.file_uploads
+  ADD COLUMN queued_at TIMESTAMP WITH TIME ZONE,            -- solo los trabajos en segundo plano
+  ADD COLUMN processing_step TEXT,                          -- queued, downloading, extracting, normalizing, ready, done
+  ADD COLUMN progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+  ADD COLUMN started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN heartbeat_at TIMESTAMP WITH TIME ZONE;        -- último avance, para detectar trabajos colgados
+
+CREATE INDEX idx_file_uploads_queue ON public.file_uploads(organization_id, queued_at DESC)
+WHERE queued_at IS NOT NULL;
+
+-- Avance página a página de la extracción de texto de documentos
+ALTER TABLE public.ocr_processing
+  ADD COLUMN progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  ADD COLUMN page_count INTEGER,
+  ADD COLUMN pages_processed INTEGER NOT NULL DEFAULT 0;
+
+-- Actualizaciones en vivo para la pantalla de estado de procesamiento
+ALTER TABLE public.file_uploads REPLICA IDENTITY FULL;
+ALTER TABLE public.ocr_processing REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.file_uploads;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ocr_processing;
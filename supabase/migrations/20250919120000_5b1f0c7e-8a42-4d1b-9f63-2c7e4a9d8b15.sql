@@ -0,0 +1,258 @@
+-- Listas de precios versionadas: cada importación registra, por proveedor, una lista con fecha de
+-- entrada en vigor. Sus precios cierran los anteriores de cada producto en esa fecha y las listas
+-- con fecha futura quedan programadas sin tocar los precios vigentes hasta entonces.
+CREATE TABLE public.supplier_price_lists (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id) ON DELETE CASCADE,
+  import_batch_id UUID REFERENCES public.import_batches(id) ON DELETE SET NULL,
+  file_upload_id UUID REFERENCES public.file_uploads(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  effective_from TIMESTAMP WITH TIME ZONE NOT NULL,
+  item_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_supplier_price_lists_supplier ON public.supplier_price_lists(supplier_id, effective_from DESC);
+CREATE INDEX idx_supplier_price_lists_org ON public.supplier_price_lists(organization_id, effective_from DESC);
+
+CREATE TRIGGER update_supplier_price_lists_updated_at
+BEFORE UPDATE ON public.supplier_price_lists
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.supplier_price_lists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization's price lists"
+ON public.supplier_price_lists
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = supplier_price_lists.organization_id
+  AND user_id = auth.uid()
+  AND is_active = true
+));
+
+CREATE POLICY "Managers can manage their organization's price lists"
+ON public.supplier_price_lists
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.memberships
+  WHERE organization_id = supplier_price_lists.organization_id
+  AND user_id = auth.uid()
+  AND role IN ('owner', 'admin', 'manager')
+  AND is_active = true
+));
+
+ALTER TABLE public.supplier_prices
+  ADD COLUMN price_list_id UUID REFERENCES public.supplier_price_lists(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_supplier_prices_price_list ON public.supplier_prices(price_list_id);
+CREATE INDEX idx_supplier_prices_validity ON public.supplier_prices(supplier_product_id, effective_from, effective_to);
+
+-- Las importaciones anteriores desactivaban el precio sustituido sin cerrarlo: se cierra en la
+-- fecha del precio siguiente del mismo producto para que el histórico tenga tramos consecutivos
+UPDATE public.supplier_prices sp
+SET effective_to = n.next_from,
+    is_active = n.next_from > sp.effective_from
+FROM (
+  SELECT id, lead(effective_from) OVER (PARTITION BY supplier_product_id ORDER BY effective_from, created_at) AS next_from
+  FROM public.supplier_prices
+) n
+WHERE n.id = sp.id
+AND sp.is_active = false
+AND sp.effective_to IS NULL
+AND n.next_from IS NOT NULL;
+
+-- Un precio vale en [effective_from, effective_to). is_active = false solo marca los precios que
+-- otra lista con la misma fecha sustituyó: el resto del histórico sigue siendo válido en su tramo.
+COMMENT ON TABLE public.supplier_price_lists IS 'Lista de precios de un proveedor importada con su fecha de entrada en vigor';
+COMMENT ON COLUMN public.supplier_prices.effective_to IS 'Fin (excluido) del tramo de validez; nulo mientras no haya una lista posterior';
+COMMENT ON COLUMN public.supplier_prices.is_active IS 'Falso cuando otra lista de la misma fecha sustituyó el precio';
+
+-- El mejor precio solo cuenta precios ya en vigor; los programados entran con la siguiente escritura
+CREATE OR REPLACE FUNCTION update_ingredient_pricing()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE ingredients
+  SET
+    best_price = (
+      SELECT MIN(
+        CASE WHEN sp.tax_included THEN sp.pack_price / (1 + COALESCE(sp.tax_pct, 0) / 100) ELSE sp.pack_price END
+        / sp.pack_net_qty
+      )
+      FROM supplier_prices sp
+      JOIN supplier_products spr ON sp.supplier_product_id = spr.id
+      WHERE spr.ingredient_id = (
+        SELECT spr2.ingredient_id
+        FROM supplier_products spr2
+        WHERE spr2.id = NEW.supplier_product_id
+      )
+      AND sp.is_active = true
+      AND (sp.effective_from IS NULL OR sp.effective_from <= now())
+      AND (sp.effective_to IS NULL OR sp.effective_to > now())
+    ),
+    best_price_supplier_id = (
+      SELECT spr.supplier_id
+      FROM supplier_products spr
+      JOIN supplier_prices sp ON sp.supplier_product_id = spr.id
+      WHERE spr.ingredient_id = (
+        SELECT spr2.ingredient_id
+        FROM supplier_products spr2
+        WHERE spr2.id = NEW.supplier_product_id
+      )
+      AND sp.is_active = true
+      AND (sp.effective_from IS NULL OR sp.effective_from <= now())
+      AND (sp.effective_to IS NULL OR sp.effective_to > now())
+      ORDER BY (
+        CASE WHEN sp.tax_included THEN sp.pack_price / (1 + COALESCE(sp.tax_pct, 0) / 100) ELSE sp.pack_price END
+        / sp.pack_net_qty
+      ) ASC
+      LIMIT 1
+    ),
+    last_price_update = now(),
+    updated_at = now()
+  WHERE id = (
+    SELECT ingredient_id
+    FROM supplier_products
+    WHERE id = NEW.supplier_product_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Las listas creadas por un lote se deshacen con él
+ALTER TABLE public.import_batch_changes DROP CONSTRAINT import_batch_changes_entity_type_check;
+ALTER TABLE public.import_batch_changes ADD CONSTRAINT import_batch_changes_entity_type_check CHECK (entity_type IN (
+  'ingredient', 'ingredient_alias', 'supplier', 'supplier_alias', 'supplier_product', 'supplier_price', 'supplier_price_list'
+));
+
+CREATE OR REPLACE FUNCTION public.revert_import_batch(p_batch_id uuid)
+RETURNS public.import_batches
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.import_batches;
+  v_change public.import_batch_changes;
+  v_ingredients uuid[];
+BEGIN
+  SELECT * INTO v_batch FROM public.import_batches WHERE id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lote de importación no encontrado';
+  END IF;
+  IF v_batch.status = 'running' THEN
+    RAISE EXCEPTION 'La importación sigue en curso';
+  END IF;
+  IF v_batch.reverted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'El lote ya se ha revertido';
+  END IF;
+
+  -- Reactivar precios que una importación posterior ya sustituyó dejaría el catálogo incoherente
+  IF EXISTS (
+    SELECT 1
+    FROM public.supplier_prices later
+    WHERE later.created_at > v_batch.started_at
+    AND later.supplier_product_id IN (
+      SELECT sp.supplier_product_id
+      FROM public.import_batch_changes c
+      JOIN public.supplier_prices sp ON sp.id = c.entity_id
+      WHERE c.batch_id = p_batch_id AND c.entity_type = 'supplier_price'
+    )
+    AND later.id NOT IN (
+      SELECT entity_id FROM public.import_batch_changes
+      WHERE batch_id = p_batch_id AND entity_type = 'supplier_price'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Hay precios más recientes de estos productos: revierte antes las importaciones posteriores';
+  END IF;
+
+  -- Ingredientes cuyo mejor precio hay que recalcular al final
+  SELECT array_agg(DISTINCT spr.ingredient_id) INTO v_ingredients
+  FROM public.import_batch_changes c
+  JOIN public.supplier_prices sp ON sp.id = c.entity_id
+  JOIN public.supplier_products spr ON spr.id = sp.supplier_product_id
+  WHERE c.batch_id = p_batch_id AND c.entity_type = 'supplier_price';
+
+  FOR v_change IN
+    SELECT * FROM public.import_batch_changes WHERE batch_id = p_batch_id ORDER BY sequence DESC
+  LOOP
+    IF v_change.action = 'created' THEN
+      CASE v_change.entity_type
+        WHEN 'supplier_price' THEN DELETE FROM public.supplier_prices WHERE id = v_change.entity_id;
+        WHEN 'supplier_price_list' THEN DELETE FROM public.supplier_price_lists WHERE id = v_change.entity_id;
+        WHEN 'supplier_product' THEN DELETE FROM public.supplier_products WHERE id = v_change.entity_id;
+        WHEN 'supplier_alias' THEN DELETE FROM public.supplier_aliases WHERE id = v_change.entity_id;
+        WHEN 'supplier' THEN DELETE FROM public.suppliers WHERE id = v_change.entity_id;
+        WHEN 'ingredient_alias' THEN DELETE FROM public.ingredient_aliases WHERE id = v_change.entity_id;
+        WHEN 'ingredient' THEN DELETE FROM public.ingredients WHERE id = v_change.entity_id;
+      END CASE;
+    ELSE
+      CASE v_change.entity_type
+        WHEN 'supplier_price' THEN
+          UPDATE public.supplier_prices
+          SET is_active = (v_change.previous_data->>'is_active')::boolean,
+              effective_to = (v_change.previous_data->>'effective_to')::timestamptz
+          WHERE id = v_change.entity_id;
+        WHEN 'ingredient' THEN
+          UPDATE public.ingredients i
+          SET taxonomy_node_id = p.taxonomy_node_id,
+              category = p.category,
+              family = p.family,
+              subfamily = p.subfamily,
+              classification_status = p.classification_status,
+              unmatched_category = p.unmatched_category,
+              unit_base = p.unit_base,
+              area = p.area,
+              allergens = p.allergens,
+              updated_at = now()
+          FROM jsonb_populate_record(NULL::public.ingredients, v_change.previous_data) p
+          WHERE i.id = v_change.entity_id;
+        WHEN 'ingredient_alias' THEN
+          UPDATE public.ingredient_aliases
+          SET ingredient_id = (v_change.previous_data->>'ingredient_id')::uuid,
+              alias = v_change.previous_data->>'alias',
+              source = v_change.previous_data->>'source'
+          WHERE id = v_change.entity_id;
+        WHEN 'supplier_alias' THEN
+          UPDATE public.supplier_aliases
+          SET supplier_id = (v_change.previous_data->>'supplier_id')::uuid,
+              alias = v_change.previous_data->>'alias',
+              source = v_change.previous_data->>'source'
+          WHERE id = v_change.entity_id;
+        ELSE
+          RAISE EXCEPTION 'Cambio no reversible: % %', v_change.entity_type, v_change.action;
+      END CASE;
+    END IF;
+  END LOOP;
+
+  -- El trigger de precios solo salta en INSERT/UPDATE: tras borrar se recalcula a mano
+  UPDATE public.supplier_prices
+  SET updated_at = now()
+  WHERE id IN (
+    SELECT DISTINCT ON (spr.ingredient_id) sp.id
+    FROM public.supplier_prices sp
+    JOIN public.supplier_products spr ON spr.id = sp.supplier_product_id
+    WHERE spr.ingredient_id = ANY(v_ingredients) AND sp.is_active = true
+  );
+  UPDATE public.ingredients i
+  SET best_price = NULL, best_price_supplier_id = NULL
+  WHERE i.id = ANY(v_ingredients)
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.supplier_prices sp
+    JOIN public.supplier_products spr ON spr.id = sp.supplier_product_id
+    WHERE spr.ingredient_id = i.id AND sp.is_active = true
+  );
+
+  UPDATE public.import_batches
+  SET status = CASE WHEN status = 'failed' THEN 'failed' ELSE 'reverted' END,
+      reverted_at = now()
+  WHERE id = p_batch_id
+  RETURNING * INTO v_batch;
+
+  RETURN v_batch;
+END;
+$$;
@@ -0,0 +1,191 @@
+-- Códigos de artículo del proveedor y EAN en sus productos: son la clave con la que una nueva
+-- lista reconoce un producto aunque el proveedor le haya cambiado el nombre
+ALTER TABLE public.supplier_products
+  ADD COLUMN supplier_sku TEXT,   -- normalizado: mayúsculas, sin espacios, puntos ni guiones
+  ADD COLUMN ean TEXT;            -- GTIN-8/12/13/14 con dígito de control válido
+
+CREATE UNIQUE INDEX idx_supplier_products_sku ON public.supplier_products(supplier_id, supplier_sku)
+WHERE supplier_sku IS NOT NULL;
+CREATE INDEX idx_supplier_products_ean ON public.supplier_products(supplier_id, ean)
+WHERE ean IS NOT NULL;
+
+-- Productos con código cuya última aparición es una lista anterior a la más reciente de su
+-- proveedor: descatalogados, o recodificados por el proveedor
+CREATE OR REPLACE FUNCTION public.get_missing_supplier_codes(p_organization_id uuid)
+RETURNS TABLE (
+  supplier_id uuid,
+  supplier_name text,
+  supplier_product_id uuid,
+  ingredient_id uuid,
+  ingredient_name text,
+  supplier_sku text,
+  ean text,
+  last_price_list_name text,
+  last_seen_from timestamptz,
+  latest_price_list_name text,
+  latest_effective_from timestamptz
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH latest AS (
+    SELECT DISTINCT ON (pl.supplier_id) pl.id, pl.supplier_id, pl.name, pl.effective_from
+    FROM public.supplier_price_lists pl
+    WHERE pl.organization_id = p_organization_id
+    ORDER BY pl.supplier_id, pl.effective_from DESC, pl.created_at DESC
+  ),
+  last_seen AS (
+    SELECT DISTINCT ON (sp.supplier_product_id) sp.supplier_product_id, pl.id AS price_list_id, pl.name, pl.effective_from
+    FROM public.supplier_prices sp
+    JOIN public.supplier_price_lists pl ON pl.id = sp.price_list_id
+    WHERE pl.organization_id = p_organization_id
+    ORDER BY sp.supplier_product_id, pl.effective_from DESC, pl.created_at DESC
+  )
+  SELECT s.id, s.name, spr.id, i.id, i.name, spr.supplier_sku, spr.ean,
+         ls.name, ls.effective_from, l.name, l.effective_from
+  FROM latest l
+  JOIN public.suppliers s ON s.id = l.supplier_id
+  JOIN public.supplier_products spr ON spr.supplier_id = l.supplier_id
+  JOIN public.ingredients i ON i.id = spr.ingredient_id
+  JOIN last_seen ls ON ls.supplier_product_id = spr.id
+  WHERE (spr.supplier_sku IS NOT NULL OR spr.ean IS NOT NULL)
+  AND ls.price_list_id <> l.id
+  ORDER BY s.name, i.name;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_missing_supplier_codes(uuid) TO authenticated;
+
+-- Asignar un código a un producto existente es un cambio que el lote debe poder deshacer
+CREATE OR REPLACE FUNCTION public.revert_import_batch(p_batch_id uuid)
+RETURNS public.import_batches
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.import_batches;
+  v_change public.import_batch_changes;
+  v_ingredients uuid[];
+BEGIN
+  SELECT * INTO v_batch FROM public.import_batches WHERE id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lote de importación no encontrado';
+  END IF;
+  IF v_batch.status = 'running' THEN
+    RAISE EXCEPTION 'La importación sigue en curso';
+  END IF;
+  IF v_batch.reverted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'El lote ya se ha revertido';
+  END IF;
+
+  -- Reactivar precios que una importación posterior ya sustituyó dejaría el catálogo incoherente
+  IF EXISTS (
+    SELECT 1
+    FROM public.supplier_prices later
+    WHERE later.created_at > v_batch.started_at
+    AND later.supplier_product_id IN (
+      SELECT sp.supplier_product_id
+      FROM public.import_batch_changes c
+      JOIN public.supplier_prices sp ON sp.id = c.entity_id
+      WHERE c.batch_id = p_batch_id AND c.entity_type = 'supplier_price'
+    )
+    AND later.id NOT IN (
+      SELECT entity_id FROM public.import_batch_changes
+      WHERE batch_id = p_batch_id AND entity_type = 'supplier_price'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Hay precios más recientes de estos productos: revierte antes las importaciones posteriores';
+  END IF;
+
+  -- Ingredientes cuyo mejor precio hay que recalcular al final
+  SELECT array_agg(DISTINCT spr.ingredient_id) INTO v_ingredients
+  FROM public.import_batch_changes c
+  JOIN public.supplier_prices sp ON sp.id = c.entity_id
+  JOIN public.supplier_products spr ON spr.id = sp.supplier_product_id
+  WHERE c.batch_id = p_batch_id AND c.entity_type = 'supplier_price';
+
+  FOR v_change IN
+    SELECT * FROM public.import_batch_changes WHERE batch_id = p_batch_id ORDER BY sequence DESC
+  LOOP
+    IF v_change.action = 'created' THEN
+      CASE v_change.entity_type
+        WHEN 'supplier_price' THEN DELETE FROM public.supplier_prices WHERE id = v_change.entity_id;
+        WHEN 'supplier_price_list' THEN DELETE FROM public.supplier_price_lists WHERE id = v_change.entity_id;
+        WHEN 'supplier_product' THEN DELETE FROM public.supplier_products WHERE id = v_change.entity_id;
+        WHEN 'supplier_alias' THEN DELETE FROM public.supplier_aliases WHERE id = v_change.entity_id;
+        WHEN 'supplier' THEN DELETE FROM public.suppliers WHERE id = v_change.entity_id;
+        WHEN 'ingredient_alias' THEN DELETE FROM public.ingredient_aliases WHERE id = v_change.entity_id;
+        WHEN 'ingredient' THEN DELETE FROM public.ingredients WHERE id = v_change.entity_id;
+      END CASE;
+    ELSE
+      CASE v_change.entity_type
+        WHEN 'supplier_price' THEN
+          UPDATE public.supplier_prices
+          SET is_active = (v_change.previous_data->>'is_active')::boolean,
+              effective_to = (v_change.previous_data->>'effective_to')::timestamptz
+          WHERE id = v_change.entity_id;
+        WHEN 'supplier_product' THEN
+          UPDATE public.supplier_products
+          SET supplier_sku = v_change.previous_data->>'supplier_sku',
+              ean = v_change.previous_data->>'ean'
+          WHERE id = v_change.entity_id;
+        WHEN 'ingredient' THEN
+          -- unit_base no está en la instantánea: las importaciones nunca lo cambian
+          UPDATE public.ingredients i
+          SET taxonomy_node_id = p.taxonomy_node_id,
+              category = p.category,
+              family = p.family,
+              subfamily = p.subfamily,
+              classification_status = p.classification_status,
+              unmatched_category = p.unmatched_category,
+              area = p.area,
+              allergens = p.allergens,
+              updated_at = now()
+          FROM jsonb_populate_record(NULL::public.ingredients, v_change.previous_data) p
+          WHERE i.id = v_change.entity_id;
+        WHEN 'ingredient_alias' THEN
+          UPDATE public.ingredient_aliases
+          SET ingredient_id = (v_change.previous_data->>'ingredient_id')::uuid,
+              alias = v_change.previous_data->>'alias',
+              source = v_change.previous_data->>'source'
+          WHERE id = v_change.entity_id;
+        WHEN 'supplier_alias' THEN
+          UPDATE public.supplier_aliases
+          SET supplier_id = (v_change.previous_data->>'supplier_id')::uuid,
+              alias = v_change.previous_data->>'alias',
+              source = v_change.previous_data->>'source'
+          WHERE id = v_change.entity_id;
+        ELSE
+          RAISE EXCEPTION 'Cambio no reversible: % %', v_change.entity_type, v_change.action;
+      END CASE;
+    END IF;
+  END LOOP;
+
+  -- El trigger de precios solo salta en INSERT/UPDATE: tras borrar se recalcula a mano
+  UPDATE public.supplier_prices
+  SET updated_at = now()
+  WHERE id IN (
+    SELECT DISTINCT ON (spr.ingredient_id) sp.id
+    FROM public.supplier_prices sp
+    JOIN public.supplier_products spr ON spr.id = sp.supplier_product_id
+    WHERE spr.ingredient_id = ANY(v_ingredients) AND sp.is_active = true
+  );
+  UPDATE public.ingredients i
+  SET best_price = NULL, best_price_supplier_id = NULL
+  WHERE i.id = ANY(v_ingredients)
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.supplier_prices sp
+    JOIN public.supplier_products spr ON spr.id = sp.supplier_product_id
+    WHERE spr.ingredient_id = i.id AND sp.is_active = true
+  );
+
+  UPDATE public.import_batches
+  SET status = CASE WHEN status = 'failed' THEN 'failed' ELSE 'reverted' END,
+      reverted_at = now()
+  WHERE id = p_batch_id
+  RETURNING * INTO v_batch;
+
+  RETURN v_batch;
+END;
+$$;
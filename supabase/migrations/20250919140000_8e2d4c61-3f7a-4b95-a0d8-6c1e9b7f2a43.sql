@@ -0,0 +1,10 @@
+-- Reglas de validación de la organización: se guardan en normalization_rules de una fila de
+-- file_import_mappings sin formato de archivo, una por organización, junto a las plantillas
+ALTER TABLE public.file_import_mappings
+  ADD COLUMN scope TEXT NOT NULL DEFAULT 'template' CHECK (scope IN ('template', 'organization'));
+
+CREATE UNIQUE INDEX idx_file_import_mappings_org_rules
+ON public.file_import_mappings(organization_id)
+WHERE scope = 'organization';
+
+COMMENT ON COLUMN public.file_import_mappings.scope IS 'template: mapeo aprendido de un formato de archivo; organization: reglas de validación de la organización';
@@ -0,0 +1,11 @@
+-- Detección de archivos subidos dos veces: huella SHA-256 del contenido de cada subida
+ALTER TABLE public.file_uploads ADD COLUMN content_hash TEXT;
+
+CREATE INDEX idx_file_uploads_content_hash ON public.file_uploads(organization_id, content_hash)
+WHERE content_hash IS NOT NULL;
+
+-- Facturas casi duplicadas: mismo proveedor con el mismo número, o misma fecha e importe
+CREATE INDEX idx_purchase_invoices_supplier_tax_id ON public.purchase_invoices(organization_id, supplier_tax_id);
+CREATE INDEX idx_purchase_invoices_date ON public.purchase_invoices(organization_id, invoice_date);
+
+COMMENT ON COLUMN public.file_uploads.content_hash IS 'SHA-256 del archivo en hexadecimal; nulo en las subidas anteriores a la detección de duplicados';
@@ -0,0 +1,50 @@
+-- Revertir un lote restaura lo que la importación cambió en los ingredientes y deja el resto como estaba
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(3);
+
+INSERT INTO public.organizations (id, name)
+VALUES ('00000000-0000-0000-0000-0000000000a1', 'Restaurante de prueba');
+
+INSERT INTO public.ingredients (id, organization_id, name, category, unit_base, area, allergens)
+VALUES ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', 'Leche entera', 'Lácteos', 'l', 'kitchen', '[]');
+
+INSERT INTO public.import_batches (id, organization_id, status, finished_at)
+VALUES ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a1', 'completed', now());
+
+-- Instantánea con las mismas columnas que guarda import-normalized-data
+INSERT INTO public.import_batch_changes (batch_id, organization_id, sequence, entity_type, entity_id, action, previous_data)
+VALUES (
+  '00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a1', 1, 'ingredient',
+  '00000000-0000-0000-0000-0000000000b1', 'updated',
+  jsonb_build_object(
+    'taxonomy_node_id', NULL, 'category', 'Lácteos', 'family', NULL, 'subfamily', NULL,
+    'classification_status', 'pending', 'unmatched_category', NULL, 'area', 'kitchen', 'allergens', '[]'::jsonb
+  )
+);
+
+-- Lo que la importación cambió
+UPDATE public.ingredients
+SET category = 'Bebidas', area = 'both', allergens = '["leche"]'
+WHERE id = '00000000-0000-0000-0000-0000000000b1';
+
+SELECT lives_ok(
+  $$SELECT public.revert_import_batch('00000000-0000-0000-0000-0000000000c1')$$,
+  'el lote se revierte'
+);
+
+SELECT results_eq(
+  $$SELECT category, area FROM public.ingredients WHERE id = '00000000-0000-0000-0000-0000000000b1'$$,
+  $$VALUES ('Lácteos'::text, 'kitchen'::text)$$,
+  'la clasificación y el área vuelven a su valor anterior'
+);
+
+SELECT is(
+  (SELECT unit_base FROM public.ingredients WHERE id = '00000000-0000-0000-0000-0000000000b1'),
+  'l',
+  'la unidad base no cambia al revertir'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -13,6 +13,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Parsing and normalization shared with the edge functions (Deno), one copy for both
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
     },
   },
 }));